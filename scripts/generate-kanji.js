@@ -1,29 +1,204 @@
-// 常用漢字をファイルに出力するスクリプト
+// 文字セット（漢字表・JIS水準・JLPT・頻度順漢字・半角カタカナ・記号の異体・中国語・韓国語）をファイルに出力するスクリプト
+// 使い方: node scripts/generate-kanji.js
 const fs = require('fs');
 const path = require('path');
 const joyoKanjiModule = require('joyo-kanji');
-
-// パッケージは { kanji: [...] } の形式
-const joyoKanji = joyoKanjiModule.kanji;
+const kanjiData = require('kanji-data');
 
 const outputDir = path.join(__dirname, '../src/shared/charsets');
+const JISX0213_TABLE = path.join(__dirname, 'data/jisx0213-2004.txt');
+
+const unique = (chars) => Array.from(new Set(chars)).join('');
+
+// 文字ごとにNFCで正規化する（互換漢字やÅ記号は統合漢字・Åに寄せる）
+// プリセットはNFCの文字列として扱うため、正規化で重複した文字は除く
+// 単独の結合文字は前の文字と合成・並べ替えされないよう、結合クラス順（NFDの並び）で先頭にまとめる
+function normalize(chars) {
+  const list = Array.from(unique(Array.from(chars, char => char.normalize('NFC'))));
+  const marks = list.filter(char => /\p{M}/u.test(char)).join('').normalize('NFD');
+  return marks + list.filter(char => !/\p{M}/u.test(char)).join('');
+}
+
+/**
+ * 2バイトの文字コードを順に復号して文字を取り出す（未定義のコードは読み飛ばす）
+ */
+function decodeDoubleBytes(encoding, leadBytes, trailBytes) {
+  const decoder = new TextDecoder(encoding, { fatal: true });
+  let chars = '';
+  for (const lead of leadBytes) {
+    for (const trail of trailBytes(lead)) {
+      try {
+        chars += decoder.decode(Uint8Array.from([lead, trail]));
+      } catch {
+        // 未定義のコード
+      }
+    }
+  }
+  return chars;
+}
+
+const range = (from, to) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+/**
+ * 94×94 の区点範囲を EUC 形式（各バイトに 0xA0 を加える）で復号する
+ * JIS X 0208（EUC-JP）、GB 2312（GBK）、KS X 1001（EUC-KR）で共通
+ */
+function decodeKuten(encoding, fromKu, toKu, lastTen = 94) {
+  return decodeDoubleBytes(
+    encoding,
+    range(0xa0 + fromKu, 0xa0 + toKu),
+    lead => range(0xa1, lead === 0xa0 + toKu ? 0xa0 + lastTen : 0xfe)
+  );
+}
+
+/**
+ * JIS X 0208 の区点範囲を EUC-JP として復号して文字を取り出す
+ */
+const decodeJisX0208 = (fromKu, toKu) => decodeKuten('euc-jp', fromKu, toKu);
+
+/**
+ * JIS X 0213 の追加分の対応表を読み込む
+ */
+function readJisX0213Table() {
+  return fs.readFileSync(JISX0213_TABLE, 'utf8')
+    .split('\n')
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const [kuten, unicode] = line.split('\t');
+      const [men, ku, ten] = kuten.split('-').map(Number);
+      const chars = unicode.split(' ').map(cp => String.fromCodePoint(parseInt(cp.slice(2), 16))).join('');
+      return { men, ku, ten, chars };
+    });
+}
+
+/**
+ * JIS X 0213 第1面の漢字の区か（第3水準）
+ */
+const isPlane1KanjiRow = (ku) => (ku >= 14 && ku <= 15) || ku >= 47;
+
+// 常用漢字（joyo-kanjiパッケージは { kanji: [...] } の形式）
+const joyoKanji = joyoKanjiModule.kanji.join('');
+
+// JIS X 0208: 第1水準は16〜47区、第2水準は48〜84区
+const jis1Kanji = decodeJisX0208(16, 47);
+const jis2Kanji = decodeJisX0208(48, 84);
+
+// JIS X 0213: 第1面の追加漢字が第3水準、第2面が第4水準
+const jisX0213 = readJisX0213Table();
+const jis3Kanji = jisX0213.filter(c => c.men === 1 && isPlane1KanjiRow(c.ku)).map(c => c.chars).join('');
+const jis4Kanji = jisX0213.filter(c => c.men === 2).map(c => c.chars).join('');
+const jisX0213NonKanji = unique(jisX0213.filter(c => c.men === 1 && !isPlane1KanjiRow(c.ku)).map(c => c.chars).join(''));
+
+// 人名用漢字（KANJIDICの学年9）とJLPTの級別漢字（kanji-dataパッケージ）
+const jinmeiyoKanji = kanjiData.getGrade(9).join('');
+const jlptKanji = [5, 4, 3, 2, 1].map(level => ({ level, chars: kanjiData.getJlpt(level).join('') }));
 
-// 100字ずつに分割
-const chunks = [];
-for (let i = 0; i < joyoKanji.length; i += 100) {
-  chunks.push(joyoKanji.slice(i, i + 100).join(''));
+// 出現頻度順の漢字: KANJIDICの新聞（毎日新聞）での出現順位（上位2501字）のあと、
+// 順位のない常用漢字・JIS第1水準漢字をそれぞれの表の順に続ける
+const rankedKanji = Object.values(require('kanji-data/data/kanji-meta.json'))
+  .filter(meta => meta.freq_mainichi_shinbun)
+  .sort((a, b) => a.freq_mainichi_shinbun - b.freq_mainichi_shinbun)
+  .map(meta => meta.kanji)
+  .join('');
+const kanjiByFrequency = unique(rankedKanji + joyoKanji + jis1Kanji);
+
+// 半角カタカナ（U+FF61〜U+FF9F、半角の句読点・括弧を含む）
+let halfwidthKatakana = '';
+for (let cp = 0xff61; cp <= 0xff9f; cp++) {
+  halfwidthKatakana += String.fromCodePoint(cp);
 }
 
-// kanji.tsファイルを生成
-const content = `// 常用漢字 (${joyoKanji.length}字)
-// joyo-kanjiパッケージから生成
+// 記号の異体: JIS X 0208 の記号（1〜2区）と、変換方式によって割り当てが異なる文字
+// 例: 波ダッシュ（〜 U+301C / ～ U+FF5E）、マイナス（− U+2212 / － U+FF0D）
+const punctuationVariants = unique(
+  decodeJisX0208(1, 2) +
+  '〜～−－‖∥—―‐‾￣¢￠£￡¬￢＼¥￥' +
+  '‘’“”〝〟＂＇' +
+  '｡｢｣､･'
+);
+
+// 簡体字: GB 2312 の第一級漢字（16〜55区、55区は89点まで）
+const gb2312Level1Hanzi = decodeKuten('gbk', 16, 55, 89);
+
+// 繁体字: Big5 の常用字（0xA440〜0xC67E）
+const big5CommonHanzi = decodeDoubleBytes(
+  'big5',
+  range(0xa4, 0xc6),
+  lead => [...range(0x40, 0x7e), ...(lead === 0xc6 ? [] : range(0xa1, 0xfe))]
+);
+
+// 韓国語: KS X 1001 のハングル音節（16〜40区）
+const ksx1001Hangul = decodeKuten('euc-kr', 16, 40);
+
+/**
+ * 文字列を100字ずつに分割した定数の定義を出力
+ */
+function renderCharset(name, comment, chars) {
+  const list = Array.from(normalize(chars));
+  const parts = [];
+  for (let i = 0; i < list.length; i += 100) {
+    // バックスラッシュと引用符をエスケープ
+    parts.push(list.slice(i, i + 100).join('').replace(/\\/g, '\\\\').replace(/'/g, "\\'"));
+  }
+  const partsName = `${name}_PARTS`;
 
-const KANJI_PARTS = [
-${chunks.map((chunk, i) => `  // Part ${i + 1}\n  '${chunk}'`).join(',\n')}
+  return `// ${comment} (${list.length}字)
+const ${partsName} = [
+${parts.map((part, i) => `  // Part ${i + 1}\n  '${part}'`).join(',\n')}
 ];
 
-export const JOYO_KANJI = KANJI_PARTS.join('');
+export const ${name} = ${partsName}.join('');
 `;
+}
+
+/**
+ * 生成したファイルを書き出す
+ */
+function writeCharsetFile(fileName, source, charsets) {
+  const content = `// ${source}から生成（scripts/generate-kanji.js）
+
+${charsets.map(({ name, comment, chars }) => renderCharset(name, comment, chars)).join('\n')}`;
+
+  fs.writeFileSync(path.join(outputDir, fileName), content);
+  console.log(`Generated ${fileName}: ${charsets.map(({ name, chars }) => `${name}=${Array.from(normalize(chars)).length}`).join(', ')}`);
+}
+
+writeCharsetFile('kanji.ts', 'joyo-kanjiパッケージとJIS X 0208（EUC-JP）', [
+  { name: 'JOYO_KANJI', comment: '常用漢字', chars: joyoKanji },
+  { name: 'JIS1_KANJI', comment: 'JIS第1水準漢字', chars: jis1Kanji },
+  { name: 'JIS2_KANJI', comment: 'JIS第2水準漢字', chars: jis2Kanji },
+]);
+
+writeCharsetFile('jisx0213.ts', 'JIS X 0213:2004 の対応表（scripts/data/jisx0213-2004.txt）', [
+  { name: 'JIS3_KANJI', comment: 'JIS第3水準漢字（第1面）', chars: jis3Kanji },
+  { name: 'JIS4_KANJI', comment: 'JIS第4水準漢字（第2面）', chars: jis4Kanji },
+  { name: 'JISX0213_NON_KANJI', comment: 'JIS X 0213 で追加された非漢字', chars: jisX0213NonKanji },
+]);
+
+writeCharsetFile('jinmeiyo.ts', 'kanji-dataパッケージ', [
+  { name: 'JINMEIYO_KANJI', comment: '人名用漢字', chars: jinmeiyoKanji },
+]);
+
+writeCharsetFile('jlpt.ts', 'kanji-dataパッケージ（Jonathan Waller氏のJLPT漢字リスト）', jlptKanji.map(({ level, chars }) => ({
+  name: `JLPT_N${level}_KANJI`,
+  comment: `JLPT N${level}の漢字（N${level}で新たに出題されるもの）`,
+  chars,
+})));
+
+writeCharsetFile('frequency.ts', 'kanji-dataパッケージ（KANJIDICの新聞での出現順位）', [
+  { name: 'KANJI_BY_FREQUENCY', comment: '出現頻度順の漢字（上位2501字以降は常用漢字・JIS第1水準の順）', chars: kanjiByFrequency },
+]);
+
+writeCharsetFile('variants.ts', 'Unicodeの半角形とJIS X 0208（EUC-JP）', [
+  { name: 'HALFWIDTH_KATAKANA', comment: '半角カタカナ（半角の句読点・括弧を含む）', chars: halfwidthKatakana },
+  { name: 'JAPANESE_PUNCTUATION_VARIANTS', comment: '日本語の記号・句読点とその異体', chars: punctuationVariants },
+]);
+
+writeCharsetFile('chinese.ts', 'GB 2312（GBK）と Big5', [
+  { name: 'GB2312_LEVEL1_HANZI', comment: 'GB 2312 第一级汉字（簡体字）', chars: gb2312Level1Hanzi },
+  { name: 'BIG5_COMMON_HANZI', comment: 'Big5 常用字（繁体字）', chars: big5CommonHanzi },
+]);
 
-fs.writeFileSync(path.join(outputDir, 'kanji.ts'), content);
-console.log(`Generated kanji.ts with ${joyoKanji.length} characters`);
+writeCharsetFile('korean.ts', 'KS X 1001（EUC-KR）', [
+  { name: 'KSX1001_HANGUL', comment: 'KS X 1001 のハングル音節', chars: ksx1001Hangul },
+]);
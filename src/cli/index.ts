@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+import {
+  SUBSET_USAGE,
+  CliUsageError,
+  parseSubsetArgs,
+  runSubsetCommand,
+  formatSubsetReport,
+} from './subsetCommand';
+import { FontMinifyError } from '../shared/errors';
+import { setServiceLogger } from '../main/services/logger';
+
+const USAGE = `使い方: fontminify <コマンド> [オプション]
+
+コマンド:
+  subset    フォントをサブセット化してサイズレポートを出力
+
+詳細は fontminify <コマンド> --help を参照してください。`;
+
+/**
+ * CLIエントリーポイント
+ * @returns プロセスの終了コード（0: 成功, 1: 処理失敗, 2: 使用方法の誤り）
+ */
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (!command || command === '-h' || command === '--help') {
+    process.stdout.write(USAGE + '\n');
+    return command ? 0 : 2;
+  }
+
+  if (command !== 'subset') {
+    process.stderr.write(`不明なコマンドです: ${command}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  if (rest.includes('-h') || rest.includes('--help')) {
+    process.stdout.write(SUBSET_USAGE + '\n');
+    return 0;
+  }
+
+  try {
+    const args = parseSubsetArgs(rest);
+
+    // サブセット処理のログはGUI向けのため --verbose 指定時のみ、標準出力を汚さないよう標準エラー出力に表示する
+    // 失敗時のエラーログは常に表示する
+    const quiet = () => undefined;
+    setServiceLogger({
+      log: args.verbose ? console.error : quiet,
+      warn: args.verbose ? console.warn : quiet,
+      error: console.error,
+    });
+
+    const report = await runSubsetCommand(args);
+    process.stdout.write(
+      (args.json ? JSON.stringify(report, null, 2) : formatSubsetReport(report)) + '\n'
+    );
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`エラー: ${message}\n`);
+    if (error instanceof FontMinifyError) {
+      if (error.cause) {
+        process.stderr.write(`${error.cause.message}\n`);
+      }
+      if (error.suggestion) {
+        process.stderr.write(`解決策: ${error.suggestion}\n`);
+      }
+    }
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`\n${SUBSET_USAGE}\n`);
+      return 2;
+    }
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
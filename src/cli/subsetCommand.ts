@@ -0,0 +1,380 @@
+import { parseArgs } from 'util';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { SubsetOptions, OutputFormat, CoverageReport } from '../shared/types';
+import { DEFAULT_SUBSET_OPTIONS } from '../shared/constants';
+import { CHARACTER_PRESETS, MAX_FREQUENCY_KANJI_COUNT, getPresetDefinition, getUniqueCharacters } from '../shared/presets';
+import { validateSubsetOptions } from '../shared/validation';
+import { formatFileSize } from '../shared/utils';
+import { formatMissingCharacters } from '../shared/coverage';
+import { resolveFaceIndices } from '../shared/fontCollection';
+import { TextExtractionResult } from '../shared/textExtraction';
+import {
+  subsetFont,
+  subsetCollectionFaces,
+  determineCharacterSet,
+  calculateCompressionStats,
+  checkCharacterCoverage,
+} from '../main/services/fontSubsetter';
+import { saveFileToPath, generateOutputFileName } from '../main/services/fileManager';
+import { writeFontFaceStylesheet } from '../main/services/stylesheetWriter';
+import { extractCharactersFromPaths } from '../main/services/textExtractor';
+
+/**
+ * `fontminify subset` の解析済み引数
+ */
+export interface SubsetCommandArgs {
+  inputPath: string;
+  preset?: string;
+  textFile?: string;
+  extractPaths?: string[]; // 文字を抽出するサイトのソース（ファイル・ディレクトリ）
+  outputFormat: OutputFormat;
+  outputPath?: string;
+  outDir?: string;
+  variationAxes?: Record<string, number>;
+  faceIndices?: number[];
+  reportPath?: string;
+  css: boolean;
+  json: boolean;
+  verbose: boolean;
+}
+
+/**
+ * サイズレポート
+ */
+export interface SubsetReport {
+  inputPath: string;
+  outputPath: string;
+  outputFormat: OutputFormat;
+  preset?: string;
+  characterCount: number;
+  originalSize: number;
+  outputSize: number;
+  compressionRatio: number;
+  sizeDifference: number;
+  percentReduction: number;
+  variationAxes?: Record<string, number>;
+  stylesheetPath?: string;
+  coverage?: CoverageReport; // フォントに収録されていない要求文字
+  faces?: FaceReport[]; // TTC/OTC の複数書体を出力した場合の書体ごとの結果
+  extractedFileCount?: number; // --extract で文字を抽出したファイル数
+}
+
+/**
+ * 書体ごとの出力結果
+ */
+export interface FaceReport {
+  index: number;
+  postscriptName: string;
+  outputPath: string;
+  outputSize: number;
+  coverage?: CoverageReport; // 書体ごとに収録文字が異なるため個別に判定
+}
+
+/**
+ * CLIの使用方法で起きたエラー（終了コード2で終了する）
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const SUBSET_USAGE = `使い方: fontminify subset <入力フォント> [オプション]
+
+オプション:
+  -p, --preset <id>        文字セットプリセット (${CHARACTER_PRESETS.filter(p => p.id !== 'custom').map(p => p.id).join(', ')})
+                           frequency:<N> で出現頻度の高い漢字の上位N字（N は ${MAX_FREQUENCY_KANJI_COUNT} まで）
+  -t, --text-file <path>   使用する文字を記述したテキストファイル
+  -e, --extract <path>     サイトのソース（HTML/JSX/Vue/Markdown/JSON/PO）から使用文字を抽出
+                           （ファイル・ディレクトリを複数指定可。--text-file と併用可）
+  -f, --format <format>    出力形式 (woff2, woff, ttf, otf)  既定: ${DEFAULT_SUBSET_OPTIONS.outputFormat}
+  -o, --output <path>      出力ファイルパス
+      --out-dir <dir>      出力ディレクトリ（ファイル名は自動生成）
+  -a, --axis <tag=value>   バリアブルフォント軸を固定（複数指定可: -a wght=400 -a wdth=100）
+      --face <index>       TTC/OTC の書体番号（複数指定で書体ごとに出力: --face 0,2）既定: 0
+      --css                @font-face スタイルシートを出力フォントの隣に生成
+  -r, --report <path>      サイズレポートをJSONで保存
+      --json               サイズレポートをJSONで標準出力に表示
+  -v, --verbose            処理ログを表示
+  -h, --help               このヘルプを表示`;
+
+const OUTPUT_FORMATS: OutputFormat[] = ['woff2', 'woff', 'ttf', 'otf'];
+
+/**
+ * `--axis wght=400` 形式の指定を解析
+ */
+export function parseAxisPins(pins: string[]): Record<string, number> {
+  const axes: Record<string, number> = {};
+  for (const pin of pins) {
+    const match = /^([A-Za-z0-9 ]{1,4})=(-?\d+(?:\.\d+)?)$/.exec(pin.trim());
+    if (!match) {
+      throw new CliUsageError(`軸の指定が不正です: ${pin}（例: wght=400）`);
+    }
+    axes[match[1]] = Number(match[2]);
+  }
+  return axes;
+}
+
+/**
+ * `--face 0,2` 形式の書体番号の指定を解析
+ */
+export function parseFaceIndices(values: string[]): number[] {
+  const indices: number[] = [];
+  for (const value of values.flatMap(v => v.split(','))) {
+    if (!/^\d+$/.test(value.trim())) {
+      throw new CliUsageError(`書体番号の指定が不正です: ${value}（例: --face 0,2）`);
+    }
+    indices.push(Number(value));
+  }
+  return resolveFaceIndices(indices);
+}
+
+/**
+ * `subset` コマンドの引数を解析
+ */
+export function parseSubsetArgs(argv: string[]): SubsetCommandArgs {
+  let parsed: ReturnType<typeof parseSubsetArgv>;
+  try {
+    parsed = parseSubsetArgv(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (positionals.length !== 1) {
+    throw new CliUsageError('入力フォントを1つ指定してください');
+  }
+
+  const outputFormat = (values.format ?? DEFAULT_SUBSET_OPTIONS.outputFormat) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    throw new CliUsageError(`無効な出力形式です: ${outputFormat}（${OUTPUT_FORMATS.join(', ')}）`);
+  }
+
+  if (values.preset && values['text-file']) {
+    throw new CliUsageError('--preset と --text-file は同時に指定できません');
+  }
+
+  if (values.preset && values.extract) {
+    throw new CliUsageError('--preset と --extract は同時に指定できません');
+  }
+
+  if (values.preset && (values.preset === 'custom' || !getPresetDefinition(values.preset))) {
+    throw new CliUsageError(`不明なプリセットです: ${values.preset}`);
+  }
+
+  if (values.output && values['out-dir']) {
+    throw new CliUsageError('--output と --out-dir は同時に指定できません');
+  }
+
+  const axisPins = values.axis ?? [];
+  const faces = values.face ?? [];
+
+  return {
+    inputPath: resolve(positionals[0]),
+    preset: values.preset,
+    textFile: values['text-file'] ? resolve(values['text-file']) : undefined,
+    extractPaths: values.extract ? values.extract.map(path => resolve(path)) : undefined,
+    outputFormat,
+    outputPath: values.output ? resolve(values.output) : undefined,
+    outDir: values['out-dir'] ? resolve(values['out-dir']) : undefined,
+    variationAxes: axisPins.length > 0 ? parseAxisPins(axisPins) : undefined,
+    faceIndices: faces.length > 0 ? parseFaceIndices(faces) : undefined,
+    reportPath: values.report ? resolve(values.report) : undefined,
+    css: values.css ?? false,
+    json: values.json ?? false,
+    verbose: values.verbose ?? false,
+  };
+}
+
+function parseSubsetArgv(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      preset: { type: 'string', short: 'p' },
+      'text-file': { type: 'string', short: 't' },
+      extract: { type: 'string', short: 'e', multiple: true },
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string' },
+      axis: { type: 'string', short: 'a', multiple: true },
+      face: { type: 'string', multiple: true },
+      css: { type: 'boolean' },
+      report: { type: 'string', short: 'r' },
+      json: { type: 'boolean' },
+      verbose: { type: 'boolean', short: 'v' },
+    },
+  });
+}
+
+/**
+ * 解析済み引数からGUIと同じSubsetOptionsを構築
+ * extractedCharacters は --extract でソースから抽出した文字（テキストファイルの文字と合わせて使う）
+ */
+export function buildSubsetOptions(args: SubsetCommandArgs, extractedCharacters?: string): SubsetOptions {
+  const outputPath = args.outputPath
+    ?? join(args.outDir ?? dirname(args.inputPath), generateOutputFileName(args.inputPath, args.outputFormat));
+
+  const options: SubsetOptions = {
+    inputPath: args.inputPath,
+    outputPath,
+    outputFormat: args.outputFormat,
+    enableWoff2Compression: DEFAULT_SUBSET_OPTIONS.enableWoff2Compression,
+    removeHinting: DEFAULT_SUBSET_OPTIONS.removeHinting,
+    generateCss: args.css,
+  };
+
+  if (args.textFile || extractedCharacters !== undefined) {
+    if (args.textFile && !existsSync(args.textFile)) {
+      throw new CliUsageError(`テキストファイルが見つかりません: ${args.textFile}`);
+    }
+    const textFileCharacters = args.textFile
+      ? readFileSync(args.textFile, 'utf8').replace(/[\r\n]/g, '')
+      : '';
+    options.customCharacters = getUniqueCharacters(textFileCharacters + (extractedCharacters ?? ''));
+  } else {
+    options.preset = args.preset ?? 'joyo-jis1';
+  }
+
+  if (args.variationAxes) {
+    options.pinVariationAxes = true;
+    options.variationAxes = args.variationAxes;
+  }
+
+  if (args.faceIndices) {
+    options.faceIndices = args.faceIndices;
+  }
+
+  const validation = validateSubsetOptions(options);
+  if (!validation.isValid) {
+    throw new CliUsageError(validation.errors.join('\n'));
+  }
+
+  return options;
+}
+
+/**
+ * サイズレポートを人間が読める形式に整形
+ */
+export function formatSubsetReport(report: SubsetReport): string {
+  const lines = [
+    `入力:     ${report.inputPath}`,
+    ...(report.faces
+      ? report.faces.map(face => `出力:     ${face.outputPath} (書体${face.index}: ${face.postscriptName || '名称なし'}, ${formatFileSize(face.outputSize)})`)
+      : [`出力:     ${report.outputPath}`]),
+    `形式:     ${report.outputFormat.toUpperCase()}`,
+    `文字数:   ${report.characterCount.toLocaleString()}${report.preset ? ` (${report.preset})` : ''}`,
+    ...(report.extractedFileCount !== undefined ? [`抽出元:   ${report.extractedFileCount.toLocaleString()}ファイル`] : []),
+    `サイズ:   ${formatFileSize(report.originalSize)} → ${formatFileSize(report.outputSize)} (${report.percentReduction}% 削減)`,
+  ];
+  if (report.variationAxes) {
+    const pins = Object.entries(report.variationAxes).map(([tag, value]) => `${tag}=${value}`);
+    lines.push(`軸固定:   ${pins.join(', ')}`);
+  }
+  if (report.stylesheetPath) {
+    lines.push(`CSS:      ${report.stylesheetPath}`);
+  }
+  if (report.coverage && report.coverage.missingCount > 0) {
+    lines.push(`未収録:   ${report.coverage.missingCount.toLocaleString()}字 (${formatMissingCharacters(report.coverage)})`);
+  }
+  for (const face of report.faces ?? []) {
+    if (face.coverage && face.coverage.missingCount > 0) {
+      lines.push(`未収録:   書体${face.index}: ${face.coverage.missingCount.toLocaleString()}字 (${formatMissingCharacters(face.coverage)})`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * `subset` コマンドを実行し、サイズレポートを返す
+ */
+export async function runSubsetCommand(args: SubsetCommandArgs): Promise<SubsetReport> {
+  if (!existsSync(args.inputPath)) {
+    throw new CliUsageError(`フォントファイルが見つかりません: ${args.inputPath}`);
+  }
+
+  let extraction: TextExtractionResult | undefined;
+  if (args.extractPaths) {
+    for (const path of args.extractPaths) {
+      if (!existsSync(path)) {
+        throw new CliUsageError(`抽出元が見つかりません: ${path}`);
+      }
+    }
+    extraction = await extractCharactersFromPaths(args.extractPaths);
+    if (args.verbose) {
+      for (const skipped of extraction.skippedFiles) {
+        process.stderr.write(`[extract] スキップ: ${skipped}\n`);
+      }
+    }
+  }
+
+  const options = buildSubsetOptions(args, extraction?.characters);
+  const outputPath = options.outputPath as string;
+  const onProgress = (progress: { phase: string; progress: number }) => {
+    if (args.verbose) {
+      process.stderr.write(`[${progress.phase}] ${progress.progress}%\n`);
+    }
+  };
+
+  let outputSize: number;
+  let stylesheetPath: string | undefined;
+  let faces: FaceReport[] | undefined;
+
+  if (resolveFaceIndices(options.faceIndices).length > 1) {
+    // TTC/OTC の複数書体は書体ごとに別ファイルへ出力
+    faces = [];
+    for (const output of await subsetCollectionFaces(options, onProgress)) {
+      const faceOutputPath = output.outputPath as string;
+      await saveFileToPath(faceOutputPath, output.buffer);
+      if (options.generateCss) {
+        await writeFontFaceStylesheet({ ...options, faceIndices: [output.face.index] }, faceOutputPath);
+      }
+      faces.push({
+        index: output.face.index,
+        postscriptName: output.face.postscriptName,
+        outputPath: faceOutputPath,
+        outputSize: output.buffer.length,
+        coverage: await checkCharacterCoverage({ ...options, faceIndices: [output.face.index] }) ?? undefined,
+      });
+    }
+    outputSize = faces.reduce((sum, face) => sum + face.outputSize, 0);
+  } else {
+    const result = await subsetFont(options, onProgress);
+    await saveFileToPath(outputPath, result);
+    outputSize = result.length;
+    stylesheetPath = options.generateCss
+      ? await writeFontFaceStylesheet(options, outputPath)
+      : undefined;
+  }
+
+  const coverage = faces ? undefined : await checkCharacterCoverage(options) ?? undefined;
+
+  const originalSize = statSync(args.inputPath).size;
+  const characters = determineCharacterSet(options);
+  const stats = calculateCompressionStats(originalSize, outputSize);
+
+  const report: SubsetReport = {
+    inputPath: args.inputPath,
+    outputPath,
+    outputFormat: args.outputFormat,
+    preset: options.preset,
+    characterCount: new Set(characters).size,
+    originalSize,
+    outputSize,
+    ...stats,
+    variationAxes: options.variationAxes,
+    stylesheetPath,
+    coverage,
+    faces,
+    extractedFileCount: extraction?.fileCount,
+  };
+
+  if (args.reportPath) {
+    await saveFileToPath(args.reportPath, Buffer.from(JSON.stringify(report, null, 2) + '\n'));
+  }
+
+  return report;
+}
@@ -1,4 +1,7 @@
-import { FontAnalysis, VariableAxis } from '../shared/types'
+import { CollectionFace, FontAnalysis, NamedInstance, VariableAxis } from '../shared/types'
+import { EMPTY_FONT_METADATA, FontMetadata, extractFontMetadata } from '../shared/fontMetadata'
+import { getCollectionFaces, isFontCollection, selectFontFace } from '../shared/fontCollection'
+import { getNamedInstances } from '../shared/namedInstances'
 
 // fontkitを動的インポートするためのヘルパー
 async function loadFontkit() {
@@ -8,10 +11,12 @@ async function loadFontkit() {
 
 /**
  * フォントを解析（Web版 - Uint8Array入力）
+ * TTC/OTC の場合は faceIndex の書体を解析し、全書体の一覧を faces に含める
  */
 export async function analyzeFont(
   data: Uint8Array,
-  fileName: string
+  fileName: string,
+  faceIndex = 0
 ): Promise<FontAnalysis> {
   try {
     console.log('Starting font analysis for:', fileName)
@@ -38,6 +43,7 @@ export async function analyzeFont(
         format = 'woff2'
         break
       case '.ttc':
+      case '.otc':
         format = 'ttc'
         break
       default:
@@ -51,18 +57,27 @@ export async function analyzeFont(
     let glyphCount = 0
     let isVariableFont = false
     let variableAxes: VariableAxis[] | undefined
+    let namedInstances: NamedInstance[] | undefined
+    let metadata: FontMetadata = EMPTY_FONT_METADATA
+    let faces: CollectionFace[] | undefined
 
     try {
       const fontkit = await loadFontkit()
       // fontkitはUint8Arrayを直接受け入れる（Bufferはブラウザで利用不可）
       const fontOrCollection = fontkit.create(data)
-      const font = 'fonts' in fontOrCollection ? fontOrCollection.fonts[0] : fontOrCollection
+      if (isFontCollection(fontOrCollection)) {
+        faces = getCollectionFaces(fontOrCollection)
+      }
+      const font = selectFontFace(fontOrCollection, faceIndex)
 
       fontFamily = font.familyName || font.fullName || fontFamily
       fontSubfamily = font.subfamilyName || 'Regular'
       version = font.version || '1.0'
       glyphCount = font.numGlyphs || estimateGlyphCount(data.length)
 
+      // cmap・GSUB・GPOS から文字範囲・機能・対応言語を取得
+      metadata = extractFontMetadata(font)
+
       // バリアブルフォントの検出
       if (font.variationAxes) {
         const axes = font.variationAxes
@@ -88,20 +103,30 @@ export async function analyzeFont(
         }
       }
 
+      // 名前付きインスタンス（fvar）
+      if (isVariableFont) {
+        const instances = getNamedInstances(font)
+        namedInstances = instances.length > 0 ? instances : undefined
+      }
+
       console.log('Fontkit analysis:', {
         fontFamily,
         fontSubfamily,
         glyphCount,
         isVariableFont,
-        axesCount: variableAxes?.length || 0
+        axesCount: variableAxes?.length || 0,
+        instanceCount: namedInstances?.length || 0,
+        rangeCount: metadata.characterRanges.length,
+        featureCount: metadata.features.length,
+        languages: metadata.languages,
+        colorFormats: metadata.colorFormats,
+        faceCount: faces?.length,
       })
     } catch (fontkitError) {
       console.warn('Fontkit analysis failed, using fallback:', fontkitError)
       glyphCount = estimateGlyphCount(data.length)
     }
 
-    const characterRanges = getDefaultCharacterRanges()
-
     const analysis: FontAnalysis = {
       fileName,
       fileSize,
@@ -110,12 +135,17 @@ export async function analyzeFont(
       fontSubfamily,
       version,
       glyphCount,
-      characterRanges,
-      features: [],
-      languages: ['ja', 'en'],
-      hasColorEmoji: false,
+      characterRanges: metadata.characterRanges,
+      features: metadata.features,
+      languages: metadata.languages,
+      hasColorEmoji: metadata.hasColorEmoji,
+      colorFormats: metadata.colorFormats,
       isVariableFont,
       axes: variableAxes,
+      namedInstances,
+      codePoints: metadata.codePoints,
+      faces,
+      faceIndex: faces ? faceIndex : undefined,
     }
 
     console.log('Analysis completed successfully:', analysis)
@@ -132,12 +162,3 @@ function estimateGlyphCount(byteLength: number): number {
   const estimate = Math.floor(byteLength / 100)
   return Math.max(estimate, 100)
 }
-
-function getDefaultCharacterRanges() {
-  return [
-    { start: 0x0000, end: 0x007F, name: 'Basic Latin' },
-    { start: 0x3040, end: 0x309F, name: 'Hiragana' },
-    { start: 0x30A0, end: 0x30FF, name: 'Katakana' },
-    { start: 0x4E00, end: 0x9FFF, name: 'CJK Unified Ideographs' },
-  ]
-}
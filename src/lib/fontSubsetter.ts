@@ -1,5 +1,14 @@
-import { OutputFormat } from '../shared/types'
+import { AxisRange, CoverageReport, NamedInstance, OutputFormat, PreserveFeatures } from '../shared/types'
+import { resolveFeaturePlan, SubsetFeaturePlan } from '../shared/layoutFeatures'
+import { checkCoverage } from '../shared/coverage'
+import { assertFaceIndex } from '../shared/fontCollection'
+import { getInstanceFileName } from '../shared/namedInstances'
+import { FontMinifyError } from '../shared/errors'
+import { HarfbuzzExports, instantiateHarfbuzz, runHarfbuzzSubset } from '../shared/harfbuzzSubset'
 import { encodeToWoff2 } from './woff2Encoder'
+import { encodeToWoff } from './woffEncoder'
+import { getSourceCodePoints, verifySubsetOutput } from './subsetVerifier'
+import { splitIntoChunks } from './unicodeRange'
 
 /**
  * プログレスコールバックの型
@@ -21,6 +30,12 @@ export interface WebSubsetOptions {
   fileName: string
   variationAxes?: Record<string, number>
   pinVariationAxes?: boolean
+  variationAxisRanges?: Record<string, AxisRange> // 軸を固定しない場合に残す範囲
+  preserveFeatures?: PreserveFeatures
+  featureTags?: Record<string, boolean>
+  fontCodePoints?: number[] // 元フォントのcmap（指定時は結果に収録状況を含める）
+  faceIndex?: number // TTC/OTC の書体番号
+  woffMetadata?: string // WOFF出力時に埋め込む拡張メタデータXML
 }
 
 /**
@@ -31,43 +46,68 @@ export interface SubsetResult {
   originalSize: number
   outputSize: number
   fileName: string
+  coverage?: CoverageReport
 }
 
-// harfbuzzjs WASMエクスポート
-interface HarfbuzzExports {
-  memory: WebAssembly.Memory
-  malloc: (size: number) => number
-  free: (ptr: number) => void
-  hb_blob_create: (data: number, length: number, mode: number, userData: number, destroy: number) => number
-  hb_blob_destroy: (blob: number) => void
-  hb_blob_get_data: (blob: number, length: number) => number
-  hb_blob_get_length: (blob: number) => number
-  hb_face_create: (blob: number, index: number) => number
-  hb_face_destroy: (face: number) => void
-  hb_face_reference_blob: (face: number) => number
-  hb_subset_input_create_or_fail: () => number
-  hb_subset_input_destroy: (input: number) => void
-  hb_subset_input_unicode_set: (input: number) => number
-  hb_set_add: (set: number, codepoint: number) => void
-  hb_subset_or_fail: (face: number, input: number) => number
-  // 軸固定用関数
-  hb_subset_input_pin_axis_location: (input: number, face: number, axisTag: number, axisValue: number) => number
+/**
+ * 名前付きインスタンスごとのサブセット処理オプション
+ */
+export interface InstanceSubsetOptions extends Omit<WebSubsetOptions, 'variationAxes' | 'pinVariationAxes' | 'variationAxisRanges'> {
+  instances: NamedInstance[]
 }
 
-let wasmExports: HarfbuzzExports | null = null
-let wasmLoading: Promise<void> | null = null
+/**
+ * 名前付きインスタンス1つ分の結果
+ */
+export interface InstanceSubsetResult extends SubsetResult {
+  instance: NamedInstance
+}
+
+/**
+ * 分割サブセット処理オプション
+ */
+export interface SlicedSubsetOptions {
+  text: string
+  fileName: string
+  chunkCount: number
+  variationAxes?: Record<string, number>
+  pinVariationAxes?: boolean
+  variationAxisRanges?: Record<string, AxisRange>
+  preserveFeatures?: PreserveFeatures
+  featureTags?: Record<string, boolean>
+  fontCodePoints?: number[] // 元フォントのcmap（指定時は結果に収録状況を含める）
+  faceIndex?: number // TTC/OTC の書体番号
+}
 
 /**
- * 軸タグ文字列を数値に変換（HarfBuzz形式）
+ * 分割された1ファイル分の結果
  */
-function HB_TAG(str: string): number {
-  return str.split('').reduce((a, ch) => (a << 8) + ch.charCodeAt(0), 0)
+export interface SubsetChunk {
+  index: number
+  data: Uint8Array
+  fileName: string
+  unicodeRange: string
+  characterCount: number
+  outputSize: number
 }
 
+/**
+ * 分割サブセット処理結果
+ */
+export interface SlicedSubsetResult {
+  chunks: SubsetChunk[]
+  originalSize: number
+  totalSize: number
+  coverage?: CoverageReport
+}
+
+let wasmExports: HarfbuzzExports | null = null
+let wasmLoading: Promise<void> | null = null
+
 /**
  * harfbuzzjs WASMを初期化
  */
-async function initWasm(): Promise<void> {
+export async function initWasm(): Promise<void> {
   if (wasmExports) return
   if (wasmLoading) return wasmLoading
 
@@ -86,9 +126,7 @@ async function initWasm(): Promise<void> {
         throw new Error(`WASM fetch failed: ${response.status}`)
       }
 
-      const wasmBuffer = await response.arrayBuffer()
-      const { instance } = await WebAssembly.instantiate(wasmBuffer)
-      wasmExports = instance.exports as unknown as HarfbuzzExports
+      wasmExports = await instantiateHarfbuzz(await response.arrayBuffer())
 
       console.log('WASM loaded successfully')
     } catch (error) {
@@ -102,103 +140,30 @@ async function initWasm(): Promise<void> {
 
 /**
  * harfbuzzjs WASMを使用してフォントをサブセット化（TTF出力）
+ * TTC/OTC の場合は faceIndex の書体のみを出力する
  */
 function subsetWithHarfbuzz(
   fontData: Uint8Array,
   text: string,
   variationAxes?: Record<string, number>,
-  pinVariationAxes?: boolean
+  pinVariationAxes?: boolean,
+  variationAxisRanges?: Record<string, AxisRange>,
+  featurePlan: SubsetFeaturePlan = resolveFeaturePlan({}),
+  faceIndex = 0
 ): Uint8Array {
   if (!wasmExports) {
     throw new Error('WASM not initialized')
   }
-
-  const exports = wasmExports
-  const heapu8 = new Uint8Array(exports.memory.buffer)
-
-  // フォントデータをWASMメモリにコピー
-  const fontBuffer = exports.malloc(fontData.byteLength)
-  heapu8.set(fontData, fontBuffer)
-
-  // フェイス作成
-  const blob = exports.hb_blob_create(
-    fontBuffer,
-    fontData.byteLength,
-    2, // HB_MEMORY_MODE_WRITABLE
-    0,
-    0
-  )
-  const face = exports.hb_face_create(blob, 0)
-  exports.hb_blob_destroy(blob)
-
-  // サブセット入力設定
-  const input = exports.hb_subset_input_create_or_fail()
-  if (!input) {
-    exports.hb_face_destroy(face)
-    exports.free(fontBuffer)
-    throw new Error('Failed to create subset input')
-  }
-
-  const unicodeSet = exports.hb_subset_input_unicode_set(input)
-
-  // テキストの各文字のコードポイントを追加
-  for (const char of text) {
-    const codePoint = char.codePointAt(0)
-    if (codePoint !== undefined) {
-      exports.hb_set_add(unicodeSet, codePoint)
-    }
-  }
-
-  // 軸固定オプションの処理
-  if (pinVariationAxes && variationAxes && Object.keys(variationAxes).length > 0) {
-    console.log('Pinning variation axes:', variationAxes)
-    for (const [axisTag, axisValue] of Object.entries(variationAxes)) {
-      const tag = HB_TAG(axisTag)
-      const result = exports.hb_subset_input_pin_axis_location(input, face, tag, axisValue)
-      if (!result) {
-        console.warn(`Failed to pin axis ${axisTag} to ${axisValue}`)
-      } else {
-        console.log(`Pinned axis ${axisTag} to ${axisValue}`)
-      }
-    }
-  }
-
-  // サブセット実行
-  const subset = exports.hb_subset_or_fail(face, input)
-  exports.hb_subset_input_destroy(input)
-
-  if (!subset) {
-    exports.hb_face_destroy(face)
-    exports.free(fontBuffer)
-    throw new Error('Subset operation failed')
-  }
-
-  // 結果取得
-  const resultBlob = exports.hb_face_reference_blob(subset)
-  const offset = exports.hb_blob_get_data(resultBlob, 0)
-  const length = exports.hb_blob_get_length(resultBlob)
-
-  if (length === 0) {
-    exports.hb_blob_destroy(resultBlob)
-    exports.hb_face_destroy(subset)
-    exports.hb_face_destroy(face)
-    exports.free(fontBuffer)
-    throw new Error('Empty subset result')
-  }
-
-  // 結果をコピー（WASMメモリは上書きされる可能性があるため）
-  // メモリが再配置された可能性があるので再取得
-  const currentHeap = new Uint8Array(exports.memory.buffer)
-  const result = new Uint8Array(length)
-  result.set(currentHeap.subarray(offset, offset + length))
-
-  // クリーンアップ
-  exports.hb_blob_destroy(resultBlob)
-  exports.hb_face_destroy(subset)
-  exports.hb_face_destroy(face)
-  exports.free(fontBuffer)
-
-  return result
+  assertFaceIndex(fontData, faceIndex)
+
+  // 軸を固定しない場合は指定した範囲だけを可変のまま残す
+  return runHarfbuzzSubset(wasmExports, fontData, {
+    text,
+    featurePlan,
+    variationAxes: pinVariationAxes ? variationAxes : undefined,
+    variationAxisRanges: pinVariationAxes ? undefined : variationAxisRanges,
+    faceIndex
+  })
 }
 
 /**
@@ -209,6 +174,28 @@ function generateOutputFileName(originalName: string, format: OutputFormat): str
   return `${baseName}-subset.${format}`
 }
 
+/**
+ * 分割出力用のファイル名を生成
+ */
+function generateChunkFileName(originalName: string, index: number): string {
+  const baseName = originalName.replace(/\.[^/.]+$/, '')
+  return `${baseName}-subset.${index}.woff2`
+}
+
+/**
+ * キャンセルされていれば中断
+ * イベントループに一度制御を戻し、Workerが処理中に届いたキャンセル要求を受け取れるようにする
+ */
+async function throwIfAborted(abortSignal?: AbortSignal): Promise<void> {
+  if (!abortSignal) {
+    return
+  }
+  await new Promise(resolve => setTimeout(resolve, 0))
+  if (abortSignal.aborted) {
+    throw new DOMException('Aborted', 'AbortError')
+  }
+}
+
 /**
  * フォントをサブセット化するメイン関数
  */
@@ -235,9 +222,7 @@ export async function subsetFont(
 
     await initWasm()
 
-    if (abortSignal?.aborted) {
-      throw new DOMException('Aborted', 'AbortError')
-    }
+    await throwIfAborted(abortSignal)
 
     // フェーズ2: サブセット化
     progressCallback?.({
@@ -255,13 +240,14 @@ export async function subsetFont(
       data,
       options.text,
       options.variationAxes,
-      options.pinVariationAxes
+      options.pinVariationAxes,
+      options.variationAxisRanges,
+      resolveFeaturePlan(options, options.text),
+      options.faceIndex
     )
     console.log('Subset completed:', ttfData.length, 'bytes')
 
-    if (abortSignal?.aborted) {
-      throw new DOMException('Aborted', 'AbortError')
-    }
+    await throwIfAborted(abortSignal)
 
     // フェーズ3: フォーマット変換（必要な場合）
     let outputData: Uint8Array
@@ -275,11 +261,38 @@ export async function subsetFont(
 
       outputData = await encodeToWoff2(ttfData)
       console.log('WOFF2 compression completed:', outputData.length, 'bytes')
+    } else if (options.outputFormat === 'woff') {
+      progressCallback?.({
+        stage: 'compressing',
+        progress: 70,
+        message: 'WOFFに圧縮中...'
+      })
+
+      outputData = await encodeToWoff(ttfData, { metadata: options.woffMetadata })
+      console.log('WOFF compression completed:', outputData.length, 'bytes')
     } else {
       outputData = ttfData
     }
 
-    // フェーズ4: 完了
+    // フェーズ4: 出力の検証
+    progressCallback?.({
+      stage: 'verifying',
+      progress: 90,
+      message: '出力を検証中...'
+    })
+
+    const fileName = generateOutputFileName(options.fileName, options.outputFormat)
+    await verifySubsetOutput({
+      output: outputData,
+      outputFormat: options.outputFormat,
+      text: options.text,
+      sourceCodePoints: await getSourceCodePoints(data, options.faceIndex, options.fontCodePoints),
+      source: data,
+      faceIndex: options.faceIndex,
+      fileName
+    })
+
+    // フェーズ5: 完了
     const endTime = performance.now()
     const processingTime = ((endTime - startTime) / 1000).toFixed(2)
 
@@ -289,21 +302,156 @@ export async function subsetFont(
       message: `完了 (${processingTime}秒)`
     })
 
-    const fileName = generateOutputFileName(options.fileName, options.outputFormat)
-
     return {
       data: outputData,
       originalSize: data.length,
       outputSize: outputData.length,
-      fileName
+      fileName,
+      coverage: options.fontCodePoints ? checkCoverage(options.text, options.fontCodePoints) : undefined
     }
   } catch (error) {
     if (error instanceof DOMException && error.name === 'AbortError') {
       throw error
     }
+    if (error instanceof FontMinifyError) {
+      throw error
+    }
 
     console.error('Subset error:', error)
     const errorMessage = error instanceof Error ? error.message : String(error)
     throw new Error(`サブセット化に失敗しました: ${errorMessage}`)
   }
 }
+
+/**
+ * 名前付きインスタンスごとに軸値を固定してサブセット化し、静的フォントのファミリーとして返す
+ */
+export async function subsetNamedInstances(
+  data: Uint8Array,
+  options: InstanceSubsetOptions,
+  progressCallback?: ProgressCallback,
+  abortSignal?: AbortSignal
+): Promise<InstanceSubsetResult[]> {
+  const { instances, ...subsetOptions } = options
+  if (instances.length === 0) {
+    throw new Error('名前付きインスタンスを持つバリアブルフォントではないためインスタンスごとに出力できません')
+  }
+
+  const results: InstanceSubsetResult[] = []
+  for (const [i, instance] of instances.entries()) {
+    // インスタンスごとの進捗を全体の進捗に換算
+    const result = await subsetFont(
+      data,
+      { ...subsetOptions, variationAxes: instance.coordinates, pinVariationAxes: true },
+      progress => progressCallback?.({
+        ...progress,
+        stage: progress.stage === 'complete' && i < instances.length - 1 ? 'subsetting' : progress.stage,
+        progress: Math.round((i * 100 + progress.progress) / instances.length),
+        message: `${instance.name} (${i + 1}/${instances.length}): ${progress.message}`
+      }),
+      abortSignal
+    )
+    results.push({ ...result, instance, fileName: getInstanceFileName(result.fileName, instance) })
+  }
+  return results
+}
+
+/**
+ * 文字セットを頻度順のチャンクに分割し、チャンクごとにWOFF2を生成する
+ * （Google Fonts方式のunicode-range分割配信用）
+ */
+export async function subsetFontSliced(
+  data: Uint8Array,
+  options: SlicedSubsetOptions,
+  progressCallback?: ProgressCallback,
+  abortSignal?: AbortSignal
+): Promise<SlicedSubsetResult> {
+  const startTime = performance.now()
+
+  if (abortSignal?.aborted) {
+    throw new DOMException('Aborted', 'AbortError')
+  }
+
+  try {
+    progressCallback?.({
+      stage: 'initializing',
+      progress: 5,
+      message: 'サブセットエンジンを初期化中...'
+    })
+
+    await initWasm()
+
+    const featurePlan = resolveFeaturePlan(options, options.text)
+    const characterChunks = splitIntoChunks(options.text, options.chunkCount)
+    if (characterChunks.length === 0) {
+      throw new Error('文字セットが空です')
+    }
+
+    const sourceCodePoints = await getSourceCodePoints(data, options.faceIndex, options.fontCodePoints)
+    const chunks: SubsetChunk[] = []
+    for (const chunk of characterChunks) {
+      await throwIfAborted(abortSignal)
+
+      progressCallback?.({
+        stage: 'subsetting',
+        progress: Math.round(10 + (chunk.index / characterChunks.length) * 85),
+        message: `チャンク ${chunk.index + 1}/${characterChunks.length} をサブセット化中...`
+      })
+
+      const ttfData = subsetWithHarfbuzz(
+        data,
+        chunk.characters,
+        options.variationAxes,
+        options.pinVariationAxes,
+        options.variationAxisRanges,
+        featurePlan,
+        options.faceIndex
+      )
+      const woff2Data = await encodeToWoff2(ttfData)
+      const fileName = generateChunkFileName(options.fileName, chunk.index)
+      await verifySubsetOutput({
+          output: woff2Data,
+        outputFormat: 'woff2',
+        text: chunk.characters,
+        sourceCodePoints,
+        source: data,
+        faceIndex: options.faceIndex,
+        fileName
+      })
+
+      chunks.push({
+        index: chunk.index,
+        data: woff2Data,
+        fileName,
+        unicodeRange: chunk.unicodeRange,
+        characterCount: Array.from(chunk.characters).length,
+        outputSize: woff2Data.length
+      })
+    }
+
+    const processingTime = ((performance.now() - startTime) / 1000).toFixed(2)
+    progressCallback?.({
+      stage: 'complete',
+      progress: 100,
+      message: `完了 (${chunks.length}ファイル, ${processingTime}秒)`
+    })
+
+    return {
+      chunks,
+      originalSize: data.length,
+      totalSize: chunks.reduce((sum, chunk) => sum + chunk.outputSize, 0),
+      coverage: options.fontCodePoints ? checkCoverage(options.text, options.fontCodePoints) : undefined
+    }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error
+    }
+    if (error instanceof FontMinifyError) {
+      throw error
+    }
+
+    console.error('Sliced subset error:', error)
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(`分割サブセット化に失敗しました: ${errorMessage}`)
+  }
+}
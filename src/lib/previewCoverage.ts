@@ -0,0 +1,17 @@
+import { selectFontFace } from '../shared/fontCollection'
+import { SubsetPreviewSource, getOutputCodePoints } from '../shared/preview'
+
+// fontkitを動的インポートするためのヘルパー
+async function loadFontkit() {
+  const fontkit = await import('fontkit')
+  return fontkit.default || fontkit
+}
+
+/**
+ * 出力したフォント（WOFF/WOFF2 を含む）の cmap を fontkit で読み取り、
+ * プレビューで収録済みとして扱うコードポイントを返す
+ */
+export async function readPreviewCodePoints(sources: SubsetPreviewSource[]): Promise<number[]> {
+  const fontkit = await loadFontkit()
+  return getOutputCodePoints(sources.map(source => selectFontFace(fontkit.create(source.data)).characterSet))
+}
@@ -0,0 +1,65 @@
+import { OutputFormat, SizeEstimate, SizeEstimateOptions } from '../shared/types'
+import { selectFontFace } from '../shared/fontCollection'
+import {
+  calibrateSizeEstimate,
+  estimateSizeFromFont,
+  isSfnt,
+  resolveEstimationTables,
+  selectCalibrationSample,
+  SizeEstimationOptions
+} from '../shared/sizeEstimation'
+import { subsetFont } from './fontSubsetter'
+
+// fontkitを動的インポートするためのヘルパー
+async function loadFontkit() {
+  const fontkit = await import('fontkit')
+  return fontkit.default || fontkit
+}
+
+/**
+ * サブセット後のファイルサイズを推定（Web版 - Uint8Array入力）
+ * グリフごとのアウトラインのサイズと残すテーブルから推定し、
+ * 較正する場合はサンプルの文字を実際にサブセット化した結果で補正する（誤差幅を含めて返す）
+ */
+export async function estimateSubsetSize(
+  data: Uint8Array,
+  text: string,
+  outputFormat: OutputFormat,
+  options: Omit<SizeEstimateOptions, 'outputFormat' | 'removeHinting'> = {}
+): Promise<SizeEstimate> {
+  const faceIndex = options.faceIndex ?? 0
+  const fontkit = await loadFontkit()
+  const font = selectFontFace(fontkit.create(data), faceIndex)
+  const estimationOptions: SizeEstimationOptions = {
+    outputFormat,
+    faceIndex,
+    ...resolveEstimationTables(options, text)
+  }
+  const estimate = estimateSizeFromFont(data, font, text, estimationOptions)
+
+  // harfbuzz は SFNT のみ扱えるため、WOFF/WOFF2 の入力は較正しない
+  if (options.calibrate === false || !isSfnt(data)) {
+    return estimate
+  }
+  const sample = selectCalibrationSample(font, text)
+  if (!sample.text) {
+    return estimate
+  }
+  const result = await subsetFont(data, {
+    text: sample.text,
+    outputFormat,
+    fileName: 'sample',
+    faceIndex,
+    variationAxes: options.variationAxes,
+    pinVariationAxes: options.pinVariationAxes,
+    variationAxisRanges: options.variationAxisRanges,
+    preserveFeatures: options.preserveFeatures,
+    featureTags: options.featureTags
+  })
+  return calibrateSizeEstimate(
+    estimate,
+    estimateSizeFromFont(data, font, sample.text, estimationOptions),
+    sample,
+    result.outputSize
+  )
+}
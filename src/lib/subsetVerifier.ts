@@ -0,0 +1,74 @@
+import { decompress } from 'woff2-encoder'
+import { decodeWoff } from './woffEncoder'
+import { OutputFormat } from '../shared/types'
+import { createSubsetVerificationFailedError } from '../shared/errors'
+import { selectFontFace } from '../shared/fontCollection'
+import {
+  SubsetVerificationResult,
+  getExpectedCodePoints,
+  verifySubsetFont
+} from '../shared/subsetVerification'
+
+// fontkitを動的インポートするためのヘルパー
+async function loadFontkit() {
+  const fontkit = await import('fontkit')
+  return fontkit.default || fontkit
+}
+
+/**
+ * サブセット結果の検証入力
+ */
+export interface SubsetVerificationInput {
+  output: Uint8Array // 保存するデータ（WOFF/WOFF2の場合は圧縮後）
+  outputFormat: OutputFormat
+  text: string
+  sourceCodePoints: Iterable<number> // 元フォントのcmap
+  source: Uint8Array // 元フォント（グリフが空かどうかの比較に使う）
+  faceIndex?: number
+  fileName: string
+}
+
+/**
+ * 元フォントのcmapを取得（解析済みのcmapがあればそれを使う）
+ */
+export async function getSourceCodePoints(
+  data: Uint8Array,
+  faceIndex = 0,
+  fontCodePoints?: number[]
+): Promise<Iterable<number>> {
+  if (fontCodePoints) {
+    return fontCodePoints
+  }
+  const fontkit = await loadFontkit()
+  return selectFontFace(fontkit.create(data), faceIndex).characterSet
+}
+
+/**
+ * サブセット結果を fontkit で再解析し、テーブルのチェックサムと
+ * 要求文字（元フォントに収録されていたもの）のグリフ割り当てを検証する
+ * WOFF2 は展開して同じ検証を行い、問題があれば SUBSET_VERIFICATION_FAILED を投げる
+ */
+export async function verifySubsetOutput(input: SubsetVerificationInput): Promise<SubsetVerificationResult> {
+  const expectedCodePoints = getExpectedCodePoints(input.text, input.sourceCodePoints)
+
+  let result: SubsetVerificationResult
+  try {
+    const fontkit = await loadFontkit()
+    // WOFF/WOFF2 は保存するデータを展開したSFNTを検証する
+    const sfnt = input.outputFormat === 'woff2'
+      ? await decompress(input.output)
+      : input.outputFormat === 'woff' ? await decodeWoff(input.output) : input.output
+    const font = selectFontFace(fontkit.create(sfnt))
+    const sourceFont = selectFontFace(fontkit.create(input.source), input.faceIndex)
+    result = verifySubsetFont(sfnt, font, expectedCodePoints, sourceFont)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw createSubsetVerificationFailedError(input.fileName, [`出力ファイルを解析できません: ${errorMessage}`])
+  }
+
+  if (!result.valid) {
+    throw createSubsetVerificationFailedError(input.fileName, result.issues)
+  }
+  console.log('Subset verification passed:', expectedCodePoints.length, 'code points')
+  return result
+}
@@ -0,0 +1,201 @@
+import { isSfnt, readTableDirectory } from '../shared/sizeEstimation'
+
+/**
+ * テーブル1つ分のサイズ
+ * length は SFNT に展開した時のサイズ、storedLength はファイル内のサイズ
+ * （WOFF は zlib 圧縮後、WOFF2 は glyf/loca/hmtx の変換後・Brotli 圧縮前）
+ */
+export interface TableSize {
+  tag: string
+  length: number
+  storedLength: number
+  transformed?: boolean // WOFF2 で変換して格納されている
+}
+
+/**
+ * フォントファイルのテーブルごとのサイズの内訳
+ */
+export interface TableSizeBreakdown {
+  format: 'sfnt' | 'woff' | 'woff2'
+  fileSize: number
+  tables: TableSize[]
+  compressedSize?: number // WOFF2 の Brotli 圧縮後のテーブルデータ全体のサイズ（テーブルごとには分からない）
+}
+
+export type TableSizeSortKey = 'size' | 'tag'
+
+// 表示用のテーブルの説明（主なもの）
+export const TABLE_DESCRIPTIONS: Record<string, string> = {
+  glyf: 'アウトライン（TrueType）',
+  loca: 'グリフ位置',
+  'CFF ': 'アウトライン（CFF）',
+  CFF2: 'アウトライン（CFF2）',
+  gvar: '可変グリフ',
+  GSUB: '字形置換（合字・縦書きなど）',
+  GPOS: '字形配置（カーニングなど）',
+  GDEF: 'グリフ定義',
+  cmap: '文字コード対応表',
+  name: '名前',
+  hmtx: '横方向の幅',
+  vmtx: '縦方向の高さ',
+  post: 'PostScript 名',
+  fpgm: 'ヒンティング',
+  prep: 'ヒンティング',
+  'cvt ': 'ヒンティング',
+  cvar: 'ヒンティング（可変）',
+  hdmx: 'ヒンティング',
+  VDMX: 'ヒンティング',
+  LTSH: 'ヒンティング',
+  gasp: 'ヒンティング',
+  kern: 'カーニング（旧形式）',
+  COLR: 'カラー',
+  CPAL: 'カラーパレット',
+  CBDT: 'カラービットマップ',
+  sbix: 'カラービットマップ',
+  'SVG ': 'SVG グリフ',
+  DSIG: 'デジタル署名'
+}
+
+const WOFF_SIGNATURE = 0x774F4646 // 'wOFF'
+const WOFF2_SIGNATURE = 0x774F4632 // 'wOF2'
+const WOFF_HEADER_SIZE = 44
+const WOFF_TABLE_ENTRY_SIZE = 20
+const WOFF2_HEADER_SIZE = 48
+
+// WOFF2 のテーブルディレクトリで番号だけで表すタグ（flags の下位6ビット、63 はタグを続けて格納）
+const WOFF2_KNOWN_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep', 'CFF ', 'VORG', 'EBDT',
+  'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS', 'GSUB', 'EBSC', 'JSTF', 'MATH',
+  'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar', 'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar',
+  'gvar', 'hsty', 'just', 'lcar', 'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'
+]
+const WOFF2_CUSTOM_TAG = 0x3f
+
+function readTag(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3])
+}
+
+/**
+ * WOFF2 の UIntBase128（7ビットずつ、最大5バイト）を読み取る
+ */
+function readUIntBase128(data: Uint8Array, offset: number): { value: number; next: number } {
+  let value = 0
+  for (let i = 0; i < 5; i++) {
+    if (offset + i >= data.length) {
+      break
+    }
+    const byte = data[offset + i]
+    if (i === 0 && byte === 0x80) {
+      throw new Error('WOFF2のテーブルディレクトリが不正です')
+    }
+    value = value * 128 + (byte & 0x7f)
+    if ((byte & 0x80) === 0) {
+      return { value, next: offset + i + 1 }
+    }
+  }
+  throw new Error('WOFF2のテーブルディレクトリが不正です')
+}
+
+function readWoffTables(data: Uint8Array, view: DataView): TableSize[] {
+  const numTables = view.getUint16(12)
+  if (data.length < WOFF_HEADER_SIZE + numTables * WOFF_TABLE_ENTRY_SIZE) {
+    throw new Error('テーブルディレクトリが不完全です')
+  }
+  const tables: TableSize[] = []
+  for (let i = 0; i < numTables; i++) {
+    const entry = WOFF_HEADER_SIZE + i * WOFF_TABLE_ENTRY_SIZE
+    tables.push({
+      tag: readTag(data, entry),
+      length: view.getUint32(entry + 12),
+      storedLength: view.getUint32(entry + 8)
+    })
+  }
+  return tables
+}
+
+function readWoff2Tables(data: Uint8Array, view: DataView): TableSize[] {
+  const numTables = view.getUint16(12)
+  const tables: TableSize[] = []
+  let position = WOFF2_HEADER_SIZE
+  for (let i = 0; i < numTables; i++) {
+    if (position >= data.length) {
+      throw new Error('テーブルディレクトリが不完全です')
+    }
+    const flags = data[position++]
+    let tag = WOFF2_KNOWN_TAGS[flags & 0x3f]
+    if ((flags & 0x3f) === WOFF2_CUSTOM_TAG) {
+      tag = readTag(data, position)
+      position += 4
+    }
+    const origLength = readUIntBase128(data, position)
+    position = origLength.next
+
+    // glyf/loca は変換バージョン 0 が変換あり、それ以外のテーブルは 0 が変換なし
+    const transformVersion = (flags >> 6) & 0x03
+    const transformed = tag === 'glyf' || tag === 'loca' ? transformVersion === 0 : transformVersion !== 0
+    let storedLength = origLength.value
+    if (transformed) {
+      const transformLength = readUIntBase128(data, position)
+      position = transformLength.next
+      storedLength = transformLength.value
+    }
+    tables.push({ tag, length: origLength.value, storedLength, ...(transformed ? { transformed } : {}) })
+  }
+  return tables
+}
+
+/**
+ * フォントファイル（TTF/OTF/TTC/OTC/WOFF/WOFF2）のテーブルごとのサイズを読み取る
+ * TTC/OTC は指定した書体のテーブル（他の書体と共有するものを含む）を読む
+ * WOFF2 のコレクションは全書体のテーブルを返す
+ */
+export function getTableSizes(data: Uint8Array, faceIndex = 0): TableSizeBreakdown {
+  if (isSfnt(data)) {
+    const tables = readTableDirectory(data, faceIndex).map(({ tag, length }) => ({ tag, length, storedLength: length }))
+    return { format: 'sfnt', fileSize: data.length, tables }
+  }
+
+  if (data.length < WOFF_HEADER_SIZE) {
+    throw new Error('フォントファイルとして認識できません')
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const signature = view.getUint32(0)
+  if (signature === WOFF_SIGNATURE) {
+    return { format: 'woff', fileSize: data.length, tables: readWoffTables(data, view) }
+  }
+  if (signature === WOFF2_SIGNATURE && data.length >= WOFF2_HEADER_SIZE) {
+    return {
+      format: 'woff2',
+      fileSize: data.length,
+      tables: readWoff2Tables(data, view),
+      compressedSize: view.getUint32(20)
+    }
+  }
+  throw new Error('フォントファイルとして認識できません')
+}
+
+/**
+ * 表示用にテーブルごとのサイズを読み取る（データがない・読み取れない場合は null）
+ */
+export function tryGetTableSizes(data: Uint8Array | null | undefined, faceIndex = 0): TableSizeBreakdown | null {
+  if (!data) {
+    return null
+  }
+  try {
+    return getTableSizes(data, faceIndex)
+  } catch (error) {
+    console.warn('Table size breakdown failed:', error)
+    return null
+  }
+}
+
+/**
+ * 内訳をファイル内のサイズの大きい順、またはタグ順に並べる
+ */
+export function sortTableSizes(tables: TableSize[], key: TableSizeSortKey): TableSize[] {
+  // タグはバイト順（ディレクトリと同じ順）で比べる
+  const compareTags = (a: TableSize, b: TableSize) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0)
+  return [...tables].sort((a, b) =>
+    key === 'size' ? b.storedLength - a.storedLength || compareTags(a, b) : compareTags(a, b)
+  )
+}
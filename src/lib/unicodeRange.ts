@@ -0,0 +1,83 @@
+import {
+  HIRAGANA,
+  KATAKANA,
+  ASCII,
+  FULLWIDTH_ALPHANUMERIC,
+  JAPANESE_SYMBOLS,
+  KANJI_BY_FREQUENCY,
+} from '../shared/charsets'
+import { toCodePoints, toUnicodeRange } from '../shared/utils'
+import { splitCharacters } from '../shared/emoji'
+
+export { toCodePoints, toUnicodeRange }
+
+/**
+ * 分割されたチャンク（1ファイル分の文字集合）
+ */
+export interface CharacterChunk {
+  index: number
+  characters: string
+  unicodeRange: string
+}
+
+// 出現頻度の高い文字群（かな・英数字・記号）を先頭に置き、漢字は出現頻度順に並べる
+const COMMON_CHARACTERS = HIRAGANA + KATAKANA + ASCII + JAPANESE_SYMBOLS + FULLWIDTH_ALPHANUMERIC
+
+let rankIndex: Map<string, number> | null = null
+
+/**
+ * 文字の優先順位（小さいほど先頭のチャンクに入る）
+ * かな・英数字・記号は 0、漢字は KANJI_BY_FREQUENCY の順位、どちらにもない文字は最後
+ */
+function getRank(char: string): number {
+  if (!rankIndex) {
+    const index = new Map<string, number>()
+    for (const c of COMMON_CHARACTERS) {
+      if (!index.has(c)) index.set(c, 0)
+    }
+    Array.from(KANJI_BY_FREQUENCY).forEach((c, rank) => {
+      if (!index.has(c)) index.set(c, rank + 1)
+    })
+    rankIndex = index
+  }
+  return rankIndex.get(char) ?? Number.MAX_SAFE_INTEGER
+}
+
+/**
+ * 文字を出現頻度の高い順に並べ替え（同じ優先度内では入力順を維持）
+ * 漢字は頻度表の順に並ぶため、よく使う漢字ほど先頭のチャンクに入る
+ * 絵文字のZWJシーケンスは同じチャンクに入るよう1文字として扱う
+ */
+export function orderByFrequency(text: string): string[] {
+  const chars = Array.from(new Set(splitCharacters(text)))
+  return chars
+    .map((char, order) => ({ char, order, rank: getRank(char) }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(entry => entry.char)
+}
+
+/**
+ * 文字セットを頻度順にN個のチャンクへ分割
+ * 頻出文字が先頭チャンクに集まるため、多くのページは先頭数ファイルの読み込みで済む
+ */
+export function splitIntoChunks(text: string, chunkCount: number): CharacterChunk[] {
+  const ordered = orderByFrequency(text)
+  if (ordered.length === 0) {
+    return []
+  }
+
+  const count = Math.max(1, Math.min(Math.floor(chunkCount), ordered.length))
+  const chunkSize = Math.ceil(ordered.length / count)
+  const chunks: CharacterChunk[] = []
+
+  for (let i = 0; i < ordered.length; i += chunkSize) {
+    const characters = ordered.slice(i, i + chunkSize).join('')
+    chunks.push({
+      index: chunks.length,
+      characters,
+      unicodeRange: toUnicodeRange(toCodePoints(characters)),
+    })
+  }
+
+  return chunks
+}
@@ -0,0 +1,247 @@
+/**
+ * WOFF 1.0 エンコードオプション
+ */
+export interface WoffEncodeOptions {
+  metadata?: string // WOFF拡張メタデータ（<metadata version="1.0"> を root とするXML）
+  majorVersion?: number
+  minorVersion?: number
+}
+
+// WOFF 1.0 のヘッダー・テーブルディレクトリのサイズ
+const WOFF_HEADER_SIZE = 44
+const WOFF_TABLE_ENTRY_SIZE = 20
+const SFNT_HEADER_SIZE = 12
+const SFNT_TABLE_ENTRY_SIZE = 16
+const WOFF_SIGNATURE = 0x774F4646 // 'wOFF'
+
+interface SfntTable {
+  tag: number
+  checksum: number
+  data: Uint8Array
+}
+
+/**
+ * 4バイト境界に切り上げ
+ */
+function align4(value: number): number {
+  return (value + 3) & ~3
+}
+
+/**
+ * 圧縮・展開ストリームにデータを通して結果をまとめる
+ */
+async function pipeThrough(stream: CompressionStream | DecompressionStream, data: Uint8Array): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter()
+  // 読み出しと並行して書き込まないとバックプレッシャーで停止するため待たない
+  const writing = writer.write(data as Uint8Array<ArrayBuffer>).then(() => writer.close())
+
+  const chunks: Uint8Array[] = []
+  const reader = stream.readable.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+  }
+  await writing
+
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+/**
+ * zlib形式（RFC 1950）で圧縮
+ */
+function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  return pipeThrough(new CompressionStream('deflate'), data)
+}
+
+/**
+ * zlib形式（RFC 1950）のデータを展開
+ */
+function zlibDecompress(data: Uint8Array): Promise<Uint8Array> {
+  return pipeThrough(new DecompressionStream('deflate'), data)
+}
+
+/**
+ * SFNTのテーブルディレクトリを読み取る
+ */
+function readSfntTables(sfnt: Uint8Array): { flavor: number; tables: SfntTable[] } {
+  if (sfnt.length < SFNT_HEADER_SIZE) {
+    throw new Error('SFNTヘッダーが不完全です')
+  }
+  const view = new DataView(sfnt.buffer, sfnt.byteOffset, sfnt.byteLength)
+  const flavor = view.getUint32(0)
+  const numTables = view.getUint16(4)
+
+  if (sfnt.length < SFNT_HEADER_SIZE + numTables * SFNT_TABLE_ENTRY_SIZE) {
+    throw new Error('テーブルディレクトリが不完全です')
+  }
+
+  const tables: SfntTable[] = []
+  for (let i = 0; i < numTables; i++) {
+    const entry = SFNT_HEADER_SIZE + i * SFNT_TABLE_ENTRY_SIZE
+    const offset = view.getUint32(entry + 8)
+    const length = view.getUint32(entry + 12)
+    if (offset + length > sfnt.length) {
+      throw new Error('テーブルがファイルの範囲外を指しています')
+    }
+    tables.push({
+      tag: view.getUint32(entry),
+      checksum: view.getUint32(entry + 4),
+      data: sfnt.subarray(offset, offset + length)
+    })
+  }
+
+  // WOFFのテーブルディレクトリはタグ順
+  tables.sort((a, b) => a.tag - b.tag)
+  return { flavor, tables }
+}
+
+/**
+ * TTF/OTFデータをWOFF 1.0形式にエンコード
+ * 各テーブルはzlibで圧縮し、圧縮しても小さくならないテーブルはそのまま格納する
+ */
+export async function encodeToWoff(sfnt: Uint8Array, options: WoffEncodeOptions = {}): Promise<Uint8Array> {
+  try {
+    console.log('Starting WOFF encoding, input size:', sfnt.length)
+
+    const { flavor, tables } = readSfntTables(sfnt)
+
+    const entries = await Promise.all(tables.map(async table => {
+      const compressed = await zlibCompress(table.data)
+      return {
+        ...table,
+        stored: compressed.length < table.data.length ? compressed : table.data
+      }
+    }))
+
+    let metadata: Uint8Array | undefined
+    let metaOrigLength = 0
+    if (options.metadata) {
+      if (!/<metadata[\s>]/.test(options.metadata)) {
+        throw new Error('メタデータのXMLには <metadata> 要素が必要です')
+      }
+      const xml = new TextEncoder().encode(options.metadata)
+      metaOrigLength = xml.length
+      metadata = await zlibCompress(xml)
+    }
+
+    // 各ブロックの配置を決定（テーブル・メタデータとも4バイト境界から開始）
+    let offset = WOFF_HEADER_SIZE + entries.length * WOFF_TABLE_ENTRY_SIZE
+    const tableOffsets = entries.map(entry => {
+      const tableOffset = offset
+      offset = align4(offset + entry.stored.length)
+      return tableOffset
+    })
+    const metaOffset = metadata ? offset : 0
+    const totalLength = metadata ? metaOffset + metadata.length : offset
+
+    const totalSfntSize = SFNT_HEADER_SIZE
+      + entries.length * SFNT_TABLE_ENTRY_SIZE
+      + entries.reduce((sum, entry) => sum + align4(entry.data.length), 0)
+
+    const woff = new Uint8Array(totalLength)
+    const view = new DataView(woff.buffer)
+
+    // ヘッダー
+    view.setUint32(0, WOFF_SIGNATURE)
+    view.setUint32(4, flavor)
+    view.setUint32(8, totalLength)
+    view.setUint16(12, entries.length)
+    view.setUint16(14, 0)
+    view.setUint32(16, totalSfntSize)
+    view.setUint16(20, options.majorVersion ?? 1)
+    view.setUint16(22, options.minorVersion ?? 0)
+    view.setUint32(24, metaOffset)
+    view.setUint32(28, metadata ? metadata.length : 0)
+    view.setUint32(32, metaOrigLength)
+    view.setUint32(36, 0) // privOffset
+    view.setUint32(40, 0) // privLength
+
+    // テーブルディレクトリとテーブルデータ
+    entries.forEach((entry, index) => {
+      const dirOffset = WOFF_HEADER_SIZE + index * WOFF_TABLE_ENTRY_SIZE
+      view.setUint32(dirOffset, entry.tag)
+      view.setUint32(dirOffset + 4, tableOffsets[index])
+      view.setUint32(dirOffset + 8, entry.stored.length)
+      view.setUint32(dirOffset + 12, entry.data.length)
+      view.setUint32(dirOffset + 16, entry.checksum)
+      woff.set(entry.stored, tableOffsets[index])
+    })
+
+    if (metadata) {
+      woff.set(metadata, metaOffset)
+    }
+
+    console.log('WOFF encoding complete, output size:', woff.length)
+    return woff
+  } catch (error) {
+    console.error('WOFF encoding error:', error)
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(`WOFFエンコードに失敗しました: ${errorMessage}`)
+  }
+}
+
+/**
+ * WOFF 1.0 を展開してTTF/OTFデータに戻す（出力したWOFFの検証用）
+ * テーブルはWOFFのディレクトリ順（タグ順）に並べ、チェックサムはWOFFに記録された値をそのまま使う
+ */
+export async function decodeWoff(woff: Uint8Array): Promise<Uint8Array> {
+  if (woff.length < WOFF_HEADER_SIZE) {
+    throw new Error('WOFFヘッダーが不完全です')
+  }
+  const view = new DataView(woff.buffer, woff.byteOffset, woff.byteLength)
+  if (view.getUint32(0) !== WOFF_SIGNATURE) {
+    throw new Error('WOFF形式のデータではありません')
+  }
+  const numTables = view.getUint16(12)
+  if (woff.length < WOFF_HEADER_SIZE + numTables * WOFF_TABLE_ENTRY_SIZE) {
+    throw new Error('テーブルディレクトリが不完全です')
+  }
+
+  const tables = await Promise.all(Array.from({ length: numTables }, async (_, index): Promise<SfntTable> => {
+    const entry = WOFF_HEADER_SIZE + index * WOFF_TABLE_ENTRY_SIZE
+    const offset = view.getUint32(entry + 4)
+    const compLength = view.getUint32(entry + 8)
+    const origLength = view.getUint32(entry + 12)
+    if (offset + compLength > woff.length) {
+      throw new Error('テーブルがファイルの範囲外を指しています')
+    }
+    const stored = woff.subarray(offset, offset + compLength)
+    const data = compLength < origLength ? await zlibDecompress(stored) : stored
+    if (data.length !== origLength) {
+      throw new Error('展開したテーブルのサイズが一致しません')
+    }
+    return { tag: view.getUint32(entry), checksum: view.getUint32(entry + 16), data }
+  }))
+
+  let offset = SFNT_HEADER_SIZE + numTables * SFNT_TABLE_ENTRY_SIZE
+  const tableOffsets = tables.map(table => {
+    const tableOffset = offset
+    offset = align4(offset + table.data.length)
+    return tableOffset
+  })
+
+  const sfnt = new Uint8Array(offset)
+  const sfntView = new DataView(sfnt.buffer)
+  const entrySelector = numTables > 0 ? Math.floor(Math.log2(numTables)) : 0
+  sfntView.setUint32(0, view.getUint32(4))
+  sfntView.setUint16(4, numTables)
+  sfntView.setUint16(6, (1 << entrySelector) * 16)
+  sfntView.setUint16(8, entrySelector)
+  sfntView.setUint16(10, numTables * 16 - (1 << entrySelector) * 16)
+  tables.forEach((table, index) => {
+    const entry = SFNT_HEADER_SIZE + index * SFNT_TABLE_ENTRY_SIZE
+    sfntView.setUint32(entry, table.tag)
+    sfntView.setUint32(entry + 4, table.checksum)
+    sfntView.setUint32(entry + 8, tableOffsets[index])
+    sfntView.setUint32(entry + 12, table.data.length)
+    sfnt.set(table.data, tableOffsets[index])
+  })
+  return sfnt
+}
@@ -1,45 +1,22 @@
 import { ipcMain, dialog, BrowserWindow } from 'electron';
-import { IPCChannel, SubsetOptions, FontAnalysis, CompressionStats } from '../../shared/types';
+import { IPCChannel, SubsetOptions, FontAnalysis, CompressionStats, ProgressState, SizeEstimateOptions, BatchSubmission, BatchJobUpdate } from '../../shared/types';
 import { analyzeFont } from '../services/fontAnalyzer';
-import { subsetFont, compressToWoff2, calculateCompressionStats, estimateSubsetSize } from '../services/fontSubsetter';
-import { saveFileToPath, validateSavePath, generateOutputFileName } from '../services/fileManager';
+import { subsetFont, compressToWoff2, calculateCompressionStats, estimateSubsetSize, checkCharacterCoverage } from '../services/fontSubsetter';
+import { saveFileToPath, validateSavePath, generateOutputFileName, readFontFile } from '../services/fileManager';
+import { writeFontFaceStylesheet } from '../services/stylesheetWriter';
+import { writeSubsetOutputs, hasMultipleSubsetOutputs } from '../services/subsetOutputWriter';
+import { extractCharactersFromPaths } from '../services/textExtractor';
+import { getGlyphOutlines } from '../services/glyphOutlines';
+import { loadUserPresets, saveUserPresets, importUserPresets, exportUserPresets } from '../services/userPresetStore';
+import { cancellationManager } from '../services/cancellationManager';
+import { BatchQueue } from '../services/batchQueue';
 import { initializeUpdateHandlers } from './updateHandlers';
+import { TEXT_SOURCE_EXTENSIONS } from '../../shared/textExtraction';
+import { UserPreset, USER_PRESET_FILE_NAME } from '../../shared/userPresets';
+import { summarizeBatchProgress } from '../../shared/batchProgress';
+import { isCancelledError } from '../../shared/errors';
 
-/**
- * 処理キャンセル状態を管理するクラス
- * 並行処理に対応し、処理IDごとにキャンセル状態を追跡
- */
-class CancellationManager {
-  private cancelledProcesses: Set<number> = new Set();
-  private globalCancelled = false;
-
-  cancel(webContentsId?: number): void {
-    if (webContentsId !== undefined) {
-      this.cancelledProcesses.add(webContentsId);
-    } else {
-      this.globalCancelled = true;
-    }
-  }
-
-  isCancelled(webContentsId?: number): boolean {
-    if (this.globalCancelled) return true;
-    if (webContentsId !== undefined) {
-      return this.cancelledProcesses.has(webContentsId);
-    }
-    return false;
-  }
-
-  reset(webContentsId?: number): void {
-    if (webContentsId !== undefined) {
-      this.cancelledProcesses.delete(webContentsId);
-    } else {
-      this.globalCancelled = false;
-      this.cancelledProcesses.clear();
-    }
-  }
-}
-
-const cancellationManager = new CancellationManager();
+const batchQueue = new BatchQueue();
 
 /**
  * IPCハンドラーを登録
@@ -56,7 +33,7 @@ export function registerIPCHandlers(): void {
       filters: [
         {
           name: 'フォントファイル',
-          extensions: ['ttf', 'otf', 'woff', 'woff2'],
+          extensions: ['ttf', 'otf', 'woff', 'woff2', 'ttc', 'otc'],
         },
       ],
     });
@@ -90,22 +67,36 @@ export function registerIPCHandlers(): void {
 
     try {
       const window = BrowserWindow.fromWebContents(event.sender);
-      console.log('Starting subsetFont...');
-      const result = await subsetFont(options, (progress) => {
+      const onProgress = (progress: ProgressState) => {
         console.log('Progress update:', progress.phase, progress.progress + '%');
         window?.webContents.send(IPCChannel.PROGRESS_UPDATE, progress);
-      });
-      console.log('subsetFont completed, result size:', result?.length);
+      };
+      // 以前のキャンセル要求を持ち越さず、処理中のキャンセルだけをフェーズの区切りで確認する
+      const webContentsId = event.sender.id;
+      cancellationManager.reset(webContentsId);
+      const isCancelled = () => cancellationManager.isCancelled(webContentsId);
 
-      // outputPathが指定されている場合はファイルに保存
+      // outputPathが指定されている場合はファイルに保存（コレクションの複数書体・名前付きインスタンスはそれぞれ保存）
       if (options.outputPath) {
-        console.log('Saving to:', options.outputPath);
-        await saveFileToPath(options.outputPath, result);
-        console.log(`Font saved to: ${options.outputPath}`);
+        const outputs = await writeSubsetOutputs({ ...options, outputPath: options.outputPath }, onProgress, isCancelled);
+        return hasMultipleSubsetOutputs(options)
+          ? outputs.map(output => output.buffer)
+          : outputs[0].buffer;
       }
+      if (hasMultipleSubsetOutputs(options)) {
+        throw new Error('複数の書体・インスタンスを出力するには保存先の指定が必要です');
+      }
+
+      console.log('Starting subsetFont...');
+      const result = await subsetFont(options, onProgress, isCancelled);
+      console.log('subsetFont completed, result size:', result?.length);
 
       return result;
     } catch (error) {
+      // キャンセルは PROCESSING_CANCELLED で通知済み
+      if (isCancelledError(error)) {
+        throw error;
+      }
       console.error('=== Font subsetting error in IPC handler ===');
       console.error('Error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -145,9 +136,9 @@ export function registerIPCHandlers(): void {
   // サイズ推定
   ipcMain.handle(
     IPCChannel.ESTIMATE_SIZE,
-    async (event, filePath: string, characterSet: string, enableWoff2Compression: boolean = true) => {
+    async (event, filePath: string, characterSet: string, enableWoff2Compression: boolean = true, options: SizeEstimateOptions = {}) => {
       try {
-        const estimation = await estimateSubsetSize(filePath, characterSet, enableWoff2Compression);
+        const estimation = await estimateSubsetSize(filePath, characterSet, enableWoff2Compression, options);
         return estimation;
       } catch (error) {
         console.error('Size estimation error:', error);
@@ -156,6 +147,133 @@ export function registerIPCHandlers(): void {
     }
   );
 
+  // @font-face スタイルシート生成
+  ipcMain.handle(
+    IPCChannel.GENERATE_FONT_FACE_CSS,
+    async (event, options: SubsetOptions, outputPath: string) => {
+      try {
+        return await writeFontFaceStylesheet(options, outputPath);
+      } catch (error) {
+        console.error('Stylesheet generation error:', error);
+        throw error;
+      }
+    }
+  );
+
+  // 文字セットの収録状況チェック（フォントにない文字の報告）
+  ipcMain.handle(IPCChannel.CHECK_COVERAGE, async (event, options: SubsetOptions) => {
+    try {
+      return await checkCharacterCoverage(options);
+    } catch (error) {
+      console.error('Coverage check error:', error);
+      throw error;
+    }
+  });
+
+  // グリフ一覧用のアウトライン取得
+  ipcMain.handle(IPCChannel.GET_GLYPH_OUTLINES, async (event, filePath: string, codePoints: number[], faceIndex?: number) => {
+    try {
+      return await getGlyphOutlines(filePath, codePoints, faceIndex);
+    } catch (error) {
+      console.error('Glyph outline error:', error);
+      throw error;
+    }
+  });
+
+  // プレビュー用の元のフォントの読み込み
+  ipcMain.handle(IPCChannel.READ_FONT_FILE, async (event, filePath: string) => {
+    try {
+      return await readFontFile(filePath);
+    } catch (error) {
+      console.error('Font file read error:', error);
+      throw error;
+    }
+  });
+
+  // 文字抽出元のファイル・フォルダ選択
+  ipcMain.handle(IPCChannel.SELECT_TEXT_SOURCES, async (event, directory: boolean) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(window!, {
+      properties: directory ? ['openDirectory', 'multiSelections'] : ['openFile', 'multiSelections'],
+      filters: directory ? undefined : [
+        {
+          name: 'テキストを含むファイル',
+          extensions: TEXT_SOURCE_EXTENSIONS.map(extension => extension.slice(1)),
+        },
+      ],
+    });
+
+    return result.canceled ? [] : result.filePaths;
+  });
+
+  // ファイル・フォルダから文字セットを抽出
+  ipcMain.handle(IPCChannel.EXTRACT_TEXT, async (event, paths: string[]) => {
+    try {
+      return await extractCharactersFromPaths(paths);
+    } catch (error) {
+      console.error('Text extraction error:', error);
+      throw error;
+    }
+  });
+
+  // ユーザー定義プリセットの読み込み・保存
+  ipcMain.handle(IPCChannel.LOAD_USER_PRESETS, async () => {
+    try {
+      return await loadUserPresets();
+    } catch (error) {
+      console.error('User preset load error:', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(IPCChannel.SAVE_USER_PRESETS, async (event, presets: UserPreset[]) => {
+    try {
+      return await saveUserPresets(presets);
+    } catch (error) {
+      console.error('User preset save error:', error);
+      throw error;
+    }
+  });
+
+  // プリセットの共有ファイルの読み込み（キャンセル時は空の一覧）
+  ipcMain.handle(IPCChannel.IMPORT_USER_PRESETS, async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(window!, {
+      properties: ['openFile'],
+      filters: [{ name: 'プリセットファイル', extensions: ['json'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return [];
+    }
+
+    try {
+      return await importUserPresets(result.filePaths[0]);
+    } catch (error) {
+      console.error('User preset import error:', error);
+      throw error;
+    }
+  });
+
+  // プリセットの共有ファイルへの書き出し（キャンセル時は null）
+  ipcMain.handle(IPCChannel.EXPORT_USER_PRESETS, async (event, presets: UserPreset[]) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showSaveDialog(window!, {
+      defaultPath: USER_PRESET_FILE_NAME,
+      filters: [{ name: 'プリセットファイル', extensions: ['json'] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    try {
+      await exportUserPresets(result.filePath, presets);
+      return result.filePath;
+    } catch (error) {
+      console.error('User preset export error:', error);
+      throw error;
+    }
+  });
+
   // ファイル保存ダイアログ
   ipcMain.handle(
     IPCChannel.SAVE_FILE_DIALOG,
@@ -210,7 +328,7 @@ export function registerIPCHandlers(): void {
   // ファイル保存
   ipcMain.handle(
     IPCChannel.SAVE_FILE,
-    async (event, data: Buffer, defaultPath: string) => {
+    async (event, data: Buffer, defaultPath: string, cssOptions?: SubsetOptions) => {
       const window = BrowserWindow.fromWebContents(event.sender);
       const result = await dialog.showSaveDialog(window!, {
         defaultPath,
@@ -228,6 +346,9 @@ export function registerIPCHandlers(): void {
 
       try {
         await saveFileToPath(result.filePath, data);
+        if (cssOptions?.generateCss) {
+          await writeFontFaceStylesheet(cssOptions, result.filePath);
+        }
         return result.filePath;
       } catch (error) {
         console.error('File save error:', error);
@@ -236,6 +357,45 @@ export function registerIPCHandlers(): void {
     }
   );
 
+  // バッチ処理の出力先フォルダ選択
+  ipcMain.handle(IPCChannel.SELECT_OUTPUT_DIRECTORY, async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(window!, {
+      properties: ['openDirectory', 'createDirectory'],
+    });
+    return result.canceled ? null : result.filePaths[0] ?? null;
+  });
+
+  // バッチ処理の投入（ジョブごとの進捗と全体の進捗を通知）
+  ipcMain.handle(IPCChannel.SUBMIT_BATCH, async (event, submission: BatchSubmission) => {
+    try {
+      if (!submission.outputDirectory) {
+        throw new Error('出力先のフォルダが指定されていません');
+      }
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const updates = new Map<string, BatchJobUpdate>();
+      cancellationManager.reset(event.sender.id);
+
+      return batchQueue.submit(submission, (update) => {
+        updates.set(update.jobId, update);
+        if (window && !window.isDestroyed()) {
+          window.webContents.send(IPCChannel.BATCH_JOB_UPDATE, update);
+          window.webContents.send(IPCChannel.PROGRESS_UPDATE, summarizeBatchProgress(Array.from(updates.values())));
+        }
+      }, event.sender.id);
+    } catch (error) {
+      console.error('Batch submission error:', error);
+      throw error;
+    }
+  });
+
+  // バッチ処理のジョブ単位のキャンセル
+  ipcMain.handle(IPCChannel.CANCEL_BATCH_JOB, async (event, jobId: string) => {
+    batchQueue.cancel(jobId);
+    console.log(`Batch job cancelled by user (jobId: ${jobId})`);
+  });
+
   // 処理キャンセル
   ipcMain.handle(IPCChannel.CANCEL_PROCESSING, async (event) => {
     const webContentsId = event.sender.id;
@@ -24,8 +24,38 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke(IPCChannel.COMPRESS_WOFF2, fontBuffer, options),
   
   // サイズ推定
-  estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean) =>
-    ipcRenderer.invoke(IPCChannel.ESTIMATE_SIZE, filePath, characterSet, enableWoff2Compression),
+  estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean, options?: any) =>
+    ipcRenderer.invoke(IPCChannel.ESTIMATE_SIZE, filePath, characterSet, enableWoff2Compression, options),
+  
+  // @font-face スタイルシート生成
+  generateFontFaceCss: (options: any, outputPath: string) =>
+    ipcRenderer.invoke(IPCChannel.GENERATE_FONT_FACE_CSS, options, outputPath),
+  
+  // 文字セットの収録状況チェック
+  checkCoverage: (options: any) =>
+    ipcRenderer.invoke(IPCChannel.CHECK_COVERAGE, options),
+  
+  // グリフ一覧用のアウトライン取得
+  getGlyphOutlines: (filePath: string, codePoints: number[], faceIndex?: number) =>
+    ipcRenderer.invoke(IPCChannel.GET_GLYPH_OUTLINES, filePath, codePoints, faceIndex),
+  
+  // プレビュー用の元のフォント読み込み
+  readFontFile: (filePath: string) =>
+    ipcRenderer.invoke(IPCChannel.READ_FONT_FILE, filePath),
+  
+  // 文字抽出元の選択・文字抽出
+  selectTextSources: (directory: boolean) =>
+    ipcRenderer.invoke(IPCChannel.SELECT_TEXT_SOURCES, directory),
+  extractText: (paths: string[]) =>
+    ipcRenderer.invoke(IPCChannel.EXTRACT_TEXT, paths),
+  
+  // ユーザー定義プリセット
+  loadUserPresets: () => ipcRenderer.invoke(IPCChannel.LOAD_USER_PRESETS),
+  saveUserPresets: (presets: any[]) =>
+    ipcRenderer.invoke(IPCChannel.SAVE_USER_PRESETS, presets),
+  importUserPresets: () => ipcRenderer.invoke(IPCChannel.IMPORT_USER_PRESETS),
+  exportUserPresets: (presets: any[]) =>
+    ipcRenderer.invoke(IPCChannel.EXPORT_USER_PRESETS, presets),
   
   // ファイル保存ダイアログ
   saveFileDialog: (defaultPath: string, outputFormat: string) =>
@@ -35,9 +65,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
   validateSavePath: (filePath: string) =>
     ipcRenderer.invoke(IPCChannel.VALIDATE_SAVE_PATH, filePath),
   
+  // バッチ処理
+  selectOutputDirectory: () => ipcRenderer.invoke(IPCChannel.SELECT_OUTPUT_DIRECTORY),
+  submitBatch: (submission: any) =>
+    ipcRenderer.invoke(IPCChannel.SUBMIT_BATCH, submission),
+  cancelBatchJob: (jobId: string) =>
+    ipcRenderer.invoke(IPCChannel.CANCEL_BATCH_JOB, jobId),
+  
   // ファイル保存
-  saveFile: (data: Buffer, defaultPath: string) =>
-    ipcRenderer.invoke(IPCChannel.SAVE_FILE, data, defaultPath),
+  saveFile: (data: Buffer, defaultPath: string, cssOptions?: any) =>
+    ipcRenderer.invoke(IPCChannel.SAVE_FILE, data, defaultPath, cssOptions),
   
   // 処理キャンセル
   cancelProcessing: () => ipcRenderer.invoke(IPCChannel.CANCEL_PROCESSING),
@@ -47,6 +84,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on(IPCChannel.PROGRESS_UPDATE, (event, progress) => callback(progress));
   },
   
+  onBatchJobUpdate: (callback: (update: any) => void) => {
+    ipcRenderer.on(IPCChannel.BATCH_JOB_UPDATE, (event, update) => callback(update));
+  },
+  
   onError: (callback: (error: any) => void) => {
     ipcRenderer.on(IPCChannel.ERROR, (event, error) => callback(error));
   },
@@ -59,6 +100,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   removeAllListeners: () => {
     ipcRenderer.removeAllListeners(IPCChannel.PROGRESS_UPDATE);
     ipcRenderer.removeAllListeners(IPCChannel.ERROR);
+    ipcRenderer.removeAllListeners(IPCChannel.BATCH_JOB_UPDATE);
     ipcRenderer.removeAllListeners(IPCChannel.PROCESSING_CANCELLED);
   }
 });
@@ -72,8 +114,10 @@ try {
     timestamp: Date.now(),
     availableFunctions: [
       'getPathForFile', 'selectFiles', 'analyzeFont', 'subsetFont', 'compressWoff2',
-      'estimateSize', 'saveFileDialog', 'validateSavePath', 'saveFile',
-      'cancelProcessing', 'onProgressUpdate', 'onError', 'onProcessingCancelled',
+      'estimateSize', 'generateFontFaceCss', 'checkCoverage', 'getGlyphOutlines', 'readFontFile', 'selectTextSources', 'extractText',
+      'loadUserPresets', 'saveUserPresets', 'importUserPresets', 'exportUserPresets', 'saveFileDialog', 'validateSavePath', 'saveFile',
+      'selectOutputDirectory', 'submitBatch', 'cancelBatchJob',
+      'cancelProcessing', 'onProgressUpdate', 'onBatchJobUpdate', 'onError', 'onProcessingCancelled',
       'removeAllListeners'
     ]
   };
@@ -0,0 +1,322 @@
+import { Worker } from 'worker_threads';
+import { rm } from 'fs/promises';
+import { cpus } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { BatchJob, BatchJobUpdate, BatchSubmission, ErrorType, ProgressState, SubsetOptions, OutputFormat } from '../../shared/types';
+import { getBatchOutputFileNames } from '../../shared/batchProgress';
+import { CancellationManager, ProcessId, cancellationManager } from './cancellationManager';
+
+/**
+ * ジョブ1件分のサブセット化の指定（保存先は決定済み）
+ * 出力は temporaryDirectory に書き出し、完了してから保存先へ移動する
+ */
+export type BatchJobOptions = SubsetOptions & { outputPath: string; temporaryDirectory: string };
+
+/**
+ * ジョブ1件分の処理結果
+ */
+export interface BatchJobResult {
+  outputPaths: string[];
+  originalSize: number;
+  outputSize: number;
+}
+
+/**
+ * ワーカースレッドとの間のメッセージ
+ */
+export type SubsetWorkerRequest = { type: 'run'; options: BatchJobOptions };
+export type SubsetWorkerMessage =
+  | { type: 'progress'; progress: ProgressState }
+  | { type: 'done'; result: BatchJobResult }
+  | { type: 'error'; message: string };
+
+/**
+ * ジョブを1件ずつ処理するワーカー
+ */
+export interface BatchWorker {
+  run(options: BatchJobOptions, onProgress: (progress: ProgressState) => void): Promise<BatchJobResult>;
+  terminate(): Promise<void>;
+}
+
+export type BatchWorkerFactory = () => BatchWorker;
+
+/**
+ * worker_threads でサブセット化を行うワーカー
+ */
+export class ThreadBatchWorker implements BatchWorker {
+  private worker = new Worker(join(__dirname, 'subsetWorker.js'));
+
+  run(options: BatchJobOptions, onProgress: (progress: ProgressState) => void): Promise<BatchJobResult> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        this.worker.off('message', handleMessage);
+        this.worker.off('error', handleError);
+        this.worker.off('exit', handleExit);
+      };
+      const handleMessage = (message: SubsetWorkerMessage) => {
+        if (message.type === 'progress') {
+          onProgress(message.progress);
+          return;
+        }
+        cleanup();
+        if (message.type === 'done') {
+          resolve(message.result);
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      const handleError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const handleExit = (code: number) => {
+        cleanup();
+        reject(new Error(`ワーカースレッドが終了しました（終了コード: ${code}）`));
+      };
+
+      this.worker.on('message', handleMessage);
+      this.worker.on('error', handleError);
+      this.worker.on('exit', handleExit);
+      this.worker.postMessage({ type: 'run', options } as SubsetWorkerRequest);
+    });
+  }
+
+  async terminate(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
+
+/**
+ * 既定の同時処理数（メインプロセスの応答性のためにCPUを1つ残す）
+ */
+export function getDefaultConcurrency(): number {
+  return Math.max(1, Math.min(4, cpus().length - 1));
+}
+
+interface QueuedJob {
+  job: BatchJob;
+  ownerId?: number;
+  options: BatchJobOptions;
+  onUpdate: (update: BatchJobUpdate) => void;
+  worker?: BatchWorker;
+}
+
+/**
+ * バッチ処理のジョブキュー
+ * 投入されたジョブを同時処理数までのワーカーに割り当て、ジョブごとの進捗を通知する
+ * キャンセルは CancellationManager 経由で受け付け、待機中のジョブは取り除き、実行中のジョブはワーカーごと停止する
+ * （停止したジョブの書きかけの出力は一時フォルダごと削除する）
+ */
+export class BatchQueue {
+  private pending: QueuedJob[] = [];
+  private running: Map<string, QueuedJob> = new Map();
+  private idleWorkers: BatchWorker[] = [];
+  private workerCount = 0;
+  private concurrency = getDefaultConcurrency();
+
+  constructor(
+    private readonly createWorker: BatchWorkerFactory = () => new ThreadBatchWorker(),
+    private readonly cancellation: CancellationManager = cancellationManager
+  ) {
+    this.cancellation.onCancel(processId => this.handleCancel(processId));
+  }
+
+  /**
+   * 同時処理数を変更（実行中のジョブはそのまま続ける）
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  /**
+   * フォントをまとめて投入し、作成したジョブを返す
+   * @param ownerId 投入したウィンドウ（webContentsId）。ウィンドウ単位のキャンセルに使う
+   */
+  submit(
+    submission: BatchSubmission,
+    onUpdate: (update: BatchJobUpdate) => void,
+    ownerId?: number
+  ): BatchJob[] {
+    if (submission.files.length === 0) {
+      throw new Error('処理するフォントが指定されていません');
+    }
+    if (submission.concurrency !== undefined) {
+      this.setConcurrency(submission.concurrency);
+    }
+    // 以前の全体キャンセルを新しいバッチに持ち越さない
+    this.cancellation.resetGlobal();
+
+    const outputFormat: OutputFormat = submission.options.outputFormat || 'woff2';
+    const fileNames = getBatchOutputFileNames(submission.files.map(file => file.inputPath), outputFormat);
+    const queued = submission.files.map((file, index): QueuedJob => {
+      const job: BatchJob = {
+        id: randomUUID(),
+        inputPath: file.inputPath,
+        outputPath: join(submission.outputDirectory, fileNames[index]),
+      };
+      return {
+        job,
+        ownerId,
+        options: {
+          ...submission.options,
+          inputPath: job.inputPath,
+          outputPath: job.outputPath,
+          temporaryDirectory: join(submission.outputDirectory, `.fontminify-${job.id}`),
+          faceIndices: file.faceIndices,
+        },
+        onUpdate,
+      };
+    });
+
+    for (const entry of queued) {
+      this.pending.push(entry);
+      this.notify(entry, { status: 'pending', progress: this.createProgress(entry, 'idle', 0) });
+    }
+    this.pump();
+    return queued.map(entry => entry.job);
+  }
+
+  /**
+   * ジョブをキャンセル
+   */
+  cancel(jobId: string): void {
+    this.cancellation.cancel(jobId);
+  }
+
+  /**
+   * すべてのワーカーを停止
+   */
+  async shutdown(): Promise<void> {
+    const workers = [...this.idleWorkers, ...Array.from(this.running.values(), entry => entry.worker)];
+    this.pending = [];
+    this.running.clear();
+    this.idleWorkers = [];
+    this.workerCount = 0;
+    await Promise.all(workers.map(worker => worker?.terminate()));
+  }
+
+  private handleCancel(processId?: ProcessId): void {
+    const matches = (entry: QueuedJob) =>
+      processId === undefined || processId === entry.job.id || processId === entry.ownerId;
+
+    const cancelledPending = this.pending.filter(matches);
+    this.pending = this.pending.filter(entry => !matches(entry));
+    for (const entry of cancelledPending) {
+      this.finishCancelled(entry);
+    }
+
+    for (const entry of Array.from(this.running.values()).filter(matches)) {
+      // 実行中のジョブはワーカーごと停止し、空いた枠には新しいワーカーを起動する
+      this.running.delete(entry.job.id);
+      this.workerCount--;
+      if (entry.worker) {
+        this.discardWorker(entry, entry.worker);
+      }
+      this.finishCancelled(entry);
+    }
+    this.pump();
+  }
+
+  private finishCancelled(entry: QueuedJob): void {
+    this.cancellation.reset(entry.job.id);
+    this.notify(entry, { status: 'cancelled', progress: this.createProgress(entry, 'complete', 0) });
+  }
+
+  private pump(): void {
+    while (this.pending.length > 0 && this.running.size < this.concurrency) {
+      const worker = this.idleWorkers.pop() ?? this.spawnWorker();
+      if (!worker) {
+        break;
+      }
+      const entry = this.pending.shift() as QueuedJob;
+      entry.worker = worker;
+      this.running.set(entry.job.id, entry);
+      this.runJob(entry, worker);
+    }
+
+    // 同時処理数を減らした場合は余ったワーカーを停止
+    while (this.workerCount > this.concurrency && this.idleWorkers.length > 0) {
+      this.workerCount--;
+      this.idleWorkers.pop()?.terminate().catch(error => console.error('Failed to terminate batch worker:', error));
+    }
+  }
+
+  private spawnWorker(): BatchWorker | undefined {
+    if (this.workerCount >= this.concurrency) {
+      return undefined;
+    }
+    this.workerCount++;
+    return this.createWorker();
+  }
+
+  private async runJob(entry: QueuedJob, worker: BatchWorker): Promise<void> {
+    const isCurrent = () => this.running.get(entry.job.id) === entry;
+    this.notify(entry, { status: 'processing', progress: this.createProgress(entry, 'analyzing', 0) });
+
+    try {
+      const result = await worker.run(entry.options, progress => {
+        if (isCurrent()) {
+          this.notify(entry, { status: 'processing', progress });
+        }
+      });
+      if (!isCurrent()) {
+        return;
+      }
+      this.notify(entry, {
+        status: 'completed',
+        progress: this.createProgress(entry, 'complete', 100),
+        outputPaths: result.outputPaths,
+        originalSize: result.originalSize,
+        outputSize: result.outputSize,
+      });
+    } catch (error) {
+      // キャンセルで停止したジョブは通知済み
+      if (!isCurrent()) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Batch job failed (${entry.job.inputPath}):`, error);
+      const progress = this.createProgress(entry, 'complete', 0);
+      progress.errors = [{ type: ErrorType.SUBSET_FAILED, message, details: entry.job.inputPath, recoverable: true }];
+      this.notify(entry, { status: 'error', progress, error: message });
+
+      // 異常終了したワーカーは再利用せず、次のジョブでは新しいワーカーを起動する
+      this.running.delete(entry.job.id);
+      this.workerCount--;
+      this.discardWorker(entry, worker);
+      this.pump();
+      return;
+    }
+
+    this.running.delete(entry.job.id);
+    this.idleWorkers.push(worker);
+    this.pump();
+  }
+
+  /**
+   * ジョブを処理していたワーカーを停止し、停止後に書きかけの出力を一時フォルダごと削除する
+   */
+  private discardWorker(entry: QueuedJob, worker: BatchWorker): void {
+    worker.terminate()
+      .then(() => rm(entry.options.temporaryDirectory, { recursive: true, force: true }))
+      .catch(error => console.error('Failed to discard batch worker:', error));
+  }
+
+  private notify(entry: QueuedJob, update: Omit<BatchJobUpdate, 'jobId' | 'inputPath'>): void {
+    entry.onUpdate({ jobId: entry.job.id, inputPath: entry.job.inputPath, ...update });
+  }
+
+  private createProgress(entry: QueuedJob, phase: ProgressState['phase'], progress: number): ProgressState {
+    return {
+      phase,
+      progress,
+      currentFile: entry.job.inputPath,
+      totalFiles: 1,
+      processedFiles: phase === 'complete' && progress === 100 ? 1 : 0,
+      estimatedTime: 0,
+      errors: [],
+    };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * 処理の識別子
+ * 単体処理はウィンドウ（webContentsId）、バッチ処理はジョブIDで識別する
+ */
+export type ProcessId = number | string;
+
+/**
+ * 処理キャンセル状態を管理するクラス
+ * 並行処理に対応し、処理IDごとにキャンセル状態を追跡
+ */
+export class CancellationManager {
+  private cancelledProcesses: Set<ProcessId> = new Set();
+  private globalCancelled = false;
+  private listeners: Set<(processId?: ProcessId) => void> = new Set();
+
+  cancel(processId?: ProcessId): void {
+    if (processId !== undefined) {
+      this.cancelledProcesses.add(processId);
+    } else {
+      this.globalCancelled = true;
+    }
+    this.listeners.forEach(listener => listener(processId));
+  }
+
+  isCancelled(processId?: ProcessId): boolean {
+    if (this.globalCancelled) return true;
+    if (processId !== undefined) {
+      return this.cancelledProcesses.has(processId);
+    }
+    return false;
+  }
+
+  reset(processId?: ProcessId): void {
+    if (processId !== undefined) {
+      this.cancelledProcesses.delete(processId);
+    } else {
+      this.globalCancelled = false;
+      this.cancelledProcesses.clear();
+    }
+  }
+
+  /**
+   * 全体のキャンセル状態だけを解除（処理IDごとのキャンセル状態は残す）
+   */
+  resetGlobal(): void {
+    this.globalCancelled = false;
+  }
+
+  /**
+   * キャンセル時に呼び出すリスナーを登録（実行中の処理を止めるため）
+   * @returns 登録を解除する関数
+   */
+  onCancel(listener: (processId?: ProcessId) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const cancellationManager = new CancellationManager();
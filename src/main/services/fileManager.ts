@@ -1,5 +1,7 @@
 import { writeFileSync, existsSync, mkdirSync, statSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
 import { dirname, extname, basename, join } from 'path';
+import { MAX_FILE_SIZE, SUPPORTED_FONT_FORMATS } from '../../shared/constants';
 
 export async function saveFileToPath(filePath: string, data: Buffer): Promise<void> {
   try {
@@ -71,6 +73,26 @@ export function generateOutputFileName(
   return `${inputName}${suffix}${outputExt}`;
 }
 
+/**
+ * プレビュー用にフォントファイルを読み込む
+ * 対応するフォント形式以外・サイズ上限を超えるファイルは読み込まない
+ */
+export async function readFontFile(filePath: string): Promise<Buffer> {
+  const ext = extname(filePath).toLowerCase();
+  if (!(SUPPORTED_FONT_FORMATS as readonly string[]).includes(ext)) {
+    throw new Error(`対応していないファイル形式です: ${ext}`);
+  }
+
+  const stats = await stat(filePath);
+  if (!stats.isFile()) {
+    throw new Error('指定されたパスはファイルではありません');
+  }
+  if (stats.size > MAX_FILE_SIZE) {
+    throw new Error('ファイルサイズが上限を超えています');
+  }
+  return readFile(filePath);
+}
+
 export function getOutputFileSize(filePath: string): number {
   try {
     if (existsSync(filePath)) {
@@ -1,6 +1,10 @@
-import { FontAnalysis, CharacterRange, OpenTypeFeature, VariableAxis } from '../../shared/types';
+import { CollectionFace, FontAnalysis, NamedInstance, VariableAxis } from '../../shared/types';
+import { EMPTY_FONT_METADATA, FontMetadata, extractFontMetadata } from '../../shared/fontMetadata';
+import { getCollectionFaces, isFontCollection, selectFontFace } from '../../shared/fontCollection';
+import { getNamedInstances } from '../../shared/namedInstances';
 import { readFileSync, statSync, existsSync } from 'fs';
 import { extname, basename } from 'path';
+import { logger } from './logger';
 
 // fontkit を動的インポートするためのヘルパー
 async function loadFontkit() {
@@ -8,9 +12,13 @@ async function loadFontkit() {
   return fontkit.default || fontkit;
 }
 
-export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
+/**
+ * フォントを解析
+ * TTC/OTC の場合は faceIndex の書体を解析し、全書体の一覧を faces に含める
+ */
+export async function analyzeFont(filePath: string, faceIndex = 0): Promise<FontAnalysis> {
   try {
-    console.log('Starting font analysis for:', filePath);
+    logger.log('Starting font analysis for:', filePath);
     
     if (!filePath || typeof filePath !== 'string') {
       throw new Error('Invalid file path provided');
@@ -35,7 +43,7 @@ export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
     const fileName = basename(filePath);
     const ext = extname(filePath).toLowerCase();
     
-    console.log('File info:', { fileName, fileSize, ext });
+    logger.log('File info:', { fileName, fileSize, ext });
     
     let format: 'ttf' | 'otf' | 'woff' | 'woff2' | 'ttc';
     switch (ext) {
@@ -52,19 +60,20 @@ export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
         format = 'woff2';
         break;
       case '.ttc':
+      case '.otc':
         format = 'ttc';
         break;
       default:
         throw new Error(`Unsupported font format: ${ext}`);
     }
 
-    console.log('Reading font buffer...');
+    logger.log('Reading font buffer...');
     let fontBuffer: Buffer | null = null;
     try {
       fontBuffer = readFileSync(filePath);
-      console.log('Font buffer size:', fontBuffer?.length || 0);
+      logger.log('Font buffer size:', fontBuffer?.length || 0);
     } catch (readError) {
-      console.error('Failed to read font file:', readError);
+      logger.error('Failed to read font file:', readError);
       throw new Error(`Cannot read font file: ${readError}`);
     }
     
@@ -79,18 +88,27 @@ export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
     let glyphCount = 0;
     let isVariableFont = false;
     let variableAxes: VariableAxis[] | undefined;
+    let namedInstances: NamedInstance[] | undefined;
+    let metadata: FontMetadata = EMPTY_FONT_METADATA;
+    let faces: CollectionFace[] | undefined;
 
     try {
       const fontkit = await loadFontkit();
       // fontkit.openSync はファイルパス用、Buffer には create を使用
       const fontOrCollection = fontkit.create(fontBuffer);
-      const font = 'fonts' in fontOrCollection ? fontOrCollection.fonts[0] : fontOrCollection;
+      if (isFontCollection(fontOrCollection)) {
+        faces = getCollectionFaces(fontOrCollection);
+      }
+      const font = selectFontFace(fontOrCollection, faceIndex);
 
       fontFamily = font.familyName || font.fullName || fontFamily;
       fontSubfamily = font.subfamilyName || 'Regular';
       version = font.version || '1.0';
       glyphCount = font.numGlyphs || estimateGlyphCount(fontBuffer);
 
+      // cmap・GSUB・GPOS から文字範囲・機能・対応言語を取得
+      metadata = extractFontMetadata(font);
+
       // バリアブルフォントの検出
       if (font.variationAxes) {
         const axes = font.variationAxes;
@@ -116,9 +134,27 @@ export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
         }
       }
 
-      console.log('Fontkit analysis:', { fontFamily, fontSubfamily, glyphCount, isVariableFont, axesCount: variableAxes?.length || 0 });
+      // 名前付きインスタンス（fvar）
+      if (isVariableFont) {
+        const instances = getNamedInstances(font);
+        namedInstances = instances.length > 0 ? instances : undefined;
+      }
+
+      logger.log('Fontkit analysis:', {
+        fontFamily,
+        fontSubfamily,
+        glyphCount,
+        isVariableFont,
+        axesCount: variableAxes?.length || 0,
+        instanceCount: namedInstances?.length || 0,
+        rangeCount: metadata.characterRanges.length,
+        featureCount: metadata.features.length,
+        languages: metadata.languages,
+        colorFormats: metadata.colorFormats,
+        faceCount: faces?.length,
+      });
     } catch (fontkitError) {
-      console.warn('Fontkit analysis failed, using fallback:', fontkitError);
+      logger.warn('Fontkit analysis failed, using fallback:', fontkitError);
       // フォールバック処理
       if (format === 'ttc') {
         fontFamily = extractTTCFontName(fontBuffer) || fontFamily;
@@ -129,8 +165,6 @@ export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
       }
     }
 
-    const characterRanges = getDefaultCharacterRanges();
-
     const analysis: FontAnalysis = {
       fileName,
       fileSize,
@@ -139,18 +173,23 @@ export async function analyzeFont(filePath: string): Promise<FontAnalysis> {
       fontSubfamily,
       version,
       glyphCount,
-      characterRanges,
-      features: [],
-      languages: ['ja', 'en'],
-      hasColorEmoji: false,
+      characterRanges: metadata.characterRanges,
+      features: metadata.features,
+      languages: metadata.languages,
+      hasColorEmoji: metadata.hasColorEmoji,
+      colorFormats: metadata.colorFormats,
       isVariableFont,
       axes: variableAxes,
+      namedInstances,
+      codePoints: metadata.codePoints,
+      faces,
+      faceIndex: faces ? faceIndex : undefined,
     };
 
-    console.log('Analysis completed successfully:', analysis);
+    logger.log('Analysis completed successfully:', analysis);
     return analysis;
   } catch (error) {
-    console.error('Font analysis error:', error);
+    logger.error('Font analysis error:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to analyze font: ${errorMessage}`);
   }
@@ -168,7 +207,7 @@ function extractFontName(buffer: Buffer | null): string | null {
     }
     return null;
   } catch (error) {
-    console.warn('Font name extraction error:', error);
+    logger.warn('Font name extraction error:', error);
     return null;
   }
 }
@@ -182,25 +221,11 @@ function estimateGlyphCount(buffer: Buffer | null): number {
     const estimate = Math.floor(buffer.length / 100);
     return Math.max(estimate, 100); // 最低100グリフと仮定
   } catch (error) {
-    console.warn('Glyph count estimation error:', error);
+    logger.warn('Glyph count estimation error:', error);
     return 1000; // デフォルト値
   }
 }
 
-function getDefaultCharacterRanges(): Array<{ start: number; end: number; name: string }> {
-  try {
-    return [
-      { start: 0x0000, end: 0x007F, name: 'Basic Latin' },
-      { start: 0x3040, end: 0x309F, name: 'Hiragana' },
-      { start: 0x30A0, end: 0x30FF, name: 'Katakana' },
-      { start: 0x4E00, end: 0x9FFF, name: 'CJK Unified Ideographs' },
-    ];
-  } catch (error) {
-    console.warn('Character ranges error:', error);
-    return [];
-  }
-}
-
 /**
  * TTCフォーマットからフォント名を抽出
  */
@@ -218,7 +243,7 @@ function extractTTCFontName(buffer: Buffer | null): string | null {
     // 実際には各フォントのnameテーブルを解析する必要がある
     return 'TTC Font Collection';
   } catch (error) {
-    console.warn('TTC font name extraction error:', error);
+    logger.warn('TTC font name extraction error:', error);
     return null;
   }
 }
@@ -235,7 +260,7 @@ function estimateTTCGlyphCount(buffer: Buffer | null): number {
     const baseGlyphCount = Math.floor(buffer.length / 50); // 概算
     return Math.min(Math.max(baseGlyphCount, 1000), 65535);
   } catch (error) {
-    console.warn('TTC glyph count estimation error:', error);
+    logger.warn('TTC glyph count estimation error:', error);
     return 1000; // デフォルト値
   }
 }
\ No newline at end of file
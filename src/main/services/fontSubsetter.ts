@@ -1,13 +1,63 @@
-import { SubsetOptions, ProgressState, ErrorType } from '../../shared/types';
-import { getCharacterSetFromPreset } from '../../shared/presets';
+import { SubsetOptions, ProgressState, ErrorType, CoverageReport, CollectionFace, NamedInstance, SizeEstimate, SizeEstimateOptions, OutputFormat } from '../../shared/types';
+import { evaluateCharacterSet, getCharacterSetExpression, hasCharacterSetSource } from '../../shared/presets';
+import { resolveFeaturePlan } from '../../shared/layoutFeatures';
+import { getInstanceFileName } from '../../shared/namedInstances';
+import { checkCoverage } from '../../shared/coverage';
+import { assertFaceIndex, getCollectionFaceCount, getFaceFileName, resolveFaceIndices, selectFontFace } from '../../shared/fontCollection';
+import {
+  calibrateSizeEstimate,
+  estimateSizeFromFont,
+  isSfnt,
+  resolveEstimationTables,
+  selectCalibrationSample,
+  SizeEstimationOptions,
+} from '../../shared/sizeEstimation';
 import { readFileSync } from 'fs';
 import subsetFontLib from 'subset-font';
+import * as fontverter from 'fontverter';
+import { subsetSfnt } from './harfbuzzSubsetter';
+import { analyzeFont } from './fontAnalyzer';
+import { loadSourceFont, verifySubsetOutput } from './subsetVerifier';
+import { FontMinifyError, createCancelledError, isCancelledError } from '../../shared/errors';
+import { logger } from './logger';
 
 /**
  * プログレスコールバックの型
  */
 type ProgressCallback = (progress: ProgressState) => void;
 
+/**
+ * キャンセルされたかを確認する関数の型
+ */
+export type CancellationCheck = () => boolean;
+
+/**
+ * キャンセルされていれば処理を中断（各フェーズの区切りで確認する）
+ */
+function throwIfCancelled(isCancelled: CancellationCheck, inputPath: string): void {
+  if (isCancelled()) {
+    throw createCancelledError(inputPath);
+  }
+}
+
+/**
+ * フォントコレクションの書体ごとのサブセット結果
+ */
+export interface FaceSubsetOutput {
+  face: CollectionFace;
+  outputPath?: string;
+  buffer: Buffer;
+}
+
+/**
+ * 名前付きインスタンスごとのサブセット結果
+ */
+export interface InstanceSubsetOutput {
+  instance: NamedInstance;
+  outputPath?: string;
+  buffer: Buffer;
+}
+
 /**
  * プログレス状態を更新するヘルパー関数
  */
@@ -33,14 +83,24 @@ function updateProgress(
 /**
  * 文字セットを決定
  */
-function determineCharacterSet(options: SubsetOptions): string {
-  if (options.customCharacters) {
-    return options.customCharacters;
+export function determineCharacterSet(options: SubsetOptions): string {
+  const expression = getCharacterSetExpression(options);
+  if (!hasCharacterSetSource(expression)) {
+    throw new Error('文字セットまたはプリセットが指定されていません');
   }
-  if (options.preset) {
-    return getCharacterSetFromPreset(options.preset);
+  return evaluateCharacterSet(expression);
+}
+
+/**
+ * 要求された文字セットをフォントの cmap と比較し、収録されていない文字を報告
+ * cmap を読めなかった場合は判定できないため null を返す
+ */
+export async function checkCharacterCoverage(options: SubsetOptions): Promise<CoverageReport | null> {
+  const analysis = await analyzeFont(options.inputPath, resolveFaceIndices(options.faceIndices)[0]);
+  if (!analysis.codePoints) {
+    return null;
   }
-  throw new Error('文字セットまたはプリセットが指定されていません');
+  return checkCoverage(determineCharacterSet(options), analysis.codePoints);
 }
 
 /**
@@ -62,6 +122,8 @@ function convertToSubsetFontFormat(format: string): 'sfnt' | 'woff' | 'woff2' {
 
 /**
  * フォントをサブセット化
+ * 機能保持設定（preserveFeatures / featureTags）を harfbuzz のレイアウト機能セットと削除テーブルに反映する
+ * TTC/OTC の場合は faceIndices の先頭の書体を単体フォントとして出力する
  */
 async function performSubset(
   fontBuffer: Buffer,
@@ -69,8 +131,11 @@ async function performSubset(
   options: SubsetOptions
 ): Promise<Buffer> {
   const targetFormat = convertToSubsetFontFormat(options.outputFormat || 'woff2');
+  const featurePlan = resolveFeaturePlan(options, characterSet);
+  const faceIndex = resolveFaceIndices(options.faceIndices)[0];
+  assertFaceIndex(fontBuffer, faceIndex);
 
-  console.log('サブセット化開始:', {
+  logger.log('サブセット化開始:', {
     text: characterSet.slice(0, 50) + (characterSet.length > 50 ? '...' : ''),
     textLength: characterSet.length,
     requestedFormat: options.outputFormat,
@@ -78,28 +143,42 @@ async function performSubset(
     bufferSize: fontBuffer.length,
     pinVariationAxes: options.pinVariationAxes,
     variationAxes: options.variationAxes,
+    variationAxisRanges: options.variationAxisRanges,
+    featurePlan,
+    faceIndex,
   });
 
   try {
-    // subset-fontのオプションを構築
-    const subsetOptions: Record<string, unknown> = {
-      targetFormat: targetFormat,
-      preserveHinting: !options.removeHinting,
-      desubroutinize: options.desubroutinize || false,
-    };
+    // コレクションは harfbuzz が直接扱えるため変換しない
+    const sfnt = getCollectionFaceCount(fontBuffer) > 0
+      ? fontBuffer
+      : await fontverter.convert(fontBuffer, 'sfnt');
 
     // バリアブルフォントの軸値を固定する場合
-    if (options.pinVariationAxes && options.variationAxes) {
-      subsetOptions.variationAxes = options.variationAxes;
-      console.log('バリアブルフォント軸を固定:', options.variationAxes);
+    const variationAxes = options.pinVariationAxes ? options.variationAxes : undefined;
+    if (variationAxes) {
+      logger.log('バリアブルフォント軸を固定:', variationAxes);
+    }
+    // 軸を固定しない場合は指定した範囲だけを可変のまま残す
+    const variationAxisRanges = options.pinVariationAxes ? undefined : options.variationAxisRanges;
+    if (variationAxisRanges) {
+      logger.log('バリアブルフォント軸の範囲を制限:', variationAxisRanges);
     }
 
-    const subsetFontBuffer = await subsetFontLib(fontBuffer, characterSet, subsetOptions);
-
-    console.log('サブセット化完了:', subsetFontBuffer.length, 'bytes');
+    const subsetSfntBuffer = await subsetSfnt(sfnt, {
+      text: characterSet,
+      featurePlan,
+      variationAxes,
+      variationAxisRanges,
+      desubroutinize: options.desubroutinize,
+      faceIndex,
+    });
+    const subsetFontBuffer = await fontverter.convert(subsetSfntBuffer, targetFormat, 'sfnt');
+
+    logger.log('サブセット化完了:', subsetFontBuffer.length, 'bytes');
     return subsetFontBuffer;
   } catch (subsetError: any) {
-    console.error('サブセット化エラー:', subsetError);
+    logger.error('サブセット化エラー:', subsetError);
     throw new Error(`フォントサブセット化に失敗しました: ${subsetError.message || 'unknown error'}`);
   }
 }
@@ -114,7 +193,7 @@ async function compressToWoff2Format(
   try {
     return await subsetFontLib(fontBuffer, { text: characterSet, targetFormat: 'woff2' });
   } catch (woff2Error) {
-    console.warn('WOFF2 compression failed, using original format:', woff2Error);
+    logger.warn('WOFF2 compression failed, using original format:', woff2Error);
     throw woff2Error;
   }
 }
@@ -124,67 +203,94 @@ async function compressToWoff2Format(
  */
 export async function subsetFont(
   options: SubsetOptions,
-  progressCallback: ProgressCallback
+  progressCallback: ProgressCallback,
+  isCancelled: CancellationCheck = () => false
 ): Promise<Buffer> {
-  console.log('=== subsetFont called ===');
-  console.log('Options:', JSON.stringify({
+  logger.log('=== subsetFont called ===');
+  logger.log('Options:', JSON.stringify({
     inputPath: options.inputPath,
     outputPath: options.outputPath,
     preset: options.preset,
     outputFormat: options.outputFormat,
     hasCustomCharacters: !!options.customCharacters,
+    characterSetExpression: options.characterSetExpression,
   }, null, 2));
 
   try {
+    throwIfCancelled(isCancelled, options.inputPath);
+
     // フェーズ1: 解析開始
-    console.log('Phase 1: Analyzing...');
+    logger.log('Phase 1: Analyzing...');
     updateProgress(progressCallback, 'analyzing', 10, options.inputPath, 15);
 
     // フォントファイルを読み込み
-    console.log('Reading font file...');
+    logger.log('Reading font file...');
     const fontBuffer = readFileSync(options.inputPath);
-    console.log('Font file read successfully, size:', fontBuffer.length);
+    logger.log('Font file read successfully, size:', fontBuffer.length);
 
     // フェーズ2: 文字セット決定
-    console.log('Phase 2: Determining character set...');
+    logger.log('Phase 2: Determining character set...');
     const characterSet = determineCharacterSet(options);
-    console.log('Character set determined, length:', characterSet.length);
+    logger.log('Character set determined, length:', characterSet.length);
 
     // フェーズ3: サブセット化
-    console.log('Phase 3: Subsetting...');
+    logger.log('Phase 3: Subsetting...');
     updateProgress(progressCallback, 'subsetting', 30, options.inputPath, 10);
     const subsetFontBuffer = await performSubset(fontBuffer, characterSet, options);
-    console.log('Subset completed, output size:', subsetFontBuffer.length);
+    logger.log('Subset completed, output size:', subsetFontBuffer.length);
+    throwIfCancelled(isCancelled, options.inputPath);
 
     // フェーズ4: 最適化
-    console.log('Phase 4: Optimizing...');
+    logger.log('Phase 4: Optimizing...');
     updateProgress(progressCallback, 'optimizing', 80, options.inputPath, 3);
 
     // フェーズ5: WOFF2圧縮（必要な場合）
     let outputBuffer = subsetFontBuffer;
     if (options.enableWoff2Compression && options.outputFormat !== 'woff2') {
-      console.log('Phase 5: WOFF2 compression...');
+      logger.log('Phase 5: WOFF2 compression...');
       updateProgress(progressCallback, 'compressing', 85, options.inputPath, 2);
 
       try {
-        outputBuffer = await compressToWoff2Format(fontBuffer, characterSet);
-        console.log('WOFF2 compression completed');
+        // コレクションは選択した書体のサブセット結果を圧縮する
+        const sourceBuffer = getCollectionFaceCount(fontBuffer) > 0 ? subsetFontBuffer : fontBuffer;
+        outputBuffer = await compressToWoff2Format(sourceBuffer, characterSet);
+        logger.log('WOFF2 compression completed');
       } catch (e) {
-        console.warn('WOFF2 compression failed, using original format:', e);
+        logger.warn('WOFF2 compression failed, using original format:', e);
         // WOFF2圧縮に失敗した場合は元の形式を使用
         outputBuffer = subsetFontBuffer;
       }
     }
 
-    // フェーズ6: 完了
-    console.log('Phase 6: Complete!');
-    console.log('Final output size:', outputBuffer.length);
+    throwIfCancelled(isCancelled, options.inputPath);
+
+    // フェーズ6: 出力の検証
+    logger.log('Phase 6: Verifying...');
+    updateProgress(progressCallback, 'verifying', 90, options.inputPath, 1);
+    const faceIndex = resolveFaceIndices(options.faceIndices)[0];
+    await verifySubsetOutput(
+      outputBuffer,
+      characterSet,
+      await loadSourceFont(fontBuffer, faceIndex),
+      options.outputPath || options.inputPath
+    );
+
+    throwIfCancelled(isCancelled, options.inputPath);
+
+    // フェーズ7: 完了
+    logger.log('Phase 7: Complete!');
+    logger.log('Final output size:', outputBuffer.length);
     updateProgress(progressCallback, 'complete', 100, options.inputPath, 0);
 
     return outputBuffer;
   } catch (error) {
-    console.error('=== subsetFont ERROR ===');
-    console.error('Error:', error);
+    // キャンセルはエラーとして進捗に載せない
+    if (isCancelledError(error)) {
+      logger.log('Subsetting cancelled:', options.inputPath);
+      throw error;
+    }
+    logger.error('=== subsetFont ERROR ===');
+    logger.error('Error:', error);
     const errorMessage = error instanceof Error ? error.message : '不明なエラーが発生しました';
 
     updateProgress(
@@ -194,52 +300,130 @@ export async function subsetFont(
       options.inputPath,
       0,
       [{
-        type: ErrorType.SUBSET_FAILED,
+        type: error instanceof FontMinifyError ? error.type : ErrorType.SUBSET_FAILED,
         message: errorMessage,
         details: options.inputPath,
         recoverable: true,
       }]
     );
 
+    if (error instanceof FontMinifyError) {
+      throw error;
+    }
     throw new Error(`フォントサブセット化に失敗しました: ${errorMessage}`);
   }
 }
 
+/**
+ * フォントコレクション（TTC/OTC）の書体ごとにサブセット化
+ * 出力先は outputPath に書体のPostScript名を付加したパスになる
+ */
+export async function subsetCollectionFaces(
+  options: SubsetOptions,
+  progressCallback: ProgressCallback,
+  isCancelled: CancellationCheck = () => false
+): Promise<FaceSubsetOutput[]> {
+  const analysis = await analyzeFont(options.inputPath);
+  if (!analysis.faces) {
+    throw new Error('フォントコレクション（TTC/OTC）ではないため書体ごとに出力できません');
+  }
+
+  const outputs: FaceSubsetOutput[] = [];
+  for (const faceIndex of resolveFaceIndices(options.faceIndices)) {
+    const face = analysis.faces[faceIndex];
+    if (!face) {
+      throw new Error(`書体番号 ${faceIndex} はコレクションに存在しません（${analysis.faces.length}書体）`);
+    }
+    const outputPath = options.outputPath ? getFaceFileName(options.outputPath, face) : undefined;
+    const buffer = await subsetFont({ ...options, outputPath, faceIndices: [faceIndex] }, progressCallback, isCancelled);
+    outputs.push({ face, outputPath, buffer });
+  }
+  return outputs;
+}
+
+/**
+ * バリアブルフォントの名前付きインスタンスごとに、軸値を固定した静的フォントとしてサブセット化
+ * 出力先は outputPath にインスタンス名を付加したパスになる
+ */
+export async function subsetNamedInstances(
+  options: SubsetOptions,
+  progressCallback: ProgressCallback,
+  isCancelled: CancellationCheck = () => false
+): Promise<InstanceSubsetOutput[]> {
+  const faceIndex = resolveFaceIndices(options.faceIndices)[0];
+  const analysis = await analyzeFont(options.inputPath, faceIndex);
+  if (!analysis.namedInstances || analysis.namedInstances.length === 0) {
+    throw new Error('名前付きインスタンスを持つバリアブルフォントではないためインスタンスごとに出力できません');
+  }
+
+  const outputs: InstanceSubsetOutput[] = [];
+  for (const instance of analysis.namedInstances) {
+    const outputPath = options.outputPath ? getInstanceFileName(options.outputPath, instance) : undefined;
+    // hb_subset_input_pin_axis_location で全軸をインスタンスの値に固定する
+    const buffer = await subsetFont({
+      ...options,
+      outputPath,
+      faceIndices: [faceIndex],
+      variationAxes: instance.coordinates,
+      pinVariationAxes: true,
+    }, progressCallback, isCancelled);
+    outputs.push({ instance, outputPath, buffer });
+  }
+  return outputs;
+}
+
 /**
  * サブセット後のファイルサイズを推定
+ * グリフごとのアウトラインのサイズと残すテーブルから推定し、
+ * 較正する場合はサンプルの文字を実際にサブセット化した結果で補正する（誤差幅を含めて返す）
  */
 export async function estimateSubsetSize(
   filePath: string,
   characterSet: string,
-  enableWoff2Compression: boolean = true
-): Promise<{ originalSize: number; estimatedSize: number; compressionRatio: number }> {
+  enableWoff2Compression: boolean = true,
+  options: SizeEstimateOptions = {}
+): Promise<SizeEstimate> {
   try {
     const fontBuffer = readFileSync(filePath);
-    const originalSize = fontBuffer.length;
+    const faceIndex = options.faceIndex ?? 0;
+    const outputFormat: OutputFormat = enableWoff2Compression ? 'woff2' : options.outputFormat ?? 'woff2';
 
-    // 簡易的なサイズ推定（実際の文字数比率ベース）
+    // WOFF/WOFF2 は SFNT に展開してからテーブルを読む
+    const sfnt = isSfnt(fontBuffer) ? fontBuffer : await fontverter.convert(fontBuffer, 'sfnt');
     const fontkit = await import('fontkit');
-    const fontOrCollection = fontkit.openSync(fontBuffer);
-    const font = 'fonts' in fontOrCollection ? fontOrCollection.fonts[0] : fontOrCollection;
-    const totalGlyphs = font.numGlyphs;
-    const usedGlyphs = new Set(characterSet).size;
-
-    // 概算での圧縮率計算
-    const glyphRatio = usedGlyphs / totalGlyphs;
-    let compressionFactor = 0.8; // 基本的なサブセット圧縮
-
-    if (enableWoff2Compression) {
-      compressionFactor = 0.4; // WOFF2の優秀な圧縮率
+    const font = selectFontFace(fontkit.create(sfnt), faceIndex);
+    const estimationOptions: SizeEstimationOptions = {
+      outputFormat,
+      faceIndex,
+      originalSize: fontBuffer.length,
+      ...resolveEstimationTables(options, characterSet),
+    };
+    const estimate = estimateSizeFromFont(sfnt, font, characterSet, estimationOptions);
+    if (options.calibrate === false) {
+      return estimate;
     }
 
-    const estimatedSize = Math.round(originalSize * glyphRatio * compressionFactor);
-    const compressionRatio = ((originalSize - estimatedSize) / originalSize) * 100;
-
-    return {
-      originalSize,
-      estimatedSize,
-      compressionRatio: Math.round(compressionRatio * 100) / 100,
-    };
+    const sample = selectCalibrationSample(font, characterSet);
+    if (!sample.text) {
+      return estimate;
+    }
+    const sampleOutput = await performSubset(fontBuffer, sample.text, {
+      inputPath: filePath,
+      outputFormat,
+      faceIndices: [faceIndex],
+      preserveFeatures: options.preserveFeatures,
+      featureTags: options.featureTags,
+      removeHinting: options.removeHinting,
+      variationAxes: options.variationAxes,
+      pinVariationAxes: options.pinVariationAxes,
+      variationAxisRanges: options.variationAxisRanges,
+    });
+    return calibrateSizeEstimate(
+      estimate,
+      estimateSizeFromFont(sfnt, font, sample.text, estimationOptions),
+      sample,
+      sampleOutput.length
+    );
   } catch (error) {
     throw new Error(`サイズ推定に失敗しました: ${error}`);
   }
@@ -0,0 +1,61 @@
+import { readFile } from 'fs/promises';
+import type { Font } from 'fontkit';
+import { GlyphOutline, GlyphOutlineSet } from '../../shared/types';
+import { selectFontFace } from '../../shared/fontCollection';
+
+// 1回の要求で返すグリフ数の上限（グリフ一覧は表示中の行の分だけ要求する）
+const MAX_GLYPHS_PER_REQUEST = 2000;
+
+// fontkit を動的インポートするためのヘルパー
+async function loadFontkit() {
+  const fontkit = await import('fontkit');
+  return fontkit.default || fontkit;
+}
+
+// スクロールのたびに要求されるため、直前に開いたフォントを使い回す
+let cachedFont: { key: string; font: Promise<Font> } | null = null;
+
+async function openFontFace(filePath: string, faceIndex: number): Promise<Font> {
+  const key = `${filePath}#${faceIndex}`;
+  if (cachedFont?.key !== key) {
+    const font = (async () => {
+      const fontkit = await loadFontkit();
+      return selectFontFace(fontkit.create(await readFile(filePath)), faceIndex);
+    })();
+    font.catch(() => {
+      if (cachedFont?.key === key) {
+        cachedFont = null;
+      }
+    });
+    cachedFont = { key, font };
+  }
+  return cachedFont.font;
+}
+
+/**
+ * 指定したコードポイントのグリフのアウトラインを SVG パスとして取得
+ * cmap にないコードポイントは結果に含めない
+ */
+export async function getGlyphOutlines(filePath: string, codePoints: number[], faceIndex = 0): Promise<GlyphOutlineSet> {
+  if (codePoints.length > MAX_GLYPHS_PER_REQUEST) {
+    throw new Error(`一度に取得できるグリフは${MAX_GLYPHS_PER_REQUEST}個までです`);
+  }
+
+  const font = await openFontFace(filePath, faceIndex);
+  const glyphs: GlyphOutline[] = [];
+  for (const codePoint of codePoints) {
+    const glyph = font.glyphForCodePoint(codePoint);
+    // cmap にない文字は .notdef（グリフ番号 0）になる
+    if (glyph.id === 0) {
+      continue;
+    }
+    glyphs.push({ codePoint, path: glyph.path.toSVG(), advanceWidth: glyph.advanceWidth });
+  }
+
+  return {
+    unitsPerEm: font.unitsPerEm,
+    ascent: font.ascent,
+    descent: font.descent,
+    glyphs,
+  };
+}
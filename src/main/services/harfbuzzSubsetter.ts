@@ -0,0 +1,28 @@
+import { readFile } from 'fs/promises';
+import { HarfbuzzExports, HarfbuzzSubsetInput, instantiateHarfbuzz, runHarfbuzzSubset } from '../../shared/harfbuzzSubset';
+
+let harfbuzzLoading: Promise<HarfbuzzExports> | null = null;
+
+/**
+ * hb-subset.wasm を読み込む（初回のみ）
+ */
+function loadHarfbuzz(): Promise<HarfbuzzExports> {
+  if (!harfbuzzLoading) {
+    harfbuzzLoading = readFile(require.resolve('harfbuzzjs/hb-subset.wasm'))
+      .then(wasm => instantiateHarfbuzz(wasm as Uint8Array<ArrayBuffer>));
+    harfbuzzLoading.catch(() => {
+      harfbuzzLoading = null;
+    });
+  }
+  return harfbuzzLoading;
+}
+
+/**
+ * SFNT（TTF/OTF）またはコレクション（TTC/OTC）の1書体を harfbuzz でサブセット化
+ * レイアウト機能・削除テーブル・ヒンティングは featurePlan に従う
+ */
+export async function subsetSfnt(fontData: Buffer, input: HarfbuzzSubsetInput): Promise<Buffer> {
+  const hb = await loadHarfbuzz();
+  const result = runHarfbuzzSubset(hb, fontData, input);
+  return Buffer.from(result.buffer, result.byteOffset, result.byteLength);
+}
@@ -0,0 +1,27 @@
+/**
+ * サービス層（サブセット化・解析・検証・文字抽出）の処理ログの出力先
+ */
+export interface ServiceLogger {
+  log: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+// GUI ではそのままコンソールに出力する
+let current: ServiceLogger = console;
+
+/**
+ * 処理ログの出力先を切り替える（CLI は --verbose 指定時だけ処理ログを表示する）
+ */
+export function setServiceLogger(next: ServiceLogger): void {
+  current = next;
+}
+
+/**
+ * 処理ログを出力する（出力先は setServiceLogger で切り替えられる）
+ */
+export const logger: ServiceLogger = {
+  log: (...args) => current.log(...args),
+  warn: (...args) => current.warn(...args),
+  error: (...args) => current.error(...args),
+};
@@ -0,0 +1,36 @@
+import { basename, dirname, extname, join } from 'path';
+import { SubsetOptions, OutputFormat } from '../../shared/types';
+import { generateFontFaceStylesheet, getCoveredText, getStylesheetFileName } from '../../shared/fontFace';
+import { analyzeFont } from './fontAnalyzer';
+import { determineCharacterSet } from './fontSubsetter';
+import { saveFileToPath } from './fileManager';
+import { resolveFaceIndices } from '../../shared/fontCollection';
+
+/**
+ * サブセット出力の隣に @font-face スタイルシートを書き出す
+ * @returns 書き出したスタイルシートのパス
+ */
+export async function writeFontFaceStylesheet(
+  options: SubsetOptions,
+  outputPath: string
+): Promise<string> {
+  const analysis = await analyzeFont(options.inputPath, resolveFaceIndices(options.faceIndices)[0]);
+  const format = (options.outputFormat
+    || extname(outputPath).slice(1).toLowerCase()
+    || 'woff2') as OutputFormat;
+
+  const css = generateFontFaceStylesheet([{
+    fontFamily: analysis.fontFamily,
+    fontSubfamily: analysis.fontSubfamily,
+    fileName: basename(outputPath),
+    format,
+    text: getCoveredText(determineCharacterSet(options), analysis.codePoints),
+    variationAxes: options.pinVariationAxes ? options.variationAxes : undefined,
+    variationAxisRanges: options.pinVariationAxes ? undefined : options.variationAxisRanges,
+    fontDisplay: options.fontDisplay,
+  }]);
+
+  const cssPath = join(dirname(outputPath), getStylesheetFileName(basename(outputPath)));
+  await saveFileToPath(cssPath, Buffer.from(css, 'utf8'));
+  return cssPath;
+}
@@ -0,0 +1,115 @@
+import { mkdir, readdir, rename, rm } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { SubsetOptions, ProgressState } from '../../shared/types';
+import { resolveFaceIndices } from '../../shared/fontCollection';
+import { createCancelledError } from '../../shared/errors';
+import { subsetFont, subsetCollectionFaces, subsetNamedInstances, CancellationCheck } from './fontSubsetter';
+import { saveFileToPath } from './fileManager';
+import { writeFontFaceStylesheet } from './stylesheetWriter';
+
+/**
+ * 保存したサブセットフォント
+ */
+export interface WrittenSubsetOutput {
+  outputPath: string;
+  buffer: Buffer;
+}
+
+/**
+ * 1回のサブセット化で複数のファイルを出力するか（コレクションの複数書体・名前付きインスタンス）
+ */
+export function hasMultipleSubsetOutputs(options: SubsetOptions): boolean {
+  return !!options.exportNamedInstances || resolveFaceIndices(options.faceIndices).length > 1;
+}
+
+/**
+ * フォントをサブセット化して outputPath に保存する
+ * コレクションの複数書体は書体ごと、名前付きインスタンスはインスタンスごとに別ファイルへ保存し、
+ * 指定時は @font-face スタイルシートも書き出す
+ * キャンセルされた場合は保存前に中断する
+ */
+export async function writeSubsetOutputs(
+  options: SubsetOptions & { outputPath: string },
+  progressCallback: (progress: ProgressState) => void,
+  isCancelled: CancellationCheck = () => false
+): Promise<WrittenSubsetOutput[]> {
+  if (options.exportNamedInstances) {
+    const instances = await subsetNamedInstances(options, progressCallback, isCancelled);
+    if (isCancelled()) {
+      throw createCancelledError(options.inputPath);
+    }
+    const outputs: WrittenSubsetOutput[] = [];
+    for (const output of instances) {
+      const outputPath = output.outputPath as string;
+      await saveFileToPath(outputPath, output.buffer);
+      console.log(`Font saved to: ${outputPath} (${output.instance.name})`);
+      if (options.generateCss) {
+        await writeFontFaceStylesheet({
+          ...options,
+          variationAxes: output.instance.coordinates,
+          pinVariationAxes: true,
+        }, outputPath);
+      }
+      outputs.push({ outputPath, buffer: output.buffer });
+    }
+    return outputs;
+  }
+
+  if (resolveFaceIndices(options.faceIndices).length > 1) {
+    const faces = await subsetCollectionFaces(options, progressCallback, isCancelled);
+    if (isCancelled()) {
+      throw createCancelledError(options.inputPath);
+    }
+    const outputs: WrittenSubsetOutput[] = [];
+    for (const output of faces) {
+      const outputPath = output.outputPath as string;
+      await saveFileToPath(outputPath, output.buffer);
+      console.log(`Font saved to: ${outputPath}`);
+      if (options.generateCss) {
+        await writeFontFaceStylesheet({ ...options, faceIndices: [output.face.index] }, outputPath);
+      }
+      outputs.push({ outputPath, buffer: output.buffer });
+    }
+    return outputs;
+  }
+
+  const buffer = await subsetFont(options, progressCallback, isCancelled);
+  if (isCancelled()) {
+    throw createCancelledError(options.inputPath);
+  }
+  await saveFileToPath(options.outputPath, buffer);
+  console.log(`Font saved to: ${options.outputPath}`);
+
+  if (options.generateCss) {
+    const cssPath = await writeFontFaceStylesheet(options, options.outputPath);
+    console.log(`Stylesheet saved to: ${cssPath}`);
+  }
+  return [{ outputPath: options.outputPath, buffer }];
+}
+
+/**
+ * writeSubsetOutputs の出力（スタイルシートを含む）を一時フォルダに書き出し、完了後に保存先のフォルダへ移動する
+ * 途中で停止しても保存先に書きかけのファイルを残さないため、一時フォルダは保存先と同じフォルダ内に作る
+ */
+export async function writeSubsetOutputsViaTemporary(
+  options: SubsetOptions & { outputPath: string },
+  temporaryDirectory: string,
+  progressCallback: (progress: ProgressState) => void,
+  isCancelled: CancellationCheck = () => false
+): Promise<WrittenSubsetOutput[]> {
+  const outputDirectory = dirname(options.outputPath);
+  await mkdir(temporaryDirectory, { recursive: true });
+  try {
+    const outputs = await writeSubsetOutputs(
+      { ...options, outputPath: join(temporaryDirectory, basename(options.outputPath)) },
+      progressCallback,
+      isCancelled
+    );
+    for (const fileName of await readdir(temporaryDirectory)) {
+      await rename(join(temporaryDirectory, fileName), join(outputDirectory, fileName));
+    }
+    return outputs.map(output => ({ ...output, outputPath: join(outputDirectory, basename(output.outputPath)) }));
+  } finally {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,62 @@
+import * as fontverter from 'fontverter';
+import { createSubsetVerificationFailedError } from '../../shared/errors';
+import { selectFontFace } from '../../shared/fontCollection';
+import {
+  SubsetVerificationResult,
+  VerificationFontSource,
+  getExpectedCodePoints,
+  verifySubsetFont,
+} from '../../shared/subsetVerification';
+import { logger } from './logger';
+
+// fontkit を動的インポートするためのヘルパー
+async function loadFontkit() {
+  const fontkit = await import('fontkit');
+  return fontkit.default || fontkit;
+}
+
+/**
+ * 検証で比較する元フォントの書体（cmap とグリフ）
+ */
+export interface SourceFontFace extends VerificationFontSource {
+  characterSet: number[];
+}
+
+/**
+ * 元フォントの指定書体を読み込む
+ */
+export async function loadSourceFont(fontBuffer: Buffer, faceIndex = 0): Promise<SourceFontFace> {
+  const fontkit = await loadFontkit();
+  return selectFontFace(fontkit.create(fontBuffer), faceIndex);
+}
+
+/**
+ * 保存前のサブセット結果を検証
+ * WOFF/WOFF2 は SFNT に展開して（デコードの往復を確認して）から、
+ * fontkit で再解析してテーブルのチェックサムと要求文字のグリフ割り当てを確認する
+ */
+export async function verifySubsetOutput(
+  output: Buffer,
+  characterSet: string,
+  sourceFont: SourceFontFace,
+  filePath: string
+): Promise<SubsetVerificationResult> {
+  const expectedCodePoints = getExpectedCodePoints(characterSet, sourceFont.characterSet);
+
+  let result: SubsetVerificationResult;
+  try {
+    const sfnt = await fontverter.convert(output, 'sfnt');
+    const fontkit = await loadFontkit();
+    const font = selectFontFace(fontkit.create(sfnt));
+    result = verifySubsetFont(sfnt, font, expectedCodePoints, sourceFont);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw createSubsetVerificationFailedError(filePath, [`出力ファイルを解析できません: ${errorMessage}`]);
+  }
+
+  if (!result.valid) {
+    throw createSubsetVerificationFailedError(filePath, result.issues);
+  }
+  logger.log('サブセット結果の検証完了:', expectedCodePoints.length, 'code points');
+  return result;
+}
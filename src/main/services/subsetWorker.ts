@@ -0,0 +1,39 @@
+import { parentPort } from 'worker_threads';
+import { statSync } from 'fs';
+import { writeSubsetOutputsViaTemporary } from './subsetOutputWriter';
+import type { SubsetWorkerMessage, SubsetWorkerRequest } from './batchQueue';
+
+/**
+ * バッチ処理のワーカースレッド
+ * メインプロセスから受け取ったジョブを1件ずつサブセット化して保存し、進捗と結果を返す
+ * 出力は一時フォルダに書き出してから保存先へ移動する（停止時の一時フォルダはメインプロセスが削除する）
+ */
+const port = parentPort;
+
+if (port) {
+  const post = (message: SubsetWorkerMessage) => port.postMessage(message);
+
+  port.on('message', async (request: SubsetWorkerRequest) => {
+    if (request.type !== 'run') {
+      return;
+    }
+
+    try {
+      const outputs = await writeSubsetOutputsViaTemporary(
+        request.options,
+        request.options.temporaryDirectory,
+        progress => post({ type: 'progress', progress })
+      );
+      post({
+        type: 'done',
+        result: {
+          outputPaths: outputs.map(output => output.outputPath),
+          originalSize: statSync(request.options.inputPath).size,
+          outputSize: outputs.reduce((sum, output) => sum + output.buffer.length, 0),
+        },
+      });
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import {
+  MAX_TEXT_SOURCE_SIZE,
+  TextExtractionResult,
+  TextSource,
+  extractCharactersFromSources,
+  isIgnoredTextSourceDirectory,
+  isTextSourceFile,
+} from '../../shared/textExtraction';
+import { logger } from './logger';
+
+/**
+ * 指定されたファイル・ディレクトリから文字抽出の対象ファイルを再帰的に集める
+ * node_modules や隠しディレクトリは読み飛ばし、明示的に指定されたファイルは拡張子のみで判定する
+ */
+export async function collectTextSourcePaths(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (directory: string): Promise<void> => {
+    const entries = await readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!isIgnoredTextSourceDirectory(entry.name)) {
+          await walk(entryPath);
+        }
+      } else if (entry.isFile() && isTextSourceFile(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+  };
+
+  for (const path of paths) {
+    const stats = await stat(path);
+    if (stats.isDirectory()) {
+      await walk(path);
+    } else if (isTextSourceFile(path)) {
+      files.push(path);
+    } else {
+      throw new Error(`文字抽出に対応していないファイル形式です: ${path}`);
+    }
+  }
+
+  return Array.from(new Set(files));
+}
+
+/**
+ * ローカルのファイル・ディレクトリから文字セットを作成
+ * 大きすぎるファイルや解析できないファイルは skippedFiles に記録して続行する
+ */
+export async function extractCharactersFromPaths(paths: string[]): Promise<TextExtractionResult> {
+  const filePaths = await collectTextSourcePaths(paths);
+  const sources: TextSource[] = [];
+  const oversized: string[] = [];
+
+  for (const filePath of filePaths) {
+    const { size } = await stat(filePath);
+    if (size > MAX_TEXT_SOURCE_SIZE) {
+      oversized.push(filePath);
+      continue;
+    }
+    sources.push({ fileName: filePath, content: await readFile(filePath, 'utf8') });
+  }
+
+  const result = extractCharactersFromSources(sources);
+  logger.log('Text extraction:', {
+    fileCount: result.fileCount,
+    characterCount: Array.from(result.characters).length,
+    skipped: result.skippedFiles.length + oversized.length,
+  });
+
+  return { ...result, skippedFiles: [...oversized, ...result.skippedFiles] };
+}
@@ -0,0 +1,66 @@
+import { app } from 'electron';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  USER_PRESET_FILE_NAME,
+  UserPreset,
+  parseUserPresetFile,
+  serializeUserPresets,
+  validateUserPreset,
+} from '../../shared/userPresets';
+
+/**
+ * ユーザー定義プリセットの保存先（Electron の userData ディレクトリ）
+ */
+export function getUserPresetFilePath(): string {
+  return join(app.getPath('userData'), USER_PRESET_FILE_NAME);
+}
+
+/**
+ * 保存済みのプリセットを読み込む
+ * 読み込めないファイルは退避して空の一覧から始める（次回の保存で上書きしないため）
+ */
+export async function loadUserPresets(filePath = getUserPresetFilePath()): Promise<UserPreset[]> {
+  let json: string;
+  try {
+    json = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  try {
+    return parseUserPresetFile(json);
+  } catch (error) {
+    console.error('User preset file is invalid, moving it aside:', error);
+    await rename(filePath, `${filePath}.invalid`);
+    return [];
+  }
+}
+
+/**
+ * プリセットの一覧を保存（書き込み途中で壊れないよう一時ファイルから置き換える）
+ */
+export async function saveUserPresets(presets: UserPreset[], filePath = getUserPresetFilePath()): Promise<UserPreset[]> {
+  const validated = presets.map(validateUserPreset);
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, serializeUserPresets(validated), 'utf8');
+  await rename(tempPath, filePath);
+  return validated;
+}
+
+/**
+ * 共有用のJSONファイルからプリセットを読み込む
+ */
+export async function importUserPresets(filePath: string): Promise<UserPreset[]> {
+  return parseUserPresetFile(await readFile(filePath, 'utf8'));
+}
+
+/**
+ * プリセットを共有用のJSONファイルに書き出す
+ */
+export async function exportUserPresets(filePath: string, presets: UserPreset[]): Promise<void> {
+  await writeFile(filePath, serializeUserPresets(presets.map(validateUserPreset)), 'utf8');
+}
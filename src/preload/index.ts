@@ -1,5 +1,7 @@
 import { contextBridge, ipcRenderer, webUtils } from 'electron';
-import { IPCChannel, SubsetOptions, FontAnalysis, ProgressState, CompressionStats, Woff2CompressionOptions } from '../shared/types';
+import { IPCChannel, SubsetOptions, FontAnalysis, ProgressState, CompressionStats, Woff2CompressionOptions, CoverageReport, GlyphOutlineSet, SizeEstimate, SizeEstimateOptions, BatchSubmission, BatchJob, BatchJobUpdate } from '../shared/types';
+import { TextExtractionResult } from '../shared/textExtraction';
+import { UserPreset } from '../shared/userPresets';
 import { exposeSecureApi, initializeSecurityMonitoring } from './security';
 
 export interface ElectronAPI {
@@ -8,10 +10,25 @@ export interface ElectronAPI {
   analyzeFont: (filePath: string) => Promise<FontAnalysis>;
   subsetFont: (options: SubsetOptions) => Promise<Buffer>;
   compressWoff2: (fontBuffer: Buffer, options?: Woff2CompressionOptions) => Promise<{ compressedBuffer: Buffer; stats: CompressionStats }>;
-  estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean) => Promise<{ originalSize: number; estimatedSize: number; compressionRatio: number }>;
-  saveFile: (data: Buffer, defaultPath: string) => Promise<string | null>;
+  estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean, options?: SizeEstimateOptions) => Promise<SizeEstimate>;
+  generateFontFaceCss: (options: SubsetOptions, outputPath: string) => Promise<string>;
+  checkCoverage: (options: SubsetOptions) => Promise<CoverageReport | null>;
+  getGlyphOutlines: (filePath: string, codePoints: number[], faceIndex?: number) => Promise<GlyphOutlineSet>;
+  readFontFile: (filePath: string) => Promise<Uint8Array>;
+  selectTextSources: (directory: boolean) => Promise<string[]>;
+  extractText: (paths: string[]) => Promise<TextExtractionResult>;
+  loadUserPresets: () => Promise<UserPreset[]>;
+  saveUserPresets: (presets: UserPreset[]) => Promise<UserPreset[]>;
+  importUserPresets: () => Promise<UserPreset[]>;
+  exportUserPresets: (presets: UserPreset[]) => Promise<string | null>;
+  saveFile: (data: Buffer, defaultPath: string, cssOptions?: SubsetOptions) => Promise<string | null>;
   saveFileDialog: (defaultPath: string, outputFormat: string) => Promise<string | null>;
   validateSavePath: (filePath: string) => Promise<{ isValid: boolean; error?: string }>;
+  selectOutputDirectory: () => Promise<string | null>;
+  submitBatch: (submission: BatchSubmission) => Promise<BatchJob[]>;
+  cancelBatchJob: (jobId: string) => Promise<void>;
+  onBatchJobUpdate: (callback: (update: BatchJobUpdate) => void) => void;
+  removeBatchJobListener: () => void;
   onProgressUpdate: (callback: (progress: ProgressState) => void) => void;
   removeProgressListener: () => void;
   cancelProcessing: () => Promise<void>;
@@ -26,14 +43,43 @@ const electronAPI: ElectronAPI = {
   subsetFont: (options: SubsetOptions) => ipcRenderer.invoke(IPCChannel.SUBSET_FONT, options),
   compressWoff2: (fontBuffer: Buffer, options?: Woff2CompressionOptions) => 
     ipcRenderer.invoke(IPCChannel.COMPRESS_WOFF2, fontBuffer, options),
-  estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean) =>
-    ipcRenderer.invoke(IPCChannel.ESTIMATE_SIZE, filePath, characterSet, enableWoff2Compression),
-  saveFile: (data: Buffer, defaultPath: string) => 
-    ipcRenderer.invoke(IPCChannel.SAVE_FILE, data, defaultPath),
+  estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean, options?: SizeEstimateOptions) =>
+    ipcRenderer.invoke(IPCChannel.ESTIMATE_SIZE, filePath, characterSet, enableWoff2Compression, options),
+  generateFontFaceCss: (options: SubsetOptions, outputPath: string) =>
+    ipcRenderer.invoke(IPCChannel.GENERATE_FONT_FACE_CSS, options, outputPath),
+  checkCoverage: (options: SubsetOptions) =>
+    ipcRenderer.invoke(IPCChannel.CHECK_COVERAGE, options),
+  getGlyphOutlines: (filePath: string, codePoints: number[], faceIndex?: number) =>
+    ipcRenderer.invoke(IPCChannel.GET_GLYPH_OUTLINES, filePath, codePoints, faceIndex),
+  readFontFile: (filePath: string) =>
+    ipcRenderer.invoke(IPCChannel.READ_FONT_FILE, filePath),
+  selectTextSources: (directory: boolean) =>
+    ipcRenderer.invoke(IPCChannel.SELECT_TEXT_SOURCES, directory),
+  extractText: (paths: string[]) =>
+    ipcRenderer.invoke(IPCChannel.EXTRACT_TEXT, paths),
+  loadUserPresets: () => ipcRenderer.invoke(IPCChannel.LOAD_USER_PRESETS),
+  saveUserPresets: (presets: UserPreset[]) =>
+    ipcRenderer.invoke(IPCChannel.SAVE_USER_PRESETS, presets),
+  importUserPresets: () => ipcRenderer.invoke(IPCChannel.IMPORT_USER_PRESETS),
+  exportUserPresets: (presets: UserPreset[]) =>
+    ipcRenderer.invoke(IPCChannel.EXPORT_USER_PRESETS, presets),
+  saveFile: (data: Buffer, defaultPath: string, cssOptions?: SubsetOptions) => 
+    ipcRenderer.invoke(IPCChannel.SAVE_FILE, data, defaultPath, cssOptions),
   saveFileDialog: (defaultPath: string, outputFormat: string) =>
     ipcRenderer.invoke(IPCChannel.SAVE_FILE_DIALOG, defaultPath, outputFormat),
   validateSavePath: (filePath: string) =>
     ipcRenderer.invoke(IPCChannel.VALIDATE_SAVE_PATH, filePath),
+  selectOutputDirectory: () => ipcRenderer.invoke(IPCChannel.SELECT_OUTPUT_DIRECTORY),
+  submitBatch: (submission: BatchSubmission) =>
+    ipcRenderer.invoke(IPCChannel.SUBMIT_BATCH, submission),
+  cancelBatchJob: (jobId: string) =>
+    ipcRenderer.invoke(IPCChannel.CANCEL_BATCH_JOB, jobId),
+  onBatchJobUpdate: (callback: (update: BatchJobUpdate) => void) => {
+    ipcRenderer.on(IPCChannel.BATCH_JOB_UPDATE, (_, update) => callback(update));
+  },
+  removeBatchJobListener: () => {
+    ipcRenderer.removeAllListeners(IPCChannel.BATCH_JOB_UPDATE);
+  },
   onProgressUpdate: (callback: (progress: ProgressState) => void) => {
     ipcRenderer.on(IPCChannel.PROGRESS_UPDATE, (_, progress) => callback(progress));
   },
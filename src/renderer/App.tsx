@@ -4,6 +4,7 @@ import FileDropZone from './components/FileDropZone';
 import FontInfoPanel from './components/FontInfoPanel';
 import CharacterSetPanel from './components/CharacterSetPanel';
 import ProgressPanel from './components/ProgressPanel';
+import SubsetPreviewPanel from './components/SubsetPreviewPanel';
 import ErrorBoundary from './components/ErrorBoundary';
 import ErrorContainer from './components/ErrorContainer';
 import { useFontStore } from './stores/fontStore';
@@ -31,6 +32,7 @@ function App() {
               {/* 右パネル: 進捗表示 */}
               <div className="flex-1 min-h-0 bg-gray-50 dark:bg-gray-900 overflow-auto">
                 <ProgressPanel />
+                <SubsetPreviewPanel />
               </div>
             </div>
           )}
@@ -0,0 +1,121 @@
+import React from 'react';
+import {
+  CHARACTER_SET_COMPONENTS,
+  COMMON_EXCLUDE_RANGES,
+  CharacterSetModifiers,
+  parseCodePointRanges,
+} from '../../shared/presets';
+
+interface CharacterSetModifierControlProps {
+  modifiers: CharacterSetModifiers;
+  onChange: (modifiers: Partial<CharacterSetModifiers>) => void;
+  /** 追加・除外を適用した後の文字数 */
+  characterCount: number;
+  className?: string;
+}
+
+/**
+ * 選択中の文字セットへの追加・除外を設定するコントロール
+ */
+const CharacterSetModifierControl: React.FC<CharacterSetModifierControlProps> = ({
+  modifiers,
+  onChange,
+  characterCount,
+  className = '',
+}) => {
+  const { invalid } = parseCodePointRanges(modifiers.excludeRanges);
+  const hasModifiers = modifiers.addSets.length > 0 || !!modifiers.addText || !!modifiers.excludeRanges || !!modifiers.excludeText;
+
+  const handleSetChange = (id: string, checked: boolean) => {
+    onChange({
+      addSets: checked ? [...modifiers.addSets, id] : modifiers.addSets.filter(set => set !== id),
+    });
+  };
+
+  const handleAddExcludeRange = (ranges: string) => {
+    onChange({ excludeRanges: [modifiers.excludeRanges.trim(), ranges].filter(Boolean).join(', ') });
+  };
+
+  const inputClassName = 'w-full text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <details className="text-sm" open={hasModifiers}>
+        <summary className="cursor-pointer text-gray-600 dark:text-gray-400">文字の追加・除外</summary>
+
+        <div className="mt-2 space-y-3">
+          <div>
+            <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">文字セットを追加</div>
+            <div className="grid grid-cols-2 gap-1">
+              {CHARACTER_SET_COMPONENTS.map(({ id, name }) => (
+                <label key={id} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={modifiers.addSets.includes(id)}
+                    onChange={(e) => handleSetChange(id, e.target.checked)}
+                    className="w-3.5 h-3.5 text-primary-600 border-gray-300 dark:border-gray-600 rounded focus:ring-primary-500"
+                  />
+                  <span className="text-xs text-gray-700 dark:text-gray-300">{name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1 block">追加する文字</label>
+            <textarea
+              value={modifiers.addText}
+              onChange={(e) => onChange({ addText: e.target.value })}
+              placeholder="製品名など、必ず含める文字"
+              className={`${inputClassName} h-16 resize-none`}
+            />
+          </div>
+
+          <div>
+            <label className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1 block">除外するコードポイント範囲</label>
+            <input
+              type="text"
+              value={modifiers.excludeRanges}
+              onChange={(e) => onChange({ excludeRanges: e.target.value })}
+              placeholder="U+FF61-FF9F, U+3000"
+              className={`${inputClassName} font-mono`}
+            />
+            <div className="mt-1 flex flex-wrap gap-1">
+              {COMMON_EXCLUDE_RANGES.map(({ name, ranges }) => (
+                <button
+                  key={ranges}
+                  type="button"
+                  onClick={() => handleAddExcludeRange(ranges)}
+                  className="text-xs px-2 py-0.5 bg-gray-100 dark:bg-gray-600 text-gray-600 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-500"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            {invalid.length > 0 && (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                解析できない範囲: {invalid.join(', ')}（例: U+FF61-FF9F）
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1 block">除外する文字</label>
+            <input
+              type="text"
+              value={modifiers.excludeText}
+              onChange={(e) => onChange({ excludeText: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </details>
+
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        選択中の文字数: <span className="font-medium">{characterCount.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterSetModifierControl;
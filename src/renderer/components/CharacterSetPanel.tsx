@@ -1,16 +1,46 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useFontStore } from '../stores/fontStore';
 import { useFontProcessing } from '../hooks/useFontProcessing';
+import { useCoverageReport } from '../hooks/useCoverageReport';
+import { getSizeEstimateOptions, useSizeEstimate } from '../hooks/useSizeEstimate';
 import CharacterSetSelector from './CharacterSetSelector';
+import CharacterSetModifierControl from './CharacterSetModifierControl';
+import FeatureControl from './FeatureControl';
+import CoverageSummary from './CoverageSummary';
+import { PreserveFeatures, SizeEstimate } from '../../shared/types';
+import { DEFAULT_PRESERVE_FEATURES } from '../../shared/layoutFeatures';
+import { buildCharacterSetExpression } from '../../shared/presets';
+import { formatSizeEstimate } from '../../shared/sizeEstimation';
 
 const CharacterSetPanel: React.FC = () => {
-  const { selectedFiles, subsetOptions, updateSubsetOptions } = useFontStore();
+  const {
+    selectedFiles,
+    faceSelections,
+    fontAnalyses,
+    subsetOptions,
+    updateSubsetOptions,
+    characterSetModifiers,
+    setCharacterSetModifiers,
+    getTotalCharacterCount,
+  } = useFontStore();
   const {
     selectedPreset,
     customCharacters,
     handleCharacterSetChange,
     handleProcessStart,
   } = useFontProcessing();
+  const characterSetExpression = useMemo(
+    () => buildCharacterSetExpression(selectedPreset, customCharacters, characterSetModifiers),
+    [selectedPreset, customCharacters, characterSetModifiers]
+  );
+  const coverage = useCoverageReport(selectedFiles[0], characterSetExpression);
+  const sizeEstimate = useSizeEstimate(
+    selectedFiles[0],
+    characterSetExpression,
+    subsetOptions.enableWoff2Compression ?? true,
+    getSizeEstimateOptions(subsetOptions, faceSelections[selectedFiles[0]]?.[0])
+  );
+  const characterCount = getTotalCharacterCount();
 
   if (selectedFiles.length === 0) {
     return null;
@@ -23,17 +53,29 @@ const CharacterSetPanel: React.FC = () => {
         className="mb-4"
       />
 
+      {/* 文字の追加・除外 */}
+      <CharacterSetModifierControl
+        modifiers={characterSetModifiers}
+        onChange={setCharacterSetModifiers}
+        characterCount={characterCount}
+        className="mb-4"
+      />
+
       {/* 出力オプション */}
       <OutputOptionsSection
         subsetOptions={subsetOptions}
         updateSubsetOptions={updateSubsetOptions}
+        fontFeatureTags={fontAnalyses[selectedFiles[0]]?.features.map(f => f.tag)}
       />
 
+      {/* 文字セットの収録状況 */}
+      <CoverageSummary report={coverage} className="mb-3" />
+
       {/* 処理開始ボタン */}
       <ProcessStartSection
         selectedFiles={selectedFiles}
-        selectedPreset={selectedPreset}
-        customCharacters={customCharacters}
+        characterCount={characterCount}
+        sizeEstimate={sizeEstimate}
         onProcessStart={handleProcessStart}
       />
     </div>
@@ -50,13 +92,19 @@ interface OutputOptionsSectionProps {
     compressionLevel?: number;
     removeHinting?: boolean;
     desubroutinize?: boolean;
+    generateCss?: boolean;
+    fontDisplay?: string;
+    preserveFeatures?: PreserveFeatures;
+    featureTags?: Record<string, boolean>;
   };
   updateSubsetOptions: (options: Record<string, unknown>) => void;
+  fontFeatureTags?: string[];
 }
 
 const OutputOptionsSection: React.FC<OutputOptionsSectionProps> = ({
   subsetOptions,
   updateSubsetOptions,
+  fontFeatureTags,
 }) => {
   const outputFormats = [
     { value: 'woff2', label: 'WOFF2', description: '推奨' },
@@ -65,6 +113,8 @@ const OutputOptionsSection: React.FC<OutputOptionsSectionProps> = ({
     { value: 'otf', label: 'OTF', description: 'OpenType' },
   ];
 
+  const fontDisplayOptions = ['swap', 'fallback', 'optional', 'block', 'auto'];
+
   return (
     <div className="space-y-3 mb-4">
       <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">出力設定</h3>
@@ -158,6 +208,52 @@ const OutputOptionsSection: React.FC<OutputOptionsSectionProps> = ({
             </div>
           </div>
         )}
+
+        {/* OpenType機能の保持設定 */}
+        <FeatureControl
+          preserveFeatures={subsetOptions.preserveFeatures ?? DEFAULT_PRESERVE_FEATURES}
+          featureTags={subsetOptions.featureTags ?? {}}
+          onPreserveFeaturesChange={(preserveFeatures) => updateSubsetOptions({ preserveFeatures })}
+          onFeatureTagsChange={(featureTags) => updateSubsetOptions({ featureTags })}
+          fontFeatureTags={fontFeatureTags}
+        />
+
+        {/* @font-face CSS生成 */}
+        <div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={subsetOptions.generateCss ?? false}
+              onChange={(e) => updateSubsetOptions({ generateCss: e.target.checked })}
+              className="w-4 h-4 text-primary-600 border-gray-300 dark:border-gray-600 rounded focus:ring-primary-500"
+            />
+            <div>
+              <div className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                @font-face CSSを生成
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                出力フォントと同じ場所にスタイルシートを保存
+              </div>
+            </div>
+          </label>
+        </div>
+
+        {subsetOptions.generateCss && (
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">
+              font-display
+            </label>
+            <select
+              value={subsetOptions.fontDisplay || 'swap'}
+              onChange={(e) => updateSubsetOptions({ fontDisplay: e.target.value })}
+              className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              {fontDisplayOptions.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -168,18 +264,18 @@ const OutputOptionsSection: React.FC<OutputOptionsSectionProps> = ({
  */
 interface ProcessStartSectionProps {
   selectedFiles: string[];
-  selectedPreset: string | undefined;
-  customCharacters: string;
+  characterCount: number;
+  sizeEstimate: SizeEstimate | null;
   onProcessStart: () => void;
 }
 
 const ProcessStartSection: React.FC<ProcessStartSectionProps> = ({
   selectedFiles,
-  selectedPreset,
-  customCharacters,
+  characterCount,
+  sizeEstimate,
   onProcessStart,
 }) => {
-  const isDisabled = selectedFiles.length === 0 || (!selectedPreset && !customCharacters);
+  const isDisabled = selectedFiles.length === 0 || characterCount === 0;
 
   return (
     <div className="space-y-2 pt-3 border-t border-gray-200 dark:border-gray-700">
@@ -191,6 +287,13 @@ const ProcessStartSection: React.FC<ProcessStartSectionProps> = ({
         サブセット化を開始
       </button>
 
+      {sizeEstimate && (
+        <div className="text-xs text-gray-600 dark:text-gray-300 text-center">
+          推定出力サイズ: {formatSizeEstimate(sizeEstimate)}
+          {!sizeEstimate.calibrated && '（概算）'}
+        </div>
+      )}
+
       <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
         {selectedFiles.length > 0 && (
           <>選択されたファイル: {selectedFiles.length}個</>
@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
-import { CHARACTER_PRESETS, PresetDefinition } from '../../shared/presets';
+import React, { useEffect, useState } from 'react';
+import { CHARACTER_PRESETS, PresetDefinition, toCharacterSetSelection } from '../../shared/presets';
+import { isUserPresetId } from '../../shared/userPresets';
+import { useFontStore } from '../stores/fontStore';
 import CustomCharacterInput from './CustomCharacterInput';
+import FrequencyPresetControl from './FrequencyPresetControl';
+import UserPresetList from './UserPresetList';
 
 interface CharacterSetSelectorProps {
   onSelectionChange: (preset?: string, customCharacters?: string) => void;
@@ -14,11 +18,38 @@ const CharacterSetSelector: React.FC<CharacterSetSelectorProps> = ({
   const [selectedMode, setSelectedMode] = useState<'preset' | 'custom'>('preset');
   const [selectedPreset, setSelectedPreset] = useState<string>('joyo-jis1');
   const [customCharacters, setCustomCharacters] = useState<string>('');
+  const { loadUserPresets, applyUserPreset } = useFontStore();
+
+  // 保存済みのユーザー定義プリセットを読み込む
+  useEffect(() => {
+    loadUserPresets();
+  }, [loadUserPresets]);
+
+  /**
+   * プリセットを選択状態に反映
+   * ユーザー定義プリセットは保存した設定を適用し、その文字セット（組み込みプリセットまたはカスタム文字）を通知する
+   */
+  const emitPresetSelection = (presetId: string) => {
+    if (!isUserPresetId(presetId)) {
+      onSelectionChange(presetId, undefined);
+      return;
+    }
+    const preset = applyUserPreset(presetId);
+    if (!preset) {
+      return;
+    }
+    const selection = toCharacterSetSelection(preset.characterSetExpression);
+    if (selection.selectedPreset === 'custom') {
+      onSelectionChange(undefined, selection.customCharacters);
+    } else {
+      onSelectionChange(selection.selectedPreset, undefined);
+    }
+  };
 
   const handleModeChange = (mode: 'preset' | 'custom') => {
     setSelectedMode(mode);
     if (mode === 'preset') {
-      onSelectionChange(selectedPreset, undefined);
+      emitPresetSelection(selectedPreset);
     } else {
       onSelectionChange(undefined, customCharacters);
     }
@@ -27,7 +58,7 @@ const CharacterSetSelector: React.FC<CharacterSetSelectorProps> = ({
   const handlePresetChange = (presetId: string) => {
     setSelectedPreset(presetId);
     if (selectedMode === 'preset') {
-      onSelectionChange(presetId, undefined);
+      emitPresetSelection(presetId);
     }
   };
 
@@ -84,7 +115,7 @@ const CharacterSetSelector: React.FC<CharacterSetSelectorProps> = ({
         {selectedMode === 'preset' && (
           <div className="space-y-2">
             <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
-              日本語フォント用に最適化されたプリセットから選択してください。
+              日本語フォント用のプリセットのほか、中国語（簡体字・繁体字）・韓国語のプリセットから選択できます。
             </p>
 
             <div className="space-y-2">
@@ -155,6 +186,13 @@ const CharacterSetSelector: React.FC<CharacterSetSelectorProps> = ({
                           'kanji-basic': '基本漢字',
                           'kanji-standard': '常用漢字',
                           'kanji-jis1': 'JIS第1水準',
+                          'kanji-jinmeiyo': '人名用漢字',
+                          'kanji-jis2': 'JIS第2水準',
+                          'kanji-jis3': 'JIS第3水準',
+                          'kanji-jis4': 'JIS第4水準',
+                          'hanzi-gb2312': '簡体字',
+                          'hanzi-big5': '繁体字',
+                          'hangul': 'ハングル',
                         };
 
                         return (
@@ -170,6 +208,23 @@ const CharacterSetSelector: React.FC<CharacterSetSelectorProps> = ({
                   </div>
                 );
               })}
+
+              {/* 頻出漢字の上位N字 */}
+              <FrequencyPresetControl
+                selectedPresetId={selectedPreset}
+                onSelect={handlePresetChange}
+              />
+
+              {/* ユーザー定義プリセット */}
+              <UserPresetList
+                selectedPresetId={selectedPreset}
+                onSelect={handlePresetChange}
+                onDelete={(presetId) => {
+                  if (presetId === selectedPreset) {
+                    handlePresetChange('joyo-jis1');
+                  }
+                }}
+              />
             </div>
           </div>
         )}
@@ -1,4 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { isEmoji, splitCharacters } from '../../shared/emoji';
+import { isCjkExtension, isHangul } from '../../shared/coverage';
+import { TextExtractionResult } from '../../shared/textExtraction';
 
 interface CustomCharacterInputProps {
   onCharacterSetChange: (characters: string) => void;
@@ -14,15 +17,19 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
   const [charCount, setCharCount] = useState(0);
   const [duplicateCount, setDuplicateCount] = useState(0);
   const [showPreview, setShowPreview] = useState(false);
+  const [extraction, setExtraction] = useState<TextExtractionResult | null>(null);
+  const [extractionError, setExtractionError] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const canExtractText = typeof window.electronAPI?.extractText === 'function';
 
   // コールバックをrefで保持して無限ループを防止
   const onCharacterSetChangeRef = useRef(onCharacterSetChange);
   onCharacterSetChangeRef.current = onCharacterSetChange;
 
-  // 入力テキストから重複を除去してユニークな文字を抽出
+  // 入力テキストから重複を除去してユニークな文字を抽出（ZWJシーケンスなどの絵文字は1文字として扱う）
   useEffect(() => {
     if (inputText) {
-      const chars = Array.from(inputText);
+      const chars = splitCharacters(inputText);
       const uniqueSet = new Set(chars);
       const uniqueArray = Array.from(uniqueSet);
 
@@ -67,23 +74,54 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
     }
   };
 
+  // HTML・JSX・Markdown・翻訳ファイルなどから文字を抽出して入力欄に反映
+  const handleExtractText = async (directory: boolean) => {
+    try {
+      const paths = await window.electronAPI.selectTextSources(directory);
+      if (paths.length === 0) {
+        return;
+      }
+
+      setIsExtracting(true);
+      setExtractionError(null);
+      const result: TextExtractionResult = await window.electronAPI.extractText(paths);
+      setExtraction(result);
+      setInputText(result.characters);
+    } catch (error) {
+      console.error('文字の抽出に失敗しました:', error);
+      setExtraction(null);
+      setExtractionError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
   const getCharacterPreview = () => {
     // 文字を種類別に分類
     const hiragana: string[] = [];
     const katakana: string[] = [];
     const kanji: string[] = [];
+    const cjkExtension: string[] = [];
+    const hangul: string[] = [];
     const ascii: string[] = [];
     const symbols: string[] = [];
+    const emoji: string[] = [];
     const others: string[] = [];
 
     uniqueChars.forEach(char => {
-      const code = char.charCodeAt(0);
-      if (code >= 0x3040 && code <= 0x309F) {
+      const code = char.codePointAt(0) as number;
+      if (isEmoji(char)) {
+        emoji.push(char);
+      } else if (code >= 0x3040 && code <= 0x309F) {
         hiragana.push(char);
       } else if (code >= 0x30A0 && code <= 0x30FF) {
         katakana.push(char);
       } else if (code >= 0x4E00 && code <= 0x9FFF) {
         kanji.push(char);
+      } else if (isCjkExtension(code)) {
+        cjkExtension.push(char);
+      } else if (isHangul(code)) {
+        hangul.push(char);
       } else if (code >= 0x0020 && code <= 0x007E) {
         ascii.push(char);
       } else if (code >= 0x2000 && code <= 0x206F || code >= 0x3000 && code <= 0x303F) {
@@ -93,7 +131,7 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
       }
     });
 
-    return { hiragana, katakana, kanji, ascii, symbols, others };
+    return { hiragana, katakana, kanji, cjkExtension, hangul, ascii, symbols, emoji, others };
   };
 
   const preview = getCharacterPreview();
@@ -106,6 +144,26 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
             カスタム文字セット
           </label>
           <div className="flex items-center space-x-2">
+            {canExtractText && (
+              <>
+                <button
+                  onClick={() => handleExtractText(true)}
+                  disabled={isExtracting}
+                  className="text-xs px-3 py-1 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 rounded-md text-gray-600 dark:text-gray-300 transition-colors disabled:opacity-50"
+                  title="HTML・JSX/TSX・Vue・Markdown・JSON・POファイルから文字を抽出"
+                >
+                  📂 フォルダから抽出
+                </button>
+                <button
+                  onClick={() => handleExtractText(false)}
+                  disabled={isExtracting}
+                  className="text-xs px-3 py-1 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 rounded-md text-gray-600 dark:text-gray-300 transition-colors disabled:opacity-50"
+                  title="HTML・JSX/TSX・Vue・Markdown・JSON・POファイルから文字を抽出"
+                >
+                  📄 ソースから抽出
+                </button>
+              </>
+            )}
             <button
               onClick={handleFileImport}
               className="text-xs px-3 py-1 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 rounded-md text-gray-600 dark:text-gray-300 transition-colors"
@@ -129,6 +187,19 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
           className="w-full h-32 p-3 border border-gray-300 dark:border-gray-600 rounded-md resize-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
           style={{ fontFamily: 'monospace' }}
         />
+
+        {isExtracting && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">文字を抽出中...</p>
+        )}
+        {!isExtracting && extraction && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {extraction.fileCount}ファイルから{splitCharacters(extraction.characters).length.toLocaleString()}文字を抽出しました
+            {extraction.skippedFiles.length > 0 && `（${extraction.skippedFiles.length}ファイルは読み込めませんでした）`}
+          </p>
+        )}
+        {extractionError && (
+          <p className="text-xs text-red-600 dark:text-red-400">文字の抽出に失敗しました: {extractionError}</p>
+        )}
       </div>
 
       {/* 統計情報 */}
@@ -194,6 +265,30 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
             </div>
           )}
 
+          {preview.cjkExtension.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                CJK拡張・互換漢字 ({preview.cjkExtension.length}文字)
+              </div>
+              <div className="text-sm bg-red-50 dark:bg-red-900/30 p-2 rounded text-red-800 dark:text-red-300 break-all">
+                {preview.cjkExtension.slice(0, 50).join('')}
+                {preview.cjkExtension.length > 50 && '...'}
+              </div>
+            </div>
+          )}
+
+          {preview.hangul.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                ハングル ({preview.hangul.length}文字)
+              </div>
+              <div className="text-sm bg-teal-50 dark:bg-teal-900/30 p-2 rounded text-teal-800 dark:text-teal-300 break-all">
+                {preview.hangul.slice(0, 50).join('')}
+                {preview.hangul.length > 50 && '...'}
+              </div>
+            </div>
+          )}
+
           {preview.ascii.length > 0 && (
             <div>
               <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
@@ -216,6 +311,17 @@ const CustomCharacterInput: React.FC<CustomCharacterInputProps> = ({
             </div>
           )}
 
+          {preview.emoji.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                絵文字 ({preview.emoji.length}文字)
+              </div>
+              <div className="text-sm bg-orange-50 dark:bg-orange-900/30 p-2 rounded text-orange-800 dark:text-orange-300 break-all">
+                {preview.emoji.join(' ')}
+              </div>
+            </div>
+          )}
+
           {preview.others.length > 0 && (
             <div>
               <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
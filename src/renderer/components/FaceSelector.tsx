@@ -0,0 +1,66 @@
+import React from 'react';
+import { CollectionFace } from '../../shared/types';
+
+interface FaceSelectorProps {
+  faces: CollectionFace[];
+  selected: number[];
+  onChange: (faceIndices: number[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * フォントコレクション（TTC/OTC）から出力する書体を選択
+ */
+const FaceSelector: React.FC<FaceSelectorProps> = ({ faces, selected, onChange, disabled = false }) => {
+  const toggleFace = (index: number) => {
+    const next = selected.includes(index)
+      ? selected.filter(i => i !== index)
+      : [...selected, index];
+    // 最低1書体は選択したままにする
+    if (next.length > 0) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-medium text-gray-700 dark:text-gray-300">書体（{faces.length}）</span>
+        <button
+          type="button"
+          onClick={() => onChange(faces.map(face => face.index))}
+          disabled={disabled || selected.length === faces.length}
+          className="text-primary-600 dark:text-primary-400 hover:underline disabled:text-gray-400 disabled:no-underline"
+        >
+          すべて選択
+        </button>
+      </div>
+      <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+        {faces.map(face => (
+          <li key={face.index}>
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(face.index)}
+                onChange={() => toggleFace(face.index)}
+                disabled={disabled}
+                className="mr-2 rounded"
+              />
+              <span className="text-gray-900 dark:text-gray-100 truncate" title={face.postscriptName}>
+                {face.fontFamily} {face.fontSubfamily}
+              </span>
+              <span className="ml-auto pl-2 text-gray-500 dark:text-gray-400">
+                {face.glyphCount.toLocaleString()}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {selected.length > 1 && (
+        <p className="mt-1 text-gray-500 dark:text-gray-400">選択した書体ごとに別のファイルとして出力します</p>
+      )}
+    </div>
+  );
+};
+
+export default FaceSelector;
@@ -82,7 +82,7 @@ const FileDropZone: React.FC = () => {
         const input = document.createElement('input');
         input.type = 'file';
         input.multiple = true;
-        input.accept = '.ttf,.otf,.woff,.woff2';
+        input.accept = '.ttf,.otf,.woff,.woff2,.ttc,.otc';
         
         input.onchange = (e) => {
           const files = Array.from((e.target as HTMLInputElement).files || []);
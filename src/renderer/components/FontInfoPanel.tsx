@@ -1,20 +1,47 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useFontStore } from '../stores/fontStore';
 import { formatFileSize } from '../../shared/utils';
 import VariableAxisControl from './VariableAxisControl';
+import FaceSelector from './FaceSelector';
+import GlyphBrowser from './GlyphBrowser';
+import TableSizeChart from './TableSizeChart';
+import { useTableSizes } from '../hooks/useTableSizes';
+
+// 元のフォントのテーブルごとのサイズ（開いたときだけ読み込む）
+const FontTableSizes: React.FC<{ filePath: string; faceIndex?: number }> = ({ filePath, faceIndex }) => {
+  const { breakdown, error } = useTableSizes(filePath, faceIndex);
+  if (error) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">{error}</p>;
+  }
+  if (!breakdown) {
+    return <p className="text-xs text-gray-400 dark:text-gray-500">読み込み中...</p>;
+  }
+  return <TableSizeChart breakdown={breakdown} />;
+};
 
 const FontInfoPanel: React.FC = () => {
   const {
     selectedFiles,
     fontAnalyses,
+    faceSelections,
+    setFaceIndices,
+    isProcessing,
     removeFile,
     clearFiles,
     variationAxesValues,
     pinVariationAxes,
     setVariationAxesValues,
     setPinVariationAxes,
+    variationAxisRanges,
+    setVariationAxisRanges,
     resetVariationAxesToDefaults,
+    subsetOptions,
+    updateSubsetOptions,
   } = useFontStore();
+  // グリフ一覧を開いているファイル（一度に1つだけ表示する）
+  const [glyphBrowserPath, setGlyphBrowserPath] = useState<string | null>(null);
+  // テーブル別サイズを開いているファイル
+  const [tableSizesPath, setTableSizesPath] = useState<string | null>(null);
 
   // バリアブルフォントが読み込まれたときに軸のデフォルト値を設定
   useEffect(() => {
@@ -102,6 +129,93 @@ const FontInfoPanel: React.FC = () => {
                       <span className="text-gray-900 dark:text-gray-100 font-medium">{analysis.axes.length}</span>
                     </div>
                   )}
+                  {analysis.colorFormats && analysis.colorFormats.length > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-500 dark:text-gray-400">カラー:</span>
+                      <span className="text-gray-900 dark:text-gray-100 font-medium">
+                        {analysis.colorFormats.join(', ')}
+                        {analysis.hasColorEmoji && '（絵文字）'}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-500 dark:text-gray-400">言語:</span>
+                    <span className="text-gray-900 dark:text-gray-100 font-medium truncate ml-2">
+                      {analysis.languages.length > 0 ? analysis.languages.join(', ') : '不明'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500 dark:text-gray-400">機能数:</span>
+                    <span
+                      className="text-gray-900 dark:text-gray-100 font-medium"
+                      title={analysis.features.map(f => `${f.tag}: ${f.name}`).join('\n')}
+                    >
+                      {analysis.features.length}
+                    </span>
+                  </div>
+                  {analysis.characterRanges.length > 0 && (
+                    <details>
+                      <summary className="cursor-pointer text-gray-500 dark:text-gray-400">
+                        収録ブロック（{analysis.characterRanges.length}）
+                      </summary>
+                      <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+                        {analysis.characterRanges.map((range) => (
+                          <li key={range.name} className="flex justify-between">
+                            <span className="text-gray-700 dark:text-gray-300 truncate">{range.name}</span>
+                            <span className="text-gray-500 dark:text-gray-400 ml-2">
+                              {range.count?.toLocaleString()} / {(range.end - range.start + 1).toLocaleString()}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              )}
+
+              {/* グリフ一覧 */}
+              {analysis?.codePoints && analysis.codePoints.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600">
+                  <button
+                    onClick={() => setGlyphBrowserPath(glyphBrowserPath === filePath ? null : filePath)}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    {glyphBrowserPath === filePath ? 'グリフ一覧を閉じる' : `グリフ一覧を表示（${analysis.codePoints.length.toLocaleString()}文字）`}
+                  </button>
+                  {glyphBrowserPath === filePath && (
+                    <div className="mt-2">
+                      <GlyphBrowser filePath={filePath} analysis={analysis} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* テーブル別サイズ */}
+              {analysis && (
+                <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600">
+                  <button
+                    onClick={() => setTableSizesPath(tableSizesPath === filePath ? null : filePath)}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    {tableSizesPath === filePath ? 'テーブル別サイズを閉じる' : 'テーブル別サイズを表示'}
+                  </button>
+                  {tableSizesPath === filePath && (
+                    <div className="mt-2">
+                      <FontTableSizes filePath={filePath} faceIndex={analysis.faceIndex} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* フォントコレクションの書体選択 */}
+              {analysis?.faces && analysis.faces.length > 1 && (
+                <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600">
+                  <FaceSelector
+                    faces={analysis.faces}
+                    selected={faceSelections[filePath] ?? [0]}
+                    onChange={(faceIndices) => setFaceIndices(filePath, faceIndices)}
+                    disabled={isProcessing}
+                  />
                 </div>
               )}
 
@@ -114,6 +228,11 @@ const FontInfoPanel: React.FC = () => {
                     onChange={setVariationAxesValues}
                     pinAxes={pinVariationAxes}
                     onPinAxesChange={setPinVariationAxes}
+                    ranges={variationAxisRanges}
+                    onRangesChange={setVariationAxisRanges}
+                    namedInstances={analysis.namedInstances}
+                    exportInstances={!!subsetOptions.exportNamedInstances}
+                    onExportInstancesChange={(exportNamedInstances) => updateSubsetOptions({ exportNamedInstances })}
                   />
                 </div>
               )}
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_FREQUENCY_KANJI_COUNT,
+  MAX_FREQUENCY_KANJI_COUNT,
+  getFrequencyPresetId,
+  getPresetDefinition,
+  parseFrequencyPresetId,
+} from '../../shared/presets';
+import { formatSizeEstimate } from '../../shared/sizeEstimation';
+import { useFontStore } from '../stores/fontStore';
+import { getSizeEstimateOptions, useSizeEstimate } from '../hooks/useSizeEstimate';
+
+interface FrequencyPresetControlProps {
+  selectedPresetId: string;
+  onSelect: (presetId: string) => void;
+}
+
+// スライダーの刻み（字）
+const FREQUENCY_STEP = 100;
+
+/**
+ * 出現頻度の高い漢字の上位N字を含むプリセットの選択
+ * スライダーの操作に合わせて出力サイズの推定値を更新する
+ */
+const FrequencyPresetControl: React.FC<FrequencyPresetControlProps> = ({
+  selectedPresetId,
+  onSelect,
+}) => {
+  const selectedCount = parseFrequencyPresetId(selectedPresetId);
+  const isSelected = selectedCount !== undefined;
+  const [count, setCount] = useState(selectedCount ?? DEFAULT_FREQUENCY_KANJI_COUNT);
+  const { selectedFiles, faceSelections, characterSetModifiers, subsetOptions } = useFontStore();
+  const presetId = getFrequencyPresetId(count);
+  const estimate = useSizeEstimate(
+    selectedFiles[0],
+    { ...characterSetModifiers, basePreset: presetId },
+    subsetOptions.enableWoff2Compression ?? true,
+    getSizeEstimateOptions(subsetOptions, faceSelections[selectedFiles[0]]?.[0])
+  );
+
+  const handleCountChange = (value: number) => {
+    setCount(value);
+    onSelect(getFrequencyPresetId(value));
+  };
+
+  return (
+    <div
+      onClick={() => !isSelected && onSelect(presetId)}
+      className={`p-3 border-2 rounded-lg cursor-pointer transition-all ${
+        isSelected
+          ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+          : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 bg-white dark:bg-gray-700'
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex-1 min-w-0">
+          <h4 className={`font-medium text-sm ${
+            isSelected ? 'text-primary-700 dark:text-primary-400' : 'text-gray-900 dark:text-gray-100'
+          }`}>
+            頻出漢字 上位{count.toLocaleString()}字
+          </h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            新聞での出現頻度が高い順に漢字を含めます
+          </p>
+        </div>
+
+        <div className="text-right ml-3 flex-shrink-0">
+          <div className={`text-base font-semibold ${
+            isSelected ? 'text-primary-600 dark:text-primary-400' : 'text-gray-700 dark:text-gray-200'
+          }`}>
+            {getPresetDefinition(presetId)?.characterCount.toLocaleString()}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">文字</div>
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={FREQUENCY_STEP}
+        max={MAX_FREQUENCY_KANJI_COUNT}
+        step={FREQUENCY_STEP}
+        value={count}
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => handleCountChange(Number(e.target.value))}
+        className="w-full mt-2 accent-primary-600"
+        aria-label="含める漢字の数"
+      />
+
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {estimate
+          ? `推定サイズ: ${formatSizeEstimate(estimate)}`
+          : '推定サイズ: 計算中...'}
+      </div>
+    </div>
+  );
+};
+
+export default FrequencyPresetControl;
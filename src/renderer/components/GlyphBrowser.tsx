@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FontAnalysis, GlyphOutline, GlyphOutlineSet } from '../../shared/types';
+import {
+  buildGlyphGridRows,
+  filterCodePoints,
+  getVisibleRowRange,
+  groupCodePointsByBlock,
+  toggleCharacters,
+} from '../../shared/glyphBrowser';
+import { useFontStore } from '../stores/fontStore';
+import { useGlyphOutlines } from '../hooks/useGlyphOutlines';
+
+interface GlyphBrowserProps {
+  filePath: string;
+  analysis: FontAnalysis;
+}
+
+// グリフ1マスの大きさと一覧の高さ（ピクセル）
+const CELL_SIZE = 40;
+const GRID_HEIGHT = 288;
+
+const formatCodePoint = (codePoint: number) =>
+  `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+
+interface GlyphCellProps {
+  codePoint: number;
+  outline?: GlyphOutline;
+  metrics: Omit<GlyphOutlineSet, 'glyphs'> | null;
+  selected: boolean;
+  onPointerDown: (codePoint: number) => void;
+  onPointerEnter: (codePoint: number) => void;
+}
+
+// フォント単位（y軸上向き）のアウトラインを、ascent〜descent が収まるように描画する
+const GlyphCell: React.FC<GlyphCellProps> = React.memo(({ codePoint, outline, metrics, selected, onPointerDown, onPointerEnter }) => {
+  const height = metrics ? metrics.ascent - metrics.descent : 0;
+  const width = outline ? Math.max(outline.advanceWidth, height * 0.5) : 0;
+
+  return (
+    <div
+      title={`${String.fromCodePoint(codePoint)} ${formatCodePoint(codePoint)}`}
+      onPointerDown={(e) => {
+        e.preventDefault();
+        onPointerDown(codePoint);
+      }}
+      onPointerEnter={() => onPointerEnter(codePoint)}
+      className={`flex items-center justify-center border rounded cursor-pointer select-none transition-colors ${
+        selected
+          ? 'bg-primary-100 dark:bg-primary-900/50 border-primary-400 dark:border-primary-500 text-primary-700 dark:text-primary-200'
+          : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:border-primary-300'
+      }`}
+      style={{ width: CELL_SIZE - 4, height: CELL_SIZE - 4 }}
+    >
+      {outline && metrics ? (
+        <svg viewBox={`${(outline.advanceWidth - width) / 2} ${-metrics.ascent} ${width} ${height}`} className="w-7 h-7">
+          <path d={outline.path} transform="scale(1,-1)" fill="currentColor" />
+        </svg>
+      ) : (
+        <span className="text-[10px] text-gray-300 dark:text-gray-600">…</span>
+      )}
+    </div>
+  );
+});
+
+/**
+ * 読み込んだフォントの全グリフを Unicode ブロックごとに並べる一覧
+ * 表示中の行だけを描画し、クリック・ドラッグでカスタム文字セットに追加・削除する
+ */
+const GlyphBrowser: React.FC<GlyphBrowserProps> = ({ filePath, analysis }) => {
+  const { selectedPreset, customCharacters, setSelectedPreset, setCustomCharacters } = useFontStore();
+  const [query, setQuery] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [columns, setColumns] = useState(6);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // ドラッグ中は最初のグリフに合わせて追加・削除のどちらかを続ける
+  const dragMode = useRef<'add' | 'remove' | null>(null);
+
+  // 幅に合わせて1行のグリフ数を決める
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setColumns(Math.max(1, Math.floor(entry.contentRect.width / CELL_SIZE)));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const stopDrag = () => {
+      dragMode.current = null;
+    };
+    window.addEventListener('pointerup', stopDrag);
+    return () => window.removeEventListener('pointerup', stopDrag);
+  }, []);
+
+  const codePoints = useMemo(() => analysis.codePoints ?? [], [analysis.codePoints]);
+  const filtered = useMemo(() => filterCodePoints(codePoints, query), [codePoints, query]);
+  const rows = useMemo(() => buildGlyphGridRows(groupCodePointsByBlock(filtered), columns), [filtered, columns]);
+  const { start, end } = getVisibleRowRange(rows.length, CELL_SIZE, scrollTop, GRID_HEIGHT);
+  const visibleRows = rows.slice(start, end);
+  const visibleCodePoints = useMemo(
+    () => visibleRows.flatMap(row => (row.kind === 'glyphs' ? row.codePoints : [])),
+    [rows, start, end]
+  );
+  const { metrics, outlines } = useGlyphOutlines(filePath, analysis.faceIndex, visibleCodePoints);
+
+  const isCustom = selectedPreset === 'custom';
+  const selected = useMemo(
+    () => new Set(isCustom ? Array.from(customCharacters, char => char.codePointAt(0) as number) : []),
+    [isCustom, customCharacters]
+  );
+
+  const applySelection = useCallback((codePoint: number, add: boolean) => {
+    // 連続した更新でも最新の文字セットに対して追加・削除する
+    const state = useFontStore.getState();
+    if (state.selectedPreset !== 'custom') {
+      setSelectedPreset('custom');
+    }
+    setCustomCharacters(toggleCharacters(useFontStore.getState().customCharacters, [codePoint], add));
+  }, [setSelectedPreset, setCustomCharacters]);
+
+  const handlePointerDown = useCallback((codePoint: number) => {
+    const add = !selected.has(codePoint);
+    dragMode.current = add ? 'add' : 'remove';
+    applySelection(codePoint, add);
+  }, [selected, applySelection]);
+
+  const handlePointerEnter = useCallback((codePoint: number) => {
+    if (dragMode.current) {
+      applySelection(codePoint, dragMode.current === 'add');
+    }
+  }, [applySelection]);
+
+  const handleSelectAll = useCallback((add: boolean) => {
+    if (!isCustom && add) {
+      setSelectedPreset('custom');
+    }
+    setCustomCharacters(toggleCharacters(useFontStore.getState().customCharacters, filtered, add));
+  }, [isCustom, filtered, setSelectedPreset, setCustomCharacters]);
+
+  if (codePoints.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        収録文字を取得できなかったためグリフを表示できません
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setScrollTop(0);
+            scrollRef.current?.scrollTo({ top: 0 });
+          }}
+          placeholder="文字または U+3042、U+3040-309F で検索"
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        />
+        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+          {filtered.length.toLocaleString()}文字
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500 dark:text-gray-400">
+          {isCustom ? 'クリック・ドラッグで追加／削除' : '選択するとカスタム文字セットに切り替わります'}
+        </span>
+        <div className="space-x-2">
+          <button
+            onClick={() => handleSelectAll(true)}
+            disabled={filtered.length === 0}
+            className="text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+          >
+            検索結果をすべて追加
+          </button>
+          {isCustom && (
+            <button
+              onClick={() => handleSelectAll(false)}
+              disabled={filtered.length === 0}
+              className="text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-50"
+            >
+              検索結果を削除
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* 表示中の行だけを描画する仮想スクロール */}
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-y-auto border border-gray-200 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-900/40"
+        style={{ height: GRID_HEIGHT }}
+      >
+        <div className="relative" style={{ height: rows.length * CELL_SIZE }}>
+          {visibleRows.map((row, i) => {
+            const top = (start + i) * CELL_SIZE;
+            if (row.kind === 'header') {
+              return (
+                <div
+                  key={`header-${row.name}`}
+                  className="absolute left-0 right-0 flex items-end justify-between px-2 pb-1 text-xs font-medium text-gray-600 dark:text-gray-300"
+                  style={{ top, height: CELL_SIZE }}
+                >
+                  <span className="truncate">{row.name}</span>
+                  <span className="text-gray-400 dark:text-gray-500 ml-2">{row.count.toLocaleString()}</span>
+                </div>
+              );
+            }
+            return (
+              <div
+                key={`row-${row.codePoints[0]}`}
+                className="absolute left-0 flex px-0.5"
+                style={{ top, height: CELL_SIZE }}
+              >
+                {row.codePoints.map((codePoint) => (
+                  <div key={codePoint} className="flex items-center justify-center" style={{ width: CELL_SIZE, height: CELL_SIZE }}>
+                    <GlyphCell
+                      codePoint={codePoint}
+                      outline={outlines.get(codePoint)}
+                      metrics={metrics}
+                      selected={selected.has(codePoint)}
+                      onPointerDown={handlePointerDown}
+                      onPointerEnter={handlePointerEnter}
+                    />
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlyphBrowser;
@@ -2,9 +2,10 @@ import React from 'react';
 import { useFontStore } from '../stores/fontStore';
 import ProgressBar from './ProgressBar';
 import { formatFileSize, getPhaseLabel, formatTime } from '../../shared/utils';
+import { isBatchJobFinished } from '../../shared/batchProgress';
 
 const ProgressPanel: React.FC = () => {
-  const { progressState, processingJobs, cancelProcessing, isProcessing } = useFontStore();
+  const { progressState, processingJobs, cancelProcessing, cancelProcessingJob, isProcessing } = useFontStore();
 
   if (!isProcessing && processingJobs.length === 0) {
     return null;
@@ -70,6 +71,22 @@ const ProgressPanel: React.FC = () => {
                           {job.progress}%
                         </div>
                       )}
+
+                      {job.status === 'cancelled' && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          キャンセル済み
+                        </div>
+                      )}
+
+                      {(job.status === 'pending' || job.status === 'processing') && (
+                        <button
+                          onClick={() => cancelProcessingJob(job.id)}
+                          className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                          aria-label={`${job.filePath.split('/').pop()}の処理をキャンセル`}
+                        >
+                          中止
+                        </button>
+                      )}
                       
                       <div className={`w-2 h-2 rounded-full ${
                         job.status === 'completed'
@@ -109,7 +126,7 @@ const ProgressPanel: React.FC = () => {
 
                   {job.outputPath && job.status === 'completed' && (
                     <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-                      保存先: {job.outputPath}
+                      保存先: {(job.outputPaths ?? [job.outputPath]).join(', ')}
                     </div>
                   )}
                 </div>
@@ -118,7 +135,7 @@ const ProgressPanel: React.FC = () => {
           )}
 
           {/* 完了メッセージ */}
-          {!isProcessing && processingJobs.every(job => job.status === 'completed' || job.status === 'error') && (
+          {!isProcessing && processingJobs.every(job => isBatchJobFinished(job.status)) && (
             <div className="mt-6 p-4 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-lg">
               <div className="flex items-center">
                 <svg className="w-5 h-5 text-green-600 dark:text-green-400 mr-2" viewBox="0 0 20 20" fill="currentColor">
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_PREVIEW_TEXT, PreviewTextRun, splitPreviewText } from '../../shared/preview';
+import { tryGetTableSizes } from '../../lib/tableSizes';
+import { useFontStore } from '../stores/fontStore';
+import { usePreviewFont } from '../hooks/usePreviewFont';
+import TableSizeChart from './TableSizeChart';
+
+interface PreviewColumnProps {
+  title: string;
+  fontFamily: string | null;
+  error: string | null;
+  runs: PreviewTextRun[] | null; // 収録状況が不明な場合は強調しない
+  text: string;
+}
+
+// 代替フォントで表示される文字を強調して並べる
+const PreviewColumn: React.FC<PreviewColumnProps> = ({ title, fontFamily, error, runs, text }) => {
+  const fallbackCount = runs?.reduce((count, run) => count + (run.covered ? 0 : Array.from(run.text).length), 0) ?? 0;
+
+  return (
+    <div className="min-w-0">
+      <div className="flex items-baseline justify-between mb-1 text-xs">
+        <span className="font-medium text-gray-700 dark:text-gray-300">{title}</span>
+        {fallbackCount > 0 && (
+          <span className="text-amber-600 dark:text-amber-400">{fallbackCount.toLocaleString()}字が代替フォント</span>
+        )}
+      </div>
+      <div className="h-40 overflow-auto p-3 border border-gray-200 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-900/40 text-2xl leading-relaxed whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100">
+        {error ? (
+          <span className="text-sm text-gray-500 dark:text-gray-400">{error}</span>
+        ) : !fontFamily ? (
+          <span className="text-sm text-gray-400 dark:text-gray-500">読み込み中...</span>
+        ) : (
+          <p style={{ fontFamily: `"${fontFamily}", sans-serif` }}>
+            {runs
+              ? runs.map((run, index) => run.covered ? (
+                  <React.Fragment key={index}>{run.text}</React.Fragment>
+                ) : (
+                  <mark
+                    key={index}
+                    title="フォントに含まれていない文字"
+                    className="bg-amber-200 dark:bg-amber-700/60 text-amber-900 dark:text-amber-100 rounded-sm"
+                  >
+                    {run.text}
+                  </mark>
+                ))
+              : text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 最後に処理したフォントを元のフォントと並べて表示するプレビュー
+ * サンプルテキストは編集でき、フォントに含まれず代替フォントで表示される文字（豆腐）を強調する
+ */
+const SubsetPreviewPanel: React.FC = () => {
+  const { subsetPreview: preview, isProcessing } = useFontStore();
+  const [text, setText] = useState(DEFAULT_PREVIEW_TEXT);
+  const originalSources = useMemo(() => preview?.original ? [{ data: preview.original }] : null, [preview]);
+  const original = usePreviewFont(originalSources);
+  const subset = usePreviewFont(preview?.sources ?? null);
+
+  const subsetCodePoints = useMemo(() => new Set(preview?.subsetCodePoints), [preview]);
+  const fontCodePoints = useMemo(() => preview?.fontCodePoints ? new Set(preview.fontCodePoints) : null, [preview]);
+  const subsetRuns = useMemo(() => splitPreviewText(text, subsetCodePoints), [text, subsetCodePoints]);
+  const originalRuns = useMemo(() => fontCodePoints ? splitPreviewText(text, fontCodePoints) : null, [text, fontCodePoints]);
+  const outputTableSizes = useMemo(() => tryGetTableSizes(preview?.sources[0]?.data), [preview]);
+  const sourceTableSizes = useMemo(() => tryGetTableSizes(preview?.original, preview?.faceIndex), [preview]);
+
+  if (!preview || isProcessing) {
+    return null;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+          プレビュー
+          <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{preview.fileName}</span>
+        </h2>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={2}
+          placeholder="サンプルテキストを入力"
+          className="w-full mb-4 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+        />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <PreviewColumn
+            title="元のフォント"
+            fontFamily={original.fontFamily}
+            error={preview.original ? original.error : '元のフォントは表示できません'}
+            runs={originalRuns}
+            text={text}
+          />
+          <PreviewColumn
+            title="サブセット"
+            fontFamily={subset.fontFamily}
+            error={subset.error}
+            runs={subsetRuns}
+            text={text}
+          />
+        </div>
+        {outputTableSizes && (
+          <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              テーブル別サイズ（元のフォント → 出力）
+            </h3>
+            <TableSizeChart breakdown={outputTableSizes} source={sourceTableSizes} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SubsetPreviewPanel;
@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { TABLE_DESCRIPTIONS, TableSizeBreakdown, TableSizeSortKey, sortTableSizes } from '../../lib/tableSizes';
+import { formatFileSize } from '../../shared/utils';
+
+interface TableSizeChartProps {
+  breakdown: TableSizeBreakdown;
+  source?: TableSizeBreakdown | null; // 比較する元のフォントの内訳
+}
+
+const FORMAT_LABELS: Record<TableSizeBreakdown['format'], string> = {
+  sfnt: 'TTF/OTF',
+  woff: 'WOFF（テーブルごとに zlib 圧縮後）',
+  woff2: 'WOFF2（glyf/loca/hmtx は変換後、Brotli 圧縮前）',
+};
+
+/**
+ * テーブルごとのサイズの棒グラフ（サイズ順・タグ順で並べ替えられる）
+ */
+const TableSizeChart: React.FC<TableSizeChartProps> = ({ breakdown, source }) => {
+  const [sortKey, setSortKey] = useState<TableSizeSortKey>('size');
+  const tables = useMemo(() => sortTableSizes(breakdown.tables, sortKey), [breakdown, sortKey]);
+  const sourceSizes = useMemo(
+    () => new Map(source?.tables.map(table => [table.tag, table.storedLength]) ?? []),
+    [source]
+  );
+  const maxSize = Math.max(1, ...breakdown.tables.map(table => table.storedLength));
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center justify-between mb-2 text-gray-500 dark:text-gray-400">
+        <span>{FORMAT_LABELS[breakdown.format]}</span>
+        <div className="space-x-2">
+          {(['size', 'tag'] as const).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setSortKey(key)}
+              className={sortKey === key ? 'text-primary-600 dark:text-primary-400 font-medium' : 'hover:text-gray-700 dark:hover:text-gray-200'}
+            >
+              {key === 'size' ? 'サイズ順' : 'タグ順'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {tables.map((table, index) => (
+          <li key={`${table.tag}-${index}`} title={TABLE_DESCRIPTIONS[table.tag]}>
+            <div className="flex justify-between gap-2 text-gray-700 dark:text-gray-300">
+              <span className="truncate">
+                <span className="font-mono">{table.tag}</span>
+                {TABLE_DESCRIPTIONS[table.tag] && (
+                  <span className="ml-2 text-gray-400 dark:text-gray-500">{TABLE_DESCRIPTIONS[table.tag]}</span>
+                )}
+              </span>
+              <span className="whitespace-nowrap">
+                {sourceSizes.has(table.tag) && (
+                  <span className="text-gray-400 dark:text-gray-500">{formatFileSize(sourceSizes.get(table.tag) as number)} → </span>
+                )}
+                {formatFileSize(table.storedLength)}
+                {table.transformed && <span className="text-gray-400 dark:text-gray-500">（変換後）</span>}
+              </span>
+            </div>
+            <div className="mt-0.5 h-1.5 bg-gray-100 dark:bg-gray-700 rounded">
+              <div
+                className="h-1.5 bg-primary-400 dark:bg-primary-500 rounded"
+                style={{ width: `${(table.storedLength / maxSize) * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-gray-500 dark:text-gray-400">
+        ファイルサイズ: {formatFileSize(breakdown.fileSize)}
+        {breakdown.compressedSize !== undefined && `（テーブルデータは Brotli 圧縮後 ${formatFileSize(breakdown.compressedSize)}）`}
+      </p>
+    </div>
+  );
+};
+
+export default TableSizeChart;
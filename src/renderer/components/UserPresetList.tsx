@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { getUserPresetCharacterCount } from '../../shared/userPresets';
+import { useFontStore } from '../stores/fontStore';
+
+interface UserPresetListProps {
+  selectedPresetId: string;
+  onSelect: (presetId: string) => void;
+  /** 削除後に呼ばれる（選択中のプリセットを削除した場合の切り替え用） */
+  onDelete?: (presetId: string) => void;
+}
+
+/**
+ * ユーザー定義プリセットの一覧と保存・読み込み・書き出し
+ */
+const UserPresetList: React.FC<UserPresetListProps> = ({
+  selectedPresetId,
+  onSelect,
+  onDelete,
+}) => {
+  const [name, setName] = useState('');
+  const {
+    userPresets,
+    saveUserPreset,
+    deleteUserPreset,
+    importUserPresets,
+    exportUserPresets,
+  } = useFontStore();
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      return;
+    }
+    await saveUserPreset(name);
+    setName('');
+  };
+
+  const handleDelete = async (presetId: string) => {
+    await deleteUserPreset(presetId);
+    onDelete?.(presetId);
+  };
+
+  return (
+    <div className="space-y-2">
+      {userPresets.map((preset) => {
+        const isSelected = selectedPresetId === preset.id;
+
+        return (
+          <div
+            key={preset.id}
+            onClick={() => onSelect(preset.id)}
+            className={`p-3 border-2 rounded-lg cursor-pointer transition-all ${
+              isSelected
+                ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+                : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 bg-white dark:bg-gray-700'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <h4 className={`font-medium text-sm truncate ${
+                    isSelected ? 'text-primary-700 dark:text-primary-400' : 'text-gray-900 dark:text-gray-100'
+                  }`}>
+                    {preset.name}
+                  </h4>
+                  <span className="text-xs px-2 py-0.5 bg-gray-100 dark:bg-gray-600 text-gray-600 dark:text-gray-300 rounded flex-shrink-0">
+                    保存済み
+                  </span>
+                </div>
+                {preset.description && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{preset.description}</p>
+                )}
+              </div>
+
+              <div className="text-right ml-3 flex-shrink-0">
+                <div className="text-base font-semibold text-gray-700 dark:text-gray-200">
+                  {getUserPresetCharacterCount(preset).toLocaleString()}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">文字</div>
+              </div>
+
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(preset.id);
+                }}
+                className="ml-3 text-gray-400 hover:text-red-500"
+                aria-label={`${preset.name}を削除`}
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 pt-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="現在の設定をプリセットとして保存"
+          className="flex-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-1 text-sm bg-primary-600 hover:bg-primary-700 disabled:bg-gray-300 dark:disabled:bg-gray-600 text-white rounded-md"
+        >
+          保存
+        </button>
+      </div>
+
+      <div className="flex gap-3 text-xs">
+        <button
+          type="button"
+          onClick={importUserPresets}
+          className="text-primary-600 dark:text-primary-400 hover:underline"
+        >
+          プリセットを読み込む
+        </button>
+        {userPresets.length > 0 && (
+          <button
+            type="button"
+            onClick={exportUserPresets}
+            className="text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            JSONに書き出す
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserPresetList;
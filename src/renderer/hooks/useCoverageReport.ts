@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { CharacterSetExpression, CoverageReport } from '../../shared/types';
+import { hasCharacterSetSource } from '../../shared/presets';
+
+// 文字入力中の問い合わせを間引く待ち時間（ミリ秒）
+const COVERAGE_CHECK_DELAY = 300;
+
+/**
+ * 選択中の文字セットのうちフォントに収録されていない文字を取得
+ * 判定はメインプロセスで行う（determineCharacterSet と同じ文字セットを使用）
+ */
+export function useCoverageReport(
+  filePath: string | undefined,
+  characterSetExpression: CharacterSetExpression
+): CoverageReport | null {
+  const [report, setReport] = useState<CoverageReport | null>(null);
+  // 入力のたびに作られる式を内容で比較する
+  const expressionKey = JSON.stringify(characterSetExpression);
+
+  useEffect(() => {
+    setReport(null);
+    if (!filePath || !hasCharacterSetSource(characterSetExpression) || typeof window.electronAPI?.checkCoverage !== 'function') {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      window.electronAPI
+        .checkCoverage({ inputPath: filePath, characterSetExpression })
+        .then((result: CoverageReport | null) => {
+          if (!cancelled) {
+            setReport(result);
+          }
+        })
+        .catch((error: unknown) => {
+          console.warn('Coverage check failed:', error);
+        });
+    }, COVERAGE_CHECK_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filePath, expressionKey]);
+
+  return report;
+}
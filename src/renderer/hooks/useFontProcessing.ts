@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { useFontStore } from '../stores/fontStore';
 import { SubsetOptions } from '../../shared/types';
+import { readPreviewCodePoints } from '../../lib/previewCoverage';
 
 interface UseFontProcessingOptions {
   onProcessComplete?: (filePath: string, outputPath: string) => void;
@@ -25,8 +26,13 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
   const {
     selectedFiles,
     subsetOptions,
+    faceSelections,
     updateSubsetOptions,
+    setSelectedPreset: setStorePreset,
+    setCustomCharacters: setStoreCustomCharacters,
     setProcessing,
+    setSubsetPreview,
+    startBatchProcessing,
     executeWithErrorHandling,
   } = useFontStore();
 
@@ -40,11 +46,14 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
     setSelectedPreset(preset);
     setCustomCharacters(custom || '');
 
+    // ストアの選択状態を更新し、追加・除外を含めた組み立て式をサブセットオプションに反映
+    setStorePreset(preset ?? 'custom');
+    setStoreCustomCharacters(custom || '');
     updateSubsetOptions({
       preset,
       customCharacters: custom,
     });
-  }, [updateSubsetOptions]);
+  }, [updateSubsetOptions, setStorePreset, setStoreCustomCharacters]);
 
   /**
    * 出力ファイル名を生成
@@ -56,6 +65,40 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
     return `${nameWithoutExt}_subset.${format}`;
   }, []);
 
+  /**
+   * 出力したフォントを元のフォントと並べて表示するプレビューを作成
+   * 複数の書体・インスタンスを出力した場合は最初のものを表示する
+   */
+  const updateSubsetPreview = useCallback(async (
+    filePath: string,
+    outputPath: string,
+    result: Uint8Array | Uint8Array[]
+  ): Promise<void> => {
+    const [data] = Array.isArray(result) ? result : [result];
+    if (!data) {
+      setSubsetPreview(null);
+      return;
+    }
+
+    // 元のフォントを読み込めなくてもサブセットのプレビューは表示する
+    const original: Uint8Array | null = typeof window.electronAPI?.readFontFile === 'function'
+      ? await window.electronAPI.readFontFile(filePath).catch((error: unknown) => {
+          console.warn('Original font read failed:', error);
+          return null;
+        })
+      : null;
+    const sources = [{ data }];
+    const { fontAnalyses } = useFontStore.getState();
+    setSubsetPreview({
+      fileName: outputPath.split(/[\\/]/).pop() || outputPath,
+      original,
+      faceIndex: fontAnalyses[filePath]?.faceIndex,
+      sources,
+      subsetCodePoints: await readPreviewCodePoints(sources),
+      fontCodePoints: fontAnalyses[filePath]?.codePoints,
+    });
+  }, [setSubsetPreview]);
+
   /**
    * Electron API経由でフォント処理を実行
    */
@@ -70,24 +113,33 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
         outputPath,
         preset: subsetOptions.preset,
         customCharacters: subsetOptions.customCharacters,
+        characterSetExpression: subsetOptions.characterSetExpression,
         outputFormat: subsetOptions.outputFormat,
         enableWoff2Compression: subsetOptions.enableWoff2Compression,
         compressionLevel: subsetOptions.compressionLevel,
         removeHinting: subsetOptions.removeHinting,
         desubroutinize: subsetOptions.desubroutinize,
+        preserveFeatures: subsetOptions.preserveFeatures,
+        featureTags: subsetOptions.featureTags,
         pinVariationAxes: subsetOptions.pinVariationAxes,
+        exportNamedInstances: subsetOptions.exportNamedInstances,
         variationAxes: subsetOptions.variationAxes,
+        variationAxisRanges: subsetOptions.variationAxisRanges,
+        generateCss: subsetOptions.generateCss,
+        fontDisplay: subsetOptions.fontDisplay,
+        faceIndices: subsetOptions.faceIndices,
       }),
       filePath
     );
 
     if (result) {
       console.log(`Font processing completed: ${outputPath}`);
+      await updateSubsetPreview(filePath, outputPath, result as Uint8Array | Uint8Array[]);
       options.onProcessComplete?.(filePath, outputPath);
       return true;
     }
     return false;
-  }, [executeWithErrorHandling, options]);
+  }, [executeWithErrorHandling, updateSubsetPreview, options]);
 
   /**
    * Web版デモ処理を実行
@@ -133,6 +185,15 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
   const handleProcessStart = useCallback(async () => {
     if (selectedFiles.length === 0) return;
 
+    // 複数ファイルは出力先フォルダを選んでメインプロセスのバッチ処理に投入
+    if (selectedFiles.length > 1 && typeof window.electronAPI?.submitBatch === 'function') {
+      const outputDirectory = await executeWithErrorHandling(() => window.electronAPI.selectOutputDirectory());
+      if (outputDirectory) {
+        await startBatchProcessing(outputDirectory);
+      }
+      return;
+    }
+
     // 処理開始
     setProcessing(true);
 
@@ -161,8 +222,11 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
             continue;
           }
 
-          // サブセット処理を実行
-          await processWithElectronAPI(filePath, outputPath, subsetOptions);
+          // サブセット処理を実行（TTC/OTC は選択した書体ごとに出力）
+          await processWithElectronAPI(filePath, outputPath, {
+            ...subsetOptions,
+            faceIndices: faceSelections[filePath],
+          });
         } else {
           // Web版：デモ用処理
           await processWithWebDemo(filePath, defaultFileName, subsetOptions);
@@ -174,7 +238,9 @@ export function useFontProcessing(options: UseFontProcessingOptions = {}): UseFo
   }, [
     selectedFiles,
     subsetOptions,
+    faceSelections,
     setProcessing,
+    startBatchProcessing,
     executeWithErrorHandling,
     generateOutputFileName,
     processWithElectronAPI,
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { GlyphOutline, GlyphOutlineSet } from '../../shared/types';
+
+// スクロール中の問い合わせを間引く待ち時間（ミリ秒）
+const GLYPH_FETCH_DELAY = 50;
+
+export interface GlyphOutlineCache {
+  metrics: Omit<GlyphOutlineSet, 'glyphs'> | null;
+  outlines: Map<number, GlyphOutline>;
+}
+
+/**
+ * グリフ一覧に表示中のコードポイントのアウトラインをメインプロセスから取得
+ * 取得済みのアウトラインはフォントを切り替えるまで保持し、未取得の分だけを問い合わせる
+ */
+export function useGlyphOutlines(
+  filePath: string,
+  faceIndex: number | undefined,
+  visibleCodePoints: number[]
+): GlyphOutlineCache {
+  const [cache, setCache] = useState<GlyphOutlineCache>({ metrics: null, outlines: new Map() });
+  // 問い合わせ済み（収録されていなかったものを含む）のコードポイント
+  const requested = useRef(new Set<number>());
+  // フォントを切り替える前に送った問い合わせの結果を捨てるための世代番号
+  const generation = useRef(0);
+  const visibleKey = visibleCodePoints.join(',');
+
+  useEffect(() => {
+    requested.current = new Set();
+    generation.current++;
+    setCache({ metrics: null, outlines: new Map() });
+  }, [filePath, faceIndex]);
+
+  useEffect(() => {
+    if (typeof window.electronAPI?.getGlyphOutlines !== 'function') {
+      return;
+    }
+    const missing = visibleCodePoints.filter(codePoint => !requested.current.has(codePoint));
+    if (missing.length === 0) {
+      return;
+    }
+
+    // 送信済みの問い合わせは表示範囲が変わっても結果を反映する
+    const timer = setTimeout(() => {
+      const requestGeneration = generation.current;
+      missing.forEach(codePoint => requested.current.add(codePoint));
+      window.electronAPI
+        .getGlyphOutlines(filePath, missing, faceIndex)
+        .then(({ glyphs, ...metrics }: GlyphOutlineSet) => {
+          if (requestGeneration !== generation.current) {
+            return;
+          }
+          setCache(current => {
+            const outlines = new Map(current.outlines);
+            glyphs.forEach(glyph => outlines.set(glyph.codePoint, glyph));
+            return { metrics, outlines };
+          });
+        })
+        .catch((error: unknown) => {
+          if (requestGeneration !== generation.current) {
+            return;
+          }
+          missing.forEach(codePoint => requested.current.delete(codePoint));
+          console.warn('Glyph outline fetch failed:', error);
+        });
+    }, GLYPH_FETCH_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [filePath, faceIndex, visibleKey]);
+
+  return cache;
+}
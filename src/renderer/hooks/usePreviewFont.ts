@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { SubsetPreviewSource } from '../../shared/preview';
+
+/**
+ * プレビュー用に読み込んだフォントの状態
+ */
+export interface PreviewFontState {
+  fontFamily: string | null; // 読み込み中・失敗時は null
+  error: string | null;
+}
+
+// 読み込むたびに別のファミリー名にして、前のプレビューのフォントと混ざらないようにする
+let previewFontId = 0;
+
+/**
+ * フォントのバイト列を FontFace API で読み込み、document.fonts に登録する
+ * 分割出力のチャンクは unicode-range を指定して同じファミリー名で登録する
+ * アンマウント時・ソースが変わった時に登録を解除する
+ */
+export function usePreviewFont(sources: SubsetPreviewSource[] | null): PreviewFontState {
+  const [state, setState] = useState<PreviewFontState>({ fontFamily: null, error: null });
+
+  useEffect(() => {
+    if (!sources || sources.length === 0 || typeof FontFace === 'undefined') {
+      setState({ fontFamily: null, error: null });
+      return;
+    }
+
+    const fontFamily = `subset-preview-${++previewFontId}`;
+    const faces = sources.map(source => new FontFace(
+      fontFamily,
+      source.data as Uint8Array<ArrayBuffer>,
+      source.unicodeRange ? { unicodeRange: source.unicodeRange } : undefined
+    ));
+    let cancelled = false;
+    setState({ fontFamily: null, error: null });
+
+    Promise.all(faces.map(face => face.load()))
+      .then(() => {
+        if (cancelled) {
+          return;
+        }
+        faces.forEach(face => document.fonts.add(face));
+        setState({ fontFamily, error: null });
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          console.warn('Preview font load failed:', error);
+          setState({ fontFamily: null, error: 'フォントを読み込めませんでした' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      faces.forEach(face => document.fonts.delete(face));
+    };
+  }, [sources]);
+
+  return state;
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { CharacterSetExpression, SizeEstimate, SizeEstimateOptions, SubsetOptions } from '../../shared/types';
+import { evaluateCharacterSet, hasCharacterSetSource } from '../../shared/presets';
+
+// スライダー操作中の問い合わせを間引く待ち時間（ミリ秒）
+const SIZE_ESTIMATE_DELAY = 200;
+
+/**
+ * サブセット化の設定のうちサイズ推定に影響するもの（出力形式・機能保持・ヒンティング・軸の設定）
+ */
+export function getSizeEstimateOptions(subsetOptions: SubsetOptions, faceIndex?: number): SizeEstimateOptions {
+  return {
+    outputFormat: subsetOptions.outputFormat,
+    faceIndex,
+    preserveFeatures: subsetOptions.preserveFeatures,
+    featureTags: subsetOptions.featureTags,
+    removeHinting: subsetOptions.removeHinting,
+    variationAxes: subsetOptions.variationAxes,
+    pinVariationAxes: subsetOptions.pinVariationAxes,
+    variationAxisRanges: subsetOptions.variationAxisRanges,
+  };
+}
+
+/**
+ * 文字セットでサブセット化した場合の出力サイズの推定値を取得
+ * 推定はメインプロセスの estimateSubsetSize で行う（サンプルのサブセット化による較正と誤差幅を含む）
+ */
+export function useSizeEstimate(
+  filePath: string | undefined,
+  characterSetExpression: CharacterSetExpression,
+  enableWoff2Compression: boolean,
+  options: SizeEstimateOptions = {}
+): SizeEstimate | null {
+  const [estimate, setEstimate] = useState<SizeEstimate | null>(null);
+  // 入力のたびに作られる式とオプションを内容で比較する
+  const expressionKey = JSON.stringify(characterSetExpression);
+  const optionsKey = JSON.stringify(options);
+
+  useEffect(() => {
+    if (!filePath || !hasCharacterSetSource(characterSetExpression) || typeof window.electronAPI?.estimateSize !== 'function') {
+      setEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      window.electronAPI
+        .estimateSize(filePath, evaluateCharacterSet(characterSetExpression), enableWoff2Compression, options)
+        .then((result: SizeEstimate) => {
+          if (!cancelled) {
+            setEstimate(result);
+          }
+        })
+        .catch((error: unknown) => {
+          console.warn('Size estimation failed:', error);
+        });
+    }, SIZE_ESTIMATE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filePath, expressionKey, enableWoff2Compression, optionsKey]);
+
+  return estimate;
+}
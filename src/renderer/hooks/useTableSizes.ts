@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { TableSizeBreakdown, getTableSizes } from '../../lib/tableSizes';
+
+export interface TableSizeState {
+  breakdown: TableSizeBreakdown | null;
+  error: string | null;
+}
+
+/**
+ * フォントファイルをメインプロセスから読み込み、テーブルごとのサイズの内訳を求める
+ */
+export function useTableSizes(filePath: string, faceIndex?: number): TableSizeState {
+  const [state, setState] = useState<TableSizeState>({ breakdown: null, error: null });
+
+  useEffect(() => {
+    setState({ breakdown: null, error: null });
+    if (typeof window.electronAPI?.readFontFile !== 'function') {
+      return;
+    }
+
+    let cancelled = false;
+    window.electronAPI
+      .readFontFile(filePath)
+      .then((data: Uint8Array) => {
+        if (!cancelled) {
+          setState({ breakdown: getTableSizes(data, faceIndex), error: null });
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          console.warn('Table size breakdown failed:', error);
+          setState({ breakdown: null, error: 'テーブルの内訳を読み取れませんでした' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, faceIndex]);
+
+  return state;
+}
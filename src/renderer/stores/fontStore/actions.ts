@@ -1,6 +1,16 @@
-import { FontAnalysis, SubsetOptions, ProgressState } from '../../../shared/types';
-import { AppError, handleError } from '../../../shared/errors';
-import { getCharacterSetFromPreset, getUniqueCharacters } from '../../../shared/presets';
+import { AxisRange, FontAnalysis, SubsetOptions, ProgressState, BatchJob, BatchJobUpdate } from '../../../shared/types';
+import { AppError, ErrorType, handleError } from '../../../shared/errors';
+import {
+  CharacterSetModifiers,
+  buildCharacterSetExpression,
+  getCharacterSetFromPreset,
+  getUniqueCharacters,
+  toCharacterSetSelection,
+} from '../../../shared/presets';
+import { UserPreset, createUserPreset, mergeUserPresets } from '../../../shared/userPresets';
+import { resolveFaceIndices } from '../../../shared/fontCollection';
+import { isBatchJobFinished } from '../../../shared/batchProgress';
+import { SubsetPreview } from '../../../shared/preview';
 import { ProcessingJob, FontStoreState } from './state';
 
 /**
@@ -12,6 +22,7 @@ export interface FontStoreActions {
   removeFile: (filePath: string) => void;
   clearFiles: () => void;
   setFontAnalysis: (filePath: string, analysis: FontAnalysis) => void;
+  setFaceIndices: (filePath: string, faceIndices: number[]) => void;
 
   // オプション更新
   updateSubsetOptions: (options: Partial<SubsetOptions>) => void;
@@ -19,6 +30,7 @@ export interface FontStoreActions {
   // 処理制御
   setProcessing: (processing: boolean) => void;
   setProgressState: (state: ProgressState | null) => void;
+  setSubsetPreview: (preview: SubsetPreview | null) => void;
   cancelProcessing: () => void;
 
   // 処理ジョブ管理
@@ -27,6 +39,11 @@ export interface FontStoreActions {
   removeProcessingJob: (id: string) => void;
   clearProcessingJobs: () => void;
 
+  // バッチ処理
+  startBatchProcessing: (outputDirectory: string) => Promise<void>;
+  applyBatchJobUpdate: (update: BatchJobUpdate) => void;
+  cancelProcessingJob: (id: string) => Promise<void>;
+
   // エラー管理
   addError: (error: unknown, filePath?: string) => void;
   removeError: (index: number) => void;
@@ -36,6 +53,7 @@ export interface FontStoreActions {
   // UI操作
   setSelectedPreset: (preset: string) => void;
   setCustomCharacters: (characters: string) => void;
+  setCharacterSetModifiers: (modifiers: Partial<CharacterSetModifiers>) => void;
   setShowAdvancedOptions: (show: boolean) => void;
   setDragOverState: (dragOver: boolean) => void;
   setDarkMode: (isDark: boolean) => void;
@@ -44,7 +62,16 @@ export interface FontStoreActions {
   // バリアブルフォント操作
   setVariationAxesValues: (values: Record<string, number>) => void;
   setPinVariationAxes: (pin: boolean) => void;
+  setVariationAxisRanges: (ranges: Record<string, AxisRange>) => void;
   resetVariationAxesToDefaults: (axes: { tag: string; default: number }[]) => void;
+
+  // ユーザー定義プリセット
+  loadUserPresets: () => Promise<void>;
+  saveUserPreset: (name: string, description?: string) => Promise<void>;
+  applyUserPreset: (presetId: string) => UserPreset | undefined;
+  deleteUserPreset: (presetId: string) => Promise<void>;
+  importUserPresets: () => Promise<void>;
+  exportUserPresets: () => Promise<void>;
 }
 
 type SetState = (partial: Partial<FontStoreState> | ((state: FontStoreState) => Partial<FontStoreState>)) => void;
@@ -53,7 +80,7 @@ type GetState = () => FontStoreState & FontStoreActions;
 /**
  * ファイル操作アクションを作成
  */
-export function createFileActions(set: SetState, get: GetState): Pick<FontStoreActions, 'addFiles' | 'removeFile' | 'clearFiles' | 'setFontAnalysis'> {
+export function createFileActions(set: SetState, get: GetState): Pick<FontStoreActions, 'addFiles' | 'removeFile' | 'clearFiles' | 'setFontAnalysis' | 'setFaceIndices'> {
   return {
     addFiles: async (filePaths: string[]) => {
       const newFiles = filePaths.filter(path => !get().selectedFiles.includes(path));
@@ -98,6 +125,9 @@ export function createFileActions(set: SetState, get: GetState): Pick<FontStoreA
         fontAnalyses: Object.fromEntries(
           Object.entries(state.fontAnalyses).filter(([key]) => key !== filePath)
         ),
+        faceSelections: Object.fromEntries(
+          Object.entries(state.faceSelections).filter(([key]) => key !== filePath)
+        ),
         processingJobs: state.processingJobs.filter(job => job.filePath !== filePath),
       }));
     },
@@ -106,9 +136,11 @@ export function createFileActions(set: SetState, get: GetState): Pick<FontStoreA
       set({
         selectedFiles: [],
         fontAnalyses: {},
+        faceSelections: {},
         processingJobs: [],
         isProcessing: false,
         progressState: null,
+        subsetPreview: null,
       });
     },
 
@@ -120,13 +152,22 @@ export function createFileActions(set: SetState, get: GetState): Pick<FontStoreA
         },
       }));
     },
+
+    setFaceIndices: (filePath: string, faceIndices: number[]) => {
+      set(state => ({
+        faceSelections: {
+          ...state.faceSelections,
+          [filePath]: resolveFaceIndices(faceIndices),
+        },
+      }));
+    },
   };
 }
 
 /**
  * 処理制御アクションを作成
  */
-export function createProcessingActions(set: SetState, get: GetState): Pick<FontStoreActions, 'updateSubsetOptions' | 'setProcessing' | 'setProgressState' | 'cancelProcessing' | 'addProcessingJob' | 'updateProcessingJob' | 'removeProcessingJob' | 'clearProcessingJobs'> {
+export function createProcessingActions(set: SetState, get: GetState): Pick<FontStoreActions, 'updateSubsetOptions' | 'setProcessing' | 'setProgressState' | 'setSubsetPreview' | 'cancelProcessing' | 'addProcessingJob' | 'updateProcessingJob' | 'removeProcessingJob' | 'clearProcessingJobs' | 'startBatchProcessing' | 'applyBatchJobUpdate' | 'cancelProcessingJob'> {
   return {
     updateSubsetOptions: (options: Partial<SubsetOptions>) => {
       set(state => ({
@@ -145,6 +186,10 @@ export function createProcessingActions(set: SetState, get: GetState): Pick<Font
       set({ progressState: state });
     },
 
+    setSubsetPreview: (preview: SubsetPreview | null) => {
+      set({ subsetPreview: preview });
+    },
+
     cancelProcessing: async () => {
       try {
         await window.electronAPI?.cancelProcessing?.();
@@ -181,6 +226,64 @@ export function createProcessingActions(set: SetState, get: GetState): Pick<Font
     clearProcessingJobs: () => {
       set({ processingJobs: [] });
     },
+
+    startBatchProcessing: async (outputDirectory: string) => {
+      const { selectedFiles, subsetOptions, faceSelections } = get();
+      if (selectedFiles.length === 0 || typeof window.electronAPI?.submitBatch !== 'function') {
+        return;
+      }
+
+      set({ isProcessing: true, progressState: null, processingJobs: [] });
+      const { inputPath: _inputPath, outputPath: _outputPath, faceIndices: _faceIndices, ...options } = subsetOptions;
+      const jobs = await get().executeWithErrorHandling<BatchJob[]>(() => window.electronAPI.submitBatch({
+        files: selectedFiles.map(filePath => ({ inputPath: filePath, faceIndices: faceSelections[filePath] })),
+        outputDirectory,
+        options,
+      }));
+      if (!jobs) {
+        set({ isProcessing: false });
+        return;
+      }
+
+      // 投入中に届いた進捗を保ったまま、ジョブの一覧を揃える
+      set(state => ({
+        processingJobs: jobs.map(job =>
+          state.processingJobs.find(existing => existing.id === job.id) ?? {
+            id: job.id,
+            filePath: job.inputPath,
+            status: 'pending',
+            progress: 0,
+            outputPath: job.outputPath,
+          }
+        ),
+      }));
+    },
+
+    applyBatchJobUpdate: (update: BatchJobUpdate) => {
+      set(state => {
+        const updates: Partial<ProcessingJob> = {
+          status: update.status,
+          progress: update.status === 'completed' ? 100 : update.progress.progress,
+          error: update.error,
+          ...(update.outputPaths && { outputPath: update.outputPaths[0], outputPaths: update.outputPaths }),
+          ...(update.originalSize !== undefined && { originalSize: update.originalSize }),
+          ...(update.outputSize !== undefined && { compressedSize: update.outputSize }),
+        };
+        const exists = state.processingJobs.some(job => job.id === update.jobId);
+        const processingJobs = exists
+          ? state.processingJobs.map(job => (job.id === update.jobId ? { ...job, ...updates } : job))
+          : [...state.processingJobs, { id: update.jobId, filePath: update.inputPath, progress: 0, ...updates } as ProcessingJob];
+
+        return {
+          processingJobs,
+          isProcessing: !processingJobs.every(job => isBatchJobFinished(job.status)),
+        };
+      });
+    },
+
+    cancelProcessingJob: async (id: string) => {
+      await get().executeWithErrorHandling(() => window.electronAPI.cancelBatchJob(id));
+    },
   };
 }
 
@@ -191,6 +294,11 @@ export function createErrorActions(set: SetState, get: GetState): Pick<FontStore
   return {
     addError: (error: unknown, filePath?: string) => {
       const fontMinifyError = handleError(error, filePath);
+      // ユーザーによるキャンセルはエラーとして表示しない
+      if (fontMinifyError.type === ErrorType.CANCELLED) {
+        console.log('Processing cancelled:', filePath);
+        return;
+      }
       const appError = fontMinifyError.toJSON();
 
       set(state => ({
@@ -235,7 +343,15 @@ export function createErrorActions(set: SetState, get: GetState): Pick<FontStore
 /**
  * UI操作アクションを作成
  */
-export function createUIActions(set: SetState, get: GetState): Pick<FontStoreActions, 'setSelectedPreset' | 'setCustomCharacters' | 'setShowAdvancedOptions' | 'setDragOverState' | 'setDarkMode' | 'toggleDarkMode' | 'setVariationAxesValues' | 'setPinVariationAxes' | 'resetVariationAxesToDefaults'> {
+export function createUIActions(set: SetState, get: GetState): Pick<FontStoreActions, 'setSelectedPreset' | 'setCustomCharacters' | 'setCharacterSetModifiers' | 'setShowAdvancedOptions' | 'setDragOverState' | 'setDarkMode' | 'toggleDarkMode' | 'setVariationAxesValues' | 'setPinVariationAxes' | 'setVariationAxisRanges' | 'resetVariationAxesToDefaults'> {
+  // 選択状態の組み立て式をサブセットオプションに反映（メインプロセスで同じ式を評価する）
+  const syncCharacterSetExpression = () => {
+    const { selectedPreset, customCharacters, characterSetModifiers } = get();
+    get().updateSubsetOptions({
+      characterSetExpression: buildCharacterSetExpression(selectedPreset, customCharacters, characterSetModifiers),
+    });
+  };
+
   return {
     setSelectedPreset: (preset: string) => {
       set({ selectedPreset: preset });
@@ -244,6 +360,7 @@ export function createUIActions(set: SetState, get: GetState): Pick<FontStoreAct
       if (preset !== 'custom') {
         get().updateSubsetOptions({ preset });
       }
+      syncCharacterSetExpression();
     },
 
     setCustomCharacters: (characters: string) => {
@@ -256,6 +373,12 @@ export function createUIActions(set: SetState, get: GetState): Pick<FontStoreAct
           preset: undefined,
         });
       }
+      syncCharacterSetExpression();
+    },
+
+    setCharacterSetModifiers: (modifiers: Partial<CharacterSetModifiers>) => {
+      set({ characterSetModifiers: { ...get().characterSetModifiers, ...modifiers } });
+      syncCharacterSetExpression();
     },
 
     setShowAdvancedOptions: (show: boolean) => {
@@ -299,22 +422,115 @@ export function createUIActions(set: SetState, get: GetState): Pick<FontStoreAct
       });
     },
 
+    setVariationAxisRanges: (ranges: Record<string, AxisRange>) => {
+      set({ variationAxisRanges: ranges });
+      // 軸を固定する場合はメインプロセス側で無視される
+      get().updateSubsetOptions({
+        variationAxisRanges: Object.keys(ranges).length > 0 ? ranges : undefined,
+      });
+    },
+
     resetVariationAxesToDefaults: (axes: { tag: string; default: number }[]) => {
       const defaultValues: Record<string, number> = {};
       axes.forEach((axis) => {
         defaultValues[axis.tag] = axis.default;
       });
-      set({ variationAxesValues: defaultValues });
+      set({ variationAxesValues: defaultValues, variationAxisRanges: {} });
       // pinVariationAxesとvariationAxesの両方をsubsetOptionsに設定
       const pin = get().pinVariationAxes;
       get().updateSubsetOptions({
         pinVariationAxes: pin,
         variationAxes: pin ? defaultValues : undefined,
+        variationAxisRanges: undefined,
       });
     },
   };
 }
 
+/**
+ * ユーザー定義プリセットのアクションを作成
+ * 保存先はメインプロセス（userData 内のJSON）で、Electron以外では読み込み・保存しない
+ */
+export function createUserPresetActions(set: SetState, get: GetState): Pick<FontStoreActions, 'loadUserPresets' | 'saveUserPreset' | 'applyUserPreset' | 'deleteUserPreset' | 'importUserPresets' | 'exportUserPresets'> {
+  // 一覧を保存し、検証済みの一覧でストアを更新
+  const persist = async (presets: UserPreset[]) => {
+    const saved = await window.electronAPI.saveUserPresets(presets);
+    set({ userPresets: saved });
+  };
+
+  return {
+    loadUserPresets: async () => {
+      if (typeof window.electronAPI?.loadUserPresets !== 'function') {
+        return;
+      }
+      const presets = await get().executeWithErrorHandling<UserPreset[]>(() => window.electronAPI.loadUserPresets());
+      if (presets) {
+        set({ userPresets: presets });
+      }
+    },
+
+    saveUserPreset: async (name: string, description?: string) => {
+      const { selectedPreset, customCharacters, characterSetModifiers, subsetOptions } = get();
+      const preset = createUserPreset(name, {
+        characterSetExpression: buildCharacterSetExpression(selectedPreset, customCharacters, characterSetModifiers),
+        outputFormat: subsetOptions.outputFormat,
+        variationAxes: subsetOptions.pinVariationAxes ? subsetOptions.variationAxes : undefined,
+        pinVariationAxes: subsetOptions.pinVariationAxes,
+        variationAxisRanges: subsetOptions.pinVariationAxes ? undefined : subsetOptions.variationAxisRanges,
+        preserveFeatures: subsetOptions.preserveFeatures,
+        featureTags: subsetOptions.featureTags,
+      }, description);
+      await get().executeWithErrorHandling(() => persist([...get().userPresets, preset]));
+    },
+
+    applyUserPreset: (presetId: string) => {
+      const preset = get().userPresets.find(p => p.id === presetId);
+      if (!preset) {
+        return undefined;
+      }
+
+      const { selectedPreset, customCharacters, modifiers } = toCharacterSetSelection(preset.characterSetExpression);
+      set({ characterSetModifiers: modifiers });
+      get().setSelectedPreset(selectedPreset);
+      get().setCustomCharacters(customCharacters);
+
+      const options: Partial<SubsetOptions> = {};
+      if (preset.outputFormat) options.outputFormat = preset.outputFormat;
+      if (preset.preserveFeatures) options.preserveFeatures = preset.preserveFeatures;
+      if (preset.featureTags) options.featureTags = preset.featureTags;
+      get().updateSubsetOptions(options);
+
+      if (preset.variationAxes) {
+        get().setVariationAxesValues({ ...get().variationAxesValues, ...preset.variationAxes });
+      }
+      if (preset.pinVariationAxes !== undefined) {
+        get().setPinVariationAxes(preset.pinVariationAxes);
+      }
+      if (preset.variationAxisRanges) {
+        get().setVariationAxisRanges({ ...get().variationAxisRanges, ...preset.variationAxisRanges });
+      }
+      return preset;
+    },
+
+    deleteUserPreset: async (presetId: string) => {
+      await get().executeWithErrorHandling(() => persist(get().userPresets.filter(p => p.id !== presetId)));
+    },
+
+    importUserPresets: async () => {
+      await get().executeWithErrorHandling(async () => {
+        const imported = await window.electronAPI.importUserPresets();
+        if (imported.length > 0) {
+          await persist(mergeUserPresets(get().userPresets, imported));
+        }
+      });
+    },
+
+    exportUserPresets: async () => {
+      await get().executeWithErrorHandling(() => window.electronAPI.exportUserPresets(get().userPresets));
+    },
+  };
+}
+
 /**
  * Web版用のフォールバック解析結果を作成
  * FontAnalysis型に準拠したダミーデータを生成
@@ -322,7 +538,9 @@ export function createUIActions(set: SetState, get: GetState): Pick<FontStoreAct
 function createWebFallbackAnalysis(filePath: string): FontAnalysis {
   const fileName = filePath.split('/').pop() || filePath;
   const extension = filePath.split('.').pop()?.toLowerCase() || 'ttf';
-  const format = (['ttf', 'otf', 'woff', 'woff2', 'ttc'].includes(extension) ? extension : 'ttf') as FontAnalysis['format'];
+  // OTC は TTC と同じコレクション形式として扱う
+  const normalized = extension === 'otc' ? 'ttc' : extension;
+  const format = (['ttf', 'otf', 'woff', 'woff2', 'ttc'].includes(normalized) ? normalized : 'ttf') as FontAnalysis['format'];
 
   return {
     fileName,
@@ -334,7 +552,7 @@ function createWebFallbackAnalysis(filePath: string): FontAnalysis {
     glyphCount: 0,
     characterRanges: [],
     features: [],
-    languages: ['ja', 'en'],
+    languages: [],
     hasColorEmoji: false,
     isVariableFont: false,
   };
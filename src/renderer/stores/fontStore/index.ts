@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import { BatchJobUpdate } from '../../../shared/types';
 import { FontStoreState, createInitialState, ProcessingJob } from './state';
 import {
   FontStoreActions,
@@ -7,6 +8,7 @@ import {
   createProcessingActions,
   createErrorActions,
   createUIActions,
+  createUserPresetActions,
 } from './actions';
 import { FontStoreSelectors, createSelectors } from './selectors';
 
@@ -32,13 +34,19 @@ function detectDarkMode(): boolean {
  * プログレス更新リスナーを初期化
  */
 function initializeProgressListener(
-  set: (partial: Partial<FontStoreState>) => void
+  set: (partial: Partial<FontStoreState>) => void,
+  get: () => FontStore
 ): void {
   if (typeof window !== 'undefined' && window.electronAPI) {
     window.electronAPI.onProgressUpdate((progress) => {
       set({ progressState: progress });
     });
 
+    // バッチ処理のジョブごとの進捗
+    window.electronAPI.onBatchJobUpdate?.((update: BatchJobUpdate) => {
+      get().applyBatchJobUpdate(update);
+    });
+
     window.electronAPI.onProcessingCancelled(() => {
       set({
         isProcessing: false,
@@ -81,7 +89,7 @@ function initializeDarkModeListener(
 export const useFontStore = create<FontStore>()(
   subscribeWithSelector((set, get) => {
     // リスナーの初期化
-    initializeProgressListener(set);
+    initializeProgressListener(set, get);
     initializeDarkModeListener(set);
 
     // 初期状態
@@ -92,6 +100,7 @@ export const useFontStore = create<FontStore>()(
     const processingActions = createProcessingActions(set, get);
     const errorActions = createErrorActions(set, get);
     const uiActions = createUIActions(set, get);
+    const userPresetActions = createUserPresetActions(set, get);
     const selectors = createSelectors(get);
 
     return {
@@ -100,6 +109,7 @@ export const useFontStore = create<FontStore>()(
       ...processingActions,
       ...errorActions,
       ...uiActions,
+      ...userPresetActions,
       ...selectors,
     };
   })
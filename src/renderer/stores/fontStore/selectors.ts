@@ -1,4 +1,4 @@
-import { getCharacterSetFromPreset } from '../../../shared/presets';
+import { buildCharacterSetExpression, evaluateCharacterSet } from '../../../shared/presets';
 import { FontStoreState } from './state';
 
 /**
@@ -21,24 +21,21 @@ export function createSelectors(get: GetState): FontStoreSelectors {
   return {
     /**
      * 有効な文字セットを取得
-     * カスタム選択の場合はカスタム文字を、プリセット選択の場合はプリセットの文字セットを返す
+     * プリセット（カスタム選択の場合はカスタム文字）に追加・除外を適用した文字セットを返す
      */
     getEffectiveCharacterSet: () => {
-      const state = get();
-      if (state.selectedPreset === 'custom') {
-        return state.customCharacters;
-      }
-      return getCharacterSetFromPreset(state.selectedPreset);
+      const { selectedPreset, customCharacters, characterSetModifiers } = get();
+      return evaluateCharacterSet(buildCharacterSetExpression(selectedPreset, customCharacters, characterSetModifiers));
     },
 
     /**
      * 重複を除いた総文字数を取得
      */
     getTotalCharacterCount: () => {
-      const { selectedPreset, customCharacters } = get();
-      const characterSet = selectedPreset === 'custom'
-        ? customCharacters
-        : getCharacterSetFromPreset(selectedPreset);
+      const { selectedPreset, customCharacters, characterSetModifiers } = get();
+      const characterSet = evaluateCharacterSet(
+        buildCharacterSetExpression(selectedPreset, customCharacters, characterSetModifiers)
+      );
       return new Set(characterSet).size;
     },
 
@@ -1,5 +1,8 @@
-import { FontAnalysis, SubsetOptions, ProgressState } from '../../../shared/types';
+import { AxisRange, FontAnalysis, SubsetOptions, ProgressState, BatchJobStatus } from '../../../shared/types';
 import { AppError } from '../../../shared/errors';
+import { CharacterSetModifiers, DEFAULT_CHARACTER_SET_MODIFIERS } from '../../../shared/presets';
+import { UserPreset } from '../../../shared/userPresets';
+import { SubsetPreview } from '../../../shared/preview';
 
 /**
  * 処理ジョブの型定義
@@ -7,10 +10,11 @@ import { AppError } from '../../../shared/errors';
 export interface ProcessingJob {
   id: string;
   filePath: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: BatchJobStatus;
   progress: number;
   error?: string;
   outputPath?: string;
+  outputPaths?: string[]; // TTC/OTC の書体ごとの出力
   originalSize?: number;
   compressedSize?: number;
 }
@@ -22,12 +26,14 @@ export interface FontStoreState {
   // ファイル・フォント解析状態
   selectedFiles: string[];
   fontAnalyses: Record<string, FontAnalysis>;
+  faceSelections: Record<string, number[]>; // TTC/OTC でサブセット化する書体（ファイルパスごと）
   subsetOptions: SubsetOptions;
 
   // 処理状態
   isProcessing: boolean;
   progressState: ProgressState | null;
   processingJobs: ProcessingJob[];
+  subsetPreview: SubsetPreview | null; // 最後に処理したフォントのプレビュー
 
   // エラー状態
   errors: AppError[];
@@ -36,6 +42,7 @@ export interface FontStoreState {
   // UI状態
   selectedPreset: string;
   customCharacters: string;
+  characterSetModifiers: CharacterSetModifiers; // プリセット・カスタム文字への追加と除外
   showAdvancedOptions: boolean;
   isDragOver: boolean;
   isDarkMode: boolean;
@@ -43,6 +50,10 @@ export interface FontStoreState {
   // バリアブルフォント状態
   variationAxesValues: Record<string, number>;
   pinVariationAxes: boolean;
+  variationAxisRanges: Record<string, AxisRange>; // 軸を固定しない場合に残す範囲
+
+  // ユーザー定義プリセット（userData に保存）
+  userPresets: UserPreset[];
 }
 
 /**
@@ -53,6 +64,7 @@ export function createInitialState(isDarkMode: boolean): FontStoreState {
     // ファイル・フォント解析状態
     selectedFiles: [],
     fontAnalyses: {},
+    faceSelections: {},
     subsetOptions: {
       inputPath: '',
       outputPath: '',
@@ -62,12 +74,15 @@ export function createInitialState(isDarkMode: boolean): FontStoreState {
       compressionLevel: 6,
       removeHinting: false,
       desubroutinize: false,
+      generateCss: true,
+      fontDisplay: 'swap',
     },
 
     // 処理状態
     isProcessing: false,
     progressState: null,
     processingJobs: [],
+    subsetPreview: null,
 
     // エラー状態
     errors: [],
@@ -76,6 +91,7 @@ export function createInitialState(isDarkMode: boolean): FontStoreState {
     // UI状態
     selectedPreset: 'joyo-jis1',
     customCharacters: '',
+    characterSetModifiers: DEFAULT_CHARACTER_SET_MODIFIERS,
     showAdvancedOptions: false,
     isDragOver: false,
     isDarkMode,
@@ -83,5 +99,9 @@ export function createInitialState(isDarkMode: boolean): FontStoreState {
     // バリアブルフォント状態
     variationAxesValues: {},
     pinVariationAxes: true,
+    variationAxisRanges: {},
+
+    // ユーザー定義プリセット
+    userPresets: [],
   };
 }
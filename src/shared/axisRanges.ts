@@ -0,0 +1,50 @@
+import { AxisRange, VariableAxis } from './types';
+
+/**
+ * 軸全体を残す範囲
+ */
+export function getFullAxisRange(axis: VariableAxis): AxisRange {
+  return { min: axis.min, default: axis.default, max: axis.max };
+}
+
+/**
+ * 範囲を軸の最小値〜最大値に収め、既定値を範囲内に寄せる
+ * 最小値と最大値が逆転している場合は入れ替える
+ */
+export function clampAxisRange(axis: VariableAxis, range: Partial<AxisRange>): AxisRange {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  const a = clamp(range.min ?? axis.min, axis.min, axis.max);
+  const b = clamp(range.max ?? axis.max, axis.min, axis.max);
+  const min = Math.min(a, b);
+  const max = Math.max(a, b);
+  return { min, default: clamp(range.default ?? axis.default, min, max), max };
+}
+
+/**
+ * 軸全体より狭い範囲か
+ */
+export function isAxisRangeRestricted(axis: VariableAxis, range: AxisRange): boolean {
+  return range.min > axis.min || range.max < axis.max || range.default !== axis.default;
+}
+
+/**
+ * フォントの軸に対する範囲指定のうち、実際に範囲を狭めるものだけを返す
+ * フォントにない軸の指定は除き、1つもなければ undefined
+ */
+export function getRestrictedAxisRanges(
+  axes: VariableAxis[] | undefined,
+  ranges: Record<string, Partial<AxisRange>> | undefined
+): Record<string, AxisRange> | undefined {
+  const restricted: Record<string, AxisRange> = {};
+  for (const axis of axes ?? []) {
+    const range = ranges?.[axis.tag];
+    if (!range) {
+      continue;
+    }
+    const clamped = clampAxisRange(axis, range);
+    if (isAxisRangeRestricted(axis, clamped)) {
+      restricted[axis.tag] = clamped;
+    }
+  }
+  return Object.keys(restricted).length > 0 ? restricted : undefined;
+}
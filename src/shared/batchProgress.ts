@@ -0,0 +1,51 @@
+import { BatchJobStatus, BatchJobUpdate, OutputFormat, ProgressState } from './types';
+
+/**
+ * ジョブが終了した状態か（完了・エラー・キャンセル）
+ */
+export function isBatchJobFinished(status: BatchJobStatus): boolean {
+  return status === 'completed' || status === 'error' || status === 'cancelled';
+}
+
+/**
+ * バッチ処理の出力ファイル名を決定
+ * 同じ名前のフォントが複数ある場合は連番を付けて上書きを防ぐ
+ */
+export function getBatchOutputFileNames(inputPaths: string[], outputFormat: OutputFormat): string[] {
+  const used = new Set<string>();
+  return inputPaths.map(inputPath => {
+    const fileName = inputPath.split(/[\\/]/).pop() || inputPath;
+    const dotIndex = fileName.lastIndexOf('.');
+    const baseName = `${dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName}_subset`;
+
+    let outputName = `${baseName}.${outputFormat}`;
+    for (let suffix = 2; used.has(outputName.toLowerCase()); suffix++) {
+      outputName = `${baseName}_${suffix}.${outputFormat}`;
+    }
+    used.add(outputName.toLowerCase());
+    return outputName;
+  });
+}
+
+/**
+ * ジョブごとの進捗からバッチ全体の進捗を集計
+ * 終了したジョブは100%として平均し、残り時間は実行中のジョブの最大値とする
+ */
+export function summarizeBatchProgress(updates: BatchJobUpdate[]): ProgressState {
+  const finished = updates.filter(update => isBatchJobFinished(update.status));
+  const active = updates.filter(update => update.status === 'processing');
+  const latest = active[active.length - 1] ?? updates[updates.length - 1];
+  const progress = updates.length > 0
+    ? updates.reduce((sum, update) => sum + (isBatchJobFinished(update.status) ? 100 : update.progress.progress), 0) / updates.length
+    : 0;
+
+  return {
+    phase: finished.length === updates.length ? 'complete' : latest?.progress.phase ?? 'idle',
+    progress: Math.round(progress),
+    currentFile: latest?.inputPath ?? '',
+    totalFiles: updates.length,
+    processedFiles: updates.filter(update => update.status === 'completed').length,
+    estimatedTime: Math.max(0, ...active.map(update => update.progress.estimatedTime)),
+    errors: updates.flatMap(update => update.progress.errors),
+  };
+}
@@ -1,5 +1,12 @@
 // 文字セット定義
 export { HIRAGANA } from './hiragana';
 export { KATAKANA } from './katakana';
-export { ASCII, FULLWIDTH_ALPHANUMERIC, JAPANESE_SYMBOLS } from './symbols';
-export { JOYO_KANJI, JIS1_KANJI } from './kanji';
+export { ASCII, FULLWIDTH_ALPHANUMERIC, JAPANESE_SYMBOLS, CHINESE_PUNCTUATION, KOREAN_SYMBOLS } from './symbols';
+export { JOYO_KANJI, JIS1_KANJI, JIS2_KANJI } from './kanji';
+export { JIS3_KANJI, JIS4_KANJI, JISX0213_NON_KANJI } from './jisx0213';
+export { JINMEIYO_KANJI } from './jinmeiyo';
+export { JLPT_N5_KANJI, JLPT_N4_KANJI, JLPT_N3_KANJI, JLPT_N2_KANJI, JLPT_N1_KANJI } from './jlpt';
+export { KANJI_BY_FREQUENCY } from './frequency';
+export { HALFWIDTH_KATAKANA, JAPANESE_PUNCTUATION_VARIANTS } from './variants';
+export { GB2312_LEVEL1_HANZI, BIG5_COMMON_HANZI } from './chinese';
+export { KSX1001_HANGUL } from './korean';
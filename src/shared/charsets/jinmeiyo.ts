@@ -0,0 +1,25 @@
+// kanji-dataパッケージから生成（scripts/generate-kanji.js）
+
+// 人名用漢字 (858字)
+const JINMEIYO_KANJI_PARTS = [
+  // Part 1
+  '丑丞乃之乎乘也云亘亙些亞亥亦亨亮仔伊伍伶伽佃佑佛侃來侑俄俐俠俣俱倖倦倭偲傭傳僞價儉儲允兎兒兜其冨冴凉凌凛凜凧凪凰凱函剩劉劍劫勁勳勺勿匁匡卜卯卷卽卿厨厩叉叡叢只叶吞吻吾哉哨哩啄喋喧喬單喰嘉嘗嘩噂噌嚴圃圈',
+  // Part 2
+  '國圓團圭坐坦埜埴堯堰堵堺塙增壕壘壞壬壯壽夷奄奎套奧奬姥姪娃娩嬉孃孜孟宋宏宕宥寅寓寢實寬寵將專尖尤尭屑峨峯峻峽崚嵩嵯嶋嶺巌巖巢巫已巳巴巷巽帖帶幌幡庄庇庚庵廟廣廳廻廿弘弛彈彌彗彦彪彬從徠徵德徽忽怜恆恕恢恰',
+  // Part 3
+  '悉悌惇惚惟惠惡惣惹惺愼慧憐應懷戊或戟戰戲托拂拔拜按挺挽捧捲捷捺掠掬揃揭搖搜摑摺撒撞撫播撰擊擢攝收敍敦斐斡斧斯於旭昂昊昌昏昴晃晄晋晏晒晚晝晟晦晨智暉暢曆曉曙曝曳曾朋朔李杏杖杜杭杵杷枇柊柏柑柘柚柴柾栖栗栞',
+  // Part 4
+  '桂桐桔桧桶梁梓梛條梢梧梯梶棲椀椋椛椰椿楊楓楕楚楠楢楯榊榎榛榮槇槌槍槙槻樂樋樟樣樫樺樽橘橙橫檀檎檜檢櫂櫓櫛櫻欣欽歎此步歷殆毅每毘毬氣汀汐汝汲沌沓沫洛洲洵洸浩浬涉淀淋淚淨淳淵渚渥渴渾湊湘湛溜溢溫滉滯漕漣漱',
+  // Part 5
+  '澁澪濕濡瀕瀧瀨灘灸灼烏焚焰煉煌煤熙燈燎燒燕燦燭燿爭爲爾牒牟牡牽犀狀狹狼猪獅獸玖玲珀珂珈珊琉琢琥琳琵琶瑚瑛瑞瑳瑶瓜瓢甥甫畠畢疊疋疏瘦皐皓盃盜盡眞眸瞥矩砥砦砧硯碎碓碗碧碩磐磯祁祇祐祕祢祷祿禄禎禪禮禰禱禽禾',
+  // Part 6
+  '秤秦稀稔稜稟稻穗穣穰穹穿窄窪窺竣竪竺竿笈笙笠笹筈筑箔箕篇篠簞簾籾粟粥粹糊紐紗紘紬絃絆絢綜綠綴綸綺綾緋緖緣縞縣縱繡繫纂纏纖羚翔翠耀而耶耽聡聽肇肋肴胡胤脩脹腔膏臟臥與舜舵芙芥芦芭芹苑苔苺茄茅茉茜茸荻莉莊莞',
+  // Part 7
+  '莫菅菖菩菫菱萄萊萌萠萩萬萱葡董葦葵葺蒐蒔蒙蒲蒼蓉蓑蓬蓮蔓蔣蔦蔭蕃蕉蕎蕗蕨蕪蕾薗薙薩薰藁藏藝藥蘇蘭虛蝦蝶螺蟬蟹蠟衞衿袈袴裝裟裡裳襖覽訊訣註詢詫誼諄諏諒諺謂謠讃讓豹貰賑賣賴赳跨蹄蹟輔輯輿轉轟辰辻辿迂迄迦迪',
+  // Part 8
+  '逗這逞逢遁遙遥遼邑郁郞鄭酉醇醉醍醐醬釀釉釘釧銑鋒鋸錄錆錐錘錫鍊鍬鎧鎭鑄閃閏閤阿陀陷隈險隼雀雁雛雜雫霞靖靜鞄鞍鞘鞠鞭頁頌頗顚顯颯飜饗馨馳馴駈駕駿騷驍驗髮魁魯鮎鯉鯛鰯鱒鱗鳩鳳鳶鴨鴻鵜鵬鷄鷗鷲鷹鷺麒麟麿黃黎',
+  // Part 9
+  '黑默黛鼎齊龍欄廊朗虜類神祥福諸都侮僧勉勤卑嘆器墨層悔憎懲敏暑梅海漢煮碑社祉祈祖祝禍穀突節練繁署者臭著視謁謹賓贈逸難響'
+];
+
+export const JINMEIYO_KANJI = JINMEIYO_KANJI_PARTS.join('');
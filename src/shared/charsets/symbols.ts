@@ -28,3 +28,17 @@ export const JAPANESE_SYMBOLS =
   '～…‥　' + // 全角スペース含む
   '※♪★☆◎○●□■△▽▲▼◇◆' +
   '→←↑↓↔';
+
+// 中国語の句読点・括弧（簡体字・繁体字共通）
+export const CHINESE_PUNCTUATION =
+  // 句読点
+  '，。、；：？！' +
+  // 引用符・括弧類
+  '“”‘’「」『』（）《》〈〉【】〔〕［］｛｝' +
+  // その他記号
+  '—…·～￥％＃＆＊＠　'; // 全角スペース含む
+
+// 韓国語でよく使う記号（句読点は主にASCIIを使う）
+export const KOREAN_SYMBOLS =
+  '·‥…「」『』《》〈〉【】〔〕' +
+  '‘’“”～※○●◎□■△▲▽▼→←↑↓　'; // 全角スペース含む
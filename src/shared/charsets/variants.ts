@@ -0,0 +1,19 @@
+// Unicodeの半角形とJIS X 0208（EUC-JP）から生成（scripts/generate-kanji.js）
+
+// 半角カタカナ（半角の句読点・括弧を含む） (63字)
+const HALFWIDTH_KATAKANA_PARTS = [
+  // Part 1
+  '｡｢｣､･ｦｧｨｩｪｫｬｭｮｯｰｱｲｳｴｵｶｷｸｹｺｻｼｽｾｿﾀﾁﾂﾃﾄﾅﾆﾇﾈﾉﾊﾋﾌﾍﾎﾏﾐﾑﾒﾓﾔﾕﾖﾗﾘﾙﾚﾛﾜﾝﾞﾟ'
+];
+
+export const HALFWIDTH_KATAKANA = HALFWIDTH_KATAKANA_PARTS.join('');
+
+// 日本語の記号・句読点とその異体 (165字)
+const JAPANESE_PUNCTUATION_VARIANTS_PARTS = [
+  // Part 1
+  '　、。，．・：；？！゛゜´｀¨＾￣＿ヽヾゝゞ〃仝々〆〇ー―‐／＼～∥｜…‥‘’“”（）〔〕［］｛｝〈〉《》「」『』【】＋－±×÷＝≠＜＞≦≧∞∴♂♀°′″℃￥＄￠￡％＃＆＊＠§☆★○●◎◇◆□■△▲▽',
+  // Part 2
+  '▼※〒→←↑↓〓∈∋⊆⊇⊂⊃∪∩∧∨￢⇒⇔∀∃∠⊥⌒∂∇≡≒≪≫√∽∝∵∫∬Å‰♯♭♪†‡¶◯〜−‖—‾¢£¬¥〝〟＂＇｡｢｣､･'
+];
+
+export const JAPANESE_PUNCTUATION_VARIANTS = JAPANESE_PUNCTUATION_VARIANTS_PARTS.join('');
@@ -7,6 +7,23 @@ import {
   JAPANESE_SYMBOLS,
   JOYO_KANJI,
   JIS1_KANJI,
+  JIS2_KANJI,
+  JIS3_KANJI,
+  JIS4_KANJI,
+  JISX0213_NON_KANJI,
+  JINMEIYO_KANJI,
+  JLPT_N5_KANJI,
+  JLPT_N4_KANJI,
+  JLPT_N3_KANJI,
+  JLPT_N2_KANJI,
+  JLPT_N1_KANJI,
+  HALFWIDTH_KATAKANA,
+  JAPANESE_PUNCTUATION_VARIANTS,
+  GB2312_LEVEL1_HANZI,
+  BIG5_COMMON_HANZI,
+  CHINESE_PUNCTUATION,
+  KSX1001_HANGUL,
+  KOREAN_SYMBOLS,
 } from './charsets';
 
 // 文字セットプリセット定義
@@ -19,13 +36,36 @@ export const CHARACTER_SETS = {
   // 全角
   fullwidthAlphanumeric: FULLWIDTH_ALPHANUMERIC,
   japaneseSymbols: JAPANESE_SYMBOLS,
+  halfwidthKatakana: HALFWIDTH_KATAKANA,
+  punctuationVariants: JAPANESE_PUNCTUATION_VARIANTS,
 
   // 漢字
   joyoKanji: JOYO_KANJI,
   jis1Kanji: JIS1_KANJI,
+  jis2Kanji: JIS2_KANJI,
+  jinmeiyoKanji: JINMEIYO_KANJI,
+
+  // JIS X 0213
+  jis3Kanji: JIS3_KANJI,
+  jis4Kanji: JIS4_KANJI,
+  jisX0213NonKanji: JISX0213_NON_KANJI,
+
+  // JLPT（各級で新たに出題される漢字）
+  jlptN5Kanji: JLPT_N5_KANJI,
+  jlptN4Kanji: JLPT_N4_KANJI,
+  jlptN3Kanji: JLPT_N3_KANJI,
+  jlptN2Kanji: JLPT_N2_KANJI,
+  jlptN1Kanji: JLPT_N1_KANJI,
+
+  // 中国語・韓国語
+  gb2312Hanzi: GB2312_LEVEL1_HANZI,
+  big5Hanzi: BIG5_COMMON_HANZI,
+  chinesePunctuation: CHINESE_PUNCTUATION,
+  ksx1001Hangul: KSX1001_HANGUL,
+  koreanSymbols: KOREAN_SYMBOLS,
 } as const;
 
-export const SUPPORTED_FONT_FORMATS = ['.ttf', '.otf', '.woff', '.woff2'] as const;
+export const SUPPORTED_FONT_FORMATS = ['.ttf', '.otf', '.woff', '.woff2', '.ttc', '.otc'] as const;
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
@@ -53,6 +93,24 @@ export enum IPCChannel {
   PROCESS_FONT = 'process-font',
   COMPRESS_WOFF2 = 'compress-woff2',
   ESTIMATE_SIZE = 'estimate-size',
+  GENERATE_FONT_FACE_CSS = 'generate-font-face-css',
+  CHECK_COVERAGE = 'check-coverage',
+  GET_GLYPH_OUTLINES = 'get-glyph-outlines',
+  READ_FONT_FILE = 'read-font-file',
+  SELECT_TEXT_SOURCES = 'select-text-sources',
+  EXTRACT_TEXT = 'extract-text',
+
+  // ユーザー定義プリセット
+  LOAD_USER_PRESETS = 'load-user-presets',
+  SAVE_USER_PRESETS = 'save-user-presets',
+  IMPORT_USER_PRESETS = 'import-user-presets',
+  EXPORT_USER_PRESETS = 'export-user-presets',
+
+  // バッチ処理
+  SELECT_OUTPUT_DIRECTORY = 'select-output-directory',
+  SUBMIT_BATCH = 'submit-batch',
+  CANCEL_BATCH_JOB = 'cancel-batch-job',
+  BATCH_JOB_UPDATE = 'batch-job-update',
 
   // 処理制御
   CANCEL_PROCESSING = 'cancel-processing',
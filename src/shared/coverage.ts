@@ -0,0 +1,213 @@
+import { CharCategory, CoverageReport, MissingCharacterGroup } from './types';
+import {
+  JOYO_KANJI,
+  JIS1_KANJI,
+  JIS2_KANJI,
+  JIS3_KANJI,
+  JIS4_KANJI,
+  JINMEIYO_KANJI,
+  GB2312_LEVEL1_HANZI,
+  BIG5_COMMON_HANZI,
+} from './charsets';
+import { isEmojiCodePoint } from './emoji';
+
+/**
+ * 文字カテゴリの表示名
+ */
+export const CHAR_CATEGORY_LABELS: Record<CharCategory, string> = {
+  'ascii': '英数字・記号（ASCII）',
+  'hiragana': 'ひらがな',
+  'katakana': 'カタカナ',
+  'symbols': '記号・その他',
+  'emoji': '絵文字',
+  'kanji-basic': '基本漢字',
+  'kanji-standard': '常用漢字',
+  'kanji-jis1': 'JIS第1水準漢字',
+  'kanji-jinmeiyo': '人名用漢字',
+  'kanji-jis2': 'JIS第2水準漢字',
+  'kanji-jis3': 'JIS第3水準漢字',
+  'kanji-jis4': 'JIS第4水準漢字',
+  'hanzi-gb2312': '簡体字（GB 2312）',
+  'hanzi-big5': '繁体字（Big5）',
+  'cjk-extension': 'CJK拡張・互換漢字',
+  'hangul': 'ハングル',
+  'kanji-advanced': 'その他の漢字',
+  'kanji-complete': '全漢字',
+};
+
+// 報告時のカテゴリの並び順
+const CATEGORY_ORDER: CharCategory[] = [
+  'ascii',
+  'hiragana',
+  'katakana',
+  'kanji-standard',
+  'kanji-jis1',
+  'kanji-jinmeiyo',
+  'kanji-jis2',
+  'kanji-jis3',
+  'kanji-jis4',
+  'hanzi-gb2312',
+  'hanzi-big5',
+  'kanji-advanced',
+  'cjk-extension',
+  'hangul',
+  'emoji',
+  'symbols',
+];
+
+const JOYO_KANJI_SET = new Set(JOYO_KANJI);
+const JIS1_KANJI_SET = new Set(JIS1_KANJI);
+const JINMEIYO_KANJI_SET = new Set(JINMEIYO_KANJI);
+const JIS2_KANJI_SET = new Set(JIS2_KANJI);
+const JIS3_KANJI_SET = new Set(JIS3_KANJI);
+const JIS4_KANJI_SET = new Set(JIS4_KANJI);
+const GB2312_HANZI_SET = new Set(GB2312_LEVEL1_HANZI);
+const BIG5_HANZI_SET = new Set(BIG5_COMMON_HANZI);
+
+/**
+ * CJK統合漢字（基本ブロック）か
+ */
+function isKanji(codePoint: number): boolean {
+  return (codePoint >= 0x4E00 && codePoint <= 0x9FFF)
+    || codePoint === 0x3005; // 々
+}
+
+/**
+ * CJK統合漢字の拡張ブロック（拡張A〜H）または互換漢字か
+ */
+export function isCjkExtension(codePoint: number): boolean {
+  return (codePoint >= 0x3400 && codePoint <= 0x4DBF)
+    || (codePoint >= 0x20000 && codePoint <= 0x323AF)
+    || (codePoint >= 0xF900 && codePoint <= 0xFAFF)
+    || (codePoint >= 0x2F800 && codePoint <= 0x2FA1F);
+}
+
+/**
+ * ハングル（音節・字母・互換字母）か
+ */
+export function isHangul(codePoint: number): boolean {
+  return (codePoint >= 0xAC00 && codePoint <= 0xD7AF)
+    || (codePoint >= 0x1100 && codePoint <= 0x11FF)
+    || (codePoint >= 0x3130 && codePoint <= 0x318F)
+    || (codePoint >= 0xA960 && codePoint <= 0xA97F)
+    || (codePoint >= 0xD7B0 && codePoint <= 0xD7FF);
+}
+
+/**
+ * 表示されない文字か（制御文字・ZWJ・異体字セレクタ・タグ文字）
+ * フォントのcmapに含まれないことが多く、なくても表示に影響しないため収録判定から除外する
+ */
+function isInvisibleCharacter(codePoint: number): boolean {
+  return codePoint < 0x20
+    || (codePoint >= 0x7F && codePoint <= 0x9F)
+    || codePoint === 0x200D
+    || (codePoint >= 0xFE00 && codePoint <= 0xFE0F)
+    || (codePoint >= 0xE0000 && codePoint <= 0xE01EF);
+}
+
+/**
+ * 1文字のカテゴリを判定
+ */
+export function getCharCategory(char: string): CharCategory {
+  const codePoint = char.codePointAt(0) as number;
+
+  if (codePoint >= 0x20 && codePoint <= 0x7E) {
+    return 'ascii';
+  }
+  if (codePoint >= 0x3040 && codePoint <= 0x309F) {
+    return 'hiragana';
+  }
+  if ((codePoint >= 0x30A0 && codePoint <= 0x30FF)
+    || (codePoint >= 0x31F0 && codePoint <= 0x31FF)
+    || (codePoint >= 0xFF65 && codePoint <= 0xFF9F)) {
+    return 'katakana';
+  }
+  if (isHangul(codePoint)) {
+    return 'hangul';
+  }
+  if (JOYO_KANJI_SET.has(char)) {
+    return 'kanji-standard';
+  }
+  if (JIS1_KANJI_SET.has(char)) {
+    return 'kanji-jis1';
+  }
+  if (JINMEIYO_KANJI_SET.has(char)) {
+    return 'kanji-jinmeiyo';
+  }
+  if (JIS2_KANJI_SET.has(char)) {
+    return 'kanji-jis2';
+  }
+  if (JIS3_KANJI_SET.has(char)) {
+    return 'kanji-jis3';
+  }
+  if (JIS4_KANJI_SET.has(char)) {
+    return 'kanji-jis4';
+  }
+  if (GB2312_HANZI_SET.has(char)) {
+    return 'hanzi-gb2312';
+  }
+  if (BIG5_HANZI_SET.has(char)) {
+    return 'hanzi-big5';
+  }
+  if (isKanji(codePoint)) {
+    return 'kanji-advanced';
+  }
+  if (isCjkExtension(codePoint)) {
+    return 'cjk-extension';
+  }
+  if (isEmojiCodePoint(codePoint)) {
+    return 'emoji';
+  }
+  return 'symbols';
+}
+
+/**
+ * 要求された文字セットとフォントの収録文字（cmap）を比較し、
+ * 収録されていない文字をカテゴリ別にまとめる
+ */
+export function checkCoverage(text: string, fontCodePoints: Iterable<number>): CoverageReport {
+  const available = new Set(fontCodePoints);
+  const missingByCategory = new Map<CharCategory, string[]>();
+  let requestedCount = 0;
+
+  for (const char of new Set(text)) {
+    const codePoint = char.codePointAt(0) as number;
+    if (isInvisibleCharacter(codePoint)) {
+      continue;
+    }
+    requestedCount++;
+
+    if (!available.has(codePoint)) {
+      const category = getCharCategory(char);
+      const chars = missingByCategory.get(category) ?? [];
+      chars.push(char);
+      missingByCategory.set(category, chars);
+    }
+  }
+
+  const missing: MissingCharacterGroup[] = CATEGORY_ORDER
+    .filter(category => missingByCategory.has(category))
+    .map(category => ({ category, characters: (missingByCategory.get(category) as string[]).join('') }));
+  const missingCount = missing.reduce((sum, group) => sum + Array.from(group.characters).length, 0);
+
+  return {
+    requestedCount,
+    coveredCount: requestedCount - missingCount,
+    missingCount,
+    missing,
+  };
+}
+
+/**
+ * 不足文字の報告を1行の文字列に整形（CLI・ログ用）
+ */
+export function formatMissingCharacters(report: CoverageReport, maxPerCategory = 20): string {
+  return report.missing
+    .map(({ category, characters }) => {
+      const chars = Array.from(characters);
+      const shown = chars.slice(0, maxPerCategory).join('');
+      const rest = chars.length > maxPerCategory ? ` 他${chars.length - maxPerCategory}字` : '';
+      return `${CHAR_CATEGORY_LABELS[category]}: ${shown}${rest}`;
+    })
+    .join(' / ');
+}
@@ -0,0 +1,130 @@
+import { ColorFontFormat } from './types';
+
+/**
+ * カラーフォント形式ごとに必要なテーブル
+ */
+export const COLOR_FONT_TABLES: Record<ColorFontFormat, string[]> = {
+  'COLR/CPAL': ['COLR', 'CPAL'],
+  'CBDT/CBLC': ['CBDT', 'CBLC'],
+  'sbix': ['sbix'],
+};
+
+const ZWJ = 0x200D;
+const COMBINING_KEYCAP = 0x20E3;
+const EMOJI_VARIATION_SELECTOR = 0xFE0F; // VS16（絵文字表示の指定）
+
+// 既定で絵文字として表示される文字（©®™↔★♪☺ などは既定ではテキスト表示のため含まない）
+const EMOJI_PRESENTATION = /\p{Emoji_Presentation}/u;
+// 絵文字になりうる図記号（VS16・ZWJ・スキントーンが続く場合に絵文字として表示される）
+const EXTENDED_PICTOGRAPHIC = /\p{Extended_Pictographic}/u;
+
+/**
+ * 地域指示記号（国旗の構成要素）か
+ */
+function isRegionalIndicator(codePoint: number): boolean {
+  return codePoint >= 0x1F1E6 && codePoint <= 0x1F1FF;
+}
+
+/**
+ * スキントーン修飾子か
+ */
+function isEmojiModifier(codePoint: number): boolean {
+  return codePoint >= 0x1F3FB && codePoint <= 0x1F3FF;
+}
+
+/**
+ * 図記号か（テキスト表示が既定のものを含む）
+ */
+function isPictographic(codePoint: number): boolean {
+  return EXTENDED_PICTOGRAPHIC.test(String.fromCodePoint(codePoint));
+}
+
+/**
+ * 直前の文字に付随して1文字として扱うコードポイントか
+ * （異体字セレクタ・スキントーン修飾子・キーキャップ・タグ文字）
+ */
+function isExtender(codePoint: number): boolean {
+  return (codePoint >= 0xFE00 && codePoint <= 0xFE0F)
+    || (codePoint >= 0xE0100 && codePoint <= 0xE01EF)
+    || isEmojiModifier(codePoint)
+    || codePoint === COMBINING_KEYCAP
+    || (codePoint >= 0xE0020 && codePoint <= 0xE007F);
+}
+
+/**
+ * 単独で絵文字として表示される文字か（単一コードポイント）
+ * テキスト表示が既定の図記号（©®™↔★♪☺ など）は含まない
+ */
+export function isEmojiCodePoint(codePoint: number): boolean {
+  return isRegionalIndicator(codePoint) || EMOJI_PRESENTATION.test(String.fromCodePoint(codePoint));
+}
+
+/**
+ * 文字（splitCharacters の要素）が絵文字か
+ * テキスト表示が既定の図記号も、VS16・ZWJ・スキントーンが続く場合は絵文字として扱う
+ */
+export function isEmoji(char: string): boolean {
+  const [first, ...rest] = Array.from(char, c => c.codePointAt(0) as number);
+  if (isEmojiCodePoint(first) || rest.includes(COMBINING_KEYCAP)) {
+    return true;
+  }
+  return isPictographic(first)
+    && rest.some(codePoint => codePoint === EMOJI_VARIATION_SELECTOR || codePoint === ZWJ || isEmojiModifier(codePoint));
+}
+
+/**
+ * テキストを文字単位に分割
+ * 絵文字のZWJシーケンス・スキントーン・国旗・キーキャップ・異体字シーケンスは1文字として扱う
+ */
+export function splitCharacters(text: string): string[] {
+  const codePoints = Array.from(text, c => c.codePointAt(0) as number);
+  const result: string[] = [];
+
+  let i = 0;
+  while (i < codePoints.length) {
+    const cluster = [codePoints[i]];
+    i++;
+
+    // 国旗は地域指示記号2つで1文字
+    if (isRegionalIndicator(cluster[0]) && i < codePoints.length && isRegionalIndicator(codePoints[i])) {
+      cluster.push(codePoints[i]);
+      i++;
+    }
+
+    for (;;) {
+      while (i < codePoints.length && isExtender(codePoints[i])) {
+        cluster.push(codePoints[i]);
+        i++;
+      }
+      // ZWJ の後に図記号が続く場合は合成絵文字として連結（⚕・♀ などテキスト表示が既定のものも含む）
+      if (codePoints[i] === ZWJ && i + 1 < codePoints.length && isPictographic(codePoints[i + 1])) {
+        cluster.push(codePoints[i], codePoints[i + 1]);
+        i += 2;
+        continue;
+      }
+      break;
+    }
+
+    result.push(String.fromCodePoint(...cluster));
+  }
+
+  return result;
+}
+
+/**
+ * テキストに含まれる複数コードポイントの絵文字（ZWJシーケンスなど）を重複なく取得
+ */
+export function getEmojiSequences(text: string): string[] {
+  return Array.from(new Set(
+    splitCharacters(text).filter(char => isEmoji(char) && Array.from(char).length > 1)
+  ));
+}
+
+/**
+ * フォントのテーブル一覧からカラーフォント形式を判定
+ */
+export function detectColorFormats(tableTags: Iterable<string>): ColorFontFormat[] {
+  const tags = new Set(tableTags);
+  return (Object.keys(COLOR_FONT_TABLES) as ColorFontFormat[])
+    .filter(format => COLOR_FONT_TABLES[format].every(tag => tags.has(tag)));
+}
@@ -7,7 +7,9 @@ export enum ErrorType {
   SUBSET_FAILED = 'SUBSET_FAILED',
   COMPRESSION_FAILED = 'COMPRESSION_FAILED',
   VALIDATION_FAILED = 'VALIDATION_FAILED',
+  SUBSET_VERIFICATION_FAILED = 'SUBSET_VERIFICATION_FAILED',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  CANCELLED = 'CANCELLED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   // Web版固有のエラー
   WASM_LOAD_FAILED = 'WASM_LOAD_FAILED',
@@ -175,6 +177,36 @@ export function createValidationFailedError(message: string, filePath?: string):
   );
 }
 
+export function createSubsetVerificationFailedError(filePath: string, issues: string[]): FontMinifyError {
+  return new FontMinifyError(
+    ErrorType.SUBSET_VERIFICATION_FAILED,
+    `サブセット結果の検証に失敗しました: ${filePath}`,
+    {
+      filePath,
+      cause: new Error(issues.join('\n')),
+      suggestion: 'OpenType機能の保持設定やバリアブル軸の固定を見直すか、別の出力形式を試してください。解決しない場合は元のフォントが破損している可能性があります。',
+    }
+  );
+}
+
+export function createCancelledError(filePath?: string): FontMinifyError {
+  return new FontMinifyError(
+    ErrorType.CANCELLED,
+    '処理がキャンセルされました',
+    {
+      filePath,
+      recoverable: true,
+    }
+  );
+}
+
+/**
+ * ユーザーによるキャンセルか（エラーとして通知しない）
+ */
+export function isCancelledError(error: unknown): boolean {
+  return handleError(error).type === ErrorType.CANCELLED;
+}
+
 // Web版固有のエラー作成関数
 export function createWasmLoadFailedError(cause?: Error): FontMinifyError {
   return new FontMinifyError(
@@ -231,6 +263,16 @@ export function handleError(error: unknown, filePath?: string): FontMinifyError
       return createInsufficientSpaceError(0);
     }
 
+    // キャンセル（IPC経由でエラー型が失われた場合）
+    if (error.message.includes('処理がキャンセルされました')) {
+      return createCancelledError(filePath);
+    }
+
+    // サブセット結果の検証エラー（IPC経由でエラー型が失われた場合）
+    if (error.message.includes('サブセット結果の検証に失敗しました')) {
+      return createSubsetVerificationFailedError(filePath || 'unknown', [error.message]);
+    }
+
     // フォント関連のエラー
     if (error.message.includes('Invalid font') || error.message.includes('corrupt')) {
       return createCorruptFontError(filePath || 'unknown');
@@ -314,7 +356,9 @@ export function isRecoverableError(errorType: ErrorType): boolean {
     case ErrorType.SUBSET_FAILED:
     case ErrorType.COMPRESSION_FAILED:
     case ErrorType.VALIDATION_FAILED:
+    case ErrorType.SUBSET_VERIFICATION_FAILED:
     case ErrorType.FILE_TOO_LARGE:
+    case ErrorType.CANCELLED:
       return true;
 
     case ErrorType.CORRUPT_FONT:
@@ -337,6 +381,7 @@ export function getErrorSeverity(errorType: ErrorType): 'low' | 'medium' | 'high
     case ErrorType.CORRUPT_FONT:
     case ErrorType.PERMISSION_DENIED:
     case ErrorType.SUBSET_FAILED:
+    case ErrorType.SUBSET_VERIFICATION_FAILED:
       return 'error';
 
     case ErrorType.COMPRESSION_FAILED:
@@ -344,6 +389,7 @@ export function getErrorSeverity(errorType: ErrorType): 'low' | 'medium' | 'high
       return 'warning';
 
     case ErrorType.VALIDATION_FAILED:
+    case ErrorType.CANCELLED:
       return 'low';
 
     case ErrorType.INSUFFICIENT_SPACE:
@@ -0,0 +1,91 @@
+import { CollectionFace } from './types';
+
+/**
+ * fontkit の書体オブジェクトのうち、書体一覧の作成に使う部分
+ */
+export interface FaceSource {
+  postscriptName?: string;
+  familyName?: string;
+  fullName?: string;
+  subfamilyName?: string;
+  numGlyphs?: number;
+}
+
+/**
+ * fontkit のフォントコレクション（TTC/OTC）
+ */
+export interface FontCollectionLike<T> {
+  fonts: T[];
+}
+
+/**
+ * fontkit.create の戻り値がフォントコレクションか
+ */
+export function isFontCollection<T extends object>(font: T | FontCollectionLike<T>): font is FontCollectionLike<T> {
+  return 'fonts' in font && Array.isArray(font.fonts);
+}
+
+/**
+ * フォントまたはコレクションから指定番号の書体を取り出す
+ * 単体フォントでは番号にかかわらずそのフォントを返す
+ */
+export function selectFontFace<T extends object>(font: T | FontCollectionLike<T>, faceIndex = 0): T {
+  if (!isFontCollection(font)) {
+    return font;
+  }
+  const face = font.fonts[faceIndex];
+  if (!face) {
+    throw new Error(`書体番号 ${faceIndex} はコレクションに存在しません（${font.fonts.length}書体）`);
+  }
+  return face;
+}
+
+/**
+ * TTC/OTC ヘッダーから書体数を読み取る（コレクションでない場合は 0）
+ */
+export function getCollectionFaceCount(data: Uint8Array): number {
+  if (data.length < 12 || String.fromCharCode(data[0], data[1], data[2], data[3]) !== 'ttcf') {
+    return 0;
+  }
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(8);
+}
+
+/**
+ * 書体番号がフォントの範囲内か検証（単体フォントは 0 のみ有効）
+ */
+export function assertFaceIndex(data: Uint8Array, faceIndex: number): void {
+  const faceCount = Math.max(getCollectionFaceCount(data), 1);
+  if (!Number.isInteger(faceIndex) || faceIndex < 0 || faceIndex >= faceCount) {
+    throw new Error(`書体番号 ${faceIndex} はフォントに存在しません（${faceCount}書体）`);
+  }
+}
+
+/**
+ * コレクションに含まれる全書体の一覧を作成
+ */
+export function getCollectionFaces(collection: FontCollectionLike<FaceSource>): CollectionFace[] {
+  return collection.fonts.map((face, index) => ({
+    index,
+    postscriptName: face.postscriptName || '',
+    fontFamily: face.familyName || face.fullName || '',
+    fontSubfamily: face.subfamilyName || 'Regular',
+    glyphCount: face.numGlyphs || 0,
+  }));
+}
+
+/**
+ * サブセット化する書体の番号を重複なく昇順で返す（未指定時は先頭の書体）
+ */
+export function resolveFaceIndices(faceIndices?: number[]): number[] {
+  const indices = Array.from(new Set((faceIndices ?? []).filter(index => Number.isInteger(index) && index >= 0)));
+  return indices.length > 0 ? indices.sort((a, b) => a - b) : [0];
+}
+
+/**
+ * 書体ごとの出力ファイル名を生成（PostScript名、なければ書体番号を拡張子の前に付加）
+ * 例: Hiragino_subset.woff2 → Hiragino_subset-HiraginoSans-W3.woff2
+ */
+export function getFaceFileName(fileName: string, face: Pick<CollectionFace, 'index' | 'postscriptName'>): string {
+  const label = face.postscriptName.replace(/[^A-Za-z0-9_-]/g, '') || String(face.index);
+  return fileName.replace(/(\.[^/.\\]+)?$/, extension => `-${label}${extension}`);
+}
@@ -0,0 +1,168 @@
+import { AxisRange, FontDisplay, OutputFormat } from './types';
+import { toCodePoints, toUnicodeRange } from './utils';
+
+/**
+ * @font-face ルール生成の入力
+ */
+export interface FontFaceSource {
+  fontFamily: string;
+  fontSubfamily?: string;
+  fileName: string;
+  format: OutputFormat;
+  /** サブセットに含めた文字（unicodeRange未指定時に unicode-range を算出） */
+  text?: string;
+  /** 計算済みの unicode-range（分割出力時など） */
+  unicodeRange?: string;
+  /** 固定したバリアブルフォント軸の値 */
+  variationAxes?: Record<string, number>;
+  /** 可変のまま残したバリアブルフォント軸の範囲 */
+  variationAxisRanges?: Record<string, AxisRange>;
+  fontDisplay?: FontDisplay;
+}
+
+// サブファミリー名に含まれるウェイト表記（長い表記を先に判定）
+const WEIGHT_KEYWORDS: [RegExp, number][] = [
+  [/(extra|ultra)[\s-]?light/i, 200],
+  [/(semi|demi)[\s-]?bold/i, 600],
+  [/(extra|ultra)[\s-]?bold/i, 800],
+  [/hairline|thin/i, 100],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/bold/i, 700],
+  [/heavy/i, 800],
+  [/black/i, 900],
+];
+
+/**
+ * 出力形式に対応する format() ヒント
+ */
+export function getFormatHint(format: OutputFormat): string {
+  const hints: Record<OutputFormat, string> = {
+    woff2: 'woff2',
+    woff: 'woff',
+    ttf: 'truetype',
+    otf: 'opentype',
+  };
+  return hints[format];
+}
+
+/**
+ * font-weight を推定
+ * 固定した wght 軸があればその値、なければサブファミリー名から推定する
+ */
+export function inferFontWeight(fontSubfamily = '', variationAxes?: Record<string, number>): number {
+  if (variationAxes?.wght !== undefined) {
+    return Math.round(variationAxes.wght);
+  }
+
+  // ヒラギノなどの W0〜W9 表記
+  const wNumber = /\bW(\d)\b/.exec(fontSubfamily);
+  if (wNumber) {
+    return Math.max(100, Number(wNumber[1]) * 100);
+  }
+
+  const numeric = /\b([1-9]00)\b/.exec(fontSubfamily);
+  if (numeric) {
+    return Number(numeric[1]);
+  }
+
+  for (const [pattern, weight] of WEIGHT_KEYWORDS) {
+    if (pattern.test(fontSubfamily)) {
+      return weight;
+    }
+  }
+  return 400;
+}
+
+/**
+ * font-weight の値を生成
+ * wght 軸を範囲付きで残した場合は「最小 最大」の範囲指定にする
+ */
+function getFontWeightValue(source: FontFaceSource): string {
+  const range = source.variationAxes?.wght === undefined ? source.variationAxisRanges?.wght : undefined;
+  if (range && range.min !== range.max) {
+    return `${Math.round(range.min)} ${Math.round(range.max)}`;
+  }
+  return String(inferFontWeight(source.fontSubfamily, range ? { wght: range.min } : source.variationAxes));
+}
+
+/**
+ * font-style を推定
+ */
+export function inferFontStyle(
+  fontSubfamily = '',
+  variationAxes?: Record<string, number>
+): 'normal' | 'italic' | 'oblique' {
+  if (variationAxes?.ital !== undefined) {
+    return variationAxes.ital >= 1 ? 'italic' : 'normal';
+  }
+  if (variationAxes?.slnt !== undefined) {
+    return variationAxes.slnt !== 0 ? 'oblique' : 'normal';
+  }
+  if (/italic/i.test(fontSubfamily)) {
+    return 'italic';
+  }
+  if (/oblique|slanted/i.test(fontSubfamily)) {
+    return 'oblique';
+  }
+  return 'normal';
+}
+
+/**
+ * CSS文字列としてエスケープ
+ */
+function quoteCss(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * 1ファイル分の @font-face ルールを生成
+ */
+export function generateFontFaceRule(source: FontFaceSource): string {
+  const unicodeRange = source.unicodeRange
+    ?? (source.text ? toUnicodeRange(toCodePoints(source.text)) : '');
+
+  const lines = [
+    '@font-face {',
+    `  font-family: ${quoteCss(source.fontFamily)};`,
+    `  font-style: ${inferFontStyle(source.fontSubfamily, source.variationAxes)};`,
+    `  font-weight: ${getFontWeightValue(source)};`,
+    `  font-display: ${source.fontDisplay ?? 'swap'};`,
+    `  src: url(${quoteCss(`./${encodeURI(source.fileName)}`)}) format('${getFormatHint(source.format)}');`,
+  ];
+  if (unicodeRange) {
+    lines.push(`  unicode-range: ${unicodeRange};`);
+  }
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * unicode-range の算出に使う文字（フォントに収録された文字のみ。未収録の文字は代替フォントに任せる）
+ * 収録文字が不明な場合は文字セットをそのまま使う
+ */
+export function getCoveredText(characterSet: string, fontCodePoints?: Iterable<number>): string {
+  if (!fontCodePoints) {
+    return characterSet;
+  }
+  const available = new Set(fontCodePoints);
+  return Array.from(characterSet)
+    .filter(char => available.has(char.codePointAt(0) as number))
+    .join('');
+}
+
+/**
+ * 複数ファイル分の @font-face ルールをまとめたスタイルシートを生成
+ */
+export function generateFontFaceStylesheet(sources: FontFaceSource[]): string {
+  return sources.map(generateFontFaceRule).join('\n\n') + '\n';
+}
+
+/**
+ * フォントファイル名からスタイルシートのファイル名を生成
+ * 例: NotoSansJP-subset.woff2 → NotoSansJP-subset.css
+ */
+export function getStylesheetFileName(fontFileName: string): string {
+  return fontFileName.replace(/(\.\d+)?\.[^/.\\]+$/, '') + '.css';
+}
@@ -0,0 +1,271 @@
+import { CharacterRange, ColorFontFormat, OpenTypeFeature } from './types';
+import { getFeatureName } from './layoutFeatures';
+import { detectColorFormats, isEmojiCodePoint } from './emoji';
+
+/**
+ * fontkit のフォントオブジェクトのうち、メタデータ抽出に使う部分
+ * （デスクトップ版・Web版で fontkit の型定義が異なるため構造的に定義）
+ */
+export interface LayoutTableLike {
+  scriptList?: {
+    tag: string;
+    script: { langSysRecords?: { tag: string }[] };
+  }[];
+}
+
+export interface FontMetadataSource {
+  characterSet?: Iterable<number>;
+  availableFeatures?: string[];
+  GSUB?: LayoutTableLike;
+  GPOS?: LayoutTableLike;
+  directory?: { tables: Record<string, unknown> };
+}
+
+/**
+ * 解析結果のうち cmap・GSUB・GPOS から得られる情報
+ */
+export interface FontMetadata {
+  codePoints?: number[];
+  characterRanges: CharacterRange[];
+  features: OpenTypeFeature[];
+  languages: string[];
+  colorFormats: ColorFontFormat[];
+  hasColorEmoji: boolean;
+}
+
+// 主要なUnicodeブロック（開始コードポイント順）
+export const UNICODE_BLOCKS: CharacterRange[] = [
+  { start: 0x0000, end: 0x007F, name: 'Basic Latin' },
+  { start: 0x0080, end: 0x00FF, name: 'Latin-1 Supplement' },
+  { start: 0x0100, end: 0x017F, name: 'Latin Extended-A' },
+  { start: 0x0180, end: 0x024F, name: 'Latin Extended-B' },
+  { start: 0x0250, end: 0x02AF, name: 'IPA Extensions' },
+  { start: 0x02B0, end: 0x02FF, name: 'Spacing Modifier Letters' },
+  { start: 0x0300, end: 0x036F, name: 'Combining Diacritical Marks' },
+  { start: 0x0370, end: 0x03FF, name: 'Greek and Coptic' },
+  { start: 0x0400, end: 0x04FF, name: 'Cyrillic' },
+  { start: 0x0590, end: 0x05FF, name: 'Hebrew' },
+  { start: 0x0600, end: 0x06FF, name: 'Arabic' },
+  { start: 0x0900, end: 0x097F, name: 'Devanagari' },
+  { start: 0x0E00, end: 0x0E7F, name: 'Thai' },
+  { start: 0x1100, end: 0x11FF, name: 'Hangul Jamo' },
+  { start: 0x1E00, end: 0x1EFF, name: 'Latin Extended Additional' },
+  { start: 0x2000, end: 0x206F, name: 'General Punctuation' },
+  { start: 0x2070, end: 0x209F, name: 'Superscripts and Subscripts' },
+  { start: 0x20A0, end: 0x20CF, name: 'Currency Symbols' },
+  { start: 0x2100, end: 0x214F, name: 'Letterlike Symbols' },
+  { start: 0x2150, end: 0x218F, name: 'Number Forms' },
+  { start: 0x2190, end: 0x21FF, name: 'Arrows' },
+  { start: 0x2200, end: 0x22FF, name: 'Mathematical Operators' },
+  { start: 0x2300, end: 0x23FF, name: 'Miscellaneous Technical' },
+  { start: 0x2460, end: 0x24FF, name: 'Enclosed Alphanumerics' },
+  { start: 0x2500, end: 0x257F, name: 'Box Drawing' },
+  { start: 0x25A0, end: 0x25FF, name: 'Geometric Shapes' },
+  { start: 0x2600, end: 0x26FF, name: 'Miscellaneous Symbols' },
+  { start: 0x2700, end: 0x27BF, name: 'Dingbats' },
+  { start: 0x2E80, end: 0x2EFF, name: 'CJK Radicals Supplement' },
+  { start: 0x2F00, end: 0x2FDF, name: 'Kangxi Radicals' },
+  { start: 0x3000, end: 0x303F, name: 'CJK Symbols and Punctuation' },
+  { start: 0x3040, end: 0x309F, name: 'Hiragana' },
+  { start: 0x30A0, end: 0x30FF, name: 'Katakana' },
+  { start: 0x3100, end: 0x312F, name: 'Bopomofo' },
+  { start: 0x3130, end: 0x318F, name: 'Hangul Compatibility Jamo' },
+  { start: 0x31F0, end: 0x31FF, name: 'Katakana Phonetic Extensions' },
+  { start: 0x3200, end: 0x32FF, name: 'Enclosed CJK Letters and Months' },
+  { start: 0x3300, end: 0x33FF, name: 'CJK Compatibility' },
+  { start: 0x3400, end: 0x4DBF, name: 'CJK Unified Ideographs Extension A' },
+  { start: 0x4E00, end: 0x9FFF, name: 'CJK Unified Ideographs' },
+  { start: 0xAC00, end: 0xD7AF, name: 'Hangul Syllables' },
+  { start: 0xE000, end: 0xF8FF, name: 'Private Use Area' },
+  { start: 0xF900, end: 0xFAFF, name: 'CJK Compatibility Ideographs' },
+  { start: 0xFE10, end: 0xFE1F, name: 'Vertical Forms' },
+  { start: 0xFE30, end: 0xFE4F, name: 'CJK Compatibility Forms' },
+  { start: 0xFF00, end: 0xFFEF, name: 'Halfwidth and Fullwidth Forms' },
+  { start: 0x1F000, end: 0x1F02F, name: 'Mahjong Tiles' },
+  { start: 0x1F100, end: 0x1F1FF, name: 'Enclosed Alphanumeric Supplement' },
+  { start: 0x1F200, end: 0x1F2FF, name: 'Enclosed Ideographic Supplement' },
+  { start: 0x1F300, end: 0x1F5FF, name: 'Miscellaneous Symbols and Pictographs' },
+  { start: 0x1F600, end: 0x1F64F, name: 'Emoticons' },
+  { start: 0x1F680, end: 0x1F6FF, name: 'Transport and Map Symbols' },
+  { start: 0x1F900, end: 0x1F9FF, name: 'Supplemental Symbols and Pictographs' },
+  { start: 0x20000, end: 0x2A6DF, name: 'CJK Unified Ideographs Extension B' },
+  { start: 0x2A700, end: 0x2B73F, name: 'CJK Unified Ideographs Extension C' },
+  { start: 0x2B740, end: 0x2B81F, name: 'CJK Unified Ideographs Extension D' },
+  { start: 0x2B820, end: 0x2CEAF, name: 'CJK Unified Ideographs Extension E' },
+  { start: 0x2CEB0, end: 0x2EBEF, name: 'CJK Unified Ideographs Extension F' },
+  { start: 0x2F800, end: 0x2FA1F, name: 'CJK Compatibility Ideographs Supplement' },
+  { start: 0x30000, end: 0x3134F, name: 'CJK Unified Ideographs Extension G' },
+];
+
+// OpenType言語システムタグ → BCP 47言語タグ
+const LANGUAGE_SYSTEM_TAGS: Record<string, string> = {
+  'JAN ': 'ja',
+  'KOR ': 'ko',
+  'ZHS ': 'zh-Hans',
+  'ZHT ': 'zh-Hant',
+  'ZHH ': 'zh-HK',
+  'ZHP ': 'zh',
+  'ENG ': 'en',
+  'DEU ': 'de',
+  'FRA ': 'fr',
+  'ESP ': 'es',
+  'ITA ': 'it',
+  'NLD ': 'nl',
+  'PLK ': 'pl',
+  'PTG ': 'pt',
+  'ROM ': 'ro',
+  'TRK ': 'tr',
+  'VIT ': 'vi',
+  'RUS ': 'ru',
+  'UKR ': 'uk',
+  'SRB ': 'sr',
+  'BGR ': 'bg',
+  'ELL ': 'el',
+  'ARA ': 'ar',
+  'FAR ': 'fa',
+  'URD ': 'ur',
+  'IWR ': 'he',
+  'HIN ': 'hi',
+  'MAR ': 'mr',
+  'NEP ': 'ne',
+  'SAN ': 'sa',
+  'THA ': 'th',
+};
+
+// OpenTypeスクリプトタグ → 代表的な言語
+const SCRIPT_TAGS: Record<string, string> = {
+  kana: 'ja',
+  hang: 'ko',
+  jamo: 'ko',
+  hani: 'zh',
+  bopo: 'zh-Hant',
+  latn: 'en',
+  cyrl: 'ru',
+  grek: 'el',
+  arab: 'ar',
+  hebr: 'he',
+  deva: 'hi',
+  dev2: 'hi',
+  thai: 'th',
+};
+
+// cmap から推定する言語（該当ブロックの文字を一定数以上含む場合）
+const BLOCK_LANGUAGES: { block: string; language: string; minCount: number }[] = [
+  { block: 'Hiragana', language: 'ja', minCount: 40 },
+  { block: 'Katakana', language: 'ja', minCount: 40 },
+  { block: 'Hangul Syllables', language: 'ko', minCount: 1000 },
+  { block: 'CJK Unified Ideographs', language: 'zh', minCount: 1000 },
+  { block: 'Basic Latin', language: 'en', minCount: 52 },
+];
+
+/**
+ * コードポイントが属する UNICODE_BLOCKS の番号（二分探索、どのブロックにも属さなければ -1）
+ */
+export function findUnicodeBlockIndex(codePoint: number): number {
+  let low = 0;
+  let high = UNICODE_BLOCKS.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const block = UNICODE_BLOCKS[mid];
+    if (codePoint < block.start) {
+      high = mid - 1;
+    } else if (codePoint > block.end) {
+      low = mid + 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+}
+
+/**
+ * cmap のコードポイントを Unicode ブロックごとに集計
+ * 1文字以上を収録するブロックのみ、収録数（count）付きで返す
+ */
+export function getCharacterRanges(codePoints: Iterable<number>): CharacterRange[] {
+  const counts = new Array<number>(UNICODE_BLOCKS.length).fill(0);
+
+  for (const codePoint of codePoints) {
+    const index = findUnicodeBlockIndex(codePoint);
+    if (index >= 0) {
+      counts[index]++;
+    }
+  }
+
+  return UNICODE_BLOCKS
+    .map((block, index) => ({ ...block, count: counts[index] }))
+    .filter(block => block.count > 0);
+}
+
+/**
+ * GSUB/GPOS の機能タグ一覧を表示名付きで返す
+ */
+export function getFeatureList(tags: string[]): OpenTypeFeature[] {
+  return Array.from(new Set(tags))
+    .sort()
+    .map(tag => ({ tag, name: getFeatureName(tag), enabled: true }));
+}
+
+/**
+ * GSUB/GPOS のスクリプト・言語システムと cmap から対応言語を推定
+ */
+export function getSupportedLanguages(
+  layoutTables: (LayoutTableLike | undefined)[],
+  characterRanges: CharacterRange[]
+): string[] {
+  const languages = new Set<string>();
+
+  for (const table of layoutTables) {
+    for (const record of table?.scriptList ?? []) {
+      const scriptLanguage = SCRIPT_TAGS[record.tag];
+      if (scriptLanguage) {
+        languages.add(scriptLanguage);
+      }
+      for (const langSys of record.script.langSysRecords ?? []) {
+        const language = LANGUAGE_SYSTEM_TAGS[langSys.tag];
+        if (language) {
+          languages.add(language);
+        }
+      }
+    }
+  }
+
+  // レイアウトテーブルに記述のない文字体系は cmap の収録状況で補う
+  for (const { block, language, minCount } of BLOCK_LANGUAGES) {
+    const range = characterRanges.find(r => r.name === block);
+    if (range && (range.count ?? 0) >= minCount) {
+      languages.add(language);
+    }
+  }
+
+  return Array.from(languages);
+}
+
+/**
+ * 解析に失敗した場合のメタデータ（文字範囲・機能・言語は不明として空にする）
+ */
+export const EMPTY_FONT_METADATA: FontMetadata = {
+  characterRanges: [],
+  features: [],
+  languages: [],
+  colorFormats: [],
+  hasColorEmoji: false,
+};
+
+/**
+ * fontkit のフォントから文字範囲・機能・言語・カラーフォント形式を抽出
+ */
+export function extractFontMetadata(font: FontMetadataSource): FontMetadata {
+  const codePoints = Array.from(font.characterSet ?? []);
+  const characterRanges = getCharacterRanges(codePoints);
+  const colorFormats = detectColorFormats(Object.keys(font.directory?.tables ?? {}));
+  return {
+    codePoints,
+    characterRanges,
+    features: getFeatureList(font.availableFeatures ?? []),
+    languages: getSupportedLanguages([font.GSUB, font.GPOS], characterRanges),
+    colorFormats,
+    // カラーテーブルを持ち、絵文字を収録している場合のみカラー絵文字フォントとみなす
+    hasColorEmoji: colorFormats.length > 0 && codePoints.some(isEmojiCodePoint),
+  };
+}
@@ -0,0 +1,115 @@
+import { UNICODE_BLOCKS, findUnicodeBlockIndex } from './fontMetadata';
+
+/**
+ * Unicode ブロックごとにまとめたコードポイント
+ */
+export interface GlyphGroup {
+  name: string;
+  codePoints: number[];
+}
+
+/**
+ * グリフ一覧の1行（ブロック見出し、またはグリフの並び）
+ */
+export type GlyphGridRow =
+  | { kind: 'header'; name: string; count: number }
+  | { kind: 'glyphs'; codePoints: number[] };
+
+// UNICODE_BLOCKS のどれにも属さないコードポイントのグループ名
+export const OTHER_GLYPH_GROUP = 'Other';
+
+// U+3042、0x3042、U+3040-309F のようなコードポイント（範囲）指定
+const CODE_POINT_QUERY = /^(?:U\+|0x)([0-9a-f]{1,6})(?:\s*[-–]\s*(?:U\+|0x)?([0-9a-f]{1,6}))?$/i;
+
+/**
+ * コードポイントを Unicode ブロックごとにまとめる（ブロック順・コードポイント順）
+ */
+export function groupCodePointsByBlock(codePoints: Iterable<number>): GlyphGroup[] {
+  const blocks: number[][] = UNICODE_BLOCKS.map(() => []);
+  const others: number[] = [];
+
+  for (const codePoint of Array.from(new Set(codePoints)).sort((a, b) => a - b)) {
+    const index = findUnicodeBlockIndex(codePoint);
+    (index >= 0 ? blocks[index] : others).push(codePoint);
+  }
+
+  const groups = UNICODE_BLOCKS
+    .map((block, index) => ({ name: block.name, codePoints: blocks[index] }))
+    .filter(group => group.codePoints.length > 0);
+  if (others.length > 0) {
+    groups.push({ name: OTHER_GLYPH_GROUP, codePoints: others });
+  }
+  return groups;
+}
+
+/**
+ * 検索語でコードポイントを絞り込む
+ * U+/0x 付きの16進数はコードポイント（範囲）として、それ以外は文字そのものとして扱う
+ */
+export function filterCodePoints(codePoints: number[], query: string): number[] {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return codePoints;
+  }
+
+  const match = CODE_POINT_QUERY.exec(trimmed);
+  if (match) {
+    const start = parseInt(match[1], 16);
+    const end = match[2] ? parseInt(match[2], 16) : start;
+    const [low, high] = start <= end ? [start, end] : [end, start];
+    return codePoints.filter(codePoint => codePoint >= low && codePoint <= high);
+  }
+
+  const characters = new Set(Array.from(trimmed.replace(/\s/g, ''), char => char.codePointAt(0) as number));
+  return codePoints.filter(codePoint => characters.has(codePoint));
+}
+
+/**
+ * グループを見出し行と、1行 columns 個ずつのグリフ行に展開する
+ */
+export function buildGlyphGridRows(groups: GlyphGroup[], columns: number): GlyphGridRow[] {
+  const perRow = Math.max(1, Math.floor(columns));
+  const rows: GlyphGridRow[] = [];
+  for (const group of groups) {
+    rows.push({ kind: 'header', name: group.name, count: group.codePoints.length });
+    for (let i = 0; i < group.codePoints.length; i += perRow) {
+      rows.push({ kind: 'glyphs', codePoints: group.codePoints.slice(i, i + perRow) });
+    }
+  }
+  return rows;
+}
+
+/**
+ * スクロール位置から描画する行の範囲を求める（行の高さは一定、end は含まない）
+ */
+export function getVisibleRowRange(
+  rowCount: number,
+  rowHeight: number,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 4
+): { start: number; end: number } {
+  const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const last = Math.ceil((Math.max(0, scrollTop) + viewportHeight) / rowHeight);
+  const end = Math.min(rowCount, last + overscan);
+  // 行が減ってスクロール位置が末尾を越えた場合は空にする
+  return { start: Math.min(end, Math.max(0, first - overscan)), end };
+}
+
+/**
+ * 文字列に文字を追加（add=true）または文字列から削除する
+ * 追加した文字は末尾に並べ、重複は追加しない
+ */
+export function toggleCharacters(current: string, codePoints: Iterable<number>, add: boolean): string {
+  const targets = new Set(codePoints);
+  const chars = Array.from(current);
+  if (!add) {
+    return chars.filter(char => !targets.has(char.codePointAt(0) as number)).join('');
+  }
+
+  const existing = new Set(chars.map(char => char.codePointAt(0) as number));
+  const additions = Array.from(targets)
+    .filter(codePoint => !existing.has(codePoint))
+    .map(codePoint => String.fromCodePoint(codePoint));
+  return chars.join('') + additions.join('');
+}
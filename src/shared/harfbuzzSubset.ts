@@ -0,0 +1,157 @@
+import { SubsetFeaturePlan } from './layoutFeatures';
+import { AxisRange } from './types';
+
+/**
+ * harfbuzz によるサブセット化の入力
+ */
+export interface HarfbuzzSubsetInput {
+  text: string;
+  featurePlan: SubsetFeaturePlan;
+  variationAxes?: Record<string, number>; // 固定する軸値
+  variationAxisRanges?: Record<string, AxisRange>; // 固定しない軸の残す範囲
+  desubroutinize?: boolean; // CFF のサブルーチンを展開するか
+  faceIndex?: number; // TTC/OTC の書体番号
+}
+
+/**
+ * harfbuzzjs (hb-subset.wasm) のエクスポート
+ * wasm の読み込み方法はプロセスごとに異なる（メインプロセスはファイル、Web版は fetch）
+ */
+export interface HarfbuzzExports {
+  memory: WebAssembly.Memory;
+  malloc: (size: number) => number;
+  free: (ptr: number) => void;
+  hb_blob_create: (data: number, length: number, mode: number, userData: number, destroy: number) => number;
+  hb_blob_destroy: (blob: number) => void;
+  hb_blob_get_data: (blob: number, length: number) => number;
+  hb_blob_get_length: (blob: number) => number;
+  hb_face_create: (blob: number, index: number) => number;
+  hb_face_destroy: (face: number) => void;
+  hb_face_reference_blob: (face: number) => number;
+  hb_set_add: (set: number, value: number) => void;
+  hb_set_del: (set: number, value: number) => void;
+  hb_set_clear: (set: number) => void;
+  hb_set_invert: (set: number) => void;
+  hb_subset_input_create_or_fail: () => number;
+  hb_subset_input_destroy: (input: number) => void;
+  hb_subset_input_unicode_set: (input: number) => number;
+  hb_subset_input_set: (input: number, setType: number) => number;
+  hb_subset_input_get_flags: (input: number) => number;
+  hb_subset_input_set_flags: (input: number, flags: number) => void;
+  hb_subset_input_pin_axis_location: (input: number, face: number, axisTag: number, axisValue: number) => number;
+  hb_subset_input_set_axis_range: (input: number, face: number, axisTag: number, min: number, max: number, def: number) => number;
+  hb_subset_or_fail: (face: number, input: number) => number;
+}
+
+// hb_subset_sets_t / hb_subset_flags_t
+const HB_SUBSET_SETS_DROP_TABLE_TAG = 3;
+const HB_SUBSET_SETS_LAYOUT_FEATURE_TAG = 6;
+const HB_SUBSET_FLAGS_NO_HINTING = 0x1;
+const HB_SUBSET_FLAGS_DESUBROUTINIZE = 0x4;
+const HB_MEMORY_MODE_WRITABLE = 2;
+
+/**
+ * タグ文字列を数値に変換（HarfBuzz形式）
+ */
+function HB_TAG(str: string): number {
+  return str.split('').reduce((a, ch) => (a << 8) + ch.charCodeAt(0), 0);
+}
+
+/**
+ * hb-subset.wasm のバイナリからインスタンスを作成
+ */
+export async function instantiateHarfbuzz(wasm: BufferSource): Promise<HarfbuzzExports> {
+  const { instance } = await WebAssembly.instantiate(wasm);
+  return instance.exports as unknown as HarfbuzzExports;
+}
+
+/**
+ * レイアウト機能・削除テーブル・ヒンティング・サブルーチンの設定をサブセット入力に反映
+ */
+function applySubsetPlan(hb: HarfbuzzExports, subsetInput: number, input: HarfbuzzSubsetInput): void {
+  // 全機能を対象にした上で、除外指定のタグを取り除く（hb-subset --layout-features='*' 相当）
+  const layoutFeatures = hb.hb_subset_input_set(subsetInput, HB_SUBSET_SETS_LAYOUT_FEATURE_TAG);
+  hb.hb_set_clear(layoutFeatures);
+  hb.hb_set_invert(layoutFeatures);
+  for (const tag of input.featurePlan.dropFeatures) {
+    hb.hb_set_del(layoutFeatures, HB_TAG(tag));
+  }
+
+  const dropTables = hb.hb_subset_input_set(subsetInput, HB_SUBSET_SETS_DROP_TABLE_TAG);
+  for (const tag of input.featurePlan.dropTables) {
+    hb.hb_set_add(dropTables, HB_TAG(tag));
+  }
+
+  let flags = hb.hb_subset_input_get_flags(subsetInput);
+  if (!input.featurePlan.retainHinting) {
+    flags |= HB_SUBSET_FLAGS_NO_HINTING;
+  }
+  if (input.desubroutinize) {
+    flags |= HB_SUBSET_FLAGS_DESUBROUTINIZE;
+  }
+  hb.hb_subset_input_set_flags(subsetInput, flags);
+}
+
+/**
+ * SFNT（TTF/OTF）またはコレクション（TTC/OTC）の1書体を harfbuzz でサブセット化し、SFNT を返す
+ * 固定できない軸・制限できない軸の指定はエラーにする（指定と異なるフォントを出力しないため）
+ */
+export function runHarfbuzzSubset(hb: HarfbuzzExports, fontData: Uint8Array, input: HarfbuzzSubsetInput): Uint8Array {
+  const subsetInput = hb.hb_subset_input_create_or_fail();
+  if (!subsetInput) {
+    throw new Error('hb_subset_input_create_or_fail に失敗しました');
+  }
+
+  const fontPtr = hb.malloc(fontData.byteLength);
+  new Uint8Array(hb.memory.buffer).set(fontData, fontPtr);
+
+  const blob = hb.hb_blob_create(fontPtr, fontData.byteLength, HB_MEMORY_MODE_WRITABLE, 0, 0);
+  const face = hb.hb_face_create(blob, input.faceIndex ?? 0);
+  hb.hb_blob_destroy(blob);
+
+  try {
+    applySubsetPlan(hb, subsetInput, input);
+
+    const unicodes = hb.hb_subset_input_unicode_set(subsetInput);
+    for (const char of input.text) {
+      hb.hb_set_add(unicodes, char.codePointAt(0) as number);
+    }
+
+    for (const [axisTag, value] of Object.entries(input.variationAxes ?? {})) {
+      if (!hb.hb_subset_input_pin_axis_location(subsetInput, face, HB_TAG(axisTag), value)) {
+        throw new Error(`軸 ${axisTag} を ${value} に固定できませんでした。フォントにこの軸が存在するか確認してください`);
+      }
+    }
+
+    for (const [axisTag, range] of Object.entries(input.variationAxisRanges ?? {})) {
+      if (input.variationAxes?.[axisTag] !== undefined) {
+        continue;
+      }
+      if (!hb.hb_subset_input_set_axis_range(subsetInput, face, HB_TAG(axisTag), range.min, range.max, range.default)) {
+        throw new Error(`軸 ${axisTag} を ${range.min}〜${range.max} に制限できませんでした。フォントにこの軸が存在するか確認してください`);
+      }
+    }
+
+    const subset = hb.hb_subset_or_fail(face, subsetInput);
+    if (!subset) {
+      throw new Error('hb_subset_or_fail に失敗しました。入力ファイルが破損している可能性があります');
+    }
+
+    const resultBlob = hb.hb_face_reference_blob(subset);
+    const offset = hb.hb_blob_get_data(resultBlob, 0);
+    const length = hb.hb_blob_get_length(resultBlob);
+    // メモリが再配置された可能性があるためバッファを取り直してコピー
+    const result = new Uint8Array(hb.memory.buffer).slice(offset, offset + length);
+    hb.hb_blob_destroy(resultBlob);
+    hb.hb_face_destroy(subset);
+
+    if (length === 0) {
+      throw new Error('サブセット結果が空です');
+    }
+    return result;
+  } finally {
+    hb.hb_subset_input_destroy(subsetInput);
+    hb.hb_face_destroy(face);
+    hb.free(fontPtr);
+  }
+}
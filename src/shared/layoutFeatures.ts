@@ -0,0 +1,195 @@
+import { PreserveFeatures, SubsetOptions } from './types';
+import { getEmojiSequences } from './emoji';
+
+/**
+ * GSUB/GPOS 機能タグの情報
+ * group が指定されたタグは、preserveFeatures の該当スイッチで一括して保持・削除される
+ */
+export interface LayoutFeatureInfo {
+  tag: string;
+  name: string;
+  group?: Exclude<keyof PreserveFeatures, 'hinting'>;
+}
+
+/**
+ * サブセット化時に harfbuzz へ渡す機能・テーブルの設定
+ */
+export interface SubsetFeaturePlan {
+  /** レイアウト機能セット（全機能）から除外するタグ */
+  dropFeatures: string[];
+  /** harfbuzz の既定に加えて削除するテーブル */
+  dropTables: string[];
+  /** ヒンティング命令を保持するか */
+  retainHinting: boolean;
+}
+
+export const DEFAULT_PRESERVE_FEATURES: PreserveFeatures = {
+  kerning: true,
+  ligatures: true,
+  hinting: true,
+  verticalMetrics: true,
+};
+
+// 日本語組版でよく使われる機能タグ（詳細設定で個別に保持・削除できる）
+export const LAYOUT_FEATURES: LayoutFeatureInfo[] = [
+  { tag: 'ccmp', name: '字形の合成・分解' },
+  { tag: 'locl', name: '地域別字形' },
+  { tag: 'kern', name: 'カーニング', group: 'kerning' },
+  { tag: 'palt', name: 'プロポーショナル字幅' },
+  { tag: 'halt', name: '半角字幅' },
+  { tag: 'liga', name: '標準合字', group: 'ligatures' },
+  { tag: 'clig', name: '文脈依存合字', group: 'ligatures' },
+  { tag: 'dlig', name: '任意合字', group: 'ligatures' },
+  { tag: 'hlig', name: '歴史的合字', group: 'ligatures' },
+  { tag: 'vert', name: '縦書き字形', group: 'verticalMetrics' },
+  { tag: 'vrt2', name: '縦書き字形・回転', group: 'verticalMetrics' },
+  { tag: 'vkrn', name: '縦書きカーニング', group: 'verticalMetrics' },
+  { tag: 'vpal', name: '縦書きプロポーショナル字幅', group: 'verticalMetrics' },
+  { tag: 'vhal', name: '縦書き半角字幅', group: 'verticalMetrics' },
+  { tag: 'fwid', name: '全角字形' },
+  { tag: 'hwid', name: '半角字形' },
+  { tag: 'pwid', name: 'プロポーショナル字形' },
+  { tag: 'jp78', name: 'JIS78字形' },
+  { tag: 'jp90', name: 'JIS90字形' },
+  { tag: 'jp04', name: 'JIS2004字形' },
+  { tag: 'nlck', name: '印刷標準字体' },
+  { tag: 'trad', name: '旧字体' },
+  { tag: 'expt', name: '略字体' },
+  { tag: 'ruby', name: 'ルビ用字形' },
+  { tag: 'frac', name: '分数' },
+  { tag: 'aalt', name: 'すべての異体字' },
+];
+
+// LAYOUT_FEATURES 以外の主な登録済み機能タグの表示名（解析結果の表示用）
+const REGISTERED_FEATURE_NAMES: Record<string, string> = {
+  abvf: '上付き字形',
+  abvm: '上付きマーク配置',
+  akhn: 'アカンド',
+  blwf: '下付き字形',
+  blwm: '下付きマーク配置',
+  c2sc: '大文字から小型大文字',
+  calt: '文脈依存の代替字形',
+  case: '大文字用字形',
+  cpsp: '大文字用スペーシング',
+  cswh: '文脈依存スワッシュ',
+  curs: '筆記体接続',
+  dnom: '分母',
+  fina: '語末形',
+  half: '半字形',
+  init: '語頭形',
+  isol: '独立形',
+  lnum: 'ライニング数字',
+  mark: 'マーク配置',
+  medi: '語中形',
+  mkmk: 'マーク同士の配置',
+  nukt: 'ヌクタ形',
+  numr: '分子',
+  onum: 'オールドスタイル数字',
+  ordn: '序数表記',
+  ornm: '装飾記号',
+  pkna: 'プロポーショナル仮名',
+  pnum: 'プロポーショナル数字',
+  pres: '前置形',
+  psts: '後置形',
+  rlig: '必須合字',
+  rphf: 'レーフ形',
+  salt: '様式的代替字形',
+  sinf: '科学用下付き文字',
+  smcp: '小型大文字',
+  subs: '下付き文字',
+  sups: '上付き文字',
+  swsh: 'スワッシュ',
+  titl: 'タイトル用字形',
+  tnum: '等幅数字',
+  unic: '単一ケース',
+  vkna: '縦書き用仮名',
+  zero: 'スラッシュ付きゼロ',
+};
+
+// 絵文字のZWJシーケンス・国旗などの合成に使われる機能
+const EMOJI_SEQUENCE_FEATURES = ['ccmp', 'liga'];
+
+// 縦書き用のメトリクステーブル
+const VERTICAL_TABLES = ['vhea', 'vmtx', 'VORG'];
+
+// 縦書き組版に必須の置換機能
+const VERTICAL_SUBSTITUTIONS = ['vert', 'vrt2'];
+
+/**
+ * 機能タグとして有効か（ASCII印字可能文字4文字）
+ */
+export function isValidFeatureTag(tag: string): boolean {
+  return /^[\x20-\x7e]{4}$/.test(tag);
+}
+
+/**
+ * 機能タグの表示名を取得
+ */
+export function getFeatureName(tag: string): string {
+  const known = LAYOUT_FEATURES.find(feature => feature.tag === tag)?.name ?? REGISTERED_FEATURE_NAMES[tag];
+  if (known) {
+    return known;
+  }
+  // cv01〜cv99 / ss01〜ss20 は番号付きで表示
+  const numbered = /^(cv|ss)(\d{2})$/.exec(tag);
+  if (numbered) {
+    const label = numbered[1] === 'cv' ? '字形バリアント' : 'スタイルセット';
+    return `${label}${parseInt(numbered[2], 10)}`;
+  }
+  return tag;
+}
+
+/**
+ * 機能タグが保持されるかを判定
+ * 個別指定（featureTags）があればそれを優先し、なければ所属グループのスイッチに従う
+ */
+export function isFeatureKept(
+  tag: string,
+  preserveFeatures: PreserveFeatures = DEFAULT_PRESERVE_FEATURES,
+  featureTags: Record<string, boolean> = {}
+): boolean {
+  if (featureTags[tag] !== undefined) {
+    return featureTags[tag];
+  }
+  const group = LAYOUT_FEATURES.find(feature => feature.tag === tag)?.group;
+  return group ? preserveFeatures[group] : true;
+}
+
+/**
+ * SubsetOptions の機能保持設定を harfbuzz 用の設定に変換
+ * text に複数コードポイントの絵文字が含まれる場合、合字の一括削除では絵文字の合成機能を残す
+ */
+export function resolveFeaturePlan(
+  options: Pick<SubsetOptions, 'preserveFeatures' | 'featureTags' | 'removeHinting'>,
+  text = ''
+): SubsetFeaturePlan {
+  const preserve = { ...DEFAULT_PRESERVE_FEATURES, ...options.preserveFeatures };
+  const featureTags = options.featureTags ?? {};
+  const keepEmojiSequences = getEmojiSequences(text).length > 0;
+
+  const candidates = new Set([
+    ...LAYOUT_FEATURES.map(feature => feature.tag),
+    ...Object.keys(featureTags).filter(isValidFeatureTag),
+  ]);
+  const dropFeatures = Array.from(candidates).filter(tag => {
+    if (keepEmojiSequences && EMOJI_SEQUENCE_FEATURES.includes(tag) && featureTags[tag] === undefined) {
+      return false;
+    }
+    return !isFeatureKept(tag, preserve, featureTags);
+  });
+
+  const dropTables: string[] = [];
+  if (!preserve.kerning) {
+    dropTables.push('kern');
+  }
+  // vert/vrt2 を個別に残した場合は縦書きメトリクスも残す
+  if (!preserve.verticalMetrics && VERTICAL_SUBSTITUTIONS.every(tag => dropFeatures.includes(tag))) {
+    dropTables.push(...VERTICAL_TABLES);
+  }
+
+  return {
+    dropFeatures,
+    dropTables,
+    retainHinting: preserve.hinting && !options.removeHinting,
+  };
+}
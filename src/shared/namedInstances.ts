@@ -0,0 +1,40 @@
+import { NamedInstance } from './types';
+
+/**
+ * fontkit のフォントオブジェクトのうち、名前付きインスタンスの取得に使う部分
+ * （fontkit の型定義には namedVariations が含まれないため構造的に定義）
+ */
+interface NamedInstanceSource {
+  namedVariations?: Record<string, Record<string, number>>;
+}
+
+/**
+ * fvar の名前付きインスタンスを取得
+ * name テーブルから名前を読めないインスタンスは除く
+ */
+export function getNamedInstances(font: object): NamedInstance[] {
+  let variations: Record<string, Record<string, number>>;
+  try {
+    variations = (font as NamedInstanceSource).namedVariations ?? {};
+  } catch (error) {
+    console.warn('Failed to read named instances:', error);
+    return [];
+  }
+
+  return Object.entries(variations)
+    .filter(([name]) => name && name !== 'undefined')
+    .map(([name, coordinates], index) => ({
+      index,
+      name,
+      coordinates: { ...coordinates },
+    }));
+}
+
+/**
+ * インスタンスごとの出力ファイル名を生成（インスタンス名、なければ番号を拡張子の前に付加）
+ * 例: Inter_subset.woff2 → Inter_subset-SemiBold.woff2
+ */
+export function getInstanceFileName(fileName: string, instance: Pick<NamedInstance, 'index' | 'name'>): string {
+  const label = instance.name.replace(/[^A-Za-z0-9_-]/g, '') || `instance${instance.index + 1}`;
+  return fileName.replace(/(\.[^/.\\]+)?$/, extension => `-${label}${extension}`);
+}
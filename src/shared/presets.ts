@@ -1,8 +1,10 @@
 import { CHARACTER_SETS } from './constants';
-import { CharacterSetPreset, CharCategory } from './types';
+import { KANJI_BY_FREQUENCY } from './charsets';
+import { CharacterSetExpression, CharacterSetPreset, CharCategory } from './types';
+import { splitCharacters } from './emoji';
 
 export interface PresetDefinition {
-  id: CharacterSetPreset | 'minimum' | 'standard' | 'joyo-jis1' | 'custom';
+  id: CharacterSetPreset | 'minimum' | 'standard' | 'joyo-jis1' | 'custom' | FrequencyPresetId;
   name: string;
   description: string;
   characters: string;
@@ -43,34 +45,107 @@ function buildPreset(config: PresetConfig): PresetDefinition {
   };
 }
 
+// 漢字以外の共通部分（最小セット）
+const BASE_SETS: CharacterSetKey[] = ['hiragana', 'katakana', 'ascii', 'japaneseSymbols', 'fullwidthAlphanumeric'];
+const BASE_CATEGORIES: CharCategory[] = ['hiragana', 'katakana', 'ascii', 'symbols'];
+
+// JLPTの漢字はN5から順に積み上げる
+const JLPT_KANJI_SETS: CharacterSetKey[] = ['jlptN5Kanji', 'jlptN4Kanji', 'jlptN3Kanji', 'jlptN2Kanji', 'jlptN1Kanji'];
+const JIS_X0208_SETS: CharacterSetKey[] = [...BASE_SETS, 'punctuationVariants', 'joyoKanji', 'jis1Kanji', 'jis2Kanji'];
+
+/**
+ * JLPTの級までの漢字を含むプリセット設定
+ */
+function jlptPreset(level: 5 | 4 | 3 | 2 | 1): PresetConfig {
+  return {
+    id: `kanji-n${level}`,
+    name: `JLPT N${level}`,
+    description: level === 5 ? '最小セット + JLPT N5の漢字' : `最小セット + JLPT N5〜N${level}の漢字`,
+    sets: [...BASE_SETS, ...JLPT_KANJI_SETS.slice(0, 6 - level)],
+    categories: [...BASE_CATEGORIES, 'kanji-basic'],
+  };
+}
+
 /**
- * プリセット設定の定義
+ * プリセット設定の定義（文字数の少ない順）
  * 参照: https://u-618.org/webfont-subset/
  * - 最小: ひらがな・カタカナ・ASCII・全角記号（漢字なし）
+ * - JLPT N5〜N1: 最小 + 日本語能力試験の級までの漢字（学習者向け）
  * - 標準: 最小 + 常用漢字2136字
+ * - 常用漢字＋人名用漢字: 人名の表示向け
  * - 常用漢字＋第一水準その他: 常用漢字＋JIS第1水準（約3700字、推奨、デフォルト）
+ * - JIS X 0208: 第1・第2水準（一般的な日本語フォントの収録範囲）
+ * - JIS X 0213: 第1〜第4水準（JIS2004対応フォント向け）
+ * - 簡体字中国語・繁体字中国語・韓国語: Noto Sans CJK SC/TC/KR などで zh-Hans/zh-Hant/ko のページを配信する場合
  */
 const PRESET_CONFIGS: PresetConfig[] = [
   {
     id: 'minimum',
     name: '最小セット',
     description: 'ひらがな・カタカナ・英数字・記号（漢字なし）',
-    sets: ['hiragana', 'katakana', 'ascii', 'japaneseSymbols', 'fullwidthAlphanumeric'],
-    categories: ['hiragana', 'katakana', 'ascii', 'symbols'],
+    sets: BASE_SETS,
+    categories: BASE_CATEGORIES,
   },
+  jlptPreset(5),
+  jlptPreset(4),
+  jlptPreset(3),
+  jlptPreset(2),
   {
     id: 'standard',
     name: '標準セット',
     description: '最小セット + 常用漢字2136字',
-    sets: ['hiragana', 'katakana', 'ascii', 'japaneseSymbols', 'fullwidthAlphanumeric', 'joyoKanji'],
-    categories: ['hiragana', 'katakana', 'ascii', 'symbols', 'kanji-standard'],
+    sets: [...BASE_SETS, 'joyoKanji'],
+    categories: [...BASE_CATEGORIES, 'kanji-standard'],
+  },
+  jlptPreset(1),
+  {
+    id: 'joyo-jinmeiyo',
+    name: '常用漢字＋人名用漢字',
+    description: '標準セット + 人名用漢字863字（名前の表示向け）',
+    sets: [...BASE_SETS, 'joyoKanji', 'jinmeiyoKanji'],
+    categories: [...BASE_CATEGORIES, 'kanji-standard', 'kanji-jinmeiyo'],
   },
   {
     id: 'joyo-jis1',
     name: '常用漢字＋第一水準その他（推奨）',
     description: '常用漢字＋JIS第1水準漢字（約3700字）',
-    sets: ['hiragana', 'katakana', 'ascii', 'japaneseSymbols', 'fullwidthAlphanumeric', 'joyoKanji', 'jis1Kanji'],
-    categories: ['hiragana', 'katakana', 'ascii', 'symbols', 'kanji-standard', 'kanji-jis1'],
+    sets: [...BASE_SETS, 'joyoKanji', 'jis1Kanji'],
+    categories: [...BASE_CATEGORIES, 'kanji-standard', 'kanji-jis1'],
+  },
+  {
+    id: 'jis-x0208',
+    name: 'JIS第1・第2水準',
+    description: '常用漢字＋JIS X 0208の漢字・記号（漢字約6400字）',
+    sets: JIS_X0208_SETS,
+    categories: [...BASE_CATEGORIES, 'kanji-standard', 'kanji-jis1', 'kanji-jis2'],
+  },
+  {
+    id: 'jis-x0213',
+    name: 'JIS第1〜第4水準',
+    description: 'JIS第1・第2水準 + JIS X 0213の第3・第4水準漢字と追加記号（漢字約10000字）',
+    sets: [...JIS_X0208_SETS, 'jis3Kanji', 'jis4Kanji', 'jisX0213NonKanji'],
+    categories: [...BASE_CATEGORIES, 'kanji-standard', 'kanji-jis1', 'kanji-jis2', 'kanji-jis3', 'kanji-jis4'],
+  },
+  {
+    id: 'zh-hans',
+    name: '簡体字中国語',
+    description: '英数字・中国語の句読点 + GB 2312 第一级汉字3755字',
+    sets: ['ascii', 'fullwidthAlphanumeric', 'chinesePunctuation', 'gb2312Hanzi'],
+    categories: ['ascii', 'symbols', 'hanzi-gb2312'],
+  },
+  {
+    id: 'zh-hant',
+    name: '繁体字中国語',
+    description: '英数字・中国語の句読点 + Big5 常用字5401字',
+    sets: ['ascii', 'fullwidthAlphanumeric', 'chinesePunctuation', 'big5Hanzi'],
+    categories: ['ascii', 'symbols', 'hanzi-big5'],
+  },
+  {
+    id: 'ko',
+    name: '韓国語',
+    description: '英数字・記号 + KS X 1001 のハングル2350字',
+    sets: ['ascii', 'koreanSymbols', 'ksx1001Hangul'],
+    categories: ['ascii', 'symbols', 'hangul'],
   },
 ];
 
@@ -90,7 +165,54 @@ export const CHARACTER_PRESETS: PresetDefinition[] = [
   },
 ];
 
+/**
+ * 頻出漢字プリセットのID（frequency:<漢字数>）
+ */
+export type FrequencyPresetId = `frequency:${number}`;
+
+export const FREQUENCY_PRESET_PREFIX = 'frequency:';
+const FREQUENCY_KANJI = Array.from(KANJI_BY_FREQUENCY);
+export const MAX_FREQUENCY_KANJI_COUNT = FREQUENCY_KANJI.length;
+export const DEFAULT_FREQUENCY_KANJI_COUNT = 2000;
+
+/**
+ * 頻出漢字の上位N字を使うプリセットのID
+ */
+export function getFrequencyPresetId(count: number): FrequencyPresetId {
+  return `${FREQUENCY_PRESET_PREFIX}${count}` as FrequencyPresetId;
+}
+
+/**
+ * 頻出漢字プリセットのIDから漢字数を取得（頻出漢字プリセットでない・範囲外の場合は undefined）
+ */
+export function parseFrequencyPresetId(id: string): number | undefined {
+  if (!id.startsWith(FREQUENCY_PRESET_PREFIX)) {
+    return undefined;
+  }
+  const count = Number(id.slice(FREQUENCY_PRESET_PREFIX.length));
+  return Number.isInteger(count) && count >= 1 && count <= MAX_FREQUENCY_KANJI_COUNT ? count : undefined;
+}
+
+/**
+ * 最小セットに出現頻度の高い漢字N字を加えたプリセット
+ */
+function buildFrequencyPreset(count: number): PresetDefinition {
+  const characters = BASE_SETS.map(key => CHARACTER_SETS[key]).join('') + FREQUENCY_KANJI.slice(0, count).join('');
+  return {
+    id: getFrequencyPresetId(count),
+    name: `頻出漢字 上位${count.toLocaleString()}字`,
+    description: `最小セット + 新聞での出現頻度が高い漢字${count.toLocaleString()}字`,
+    characters,
+    characterCount: new Set(characters).size,
+    categories: [...BASE_CATEGORIES, 'kanji-standard'],
+  };
+}
+
 export function getPresetDefinition(id: string): PresetDefinition | undefined {
+  const frequencyCount = parseFrequencyPresetId(id);
+  if (frequencyCount !== undefined) {
+    return buildFrequencyPreset(frequencyCount);
+  }
   return CHARACTER_PRESETS.find(preset => preset.id === id);
 }
 
@@ -99,6 +221,198 @@ export function getCharacterSetFromPreset(preset: string): string {
   return definition?.characters || '';
 }
 
+/**
+ * 重複を除いた文字列を取得
+ * ZWJシーケンスなど複数コードポイントの絵文字は分解せず1文字として扱う
+ */
 export function getUniqueCharacters(text: string): string {
-  return Array.from(new Set(text)).join('');
-}
\ No newline at end of file
+  return Array.from(new Set(splitCharacters(text))).join('');
+}
+/**
+ * 組み立て式で追加できる文字セット
+ */
+export const CHARACTER_SET_COMPONENTS: { id: CharacterSetKey; name: string }[] = [
+  { id: 'hiragana', name: 'ひらがな' },
+  { id: 'katakana', name: 'カタカナ' },
+  { id: 'ascii', name: '英数字・記号（ASCII）' },
+  { id: 'fullwidthAlphanumeric', name: '全角英数字' },
+  { id: 'japaneseSymbols', name: '日本語の記号' },
+  { id: 'joyoKanji', name: '常用漢字' },
+  { id: 'jis1Kanji', name: 'JIS第1水準漢字' },
+  { id: 'jis2Kanji', name: 'JIS第2水準漢字' },
+  { id: 'jis3Kanji', name: 'JIS第3水準漢字' },
+  { id: 'jis4Kanji', name: 'JIS第4水準漢字' },
+  { id: 'jinmeiyoKanji', name: '人名用漢字' },
+  { id: 'halfwidthKatakana', name: '半角カタカナ' },
+  { id: 'punctuationVariants', name: '記号・句読点の異体' },
+  { id: 'gb2312Hanzi', name: '简体字（GB 2312 第一级）' },
+  { id: 'big5Hanzi', name: '繁體字（Big5 常用字）' },
+  { id: 'ksx1001Hangul', name: 'ハングル（KS X 1001）' },
+];
+
+/**
+ * よく除外するコードポイント範囲
+ */
+export const COMMON_EXCLUDE_RANGES: { name: string; ranges: string }[] = [
+  { name: '半角カタカナ', ranges: 'U+FF61-FF9F' },
+  { name: '全角英数字', ranges: 'U+FF01-FF5E' },
+];
+
+/**
+ * 組み立て式のうちプリセット以外の部分（UIで編集する追加・除外）
+ */
+export type CharacterSetModifiers = Required<Omit<CharacterSetExpression, 'basePreset'>>;
+
+export const DEFAULT_CHARACTER_SET_MODIFIERS: CharacterSetModifiers = {
+  addSets: [],
+  addText: '',
+  excludeRanges: '',
+  excludeText: '',
+};
+
+/**
+ * コードポイント範囲
+ */
+export interface CodePointRange {
+  start: number;
+  end: number;
+}
+
+const CODE_POINT_RANGE_PATTERN = /^(?:U\+)?([0-9A-F]{1,6})(?:(?:-|\.\.)(?:U\+)?([0-9A-F]{1,6}))?$/i;
+
+/**
+ * "U+FF61-FF9F, U+3000" 形式の範囲指定を解析
+ * 解析できない指定は invalid に集め、残りの範囲は有効なものとして返す
+ */
+export function parseCodePointRanges(text: string): { ranges: CodePointRange[]; invalid: string[] } {
+  const ranges: CodePointRange[] = [];
+  const invalid: string[] = [];
+
+  for (const token of text.split(/[,\s]+/).filter(Boolean)) {
+    const match = CODE_POINT_RANGE_PATTERN.exec(token);
+    const start = match ? parseInt(match[1], 16) : NaN;
+    const end = match?.[2] ? parseInt(match[2], 16) : start;
+    if (!match || start > end || end > 0x10FFFF) {
+      invalid.push(token);
+      continue;
+    }
+    ranges.push({ start, end });
+  }
+
+  return { ranges, invalid };
+}
+
+/**
+ * 組み立て式を評価して文字セットを得る
+ * ベースのプリセット → 追加の文字セット → 追加の文字 の順に重複なく並べ、除外範囲・除外文字を取り除く
+ * 絵文字のシーケンスは先頭のコードポイントで範囲を判定する
+ */
+export function evaluateCharacterSet(expression: CharacterSetExpression): string {
+  const base = expression.basePreset ? getCharacterSetFromPreset(expression.basePreset) : '';
+  const addedSets = (expression.addSets ?? [])
+    .map(key => CHARACTER_SETS[key as CharacterSetKey] ?? '')
+    .join('');
+  const { ranges } = parseCodePointRanges(expression.excludeRanges ?? '');
+  const excludedCharacters = new Set(splitCharacters(expression.excludeText ?? ''));
+
+  return Array.from(new Set(splitCharacters(base + addedSets + (expression.addText ?? ''))))
+    .filter(character => {
+      if (excludedCharacters.has(character)) {
+        return false;
+      }
+      const codePoint = character.codePointAt(0) as number;
+      return !ranges.some(range => codePoint >= range.start && codePoint <= range.end);
+    })
+    .join('');
+}
+
+/**
+ * 組み立て式に文字の供給元（プリセット・文字セット・文字）が含まれるか
+ */
+export function hasCharacterSetSource(expression: CharacterSetExpression): boolean {
+  return !!expression.basePreset || (expression.addSets?.length ?? 0) > 0 || !!expression.addText;
+}
+
+/**
+ * 組み立て式の問題点を取得（不明なプリセット・文字セット、解析できない範囲）
+ */
+export function getCharacterSetExpressionErrors(expression: CharacterSetExpression): string[] {
+  const errors: string[] = [];
+  if (expression.basePreset && (expression.basePreset === 'custom' || !getPresetDefinition(expression.basePreset))) {
+    errors.push(`不明なプリセットです: ${expression.basePreset}`);
+  }
+  const unknownSets = (expression.addSets ?? []).filter(key => !(key in CHARACTER_SETS));
+  if (unknownSets.length > 0) {
+    errors.push(`不明な文字セットです: ${unknownSets.join(', ')}`);
+  }
+  const { invalid } = parseCodePointRanges(expression.excludeRanges ?? '');
+  if (invalid.length > 0) {
+    errors.push(`除外範囲の指定が不正です: ${invalid.join(', ')}（例: U+FF61-FF9F）`);
+  }
+  return errors;
+}
+
+/**
+ * UIの選択状態から組み立て式を作成
+ * カスタム選択時はプリセットを使わず、入力した文字を追加の文字として扱う
+ */
+export function buildCharacterSetExpression(
+  selectedPreset: string | undefined,
+  customCharacters: string,
+  modifiers: CharacterSetModifiers = DEFAULT_CHARACTER_SET_MODIFIERS
+): CharacterSetExpression {
+  const isCustom = !selectedPreset || selectedPreset === 'custom';
+  return {
+    basePreset: isCustom ? undefined : selectedPreset,
+    addSets: modifiers.addSets,
+    addText: (isCustom ? customCharacters : '') + modifiers.addText,
+    excludeRanges: modifiers.excludeRanges,
+    excludeText: modifiers.excludeText,
+  };
+}
+
+/**
+ * 組み立て式をUIの選択状態に戻す（buildCharacterSetExpression の逆）
+ * プリセットがない場合は追加の文字をカスタム文字として扱う
+ */
+export function toCharacterSetSelection(expression: CharacterSetExpression): {
+  selectedPreset: string;
+  customCharacters: string;
+  modifiers: CharacterSetModifiers;
+} {
+  const base = {
+    addSets: expression.addSets ?? [],
+    excludeRanges: expression.excludeRanges ?? '',
+    excludeText: expression.excludeText ?? '',
+  };
+  if (!expression.basePreset) {
+    return {
+      selectedPreset: 'custom',
+      customCharacters: expression.addText ?? '',
+      modifiers: { ...base, addText: '' },
+    };
+  }
+  return {
+    selectedPreset: expression.basePreset,
+    customCharacters: '',
+    modifiers: { ...base, addText: expression.addText ?? '' },
+  };
+}
+
+/**
+ * サブセットオプションから組み立て式を取得
+ * 組み立て式がなければ従来どおりカスタム文字、プリセットの順に使う
+ */
+export function getCharacterSetExpression(options: {
+  preset?: string;
+  customCharacters?: string;
+  characterSetExpression?: CharacterSetExpression;
+}): CharacterSetExpression {
+  if (options.characterSetExpression) {
+    return options.characterSetExpression;
+  }
+  if (options.customCharacters) {
+    return { addText: options.customCharacters };
+  }
+  return { basePreset: options.preset };
+}
@@ -0,0 +1,63 @@
+/**
+ * プレビューに読み込むサブセットフォント（分割出力ではチャンクごとに unicode-range を指定）
+ */
+export interface SubsetPreviewSource {
+  data: Uint8Array;
+  unicodeRange?: string;
+}
+
+/**
+ * 処理したフォントと元のフォントを並べて表示するためのデータ
+ */
+export interface SubsetPreview {
+  fileName: string;
+  original: Uint8Array | null; // 読み込めない場合は元のフォント側を表示しない
+  faceIndex?: number; // 元のフォントが TTC/OTC の場合に処理した書体
+  sources: SubsetPreviewSource[];
+  subsetCodePoints: number[]; // 出力したフォントの cmap に含まれる文字
+  fontCodePoints?: number[]; // 元のフォントの収録文字（不明な場合は省略）
+}
+
+/**
+ * サンプルテキストを、フォントに収録された文字とフォールバックする文字の並びに分けたもの
+ */
+export interface PreviewTextRun {
+  text: string;
+  covered: boolean;
+}
+
+export const DEFAULT_PREVIEW_TEXT = 'The quick brown fox jumps over the lazy dog.\nあのイーハトーヴォのすきとおった風、夏でも底に冷たさをもつ青いそら。';
+
+// 空白・改行・制御文字はフォントになくても表示に影響しない
+const IGNORED_CHARACTER = /[\s\p{Cc}]/u;
+
+/**
+ * 出力したフォント（分割出力では全チャンク）の cmap をまとめ、プレビューで収録済みとして扱うコードポイントを返す
+ * 要求した文字でも出力に含まれなかったものはフォールバック表示になる
+ */
+export function getOutputCodePoints(characterSets: Iterable<number>[]): number[] {
+  const codePoints = new Set<number>();
+  for (const characterSet of characterSets) {
+    for (const codePoint of characterSet) {
+      codePoints.add(codePoint);
+    }
+  }
+  return Array.from(codePoints).sort((a, b) => a - b);
+}
+
+/**
+ * サンプルテキストを、収録された文字の並びとフォールバックする文字の並びに分ける
+ */
+export function splitPreviewText(text: string, covered: ReadonlySet<number>): PreviewTextRun[] {
+  const runs: PreviewTextRun[] = [];
+  for (const char of text) {
+    const isCovered = IGNORED_CHARACTER.test(char) || covered.has(char.codePointAt(0) as number);
+    const last = runs[runs.length - 1];
+    if (last && last.covered === isCovered) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, covered: isCovered });
+    }
+  }
+  return runs;
+}
@@ -19,7 +19,9 @@ export const ALLOWED_FILE_EXTENSIONS = [
   '.ttf',
   '.otf',
   '.woff',
-  '.woff2'
+  '.woff2',
+  '.ttc',
+  '.otc'
 ] as const;
 
 // 許可されたMIMEタイプ
@@ -28,6 +30,7 @@ export const ALLOWED_MIME_TYPES = [
   'font/otf',
   'font/woff',
   'font/woff2',
+  'font/collection',
   'application/font-ttf',
   'application/font-otf',
   'application/font-woff',
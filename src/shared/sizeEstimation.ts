@@ -0,0 +1,478 @@
+import { OutputFormat, SizeEstimate, SizeEstimateOptions } from './types';
+import { resolveFeaturePlan } from './layoutFeatures';
+import { formatFileSize } from './utils';
+
+/**
+ * fontkit のフォントオブジェクトのうち、サイズ推定に使う部分
+ * （デスクトップ版・Web版で fontkit の型定義が異なるため構造的に定義）
+ */
+export interface SizeEstimationFontSource {
+  numGlyphs: number;
+  glyphForCodePoint(codePoint: number): { id: number };
+}
+
+/**
+ * SFNT のテーブルディレクトリの1項目
+ */
+export interface SfntTableRecord {
+  tag: string;
+  checksum: number; // ディレクトリに記録されたチェックサム
+  offset: number;
+  length: number;
+}
+
+/**
+ * サイズ推定のオプション
+ */
+export interface SizeEstimationOptions {
+  outputFormat: OutputFormat;
+  faceIndex?: number;
+  originalSize?: number; // 元ファイルのサイズ（WOFF/WOFF2 を SFNT に展開して渡す場合）
+  dropTables?: string[]; // サブセット時に削除するテーブル（resolveFeaturePlan の dropTables）
+  retainHinting?: boolean;
+  pinVariationAxes?: boolean; // 軸値を固定して可変フォントのテーブルを削除するか
+}
+
+/**
+ * 較正用に実際にサブセット化するサンプル
+ */
+export interface CalibrationSample {
+  text: string; // サンプルの文字
+  coveredCount: number; // 文字セットのうちフォントに収録された文字数
+}
+
+// 較正用のサンプルに使う文字数の上限（これ以下の文字セットはそのまま実測する）
+export const CALIBRATION_SAMPLE_SIZE = 400;
+
+// 推定値の誤差幅（推定サイズに対する割合）
+// 較正なしは圧縮率とレイアウトテーブルの縮小率の見積もりの幅、較正ありはサンプルからの外挿の幅
+const UNCALIBRATED_ERROR_MARGIN = 0.3;
+const CALIBRATED_ERROR_MARGIN = 0.05;
+const EXTRAPOLATION_ERROR_MARGIN = 0.3;
+
+// harfbuzz のサブセット化で常に削除されるテーブル
+const ALWAYS_DROPPED_TABLES = ['DSIG', 'LTSH', 'PCLT', 'VDMX', 'hdmx', 'EBDT', 'EBLC', 'EBSC', 'JSTF', 'morx', 'mort', 'kerx', 'feat'];
+// ヒンティングを削除する場合に削除されるテーブル
+const HINTING_TABLES = ['fpgm', 'prep', 'cvt ', 'cvar'];
+// 軸値を固定する場合に削除されるテーブル
+const VARIATION_TABLES = ['fvar', 'avar', 'gvar', 'cvar', 'HVAR', 'VVAR', 'MVAR'];
+// グリフごとのデータを持ち、残すグリフ数に比例して小さくなるテーブル
+const PER_GLYPH_TABLES = ['hmtx', 'vmtx', 'loca', 'post', 'VORG', 'HVAR', 'VVAR', 'gvar', 'COLR', 'CBDT', 'CBLC', 'sbix', 'SVG '];
+// グリフを参照するレイアウトテーブル（合字やカーニングの規則は残すグリフ同士で参照し合うため、
+// 残すグリフの割合の平方根に比例すると見なす）
+const LAYOUT_TABLES = ['GSUB', 'GPOS', 'GDEF', 'kern', 'MATH', 'BASE'];
+
+// 出力形式ごとの圧縮後のサイズの比率（アウトライン・その他のテーブル）
+// WOFF2 は glyf/loca を変換してから Brotli で圧縮するため、TrueType アウトラインの比率が特に小さい
+const COMPRESSION_RATIOS: Record<OutputFormat, { glyf: number; cff: number; other: number }> = {
+  woff2: { glyf: 0.38, cff: 0.62, other: 0.35 },
+  woff: { glyf: 0.6, cff: 0.75, other: 0.45 },
+  ttf: { glyf: 1, cff: 1, other: 1 },
+  otf: { glyf: 1, cff: 1, other: 1 },
+};
+
+const SFNT_VERSIONS = [0x00010000, 0x4f54544f, 0x74727565]; // 1.0, 'OTTO', 'true'
+const TTC_TAG = 0x74746366; // 'ttcf'
+
+/**
+ * SFNT（TTF/OTF/TTC/OTC）か
+ */
+export function isSfnt(data: Uint8Array): boolean {
+  if (data.length < 12) {
+    return false;
+  }
+  const version = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+  return SFNT_VERSIONS.includes(version) || version === TTC_TAG;
+}
+
+/**
+ * テーブルディレクトリを読み取る
+ * TTC/OTC は指定した書体のディレクトリを読む（テーブルのオフセットはファイル先頭から）
+ */
+export function readTableDirectory(data: Uint8Array, faceIndex = 0): SfntTableRecord[] {
+  if (!isSfnt(data)) {
+    throw new Error('SFNT形式のフォントではありません');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let directoryOffset = 0;
+  if (view.getUint32(0) === TTC_TAG) {
+    const faceCount = view.getUint32(8);
+    if (faceIndex < 0 || faceIndex >= faceCount) {
+      throw new Error(`書体番号 ${faceIndex} はコレクションに存在しません（${faceCount}書体）`);
+    }
+    directoryOffset = view.getUint32(12 + faceIndex * 4);
+  }
+
+  const numTables = view.getUint16(directoryOffset + 4);
+  if (data.length < directoryOffset + 12 + numTables * 16) {
+    throw new Error('テーブルディレクトリが不完全です');
+  }
+  const tables: SfntTableRecord[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const entry = directoryOffset + 12 + i * 16;
+    const tag = String.fromCharCode(data[entry], data[entry + 1], data[entry + 2], data[entry + 3]);
+    const offset = view.getUint32(entry + 8);
+    const length = view.getUint32(entry + 12);
+    if (offset + length > data.length) {
+      throw new Error(`テーブル ${tag} がファイルの範囲外です`);
+    }
+    tables.push({ tag, checksum: view.getUint32(entry + 4), offset, length });
+  }
+  return tables;
+}
+
+/**
+ * グリフのアウトライン
+ * sizes はグリフごとのアウトラインのバイト数、components は複合グリフが参照するグリフ
+ */
+interface GlyphOutlines {
+  format: 'glyf' | 'cff';
+  sizes: number[];
+  components: Map<number, number[]>;
+  tableTag: string; // アウトラインを持つテーブル（glyf / CFF / CFF2）
+}
+
+/**
+ * glyf の複合グリフが参照するグリフ番号を読み取る
+ */
+function readCompositeComponents(view: DataView, offset: number, end: number): number[] {
+  const ARG_1_AND_2_ARE_WORDS = 0x0001;
+  const WE_HAVE_A_SCALE = 0x0008;
+  const MORE_COMPONENTS = 0x0020;
+  const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+  const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+  const components: number[] = [];
+  let position = offset + 10;
+  let flags = MORE_COMPONENTS;
+  while (flags & MORE_COMPONENTS && position + 4 <= end) {
+    flags = view.getUint16(position);
+    components.push(view.getUint16(position + 2));
+    position += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+    if (flags & WE_HAVE_A_SCALE) {
+      position += 2;
+    } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+      position += 4;
+    } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+      position += 8;
+    }
+  }
+  return components;
+}
+
+/**
+ * glyf/loca からグリフごとのサイズと複合グリフの参照を読み取る
+ */
+function readGlyfOutlines(view: DataView, tables: Map<string, SfntTableRecord>, numGlyphs: number): GlyphOutlines | null {
+  const head = tables.get('head');
+  const loca = tables.get('loca');
+  const glyf = tables.get('glyf');
+  if (!head || !loca || !glyf) {
+    return null;
+  }
+  const longOffsets = view.getInt16(head.offset + 50) === 1;
+  const readOffset = (index: number) => longOffsets
+    ? view.getUint32(loca.offset + index * 4)
+    : view.getUint16(loca.offset + index * 2) * 2;
+  if (loca.length < (numGlyphs + 1) * (longOffsets ? 4 : 2)) {
+    return null;
+  }
+
+  const sizes: number[] = [];
+  const components = new Map<number, number[]>();
+  for (let glyphId = 0; glyphId < numGlyphs; glyphId++) {
+    const start = readOffset(glyphId);
+    const end = readOffset(glyphId + 1);
+    const size = Math.max(0, Math.min(end, glyf.length) - start);
+    sizes.push(size);
+    if (size >= 10 && view.getInt16(glyf.offset + start) < 0) {
+      components.set(glyphId, readCompositeComponents(view, glyf.offset + start, glyf.offset + start + size));
+    }
+  }
+  return { format: 'glyf', sizes, components, tableTag: 'glyf' };
+}
+
+/**
+ * CFF の INDEX を読み取り、各要素の長さと INDEX の終端を返す
+ * CFF2 は要素数が4バイト
+ */
+function readCffIndex(view: DataView, offset: number, countSize: 2 | 4): { lengths: number[]; end: number; dataStart: number } {
+  const count = countSize === 4 ? view.getUint32(offset) : view.getUint16(offset);
+  if (count === 0) {
+    return { lengths: [], end: offset + countSize, dataStart: offset + countSize };
+  }
+  const offSize = view.getUint8(offset + countSize);
+  const readOffset = (index: number) => {
+    let value = 0;
+    for (let i = 0; i < offSize; i++) {
+      value = value * 256 + view.getUint8(offset + countSize + 1 + index * offSize + i);
+    }
+    return value;
+  };
+  // オフセットはデータ領域の直前のバイトを基準（1がデータ領域の先頭）とする
+  const base = offset + countSize + (count + 1) * offSize;
+  const lengths: number[] = [];
+  for (let i = 0; i < count; i++) {
+    lengths.push(readOffset(i + 1) - readOffset(i));
+  }
+  return { lengths, end: base + readOffset(count), dataStart: base + readOffset(0) };
+}
+
+/**
+ * CFF の DICT から指定した演算子の最初のオペランドを読み取る
+ */
+function readCffDictOperand(view: DataView, start: number, end: number, operator: number): number | undefined {
+  const operands: number[] = [];
+  let position = start;
+  while (position < end) {
+    const b0 = view.getUint8(position);
+    if (b0 <= 21) {
+      const op = b0 === 12 ? 1200 + view.getUint8(position + 1) : b0;
+      position += b0 === 12 ? 2 : 1;
+      if (op === operator) {
+        return operands[0];
+      }
+      operands.length = 0;
+    } else if (b0 === 28) {
+      operands.push(view.getInt16(position + 1));
+      position += 3;
+    } else if (b0 === 29) {
+      operands.push(view.getInt32(position + 1));
+      position += 5;
+    } else if (b0 === 30) {
+      // 実数（ニブル列）は読み飛ばす
+      position++;
+      while (position < end) {
+        const byte = view.getUint8(position++);
+        if ((byte & 0x0f) === 0x0f || (byte >> 4) === 0x0f) {
+          break;
+        }
+      }
+      operands.push(0);
+    } else if (b0 >= 32 && b0 <= 246) {
+      operands.push(b0 - 139);
+      position++;
+    } else if (b0 >= 247 && b0 <= 250) {
+      operands.push((b0 - 247) * 256 + view.getUint8(position + 1) + 108);
+      position += 2;
+    } else if (b0 >= 251 && b0 <= 254) {
+      operands.push(-(b0 - 251) * 256 - view.getUint8(position + 1) - 108);
+      position += 2;
+    } else {
+      position++;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * CFF/CFF2 の CharStrings からグリフごとのサイズを読み取る
+ */
+function readCffOutlines(view: DataView, tables: Map<string, SfntTableRecord>): GlyphOutlines | null {
+  const CHARSTRINGS_OPERATOR = 17;
+  const cff2 = tables.get('CFF2');
+  const cff = cff2 ?? tables.get('CFF ');
+  if (!cff) {
+    return null;
+  }
+
+  let charStringsOffset: number | undefined;
+  if (cff2) {
+    const headerSize = view.getUint8(cff.offset + 2);
+    const topDictLength = view.getUint16(cff.offset + 3);
+    const topDictStart = cff.offset + headerSize;
+    charStringsOffset = readCffDictOperand(view, topDictStart, topDictStart + topDictLength, CHARSTRINGS_OPERATOR);
+  } else {
+    const nameIndex = readCffIndex(view, cff.offset + view.getUint8(cff.offset + 2), 2);
+    const topDictIndex = readCffIndex(view, nameIndex.end, 2);
+    const topDictEnd = topDictIndex.dataStart + (topDictIndex.lengths[0] ?? 0);
+    charStringsOffset = readCffDictOperand(view, topDictIndex.dataStart, topDictEnd, CHARSTRINGS_OPERATOR);
+  }
+  if (charStringsOffset === undefined) {
+    return null;
+  }
+
+  const charStrings = readCffIndex(view, cff.offset + charStringsOffset, cff2 ? 4 : 2);
+  return { format: 'cff', sizes: charStrings.lengths, components: new Map(), tableTag: cff.tag };
+}
+
+/**
+ * フォントのアウトラインをグリフごとに読み取る（glyf または CFF/CFF2）
+ */
+function readGlyphOutlines(data: Uint8Array, tables: Map<string, SfntTableRecord>): GlyphOutlines | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const maxp = tables.get('maxp');
+  if (!maxp) {
+    return null;
+  }
+  const numGlyphs = view.getUint16(maxp.offset + 4);
+  try {
+    return readGlyfOutlines(view, tables, numGlyphs) ?? readCffOutlines(view, tables);
+  } catch {
+    // テーブルが壊れている場合はグリフ数の比率で推定する
+    return null;
+  }
+}
+
+/**
+ * 文字列の文字に割り当てられたグリフと、複合グリフが参照するグリフを集める（.notdef を含む）
+ */
+function collectGlyphIds(font: SizeEstimationFontSource, text: string, outlines: GlyphOutlines | null): Set<number> {
+  const glyphIds = new Set<number>([0]);
+  for (const char of new Set(text)) {
+    glyphIds.add(font.glyphForCodePoint(char.codePointAt(0)!).id);
+  }
+  if (outlines) {
+    const pending = Array.from(glyphIds);
+    while (pending.length > 0) {
+      for (const component of outlines.components.get(pending.pop()!) ?? []) {
+        if (!glyphIds.has(component)) {
+          glyphIds.add(component);
+          pending.push(component);
+        }
+      }
+    }
+  }
+  return glyphIds;
+}
+
+/**
+ * 推定値と誤差幅から SizeEstimate を作成
+ */
+function toSizeEstimate(originalSize: number, estimatedSize: number, errorBound: number, calibrated: boolean): SizeEstimate {
+  const size = Math.max(0, Math.round(estimatedSize));
+  const compressionRatio = originalSize > 0 ? ((originalSize - size) / originalSize) * 100 : 0;
+  return {
+    originalSize,
+    estimatedSize: size,
+    compressionRatio: Math.round(compressionRatio * 100) / 100,
+    errorBound: Math.round(errorBound),
+    calibrated,
+  };
+}
+
+/**
+ * サブセット後の出力サイズをフォントの構造から推定
+ * - アウトライン（glyf/CFF/CFF2）は残すグリフの実際のバイト数を合計する
+ * - グリフごとのテーブルとレイアウトテーブルは残すグリフの割合で縮小し、削除されるテーブルは除く
+ * - 出力形式ごとの圧縮率をアウトラインとその他のテーブルで分けて掛ける
+ * SFNT 以外（WOFF/WOFF2 の入力）やアウトラインを読めないフォントはグリフ数の比率で推定する
+ */
+export function estimateSizeFromFont(
+  data: Uint8Array,
+  font: SizeEstimationFontSource,
+  text: string,
+  options: SizeEstimationOptions
+): SizeEstimate {
+  const ratios = COMPRESSION_RATIOS[options.outputFormat];
+  const originalSize = options.originalSize ?? data.length;
+  const tables = isSfnt(data) ? new Map(readTableDirectory(data, options.faceIndex).map(table => [table.tag, table])) : null;
+  const outlines = tables ? readGlyphOutlines(data, tables) : null;
+  const glyphIds = collectGlyphIds(font, text, outlines);
+
+  if (!tables || !outlines || outlines.sizes.length === 0) {
+    const estimatedSize = originalSize * Math.min(1, glyphIds.size / Math.max(font.numGlyphs, 1)) * ratios.other;
+    return toSizeEstimate(originalSize, estimatedSize, estimatedSize * UNCALIBRATED_ERROR_MARGIN, false);
+  }
+
+  const totalOutlineSize = outlines.sizes.reduce((sum, size) => sum + size, 0);
+  let outlineSize = 0;
+  for (const glyphId of glyphIds) {
+    outlineSize += outlines.sizes[glyphId] ?? 0;
+  }
+  const glyphRatio = Math.min(1, glyphIds.size / outlines.sizes.length);
+  const dropped = new Set([
+    ...ALWAYS_DROPPED_TABLES,
+    ...(options.dropTables ?? []),
+    ...(options.retainHinting === false ? HINTING_TABLES : []),
+    ...(options.pinVariationAxes ? VARIATION_TABLES : []),
+  ]);
+
+  let otherSize = 12;
+  for (const table of tables.values()) {
+    if (dropped.has(table.tag)) {
+      continue;
+    }
+    otherSize += 16;
+    if (table.tag === outlines.tableTag) {
+      // CFF の CharStrings 以外（サブルーチン等）は複数のグリフで共有されるため、アウトラインの割合の平方根で縮小する
+      if (outlines.format === 'cff' && totalOutlineSize > 0) {
+        outlineSize += (table.length - totalOutlineSize) * Math.sqrt(outlineSize / totalOutlineSize);
+      }
+    } else if (PER_GLYPH_TABLES.includes(table.tag)) {
+      otherSize += table.length * glyphRatio;
+    } else if (LAYOUT_TABLES.includes(table.tag)) {
+      otherSize += table.length * Math.sqrt(glyphRatio);
+    } else if (table.tag === 'cmap') {
+      otherSize += Math.min(table.length, 64 + glyphIds.size * 8);
+    } else {
+      otherSize += table.length;
+    }
+  }
+
+  const outlineRatio = outlines.format === 'glyf' ? ratios.glyf : ratios.cff;
+  const estimatedSize = outlineSize * outlineRatio + otherSize * ratios.other;
+  return toSizeEstimate(originalSize, estimatedSize, estimatedSize * UNCALIBRATED_ERROR_MARGIN, false);
+}
+
+/**
+ * サブセットの設定から推定時に削除するテーブルを決める（performSubset と同じ resolveFeaturePlan を使う）
+ */
+export function resolveEstimationTables(
+  options: SizeEstimateOptions,
+  text: string
+): Pick<SizeEstimationOptions, 'dropTables' | 'retainHinting' | 'pinVariationAxes'> {
+  const featurePlan = resolveFeaturePlan(options, text);
+  return {
+    dropTables: featurePlan.dropTables,
+    retainHinting: featurePlan.retainHinting,
+    pinVariationAxes: Boolean(options.pinVariationAxes) && Object.keys(options.variationAxes ?? {}).length > 0,
+  };
+}
+
+/**
+ * 較正用に実際にサブセット化する文字を選ぶ
+ * フォントに収録された文字から CALIBRATION_SAMPLE_SIZE 字を等間隔に取り出す（それ以下ならすべて）
+ */
+export function selectCalibrationSample(font: SizeEstimationFontSource, text: string): CalibrationSample {
+  const covered = Array.from(new Set(text)).filter(char => font.glyphForCodePoint(char.codePointAt(0)!).id !== 0);
+  if (covered.length <= CALIBRATION_SAMPLE_SIZE) {
+    return { text: covered.join(''), coveredCount: covered.length };
+  }
+  const step = covered.length / CALIBRATION_SAMPLE_SIZE;
+  return {
+    text: Array.from({ length: CALIBRATION_SAMPLE_SIZE }, (_, i) => covered[Math.floor(i * step)]).join(''),
+    coveredCount: covered.length,
+  };
+}
+
+/**
+ * サンプルの実測値で推定値を較正
+ * サンプルの推定値と実測値の比を全体の推定値に掛ける。サンプルが文字セット全体なら実測値をそのまま返す
+ */
+export function calibrateSizeEstimate(
+  estimate: SizeEstimate,
+  sampleEstimate: SizeEstimate,
+  sample: CalibrationSample,
+  actualSize: number
+): SizeEstimate {
+  const sampleCharacters = Array.from(sample.text).length;
+  if (sampleCharacters >= sample.coveredCount) {
+    return toSizeEstimate(estimate.originalSize, actualSize, 0, true);
+  }
+  if (sampleEstimate.estimatedSize <= 0) {
+    return estimate;
+  }
+  const estimatedSize = estimate.estimatedSize * (actualSize / sampleEstimate.estimatedSize);
+  // サンプルから外挿する割合が大きいほど誤差幅を広げる
+  const margin = CALIBRATED_ERROR_MARGIN + EXTRAPOLATION_ERROR_MARGIN * (1 - sampleCharacters / sample.coveredCount);
+  return toSizeEstimate(estimate.originalSize, estimatedSize, estimatedSize * margin, true);
+}
+
+/**
+ * 推定サイズを誤差幅とともに表示用にフォーマット（例: "13.99 KB（±1.4 KB）"）
+ */
+export function formatSizeEstimate(estimate: SizeEstimate): string {
+  const size = formatFileSize(estimate.estimatedSize);
+  return estimate.errorBound > 0 ? `${size}（±${formatFileSize(estimate.errorBound)}）` : size;
+}
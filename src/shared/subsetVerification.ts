@@ -0,0 +1,159 @@
+import { detectColorFormats } from './emoji';
+import { readTableDirectory } from './sizeEstimation';
+
+/**
+ * fontkit のフォントオブジェクトのうち、サブセット結果の検証に使う部分
+ * （デスクトップ版・Web版で fontkit の型定義が異なるため構造的に定義）
+ */
+export interface VerificationGlyph {
+  id: number;
+  path?: { commands: unknown[] };
+}
+
+export interface VerificationFontSource {
+  glyphForCodePoint(codePoint: number): VerificationGlyph;
+  directory?: { tables: Record<string, unknown> };
+}
+
+/**
+ * サブセット結果の検証結果
+ */
+export interface SubsetVerificationResult {
+  valid: boolean;
+  checksumMismatches: string[]; // チェックサムが一致しないテーブルのタグ
+  emptyGlyphs: number[]; // .notdef または空のグリフに割り当てられたコードポイント
+  issues: string[];
+}
+
+// 問題の報告に含めるコードポイントの上限
+const MAX_REPORTED_CODE_POINTS = 10;
+
+/**
+ * アウトラインを持たないのが正常な文字か（空白・制御文字・書式文字・異体字セレクタ等）
+ */
+function isBlankCodePoint(codePoint: number): boolean {
+  return /[\p{White_Space}\p{Cc}\p{Cf}\p{Default_Ignorable_Code_Point}]/u.test(String.fromCodePoint(codePoint));
+}
+
+/**
+ * OpenType のテーブルチェックサム（4バイト単位のビッグエンディアン加算）を計算
+ */
+export function calculateTableChecksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const word = ((data[i] << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | (data[i + 3] ?? 0)) >>> 0;
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * SFNT のテーブルディレクトリに記録されたチェックサムと実データを比較し、
+ * 一致しないテーブルのタグを返す（head は checkSumAdjustment を 0 として計算）
+ */
+export function findChecksumMismatches(sfnt: Uint8Array): string[] {
+  const mismatches: string[] = [];
+  for (const table of readTableDirectory(sfnt)) {
+    let data = sfnt.subarray(table.offset, table.offset + table.length);
+    if (table.tag === 'head' && table.length >= 12) {
+      data = data.slice();
+      data.fill(0, 8, 12);
+    }
+    if (calculateTableChecksum(data) !== table.checksum) {
+      mismatches.push(table.tag);
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * グリフのアウトラインが空か
+ */
+function hasEmptyOutline(glyph: VerificationGlyph | undefined): boolean {
+  return Boolean(glyph?.path && glyph.path.commands.length === 0);
+}
+
+/**
+ * 各コードポイントが .notdef 以外の空でないグリフに割り当てられているか確認し、
+ * 問題のあるコードポイントを返す
+ * 元フォントでもアウトラインが空のグリフと、カラーフォント（ビットマップ・レイヤー）は割り当てのみ確認する
+ */
+export function findEmptyGlyphs(
+  font: VerificationFontSource,
+  codePoints: Iterable<number>,
+  sourceFont: VerificationFontSource
+): number[] {
+  const hasColorGlyphs = detectColorFormats(Object.keys(font.directory?.tables ?? {})).length > 0;
+  const empty: number[] = [];
+  for (const codePoint of codePoints) {
+    const glyph = font.glyphForCodePoint(codePoint);
+    if (!glyph || glyph.id === 0) {
+      empty.push(codePoint);
+      continue;
+    }
+    if (
+      !hasColorGlyphs &&
+      !isBlankCodePoint(codePoint) &&
+      hasEmptyOutline(glyph) &&
+      !hasEmptyOutline(sourceFont.glyphForCodePoint(codePoint))
+    ) {
+      empty.push(codePoint);
+    }
+  }
+  return empty;
+}
+
+/**
+ * 要求文字のうち元フォントに収録されていたコードポイント（サブセット結果にも含まれるべき文字）
+ */
+export function getExpectedCodePoints(text: string, fontCodePoints: Iterable<number>): number[] {
+  const available = new Set(fontCodePoints);
+  const expected = new Set<number>();
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) as number;
+    if (available.has(codePoint)) {
+      expected.add(codePoint);
+    }
+  }
+  return Array.from(expected);
+}
+
+/**
+ * コードポイントの一覧を報告用に整形（例: U+6F22 (漢), U+5B57 (字) 他3字）
+ */
+function formatCodePoints(codePoints: number[]): string {
+  const shown = codePoints.slice(0, MAX_REPORTED_CODE_POINTS).map(codePoint =>
+    `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')} (${String.fromCodePoint(codePoint)})`
+  );
+  const rest = codePoints.length > MAX_REPORTED_CODE_POINTS ? ` 他${codePoints.length - MAX_REPORTED_CODE_POINTS}字` : '';
+  return shown.join(', ') + rest;
+}
+
+/**
+ * サブセット結果（SFNT）のテーブルチェックサムと文字の割り当てを検証
+ * グリフが空かどうかは元フォントの同じ文字のグリフと比較して判定する
+ */
+export function verifySubsetFont(
+  sfnt: Uint8Array,
+  font: VerificationFontSource,
+  expectedCodePoints: Iterable<number>,
+  sourceFont: VerificationFontSource
+): SubsetVerificationResult {
+  const checksumMismatches = findChecksumMismatches(sfnt);
+  const emptyGlyphs = findEmptyGlyphs(font, expectedCodePoints, sourceFont);
+
+  const issues: string[] = [];
+  if (checksumMismatches.length > 0) {
+    issues.push(`テーブルのチェックサムが一致しません: ${checksumMismatches.join(', ')}`);
+  }
+  if (emptyGlyphs.length > 0) {
+    issues.push(`グリフが欠落している文字があります: ${formatCodePoints(emptyGlyphs)}`);
+  }
+
+  return {
+    valid: issues.length === 0,
+    checksumMismatches,
+    emptyGlyphs,
+    issues,
+  };
+}
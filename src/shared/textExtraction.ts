@@ -0,0 +1,391 @@
+import { getUniqueCharacters } from './presets';
+
+/**
+ * 文字を抽出できるファイルの種類
+ */
+export type TextSourceType = 'html' | 'jsx' | 'vue' | 'markdown' | 'json' | 'po';
+
+/**
+ * 抽出元のファイル（ファイル名は拡張子の判定と報告に使う）
+ */
+export interface TextSource {
+  fileName: string;
+  content: string;
+}
+
+/**
+ * 文字抽出の結果
+ */
+export interface TextExtractionResult {
+  characters: string; // 重複を除いた文字セット
+  fileCount: number; // 文字を抽出したファイル数
+  skippedFiles: string[]; // 解析できなかったファイル
+}
+
+const TEXT_SOURCE_TYPES: Record<string, TextSourceType> = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.jsx': 'jsx',
+  '.tsx': 'jsx',
+  '.vue': 'vue',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdx': 'markdown',
+  '.json': 'json',
+  '.po': 'po',
+  '.pot': 'po',
+};
+
+export const TEXT_SOURCE_EXTENSIONS = Object.keys(TEXT_SOURCE_TYPES);
+
+// 1ファイルあたりの上限（生成物や巨大なデータファイルを除外）
+export const MAX_TEXT_SOURCE_SIZE = 5 * 1024 * 1024; // 5MB
+
+// ディレクトリ走査で読み飛ばすディレクトリ（"." で始まるものも除外）
+export const IGNORED_TEXT_SOURCE_DIRECTORIES = [
+  'node_modules',
+  'dist',
+  'build',
+  'out',
+  'coverage',
+  'vendor',
+];
+
+// 翻訳ではない設定ファイル
+const IGNORED_JSON_FILES = /^(package(-lock)?|composer(\.lock)?|tsconfig(\..+)?|jsconfig|\.?eslintrc|manifest)\.json$|\.lock\.json$/i;
+
+// ブロックの } と { の間に現れるキーワード
+const JS_BLOCK_KEYWORDS = /^\s*(else|try|finally|do)\s*$/;
+
+// PO ファイルのヘッダー（"Content-Type: text/plain; charset=UTF-8\n" など）
+const PO_HEADER_FIELD = /^[A-Z][\w-]*: .*\\n$/;
+
+// 画面に表示される属性（それ以外の属性値はクラス名やURLなど）
+const VISIBLE_ATTRIBUTES = ['alt', 'title', 'placeholder', 'aria-label', 'aria-description', 'label', 'content', 'value'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  laquo: '«',
+  raquo: '»',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  middot: '·',
+  yen: '¥',
+  times: '×',
+};
+
+function getExtension(fileName: string): string {
+  const baseName = fileName.split(/[\\/]/).pop() || fileName;
+  const dotIndex = baseName.lastIndexOf('.');
+  return dotIndex > 0 ? baseName.substring(dotIndex).toLowerCase() : '';
+}
+
+/**
+ * ファイル名から抽出元の種類を判定（対象外の場合は null）
+ */
+export function getTextSourceType(fileName: string): TextSourceType | null {
+  return TEXT_SOURCE_TYPES[getExtension(fileName)] ?? null;
+}
+
+/**
+ * 文字抽出の対象となるファイルか（package.json などの設定ファイルは除外）
+ */
+export function isTextSourceFile(fileName: string): boolean {
+  const baseName = fileName.split(/[\\/]/).pop() || fileName;
+  return getTextSourceType(baseName) !== null && !IGNORED_JSON_FILES.test(baseName);
+}
+
+/**
+ * ディレクトリ走査で読み飛ばすディレクトリか
+ */
+export function isIgnoredTextSourceDirectory(name: string): boolean {
+  return name.startsWith('.') || IGNORED_TEXT_SOURCE_DIRECTORIES.includes(name);
+}
+
+/**
+ * HTMLの文字参照を展開
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '';
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 表示される属性の値を取り出す
+ */
+function extractVisibleAttributes(markup: string): string[] {
+  const pattern = new RegExp(`\\s(?:${VISIBLE_ATTRIBUTES.join('|')})\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'gi');
+  return Array.from(markup.matchAll(pattern), match => match[1] ?? match[2]);
+}
+
+/**
+ * HTMLからテキストノードと表示される属性値を抽出（script・style・コメントは除外）
+ */
+export function extractFromHtml(html: string): string[] {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg)\b[\s\S]*?<\/\1\s*>/gi, ' ');
+
+  const tags = body.match(/<[a-z][^>]*>/gi) ?? [];
+  const attributes = tags.flatMap(extractVisibleAttributes);
+  const text = body.replace(/<[^>]*>/g, ' ');
+
+  return [...attributes, text].map(decodeHtmlEntities);
+}
+
+/**
+ * JavaScript/TypeScript の文字列リテラルの中身を取り出す
+ * コメント・import の指定子・表示されない JSX 属性（className など）の値は除外する
+ */
+function extractStringLiterals(code: string): string[] {
+  const literals: string[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    // コメント
+    if (char === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      i = end === -1 ? code.length : end;
+      continue;
+    }
+    if (char === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      i = end === -1 ? code.length : end + 2;
+      continue;
+    }
+
+    if (char !== '"' && char !== '\'' && char !== '`') {
+      i++;
+      continue;
+    }
+
+    // 文字列リテラル（テンプレートリテラルの ${...} は式として読み飛ばす）
+    const start = i;
+    let value = '';
+    i++;
+    while (i < code.length && code[i] !== char) {
+      if (code[i] === '\\') {
+        value += code[i + 1] === 'n' || code[i + 1] === 't' ? ' ' : code[i + 1] ?? '';
+        i += 2;
+        continue;
+      }
+      if (char === '`' && code[i] === '$' && code[i + 1] === '{') {
+        let depth = 1;
+        i += 2;
+        while (i < code.length && depth > 0) {
+          if (code[i] === '{') depth++;
+          if (code[i] === '}') depth--;
+          i++;
+        }
+        value += ' ';
+        continue;
+      }
+      if (char !== '`' && code[i] === '\n') {
+        break;
+      }
+      value += code[i];
+      i++;
+    }
+    i++;
+
+    const before = code.slice(Math.max(0, start - 40), start);
+    const isModuleSpecifier = /(\bfrom|\bimport|\brequire\s*\(|\bimport\s*\()\s*$/.test(before);
+    const attribute = /([\w:-]+)=$/.exec(before);
+    const isHiddenAttribute = attribute !== null && !VISIBLE_ATTRIBUTES.includes(attribute[1].toLowerCase());
+    if (!isModuleSpecifier && !isHiddenAttribute) {
+      literals.push(value);
+    }
+  }
+
+  return literals;
+}
+
+/**
+ * JSX/TSX からテキストノードと文字列リテラルを抽出
+ */
+export function extractFromJsx(code: string): string[] {
+  // タグ（属性に式を含む }> も）の直後から次のタグ・式までのテキスト
+  // コード中の比較演算子やジェネリクスの後には ; ( ) = が続くため除外される
+  const jsxTextPattern = /(<[A-Za-z][^<>]*>|<\/[A-Za-z][^<>]*>|\}\s*\/?>|\})([^<>{}();=]*[^\s<>{}();=][^<>{}();=]*)(?=<|\{)/g;
+  const jsxTexts: string[] = [];
+  const codeWithoutText = code.replace(jsxTextPattern, (match, tag: string, text: string) => {
+    // } else { などのブロックの間はテキストではない
+    if (tag === '}' && JS_BLOCK_KEYWORDS.test(text)) {
+      return match;
+    }
+    jsxTexts.push(text);
+    // 文字列リテラルの判定を崩さないよう、テキスト内のアポストロフィ等を取り除く
+    return tag + ' '.repeat(text.length);
+  });
+
+  // 属性値は文字列リテラルとして取り出す（alt などの表示される属性のみ）
+  return [...jsxTexts.map(decodeHtmlEntities), ...extractStringLiterals(codeWithoutText)];
+}
+
+/**
+ * JSON の文字列値を再帰的に取り出す（キーは除外）
+ */
+export function extractFromJson(json: string): string[] {
+  const values: string[] = [];
+  const visit = (value: unknown): void => {
+    if (typeof value === 'string') {
+      values.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(JSON.parse(json));
+  return values;
+}
+
+/**
+ * Vue単一ファイルコンポーネントから template・script・i18n ブロックの文字列を抽出
+ */
+export function extractFromVue(source: string): string[] {
+  const texts: string[] = [];
+  for (const match of source.matchAll(/<(template|script|i18n)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi)) {
+    const [, block, content] = match;
+    switch (block.toLowerCase()) {
+      case 'template':
+        // {{ }} 内は式のため除外
+        texts.push(...extractFromHtml(content.replace(/\{\{[\s\S]*?\}\}/g, ' ')));
+        break;
+      case 'script':
+        texts.push(...extractStringLiterals(content));
+        break;
+      case 'i18n':
+        texts.push(...extractFromJson(content));
+        break;
+    }
+  }
+  return texts;
+}
+
+/**
+ * Markdown から本文を抽出（コード・URL・記法の記号は除外）
+ */
+export function extractFromMarkdown(markdown: string): string[] {
+  const text = markdown
+    // フロントマターは値のみ残す
+    .replace(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/, (_match, frontMatter: string) =>
+      frontMatter.replace(/^\s*[\w-]+\s*:\s*/gm, '') + '\n')
+    .replace(/^(```|~~~)[\s\S]*?^\1[^\n]*$/gm, ' ')
+    .replace(/`[^`\n]*`/g, ' ')
+    // MDX の import / export
+    .replace(/^(import|export)\s.*$/gm, ' ')
+    // 画像・リンクはテキストのみ残す
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*\[[^\]]+\]:\s*\S+.*$/gm, ' ')
+    .replace(/<https?:\/\/[^>]+>|https?:\/\/\S+/g, ' ')
+    // 見出し・引用・リスト・表・強調の記号
+    .replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, ' ')
+    .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, ' ')
+    .replace(/(\*\*|__|~~|\*|\|)/g, ' ');
+
+  return extractFromHtml(text);
+}
+
+/**
+ * PO/POT ファイルから msgid・msgstr を抽出（コメントと msgctxt は除外）
+ */
+export function extractFromPo(po: string): string[] {
+  const texts: string[] = [];
+  let inContext = false;
+  for (const rawLine of po.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+    if (/^msg(id|id_plural|str(\[\d+\])?)\s/.test(line)) {
+      inContext = false;
+    } else if (line.startsWith('msgctxt')) {
+      inContext = true;
+      continue;
+    }
+    if (inContext) {
+      continue;
+    }
+    const match = /"((?:[^"\\]|\\.)*)"$/.exec(line);
+    if (match && !PO_HEADER_FIELD.test(match[1])) {
+      texts.push(match[1].replace(/\\([nt])/g, ' ').replace(/\\(.)/g, '$1'));
+    }
+  }
+  return texts;
+}
+
+/**
+ * 1ファイルから表示されるテキストを抽出
+ */
+export function extractTextFromSource(source: TextSource): string[] {
+  switch (getTextSourceType(source.fileName)) {
+    case 'html':
+      return extractFromHtml(source.content);
+    case 'jsx':
+      return extractFromJsx(source.content);
+    case 'vue':
+      return extractFromVue(source.content);
+    case 'markdown':
+      return extractFromMarkdown(source.content);
+    case 'json':
+      return extractFromJson(source.content);
+    case 'po':
+      return extractFromPo(source.content);
+    default:
+      throw new Error(`文字抽出に対応していないファイル形式です: ${source.fileName}`);
+  }
+}
+
+/**
+ * 抽出したテキストを重複のない文字セットにまとめる（改行・タブなどの制御文字は除外）
+ */
+export function toCharacterSet(texts: string[]): string {
+  return getUniqueCharacters(texts.join('').replace(/\p{Cc}/gu, ''));
+}
+
+/**
+ * 複数ファイルから文字セットを作成（解析できないファイルは skippedFiles に記録して続行）
+ */
+export function extractCharactersFromSources(sources: TextSource[]): TextExtractionResult {
+  const texts: string[] = [];
+  const skippedFiles: string[] = [];
+  let fileCount = 0;
+
+  for (const source of sources) {
+    try {
+      texts.push(...extractTextFromSource(source));
+      fileCount++;
+    } catch (error) {
+      console.warn('Text extraction failed:', source.fileName, error);
+      skippedFiles.push(source.fileName);
+    }
+  }
+
+  return {
+    characters: toCharacterSet(texts),
+    fileCount,
+    skippedFiles,
+  };
+}
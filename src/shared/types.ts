@@ -17,14 +17,34 @@ export interface FontAnalysis {
   features: OpenTypeFeature[];
   languages: string[];
   hasColorEmoji: boolean;
+  colorFormats?: ColorFontFormat[];
   isVariableFont: boolean;
   axes?: VariableAxis[];
+  namedInstances?: NamedInstance[]; // fvar の名前付きインスタンス（バリアブルフォントのみ）
+  codePoints?: number[]; // cmap に収録されたコードポイント（解析に失敗した場合は未設定）
+  faces?: CollectionFace[]; // TTC/OTC に含まれる全書体（単体フォントでは未設定）
+  faceIndex?: number; // 解析した書体の番号（TTC/OTC のみ）
 }
 
+/**
+ * フォントコレクション（TTC/OTC）に含まれる書体
+ */
+export interface CollectionFace {
+  index: number;
+  postscriptName: string;
+  fontFamily: string;
+  fontSubfamily: string;
+  glyphCount: number;
+}
+
+export type ColorFontFormat = 'COLR/CPAL' | 'CBDT/CBLC' | 'sbix';
+
 export interface CharacterRange {
   start: number;
   end: number;
   name: string;
+  /** フォントが収録する文字数（解析結果のみ） */
+  count?: number;
 }
 
 export interface OpenTypeFeature {
@@ -41,6 +61,43 @@ export interface VariableAxis {
   default: number;
 }
 
+/**
+ * バリアブルフォント軸の残す範囲（範囲外のデザインを削除し、範囲内は可変のまま残す）
+ */
+export interface AxisRange {
+  min: number;
+  default: number;
+  max: number;
+}
+
+/**
+ * グリフ一覧に表示するアウトライン（SVG パスはフォント単位・y軸上向き）
+ */
+export interface GlyphOutline {
+  codePoint: number;
+  path: string;
+  advanceWidth: number;
+}
+
+/**
+ * グリフ一覧の描画に使うフォント全体の寸法と、要求したコードポイントのアウトライン
+ */
+export interface GlyphOutlineSet {
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  glyphs: GlyphOutline[];
+}
+
+/**
+ * バリアブルフォントの名前付きインスタンス（fvar の Light、Regular、Bold など）
+ */
+export interface NamedInstance {
+  index: number;
+  name: string;
+  coordinates: Record<string, number>; // 軸タグごとの値
+}
+
 export interface CharacterPreset {
   id: string;
   name: string;
@@ -50,18 +107,69 @@ export interface CharacterPreset {
   categories: CharCategory[];
 }
 
-export type CharacterSetPreset = 'hiragana-katakana' | 'ascii' | 'kanji-n5' | 'kanji-n4' | 'kanji-n3' | 'kanji-joyo' | 'custom';
+export type CharacterSetPreset =
+  | 'hiragana-katakana'
+  | 'ascii'
+  | 'kanji-n5'
+  | 'kanji-n4'
+  | 'kanji-n3'
+  | 'kanji-n2'
+  | 'kanji-n1'
+  | 'kanji-joyo'
+  | 'joyo-jinmeiyo'
+  | 'jis-x0208'
+  | 'jis-x0213'
+  | 'zh-hans'
+  | 'zh-hant'
+  | 'ko'
+  | 'custom';
 
 export type CharCategory = 
   | 'hiragana' 
   | 'katakana' 
   | 'ascii' 
   | 'symbols' 
+  | 'emoji'
   | 'kanji-basic' 
   | 'kanji-standard' 
   | 'kanji-advanced'
   | 'kanji-complete'
-  | 'kanji-jis1';
+  | 'kanji-jis1'
+  | 'kanji-jis2'
+  | 'kanji-jis3'
+  | 'kanji-jis4'
+  | 'kanji-jinmeiyo'
+  | 'hanzi-gb2312'
+  | 'hanzi-big5'
+  | 'cjk-extension'
+  | 'hangul';
+
+/**
+ * 要求された文字セットのうち、フォントに収録されていない文字の報告
+ */
+export interface CoverageReport {
+  requestedCount: number; // 重複・表示されない文字を除いた要求文字数
+  coveredCount: number;
+  missingCount: number;
+  missing: MissingCharacterGroup[];
+}
+
+export interface MissingCharacterGroup {
+  category: CharCategory;
+  characters: string;
+}
+
+/**
+ * 文字セットの組み立て式
+ * ベースのプリセットに文字セットと任意の文字を加え、コードポイント範囲と文字を除外する
+ */
+export interface CharacterSetExpression {
+  basePreset?: string; // ベースのプリセットID（'custom' 以外）
+  addSets?: string[]; // 追加する文字セット（CHARACTER_SETS のキー）
+  addText?: string; // 追加する文字
+  excludeRanges?: string; // 除外するコードポイント範囲（例: "U+FF61-FF9F, U+3000"）
+  excludeText?: string; // 除外する文字
+}
 
 export interface SubsetOptions {
   inputPath: string;
@@ -69,16 +177,13 @@ export interface SubsetOptions {
   outputFormat?: OutputFormat;
   customCharacters?: string;
   preset?: string;
+  characterSetExpression?: CharacterSetExpression; // 指定時は preset・customCharacters より優先
   enableWoff2Compression?: boolean;
   compressionLevel?: number;
   removeHinting?: boolean;
   desubroutinize?: boolean;
-  preserveFeatures?: {
-    kerning: boolean;
-    ligatures: boolean;
-    hinting: boolean;
-    verticalMetrics: boolean;
-  };
+  preserveFeatures?: PreserveFeatures;
+  featureTags?: Record<string, boolean>; // GSUB/GPOS機能タグごとの保持(true)・削除(false)
   optimizations?: {
     removeUnusedGlyphs: boolean;
     optimizeCFF: boolean;
@@ -87,12 +192,28 @@ export interface SubsetOptions {
   // バリアブルフォント用オプション
   variationAxes?: Record<string, number>; // { wght: 400, wdth: 100 }
   pinVariationAxes?: boolean; // 軸値を固定してサイズ削減するか
+  variationAxisRanges?: Record<string, AxisRange>; // 軸ごとの範囲制限（軸値を固定しない場合に適用）
+  exportNamedInstances?: boolean; // 名前付きインスタンスごとに軸値を固定した静的フォントを出力するか
+  // @font-face CSS生成オプション
+  generateCss?: boolean; // 出力ファイルの隣にスタイルシートを生成するか
+  fontDisplay?: FontDisplay;
+  // フォントコレクション（TTC/OTC）用オプション
+  faceIndices?: number[]; // サブセット化する書体の番号（複数指定時は書体ごとに出力、未指定時は先頭の書体）
+}
+
+export interface PreserveFeatures {
+  kerning: boolean;
+  ligatures: boolean;
+  hinting: boolean;
+  verticalMetrics: boolean;
 }
 
 export type OutputFormat = 'woff2' | 'woff' | 'ttf' | 'otf';
 
+export type FontDisplay = 'auto' | 'block' | 'swap' | 'fallback' | 'optional';
+
 export interface ProgressState {
-  phase: 'idle' | 'analyzing' | 'subsetting' | 'optimizing' | 'compressing' | 'complete';
+  phase: 'idle' | 'analyzing' | 'subsetting' | 'optimizing' | 'compressing' | 'verifying' | 'complete';
   progress: number; // 0-100
   currentFile: string;
   totalFiles: number;
@@ -101,6 +222,52 @@ export interface ProgressState {
   errors: ProcessError[];
 }
 
+/**
+ * バッチ処理のジョブの状態
+ */
+export type BatchJobStatus = 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+
+/**
+ * バッチ処理に投入するフォント
+ */
+export interface BatchInputFile {
+  inputPath: string;
+  faceIndices?: number[]; // TTC/OTC でサブセット化する書体
+}
+
+/**
+ * バッチ処理の投入内容（全フォントに同じオプションを適用する）
+ */
+export interface BatchSubmission {
+  files: BatchInputFile[];
+  outputDirectory: string;
+  options: Omit<SubsetOptions, 'inputPath' | 'outputPath' | 'faceIndices'>;
+  concurrency?: number; // 同時に処理するワーカー数（未指定時はCPU数から決定）
+}
+
+/**
+ * バッチ処理のジョブ
+ */
+export interface BatchJob {
+  id: string;
+  inputPath: string;
+  outputPath: string;
+}
+
+/**
+ * ジョブごとの進捗通知
+ */
+export interface BatchJobUpdate {
+  jobId: string;
+  inputPath: string;
+  status: BatchJobStatus;
+  progress: ProgressState;
+  outputPaths?: string[]; // 書き出したフォント（TTC/OTC は書体ごと）
+  originalSize?: number;
+  outputSize?: number;
+  error?: string;
+}
+
 export interface ProcessError {
   type: ErrorType;
   message: string;
@@ -116,6 +283,30 @@ export interface CompressionStats {
   compressedSize: number;
 }
 
+/**
+ * サブセット後のファイルサイズの推定
+ */
+export interface SizeEstimate {
+  originalSize: number;
+  estimatedSize: number;
+  compressionRatio: number; // 削減率（%）
+  errorBound: number; // 推定値の誤差幅（±バイト）
+  calibrated: boolean; // サンプルのサブセット化で較正したか
+}
+
+/**
+ * サイズ推定のオプション（機能保持・ヒンティング・軸の設定はサブセット化と同じものを渡す）
+ */
+export interface SizeEstimateOptions
+  extends Pick<
+    SubsetOptions,
+    'preserveFeatures' | 'featureTags' | 'removeHinting' | 'variationAxes' | 'pinVariationAxes' | 'variationAxisRanges'
+  > {
+  outputFormat?: OutputFormat; // WOFF2圧縮を無効にした場合の出力形式
+  faceIndex?: number; // TTC/OTC の書体番号
+  calibrate?: boolean; // サンプルを実際にサブセット化して較正する（既定: true）
+}
+
 export interface Woff2CompressionOptions {
   compressionLevel?: number; // 0-10
   transformGlyf?: boolean;
@@ -0,0 +1,201 @@
+import { AxisRange, CharacterSetExpression, OutputFormat, PreserveFeatures } from './types';
+import { evaluateCharacterSet, getCharacterSetExpressionErrors, hasCharacterSetSource } from './presets';
+
+/**
+ * ユーザー定義プリセットに保存する設定
+ */
+export interface UserPresetSettings {
+  characterSetExpression: CharacterSetExpression;
+  outputFormat?: OutputFormat;
+  variationAxes?: Record<string, number>; // 軸の固定値
+  pinVariationAxes?: boolean;
+  variationAxisRanges?: Record<string, AxisRange>; // 軸を固定しない場合に残す範囲
+  preserveFeatures?: PreserveFeatures;
+  featureTags?: Record<string, boolean>;
+}
+
+/**
+ * ユーザー定義プリセット
+ */
+export interface UserPreset extends UserPresetSettings {
+  id: string; // 組み込みプリセットと衝突しないよう USER_PRESET_ID_PREFIX で始まる
+  name: string;
+  description?: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+/**
+ * プリセットの共有用JSONファイル
+ */
+export interface UserPresetFile {
+  format: typeof USER_PRESET_FILE_FORMAT;
+  version: number;
+  presets: UserPreset[];
+}
+
+export const USER_PRESET_ID_PREFIX = 'user:';
+export const USER_PRESET_FILE_FORMAT = 'fontminify-presets';
+export const USER_PRESET_FILE_VERSION = 1;
+export const USER_PRESET_FILE_NAME = 'fontminify-presets.json';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['woff2', 'woff', 'ttf', 'otf'];
+const PRESERVE_FEATURE_KEYS: (keyof PreserveFeatures)[] = ['kerning', 'ligatures', 'verticalMetrics', 'hinting'];
+
+/**
+ * ユーザー定義プリセットのIDか
+ */
+export function isUserPresetId(id: string | undefined): boolean {
+  return !!id && id.startsWith(USER_PRESET_ID_PREFIX);
+}
+
+/**
+ * 現在の設定から新しいプリセットを作成
+ */
+export function createUserPreset(name: string, settings: UserPresetSettings, description?: string): UserPreset {
+  const now = new Date().toISOString();
+  return {
+    ...settings,
+    id: `${USER_PRESET_ID_PREFIX}${crypto.randomUUID()}`,
+    name: name.trim(),
+    description: description?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * プリセットの文字数（追加・除外を適用した後）
+ */
+export function getUserPresetCharacterCount(preset: UserPreset): number {
+  return new Set(evaluateCharacterSet(preset.characterSetExpression)).size;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  isRecord(value) && Object.values(value).every(v => typeof v === 'number' && Number.isFinite(v));
+
+const isAxisRangeRecord = (value: unknown): value is Record<string, AxisRange> =>
+  isRecord(value) && Object.values(value).every(range =>
+    isNumberRecord(range) &&
+    (['min', 'default', 'max'] as const).every(key => typeof range[key] === 'number') &&
+    range.min <= range.default && range.default <= range.max);
+
+const isBooleanRecord = (value: unknown): value is Record<string, boolean> =>
+  isRecord(value) && Object.values(value).every(v => typeof v === 'boolean');
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+/**
+ * 読み込んだ値をプリセットとして検証
+ * 共有ファイルは手で編集されることもあるため、型と文字セットの内容を確認する
+ */
+export function validateUserPreset(value: unknown): UserPreset {
+  if (!isRecord(value)) {
+    throw new Error('プリセットがオブジェクトではありません');
+  }
+  const label = typeof value.name === 'string' && value.name ? value.name : '(名称なし)';
+
+  if (typeof value.id !== 'string' || !isUserPresetId(value.id)) {
+    throw new Error(`プリセットのIDが不正です: ${label}`);
+  }
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    throw new Error('プリセット名がありません');
+  }
+
+  const expression = value.characterSetExpression;
+  if (!isRecord(expression) ||
+      !isOptionalString(expression.basePreset) ||
+      !isOptionalString(expression.addText) ||
+      !isOptionalString(expression.excludeRanges) ||
+      !isOptionalString(expression.excludeText) ||
+      (expression.addSets !== undefined &&
+        !(Array.isArray(expression.addSets) && expression.addSets.every(set => typeof set === 'string')))) {
+    throw new Error(`文字セットの指定が不正です: ${label}`);
+  }
+  const expressionErrors = getCharacterSetExpressionErrors(expression);
+  if (!hasCharacterSetSource(expression)) {
+    expressionErrors.push('文字セットが空です');
+  }
+  if (expressionErrors.length > 0) {
+    throw new Error(`${label}: ${expressionErrors.join(', ')}`);
+  }
+
+  if (value.outputFormat !== undefined && !OUTPUT_FORMATS.includes(value.outputFormat as OutputFormat)) {
+    throw new Error(`無効な出力形式です: ${label}`);
+  }
+  if (value.variationAxes !== undefined && !isNumberRecord(value.variationAxes)) {
+    throw new Error(`軸の固定値が不正です: ${label}`);
+  }
+  if (value.variationAxisRanges !== undefined && !isAxisRangeRecord(value.variationAxisRanges)) {
+    throw new Error(`軸の範囲が不正です: ${label}`);
+  }
+  if (value.preserveFeatures !== undefined &&
+      !(isRecord(value.preserveFeatures) && PRESERVE_FEATURE_KEYS.every(key => typeof (value.preserveFeatures as Record<string, unknown>)[key] === 'boolean'))) {
+    throw new Error(`OpenType機能の設定が不正です: ${label}`);
+  }
+  if (value.featureTags !== undefined && !isBooleanRecord(value.featureTags)) {
+    throw new Error(`機能タグの設定が不正です: ${label}`);
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    description: typeof value.description === 'string' && value.description ? value.description : undefined,
+    characterSetExpression: expression as CharacterSetExpression,
+    outputFormat: value.outputFormat as OutputFormat | undefined,
+    variationAxes: value.variationAxes as Record<string, number> | undefined,
+    pinVariationAxes: typeof value.pinVariationAxes === 'boolean' ? value.pinVariationAxes : undefined,
+    variationAxisRanges: value.variationAxisRanges as Record<string, AxisRange> | undefined,
+    preserveFeatures: value.preserveFeatures as PreserveFeatures | undefined,
+    featureTags: value.featureTags as Record<string, boolean> | undefined,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : now,
+  };
+}
+
+/**
+ * プリセットを共有用のJSONに変換
+ */
+export function serializeUserPresets(presets: UserPreset[]): string {
+  const file: UserPresetFile = {
+    format: USER_PRESET_FILE_FORMAT,
+    version: USER_PRESET_FILE_VERSION,
+    presets,
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+/**
+ * 共有用のJSONファイルを読み込む
+ */
+export function parseUserPresetFile(json: string): UserPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('プリセットファイルがJSONとして読み込めません');
+  }
+
+  if (!isRecord(data) || data.format !== USER_PRESET_FILE_FORMAT || !Array.isArray(data.presets)) {
+    throw new Error('FontMinifyのプリセットファイルではありません');
+  }
+  if (typeof data.version !== 'number' || data.version > USER_PRESET_FILE_VERSION) {
+    throw new Error(`対応していないプリセットファイルのバージョンです: ${String(data.version)}`);
+  }
+
+  return data.presets.map(validateUserPreset);
+}
+
+/**
+ * 取り込んだプリセットを既存の一覧に反映（同じIDは上書き、新しいものは末尾に追加）
+ */
+export function mergeUserPresets(existing: UserPreset[], incoming: UserPreset[]): UserPreset[] {
+  const incomingById = new Map(incoming.map(preset => [preset.id, preset]));
+  const merged = existing.map(preset => incomingById.get(preset.id) ?? preset);
+  const existingIds = new Set(existing.map(preset => preset.id));
+  return [...merged, ...incoming.filter(preset => !existingIds.has(preset.id))];
+}
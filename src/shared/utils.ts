@@ -34,6 +34,8 @@ export function getPhaseLabel(phase: string): string {
       return '最適化中';
     case 'compressing':
       return 'WOFF2圧縮中';
+    case 'verifying':
+      return '出力を検証中';
     case 'complete':
       return '完了';
     default:
@@ -54,3 +56,49 @@ export function formatTime(seconds: number): string {
   const remainingSeconds = Math.ceil(seconds % 60);
   return `${minutes}分${remainingSeconds}秒`;
 }
+
+/**
+ * 文字列を重複なしのコードポイント配列に変換
+ * @param text 文字列
+ * @returns コードポイント配列（出現順）
+ */
+export function toCodePoints(text: string): number[] {
+  const codePoints = new Set<number>();
+  for (const char of text) {
+    const codePoint = char.codePointAt(0);
+    if (codePoint !== undefined) {
+      codePoints.add(codePoint);
+    }
+  }
+  return Array.from(codePoints);
+}
+
+/**
+ * コードポイント集合をCSSの unicode-range 記述子に変換
+ * @param codePoints コードポイント集合
+ * @returns unicode-range 文字列（例: [0x41, 0x42, 0x43, 0x3042] → "U+41-43, U+3042"）
+ */
+export function toUnicodeRange(codePoints: Iterable<number>): string {
+  const sorted = Array.from(new Set(codePoints)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  let start = sorted[0];
+  let prev = sorted[0];
+  for (let i = 1; i <= sorted.length; i++) {
+    const current = sorted[i];
+    if (current === prev + 1) {
+      prev = current;
+      continue;
+    }
+    if (start !== undefined) {
+      const startHex = start.toString(16).toUpperCase();
+      ranges.push(
+        start === prev ? `U+${startHex}` : `U+${startHex}-${prev.toString(16).toUpperCase()}`
+      );
+    }
+    start = current;
+    prev = current;
+  }
+
+  return ranges.join(', ');
+}
@@ -1,5 +1,7 @@
 import { SUPPORTED_FONT_FORMATS, MAX_FILE_SIZE } from './constants';
 import { formatFileSize } from './utils';
+import { isValidFeatureTag } from './layoutFeatures';
+import { getCharacterSetExpressionErrors, hasCharacterSetSource } from './presets';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -220,8 +222,29 @@ export function validateSubsetOptions(options: any): ValidationResult {
     }
   }
 
+  // 機能タグの検証
+  if (options.featureTags) {
+    const invalidTags = Object.keys(options.featureTags).filter(tag => !isValidFeatureTag(tag));
+    if (invalidTags.length > 0) {
+      errors.push(`無効な機能タグです: ${invalidTags.join(', ')}`);
+    }
+  }
+
+  // 書体番号の検証
+  if (options.faceIndices !== undefined) {
+    if (!Array.isArray(options.faceIndices) ||
+        options.faceIndices.some((index: unknown) => !Number.isInteger(index) || (index as number) < 0)) {
+      errors.push('書体番号は0以上の整数で指定してください');
+    }
+  }
+
   // プリセットまたはカスタム文字セットの検証
-  if (!options.preset && !options.customCharacters) {
+  if (options.characterSetExpression) {
+    if (!hasCharacterSetSource(options.characterSetExpression)) {
+      errors.push('プリセットまたはカスタム文字セットが必要です');
+    }
+    errors.push(...getCharacterSetExpressionErrors(options.characterSetExpression));
+  } else if (!options.preset && !options.customCharacters) {
     errors.push('プリセットまたはカスタム文字セットが必要です');
   }
 
@@ -8,10 +8,20 @@ declare module 'fontkit' {
     version: string;
     numGlyphs: number;
     unitsPerEm: number;
+    ascent: number;
+    descent: number;
     characterSet: Set<number>;
     availableFeatures: string[];
     variationAxes?: VariationAxis[] | Record<string, VariationAxisInfo>;
     namedInstances?: NamedInstance[];
+    directory: { tables: Record<string, unknown> };
+    glyphForCodePoint(codePoint: number): Glyph;
+  }
+
+  interface Glyph {
+    id: number;
+    advanceWidth: number;
+    path: { commands: unknown[]; toSVG(): string };
   }
 
   interface VariationAxis {
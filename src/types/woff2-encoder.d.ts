@@ -5,4 +5,11 @@ declare module 'woff2-encoder' {
    * @returns WOFF2エンコードされたデータ
    */
   export function compress(data: Uint8Array | ArrayBuffer): Promise<Uint8Array>
+
+  /**
+   * WOFF2データをTTF/OTF形式に展開
+   * @param data WOFF2フォントデータ
+   * @returns 展開されたSFNTデータ
+   */
+  export function decompress(data: Uint8Array | ArrayBuffer): Promise<Uint8Array>
 }
@@ -1,35 +1,104 @@
-import React from 'react'
+import React, { useEffect, useMemo } from 'react'
 import { FileDropZone } from './components/FileDropZone'
 import { ErrorContainer } from './components/ErrorToast'
 import { VariableAxisControl } from './components/VariableAxisControl'
+import { FeatureControl } from './components/FeatureControl'
+import { CoverageSummary } from './components/CoverageSummary'
+import { FaceSelector } from './components/FaceSelector'
+import { TextSourceDropZone } from './components/TextSourceDropZone'
+import { CharacterSetModifierControl } from './components/CharacterSetModifierControl'
+import { UserPresetList } from './components/UserPresetList'
+import { FrequencyPresetControl } from './components/FrequencyPresetControl'
+import { SubsetPreviewPanel } from './components/SubsetPreviewPanel'
+import { TableSizeChart } from './components/TableSizeChart'
 import { useFontStore } from './stores/fontStore'
+import { useSizeEstimate } from './hooks/useSizeEstimate'
 import { CHARACTER_PRESETS } from '../shared/presets'
-import { OutputFormat } from '../shared/types'
+import { formatSizeEstimate } from '../shared/sizeEstimation'
+import { tryGetTableSizes } from '../lib/tableSizes'
+import { FontDisplay, OutputFormat } from '../shared/types'
 
 export function App() {
   const {
     files,
     isProcessing,
     progressState,
+    fileProgress,
+    workerQueue,
     selectedPreset,
     customCharacters,
+    characterSetModifiers,
+    activeUserPresetId,
     outputFormat,
     variationAxesValues,
     pinVariationAxes,
+    variationAxisRanges,
+    exportNamedInstances,
+    preserveFeatures,
+    featureTags,
+    sliceEnabled,
+    sliceCount,
+    lastSlices,
+    lastPreview,
+    generateCss,
+    fontDisplay,
+    woffMetadata,
     setSelectedPreset,
     setCustomCharacters,
+    setCharacterSetModifiers,
+    loadUserPresets,
     setOutputFormat,
     setVariationAxesValues,
     setPinVariationAxes,
+    setVariationAxisRanges,
+    setExportNamedInstances,
+    setPreserveFeatures,
+    setFeatureTags,
+    setSliceEnabled,
+    setSliceCount,
+    setGenerateCss,
+    setFontDisplay,
+    setWoffMetadata,
+    setFaceIndices,
     processFont,
+    processAllFonts,
+    cancelProcessing,
+    lastOutcome,
     errors,
     removeError,
-    getTotalCharacterCount
+    getTotalCharacterCount,
+    getCoverageReport,
+    getEffectiveCharacterSet
   } = useFontStore()
 
+  // 保存済みのユーザー定義プリセットを読み込む
+  useEffect(() => {
+    loadUserPresets()
+  }, [loadUserPresets])
+
   const hasFiles = files.size > 0
   const firstEntry = hasFiles ? Array.from(files.values())[0] : null
   const isReady = firstEntry?.status === 'ready'
+  const readyCount = Array.from(files.values()).filter(entry => entry.status === 'ready').length
+
+  // 選択中の文字セットのうちフォントに収録されていない文字
+  const coverage = useMemo(
+    () => (firstEntry?.analysis ? getCoverageReport(firstEntry.id) : null),
+    [firstEntry, selectedPreset, customCharacters, characterSetModifiers, getCoverageReport]
+  )
+
+  // 処理前に表示する出力サイズの推定値
+  const effectiveCharacterSet = useMemo(
+    () => getEffectiveCharacterSet(),
+    [selectedPreset, customCharacters, characterSetModifiers, getEffectiveCharacterSet]
+  )
+  const sizeEstimate = useSizeEstimate(isReady ? firstEntry : null, effectiveCharacterSet, outputFormat)
+
+  // 元のフォントのテーブルごとのサイズ
+  const tableSizes = useMemo(
+    () => tryGetTableSizes(firstEntry?.data, firstEntry?.analysis?.faceIndex),
+    [firstEntry]
+  )
 
   const handleProcess = async () => {
     if (firstEntry) {
@@ -77,6 +146,30 @@ export function App() {
                   {(firstEntry.analysis.fileSize / 1024 / 1024).toFixed(2)} MB
                 </dd>
               </div>
+              {firstEntry.analysis.colorFormats && firstEntry.analysis.colorFormats.length > 0 && (
+                <div>
+                  <dt className="text-gray-500">カラーフォント</dt>
+                  <dd className="font-medium text-gray-900">
+                    {firstEntry.analysis.colorFormats.join(', ')}
+                    {firstEntry.analysis.hasColorEmoji && '（絵文字）'}
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-gray-500">対応言語</dt>
+                <dd className="font-medium text-gray-900">
+                  {firstEntry.analysis.languages.length > 0 ? firstEntry.analysis.languages.join(', ') : '不明'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">OpenType機能</dt>
+                <dd
+                  className="font-medium text-gray-900"
+                  title={firstEntry.analysis.features.map(f => `${f.tag}: ${f.name}`).join('\n')}
+                >
+                  {firstEntry.analysis.features.length}
+                </dd>
+              </div>
               {firstEntry.analysis.isVariableFont && (
                 <div className="col-span-2">
                   <dt className="text-gray-500">バリアブルフォント</dt>
@@ -85,6 +178,47 @@ export function App() {
               )}
             </dl>
 
+            {/* 収録文字のUnicodeブロック */}
+            {firstEntry.analysis.characterRanges.length > 0 && (
+              <details className="mt-4 text-sm">
+                <summary className="cursor-pointer text-gray-600">
+                  収録ブロック（{firstEntry.analysis.characterRanges.length}）
+                </summary>
+                <ul className="mt-2 grid grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+                  {firstEntry.analysis.characterRanges.map((range) => (
+                    <li key={range.name} className="flex justify-between text-xs">
+                      <span className="text-gray-700 truncate">{range.name}</span>
+                      <span className="text-gray-500 ml-2">
+                        {range.count?.toLocaleString()} / {(range.end - range.start + 1).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {/* テーブルごとのサイズ */}
+            {tableSizes && (
+              <details className="mt-4 text-sm">
+                <summary className="cursor-pointer text-gray-600">
+                  テーブル別サイズ（{tableSizes.tables.length}）
+                </summary>
+                <TableSizeChart breakdown={tableSizes} className="mt-2" />
+              </details>
+            )}
+
+            {/* フォントコレクションの書体選択 */}
+            {firstEntry.analysis.faces && firstEntry.analysis.faces.length > 1 && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <FaceSelector
+                  faces={firstEntry.analysis.faces}
+                  selected={firstEntry.faceIndices}
+                  onChange={(faceIndices) => setFaceIndices(firstEntry.id, faceIndices)}
+                  disabled={isProcessing}
+                />
+              </div>
+            )}
+
             {/* バリアブルフォント軸設定 */}
             {firstEntry.analysis.isVariableFont && firstEntry.analysis.axes && (
               <div className="mt-6 pt-6 border-t border-gray-200">
@@ -94,6 +228,12 @@ export function App() {
                   onChange={setVariationAxesValues}
                   pinAxes={pinVariationAxes}
                   onPinAxesChange={setPinVariationAxes}
+                  ranges={variationAxisRanges}
+                  onRangesChange={setVariationAxisRanges}
+                  namedInstances={firstEntry.analysis.namedInstances}
+                  exportInstances={exportNamedInstances}
+                  onExportInstancesChange={setExportNamedInstances}
+                  exportInstancesDisabled={sliceEnabled}
                 />
               </div>
             )}
@@ -110,7 +250,7 @@ export function App() {
                 <label
                   key={preset.id}
                   className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
-                    selectedPreset === preset.id
+                    !activeUserPresetId && selectedPreset === preset.id
                       ? 'border-blue-500 bg-blue-50'
                       : 'border-gray-200 hover:border-gray-300'
                   }`}
@@ -119,7 +259,7 @@ export function App() {
                     type="radio"
                     name="preset"
                     value={preset.id}
-                    checked={selectedPreset === preset.id}
+                    checked={!activeUserPresetId && selectedPreset === preset.id}
                     onChange={() => setSelectedPreset(preset.id)}
                     className="sr-only"
                   />
@@ -133,10 +273,16 @@ export function App() {
                 </label>
               ))}
 
+              {/* 頻出漢字の上位N字 */}
+              <FrequencyPresetControl />
+
+              {/* ユーザー定義プリセット */}
+              <UserPresetList />
+
               {/* カスタム入力 */}
               <label
                 className={`flex items-start p-3 border rounded-lg cursor-pointer transition-colors ${
-                  selectedPreset === 'custom'
+                  !activeUserPresetId && selectedPreset === 'custom'
                     ? 'border-blue-500 bg-blue-50'
                     : 'border-gray-200 hover:border-gray-300'
                 }`}
@@ -145,29 +291,40 @@ export function App() {
                   type="radio"
                   name="preset"
                   value="custom"
-                  checked={selectedPreset === 'custom'}
+                  checked={!activeUserPresetId && selectedPreset === 'custom'}
                   onChange={() => setSelectedPreset('custom')}
                   className="sr-only"
                 />
                 <div className="flex-1">
                   <div className="font-medium text-gray-900">カスタム</div>
                   <div className="text-sm text-gray-500 mb-2">使用する文字を直接入力</div>
-                  {selectedPreset === 'custom' && (
-                    <textarea
-                      value={customCharacters}
-                      onChange={(e) => setCustomCharacters(e.target.value)}
-                      placeholder="ここに使用する文字を入力..."
-                      className="w-full h-24 p-2 border border-gray-300 rounded text-sm resize-none focus:ring-blue-500 focus:border-blue-500"
-                      onClick={(e) => e.stopPropagation()}
-                    />
+                  {!activeUserPresetId && selectedPreset === 'custom' && (
+                    <>
+                      <textarea
+                        value={customCharacters}
+                        onChange={(e) => setCustomCharacters(e.target.value)}
+                        placeholder="ここに使用する文字を入力..."
+                        className="w-full h-24 p-2 border border-gray-300 rounded text-sm resize-none focus:ring-blue-500 focus:border-blue-500"
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                      <TextSourceDropZone />
+                    </>
                   )}
                 </div>
               </label>
             </div>
 
+            <CharacterSetModifierControl
+              modifiers={characterSetModifiers}
+              onChange={setCharacterSetModifiers}
+              className="mt-4"
+            />
+
             <div className="mt-4 text-sm text-gray-500">
               選択中の文字数: <span className="font-medium">{getTotalCharacterCount().toLocaleString()}</span>
             </div>
+
+            <CoverageSummary report={coverage} className="mt-3" />
           </div>
         )}
 
@@ -197,6 +354,100 @@ export function App() {
                 </button>
               ))}
             </div>
+
+            {/* WOFF拡張メタデータ */}
+            {outputFormat === 'woff' && (
+              <div className="mt-4">
+                <label className="block text-sm text-gray-700 mb-1">
+                  拡張メタデータ（任意）
+                </label>
+                <textarea
+                  value={woffMetadata}
+                  onChange={(e) => setWoffMetadata(e.target.value)}
+                  placeholder={'<?xml version="1.0" encoding="UTF-8"?>\n<metadata version="1.0">\n  <vendor name="..." />\n</metadata>'}
+                  rows={4}
+                  className="w-full p-2 border border-gray-300 rounded-md font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-0.5">
+                  WOFFファイルに埋め込むXMLです。ライセンスや作者情報を記載できます。
+                </p>
+              </div>
+            )}
+
+            {/* OpenType機能 */}
+            <FeatureControl
+              className="mt-4 pt-4 border-t border-gray-200"
+              preserveFeatures={preserveFeatures}
+              featureTags={featureTags}
+              onPreserveFeaturesChange={setPreserveFeatures}
+              onFeatureTagsChange={setFeatureTags}
+              fontFeatureTags={firstEntry?.analysis?.features.map(f => f.tag)}
+            />
+
+            {/* unicode-range分割 */}
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={sliceEnabled}
+                  onChange={(e) => setSliceEnabled(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 text-blue-500 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <div>
+                  <span className="text-sm text-gray-700">unicode-rangeで分割して出力</span>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    文字を使用頻度順に分割し、複数のWOFF2ファイルとして出力します。
+                    ページで使われる文字を含むファイルだけが読み込まれます。
+                  </p>
+                </div>
+              </label>
+              {sliceEnabled && (
+                <div className="mt-3 flex items-center space-x-3">
+                  <span className="text-sm text-gray-700">分割数</span>
+                  <input
+                    type="range"
+                    min={2}
+                    max={100}
+                    value={sliceCount}
+                    onChange={(e) => setSliceCount(Number(e.target.value))}
+                    className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                  <span className="text-sm font-mono text-blue-600 w-10 text-right">{sliceCount}</span>
+                </div>
+              )}
+            </div>
+
+            {/* @font-face CSS生成 */}
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={generateCss}
+                  onChange={(e) => setGenerateCss(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 text-blue-500 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <div>
+                  <span className="text-sm text-gray-700">@font-face CSSを生成</span>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    フォントと一緒に、そのまま読み込めるスタイルシートをダウンロードします。
+                  </p>
+                </div>
+              </label>
+              {generateCss && (
+                <div className="mt-3 flex items-center space-x-3">
+                  <span className="text-sm text-gray-700">font-display</span>
+                  <select
+                    value={fontDisplay}
+                    onChange={(e) => setFontDisplay(e.target.value as FontDisplay)}
+                    className="text-sm border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    {(['swap', 'fallback', 'optional', 'block', 'auto'] as FontDisplay[]).map((value) => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
           </div>
         )}
 
@@ -210,13 +461,69 @@ export function App() {
             >
               サブセット化してダウンロード
             </button>
+            {readyCount > 1 && (
+              <button
+                onClick={processAllFonts}
+                disabled={!selectedPreset && !customCharacters}
+                className="mt-3 w-full bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-medium py-3 px-6 rounded-lg transition-colors disabled:cursor-not-allowed"
+              >
+                すべてのフォント（{readyCount}件）をサブセット化
+              </button>
+            )}
+            {sizeEstimate && (
+              <p className="mt-2 text-sm text-gray-500 text-center">
+                推定出力サイズ: {formatSizeEstimate(sizeEstimate)}
+                {!sizeEstimate.calibrated && '（概算）'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* キャンセル表示 */}
+        {!isProcessing && lastOutcome === 'cancelled' && (
+          <p className="mt-4 text-sm text-gray-500 text-center">処理をキャンセルしました</p>
+        )}
+
+        {/* 出力結果のプレビュー */}
+        {!isProcessing && lastPreview && (
+          <SubsetPreviewPanel preview={lastPreview} className="mt-6" />
+        )}
+
+        {/* 分割結果 */}
+        {!isProcessing && lastSlices.length > 0 && (
+          <div className="mt-6 bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">
+              分割結果（{lastSlices.length}ファイル）
+            </h2>
+            <ul className="space-y-2 text-xs max-h-64 overflow-auto">
+              {lastSlices.map((slice) => (
+                <li key={slice.fileName} className="border-b border-gray-100 pb-2">
+                  <div className="flex justify-between text-gray-700">
+                    <span className="font-medium">{slice.fileName}</span>
+                    <span>
+                      {slice.characterCount.toLocaleString()}文字 / {(slice.outputSize / 1024).toFixed(1)} KB
+                    </span>
+                  </div>
+                  <div className="font-mono text-gray-500 break-all">{slice.unicodeRange}</div>
+                </li>
+              ))}
+            </ul>
           </div>
         )}
 
         {/* 処理中表示 */}
         {isProcessing && progressState && (
           <div className="mt-6 bg-white rounded-lg shadow p-6">
-            <h2 className="text-lg font-semibold text-gray-800 mb-4">処理中...</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-800">処理中...</h2>
+              <button
+                type="button"
+                onClick={cancelProcessing}
+                className="text-sm text-gray-600 border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded-lg transition-colors"
+              >
+                キャンセル
+              </button>
+            </div>
 
             <div className="mb-2 flex justify-between text-sm">
               <span className="text-gray-600">{progressState.message}</span>
@@ -229,6 +536,30 @@ export function App() {
                 style={{ width: `${progressState.progress}%` }}
               />
             </div>
+
+            {/* ファイルごとの進捗 */}
+            {Object.keys(fileProgress).length > 0 && (
+              <ul className="mt-4 space-y-2 text-xs">
+                {Object.entries(fileProgress).map(([fileId, progress]) => (
+                  <li key={fileId}>
+                    <div className="flex justify-between text-gray-600">
+                      <span className="truncate">{files.get(fileId)?.file.name}</span>
+                      <span>{progress.progress}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-1.5">
+                      <div
+                        className="bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                        style={{ width: `${progress.progress}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <p className="mt-4 text-xs text-gray-500">
+              Worker: {workerQueue.busyWorkers}/{workerQueue.workerCount} 実行中・待機中 {workerQueue.queuedRequests}件
+            </p>
           </div>
         )}
       </main>
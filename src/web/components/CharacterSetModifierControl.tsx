@@ -0,0 +1,106 @@
+import React from 'react'
+import {
+  CHARACTER_SET_COMPONENTS,
+  COMMON_EXCLUDE_RANGES,
+  CharacterSetModifiers,
+  parseCodePointRanges
+} from '../../shared/presets'
+
+interface CharacterSetModifierControlProps {
+  modifiers: CharacterSetModifiers
+  onChange: (modifiers: Partial<CharacterSetModifiers>) => void
+  className?: string
+}
+
+/**
+ * 選択中の文字セットへの追加・除外を設定するコントロール
+ */
+export const CharacterSetModifierControl: React.FC<CharacterSetModifierControlProps> = ({
+  modifiers,
+  onChange,
+  className = '',
+}) => {
+  const { invalid } = parseCodePointRanges(modifiers.excludeRanges)
+  const hasModifiers = modifiers.addSets.length > 0 || !!modifiers.addText || !!modifiers.excludeRanges || !!modifiers.excludeText
+
+  const handleSetChange = (id: string, checked: boolean) => {
+    onChange({
+      addSets: checked ? [...modifiers.addSets, id] : modifiers.addSets.filter(set => set !== id)
+    })
+  }
+
+  const handleAddExcludeRange = (ranges: string) => {
+    onChange({ excludeRanges: [modifiers.excludeRanges.trim(), ranges].filter(Boolean).join(', ') })
+  }
+
+  return (
+    <details className={`text-sm ${className}`} open={hasModifiers}>
+      <summary className="cursor-pointer text-gray-600">文字の追加・除外</summary>
+
+      <div className="mt-3 space-y-3">
+        <div>
+          <div className="text-xs font-medium text-gray-700 mb-1">文字セットを追加</div>
+          <div className="grid grid-cols-2 gap-1">
+            {CHARACTER_SET_COMPONENTS.map(({ id, name }) => (
+              <label key={id} className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={modifiers.addSets.includes(id)}
+                  onChange={(e) => handleSetChange(id, e.target.checked)}
+                  className="w-3.5 h-3.5 text-blue-500 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-xs text-gray-700">{name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-700 mb-1 block">追加する文字</label>
+          <textarea
+            value={modifiers.addText}
+            onChange={(e) => onChange({ addText: e.target.value })}
+            placeholder="製品名など、必ず含める文字"
+            className="w-full h-16 p-2 border border-gray-300 rounded text-sm resize-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-700 mb-1 block">除外するコードポイント範囲</label>
+          <input
+            type="text"
+            value={modifiers.excludeRanges}
+            onChange={(e) => onChange({ excludeRanges: e.target.value })}
+            placeholder="U+FF61-FF9F, U+3000"
+            className="w-full p-2 border border-gray-300 rounded text-sm font-mono focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="mt-1 flex flex-wrap gap-1">
+            {COMMON_EXCLUDE_RANGES.map(({ name, ranges }) => (
+              <button
+                key={ranges}
+                type="button"
+                onClick={() => handleAddExcludeRange(ranges)}
+                className="text-xs px-2 py-0.5 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+          {invalid.length > 0 && (
+            <p className="mt-1 text-xs text-red-600">解析できない範囲: {invalid.join(', ')}（例: U+FF61-FF9F）</p>
+          )}
+        </div>
+
+        <div>
+          <label className="text-xs font-medium text-gray-700 mb-1 block">除外する文字</label>
+          <input
+            type="text"
+            value={modifiers.excludeText}
+            onChange={(e) => onChange({ excludeText: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded text-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+    </details>
+  )
+}
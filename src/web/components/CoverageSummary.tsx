@@ -0,0 +1,55 @@
+import React from 'react'
+import { CoverageReport } from '../../shared/types'
+import { CHAR_CATEGORY_LABELS } from '../../shared/coverage'
+
+interface CoverageSummaryProps {
+  report: CoverageReport | null
+  className?: string
+}
+
+// カテゴリごとに表示する不足文字の上限
+const MAX_VISIBLE_CHARACTERS = 100
+
+export const CoverageSummary: React.FC<CoverageSummaryProps> = ({ report, className = '' }) => {
+  if (!report || report.requestedCount === 0) {
+    return null
+  }
+
+  if (report.missingCount === 0) {
+    return (
+      <p className={`text-sm text-green-600 ${className}`}>
+        選択した文字はすべてフォントに収録されています
+      </p>
+    )
+  }
+
+  return (
+    <div className={`p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm ${className}`}>
+      <p className="text-amber-700 font-medium">
+        {report.missingCount.toLocaleString()}字がフォントに収録されていません
+        <span className="ml-1 font-normal">
+          （収録 {report.coveredCount.toLocaleString()} / {report.requestedCount.toLocaleString()}字）
+        </span>
+      </p>
+      <p className="mt-1 text-xs text-amber-600">これらの文字はサブセットに含まれず、代替フォントで表示されます。</p>
+      <dl className="mt-2 space-y-1">
+        {report.missing.map(({ category, characters }) => {
+          const chars = Array.from(characters)
+          return (
+            <div key={category} className="text-xs">
+              <dt className="text-gray-600">
+                {CHAR_CATEGORY_LABELS[category]}（{chars.length.toLocaleString()}字）
+              </dt>
+              <dd className="text-gray-900 break-all">
+                {chars.slice(0, MAX_VISIBLE_CHARACTERS).join('')}
+                {chars.length > MAX_VISIBLE_CHARACTERS && (
+                  <span className="text-gray-500"> 他{(chars.length - MAX_VISIBLE_CHARACTERS).toLocaleString()}字</span>
+                )}
+              </dd>
+            </div>
+          )
+        })}
+      </dl>
+    </div>
+  )
+}
@@ -88,6 +88,8 @@ export function ErrorToast({ error, index, onDismiss, onRetry }: ErrorToastProps
         return '圧縮エラー'
       case ErrorType.VALIDATION_FAILED:
         return '検証エラー'
+      case ErrorType.SUBSET_VERIFICATION_FAILED:
+        return '出力検証エラー'
       case ErrorType.WASM_LOAD_FAILED:
         return 'WASMエラー'
       case ErrorType.WORKER_ERROR:
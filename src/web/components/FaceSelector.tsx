@@ -0,0 +1,62 @@
+import React from 'react'
+import { CollectionFace } from '../../shared/types'
+
+interface FaceSelectorProps {
+  faces: CollectionFace[]
+  selected: number[]
+  onChange: (faceIndices: number[]) => void
+  disabled?: boolean
+}
+
+/**
+ * フォントコレクション（TTC/OTC）から出力する書体を選択
+ */
+export const FaceSelector: React.FC<FaceSelectorProps> = ({ faces, selected, onChange, disabled = false }) => {
+  const toggleFace = (index: number) => {
+    const next = selected.includes(index)
+      ? selected.filter(i => i !== index)
+      : [...selected, index]
+    // 最低1書体は選択したままにする
+    if (next.length > 0) {
+      onChange(next)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">書体（{faces.length}書体を収録）</h3>
+        <button
+          type="button"
+          onClick={() => onChange(faces.map(face => face.index))}
+          disabled={disabled || selected.length === faces.length}
+          className="text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          すべて選択
+        </button>
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {faces.map(face => (
+          <li key={face.index}>
+            <label className="flex items-center text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(face.index)}
+                onChange={() => toggleFace(face.index)}
+                disabled={disabled}
+                className="mr-2"
+              />
+              <span className="text-gray-900">{face.fontFamily} {face.fontSubfamily}</span>
+              <span className="ml-2 text-xs text-gray-500 truncate">
+                {face.postscriptName} / {face.glyphCount.toLocaleString()}グリフ
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {selected.length > 1 && (
+        <p className="mt-2 text-xs text-gray-500">選択した書体ごとに別のファイルとして出力します</p>
+      )}
+    </div>
+  )
+}
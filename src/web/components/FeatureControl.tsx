@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react'
+import { PreserveFeatures } from '../../shared/types'
+import { LAYOUT_FEATURES, getFeatureName, isFeatureKept } from '../../shared/layoutFeatures'
+
+interface FeatureControlProps {
+  preserveFeatures: PreserveFeatures
+  featureTags: Record<string, boolean>
+  onPreserveFeaturesChange: (features: PreserveFeatures) => void
+  onFeatureTagsChange: (tags: Record<string, boolean>) => void
+  /** フォントに含まれる機能タグ（一覧に追加表示） */
+  fontFeatureTags?: string[]
+  className?: string
+}
+
+const FEATURE_SWITCHES: { key: keyof PreserveFeatures; label: string; description: string }[] = [
+  { key: 'kerning', label: 'カーニング', description: 'kern・kernテーブル' },
+  { key: 'ligatures', label: '合字', description: 'liga・clig・dlig・hlig' },
+  { key: 'verticalMetrics', label: '縦書き', description: 'vert・vrt2・縦書きメトリクス' },
+  { key: 'hinting', label: 'ヒンティング', description: '小サイズ表示用の命令' },
+]
+
+export const FeatureControl: React.FC<FeatureControlProps> = ({
+  preserveFeatures,
+  featureTags,
+  onPreserveFeaturesChange,
+  onFeatureTagsChange,
+  fontFeatureTags = [],
+  className = '',
+}) => {
+  const tags = useMemo(
+    () => Array.from(new Set([...LAYOUT_FEATURES.map(f => f.tag), ...fontFeatureTags])),
+    [fontFeatureTags]
+  )
+
+  const handleTagChange = (tag: string, keep: boolean) => {
+    onFeatureTagsChange({ ...featureTags, [tag]: keep })
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <h3 className="text-sm font-semibold text-gray-800">OpenType機能</h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        {FEATURE_SWITCHES.map(({ key, label, description }) => (
+          <label key={key} className="flex items-start space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preserveFeatures[key]}
+              onChange={(e) => onPreserveFeaturesChange({ ...preserveFeatures, [key]: e.target.checked })}
+              className="mt-0.5 w-4 h-4 text-blue-500 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <div>
+              <span className="text-sm text-gray-700">{label}を保持</span>
+              <p className="text-xs text-gray-500">{description}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {!preserveFeatures.verticalMetrics && (
+        <p className="text-xs text-amber-600">
+          縦書き機能を削除すると、縦組みで約物や括弧が正しく回転しなくなります。
+        </p>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600">機能タグを個別に設定</summary>
+        <div className="mt-2 grid grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+          {tags.map((tag) => (
+            <label key={tag} className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isFeatureKept(tag, preserveFeatures, featureTags)}
+                onChange={(e) => handleTagChange(tag, e.target.checked)}
+                className="w-3.5 h-3.5 text-blue-500 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="font-mono text-xs text-gray-700">{tag}</span>
+              <span className="text-xs text-gray-500 truncate">{getFeatureName(tag)}</span>
+            </label>
+          ))}
+        </div>
+        {Object.keys(featureTags).length > 0 && (
+          <button
+            onClick={() => onFeatureTagsChange({})}
+            className="mt-2 text-xs px-2 py-1 text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            個別設定をリセット
+          </button>
+        )}
+      </details>
+    </div>
+  )
+}
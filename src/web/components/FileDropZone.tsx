@@ -7,9 +7,7 @@ export function FileDropZone() {
   const [validationErrors, setValidationErrors] = useState<string[]>([])
   const { addFiles, files, isProcessing, processFont, setDragOverState } = useFontStore()
 
-  const hasFiles = files.size > 0
-  const firstEntry = hasFiles ? Array.from(files.values())[0] : null
-  const isReady = firstEntry?.status === 'ready'
+  const entries = Array.from(files.values())
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -57,7 +55,7 @@ export function FileDropZone() {
     const input = document.createElement('input')
     input.type = 'file'
     input.multiple = true
-    input.accept = '.ttf,.otf,.woff,.woff2'
+    input.accept = '.ttf,.otf,.woff,.woff2,.ttc,.otc'
 
     input.onchange = async () => {
       const selectedFiles = Array.from(input.files || [])
@@ -87,10 +85,8 @@ export function FileDropZone() {
     input.click()
   }
 
-  const handleProcess = async () => {
-    if (firstEntry) {
-      await processFont(firstEntry.id)
-    }
+  const handleProcess = async (fileId: string) => {
+    await processFont(fileId)
   }
 
   return (
@@ -134,21 +130,21 @@ export function FileDropZone() {
       </div>
 
       {/* ファイル情報表示 */}
-      {firstEntry && (
-        <div className="w-full max-w-xl mt-4 p-4 bg-white rounded-lg shadow">
+      {entries.map((entry) => (
+        <div key={entry.id} className="w-full max-w-xl mt-4 p-4 bg-white rounded-lg shadow">
           <div className="flex items-center justify-between">
             <div>
-              <p className="font-medium text-gray-800">{firstEntry.file.name}</p>
+              <p className="font-medium text-gray-800">{entry.file.name}</p>
               <p className="text-sm text-gray-500">
-                {firstEntry.status === 'analyzing' && '解析中...'}
-                {firstEntry.status === 'ready' && `${(firstEntry.file.size / 1024 / 1024).toFixed(2)} MB`}
-                {firstEntry.status === 'error' && `エラー: ${firstEntry.error}`}
+                {entry.status === 'analyzing' && '解析中...'}
+                {entry.status === 'ready' && `${(entry.file.size / 1024 / 1024).toFixed(2)} MB`}
+                {entry.status === 'error' && `エラー: ${entry.error}`}
               </p>
             </div>
-            {isReady && !isProcessing && (
+            {entry.status === 'ready' && !isProcessing && (
               <button
                 type="button"
-                onClick={handleProcess}
+                onClick={() => handleProcess(entry.id)}
                 className="bg-green-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-600 transition-colors"
               >
                 サブセット化
@@ -156,7 +152,7 @@ export function FileDropZone() {
             )}
           </div>
         </div>
-      )}
+      ))}
 
       {/* バリデーションエラー表示 */}
       {validationErrors.length > 0 && (
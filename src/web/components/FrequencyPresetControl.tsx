@@ -0,0 +1,82 @@
+import { useMemo, useState } from 'react'
+import { useFontStore } from '../stores/fontStore'
+import { useSizeEstimate } from '../hooks/useSizeEstimate'
+import {
+  DEFAULT_FREQUENCY_KANJI_COUNT,
+  MAX_FREQUENCY_KANJI_COUNT,
+  evaluateCharacterSet,
+  getFrequencyPresetId,
+  getPresetDefinition,
+  parseFrequencyPresetId
+} from '../../shared/presets'
+import { formatSizeEstimate } from '../../shared/sizeEstimation'
+
+// スライダーの刻み（字）
+const FREQUENCY_STEP = 100
+
+/**
+ * 出現頻度の高い漢字の上位N字を含むプリセットの選択
+ * スライダーの操作に合わせて出力サイズの推定値をWorkerで計算する
+ */
+export function FrequencyPresetControl() {
+  const {
+    files,
+    selectedPreset,
+    activeUserPresetId,
+    characterSetModifiers,
+    outputFormat,
+    setSelectedPreset
+  } = useFontStore()
+  const selectedCount = activeUserPresetId ? undefined : parseFrequencyPresetId(selectedPreset)
+  const isSelected = selectedCount !== undefined
+  const [count, setCount] = useState(selectedCount ?? DEFAULT_FREQUENCY_KANJI_COUNT)
+  const presetId = getFrequencyPresetId(count)
+  const firstEntry = files.size > 0 ? Array.from(files.values())[0] : null
+  const text = useMemo(
+    () => evaluateCharacterSet({ ...characterSetModifiers, basePreset: presetId }),
+    [characterSetModifiers, presetId]
+  )
+  const estimate = useSizeEstimate(firstEntry, text, outputFormat)
+
+  const handleCountChange = (value: number) => {
+    setCount(value)
+    setSelectedPreset(getFrequencyPresetId(value))
+  }
+
+  return (
+    <div
+      onClick={() => !isSelected && setSelectedPreset(presetId)}
+      className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+        isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+      }`}
+    >
+      <div className="flex items-center">
+        <div className="flex-1">
+          <div className="font-medium text-gray-900">頻出漢字 上位{count.toLocaleString()}字</div>
+          <div className="text-sm text-gray-500">新聞での出現頻度が高い順に漢字を含めます</div>
+        </div>
+        <div className="text-sm text-gray-400">
+          約{getPresetDefinition(presetId)?.characterCount.toLocaleString()}文字
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={FREQUENCY_STEP}
+        max={MAX_FREQUENCY_KANJI_COUNT}
+        step={FREQUENCY_STEP}
+        value={count}
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => handleCountChange(Number(e.target.value))}
+        className="w-full mt-2 accent-blue-500"
+        aria-label="含める漢字の数"
+      />
+
+      <div className="text-sm text-gray-500">
+        {estimate
+          ? `推定サイズ: ${formatSizeEstimate(estimate)}`
+          : '推定サイズ: 計算中...'}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react'
+import { useFontStore } from '../stores/fontStore'
+import {
+  collectTextSourcesFromDataTransfer,
+  collectTextSourcesFromFileList
+} from '../services/textSourceHandler'
+
+/**
+ * サイトのソース（HTML/JSX/Vue/Markdown/JSON/PO）から文字セットを抽出するドロップゾーン
+ */
+export function TextSourceDropZone() {
+  const [isOver, setIsOver] = useState(false)
+  const { importTextSources, isExtractingText, textExtraction } = useFontStore()
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsOver(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsOver(false)
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsOver(false)
+    await importTextSources(await collectTextSourcesFromDataTransfer(e.dataTransfer.items))
+  }
+
+  const handleFolderSelect = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.multiple = true
+    input.webkitdirectory = true
+
+    input.onchange = async () => {
+      await importTextSources(collectTextSourcesFromFileList(input.files || []))
+    }
+
+    input.click()
+  }
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <div
+        className={`p-3 border-2 border-dashed rounded text-center text-sm transition-colors ${
+          isOver ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+        }`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isExtractingText ? (
+          <span className="text-gray-500">文字を抽出中...</span>
+        ) : (
+          <>
+            <span className="text-gray-500">サイトのフォルダをドロップして使用文字を抽出、または </span>
+            <button
+              type="button"
+              onClick={handleFolderSelect}
+              className="text-blue-600 hover:text-blue-700 underline"
+            >
+              フォルダを選択
+            </button>
+          </>
+        )}
+      </div>
+      {textExtraction && !isExtractingText && (
+        <div className="mt-1 text-xs text-gray-500">
+          {textExtraction.fileCount}ファイルから{Array.from(textExtraction.characters).length.toLocaleString()}文字を抽出しました
+          {textExtraction.skippedFiles.length > 0 && `（${textExtraction.skippedFiles.length}ファイルをスキップ）`}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react'
+import { useFontStore } from '../stores/fontStore'
+import { getUserPresetCharacterCount } from '../../shared/userPresets'
+
+/**
+ * ユーザー定義プリセットの一覧と保存・読み込み・書き出し
+ */
+export function UserPresetList() {
+  const [name, setName] = useState('')
+  const {
+    userPresets,
+    activeUserPresetId,
+    saveUserPreset,
+    applyUserPreset,
+    deleteUserPreset,
+    importUserPresets,
+    exportUserPresets
+  } = useFontStore()
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      return
+    }
+    await saveUserPreset(name)
+    setName('')
+  }
+
+  const handleImport = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json,application/json'
+
+    input.onchange = async () => {
+      const file = input.files?.[0]
+      if (file) {
+        await importUserPresets(file)
+      }
+    }
+
+    input.click()
+  }
+
+  return (
+    <div className="space-y-3">
+      {userPresets.map((preset) => (
+        <div
+          key={preset.id}
+          onClick={() => applyUserPreset(preset.id)}
+          className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
+            activeUserPresetId === preset.id
+              ? 'border-blue-500 bg-blue-50'
+              : 'border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          <div className="flex-1">
+            <div className="font-medium text-gray-900">
+              {preset.name}
+              <span className="ml-2 text-xs px-1.5 py-0.5 bg-gray-100 text-gray-500 rounded">保存済み</span>
+            </div>
+            {preset.description && <div className="text-sm text-gray-500">{preset.description}</div>}
+          </div>
+          <div className="text-sm text-gray-400">
+            {getUserPresetCharacterCount(preset).toLocaleString()}文字
+          </div>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation()
+              deleteUserPreset(preset.id)
+            }}
+            className="ml-3 text-gray-400 hover:text-red-500"
+            aria-label={`${preset.name}を削除`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="現在の設定をプリセットとして保存"
+          className="flex-1 p-2 border border-gray-300 rounded text-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-2 text-sm bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white rounded"
+        >
+          保存
+        </button>
+      </div>
+
+      <div className="flex gap-3 text-sm">
+        <button type="button" onClick={handleImport} className="text-blue-600 hover:text-blue-700">
+          プリセットを読み込む
+        </button>
+        {userPresets.length > 0 && (
+          <button type="button" onClick={exportUserPresets} className="text-blue-600 hover:text-blue-700">
+            JSONに書き出す
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
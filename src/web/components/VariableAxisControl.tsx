@@ -1,5 +1,6 @@
 import React, { useCallback } from 'react'
-import { VariableAxis } from '../../shared/types'
+import { AxisRange, NamedInstance, VariableAxis } from '../../shared/types'
+import { clampAxisRange, getFullAxisRange, getRestrictedAxisRanges } from '../../shared/axisRanges'
 
 interface VariableAxisControlProps {
   axes: VariableAxis[]
@@ -7,6 +8,12 @@ interface VariableAxisControlProps {
   onChange: (values: Record<string, number>) => void
   pinAxes: boolean
   onPinAxesChange: (pin: boolean) => void
+  ranges?: Record<string, AxisRange>
+  onRangesChange?: (ranges: Record<string, AxisRange>) => void
+  namedInstances?: NamedInstance[]
+  exportInstances?: boolean
+  onExportInstancesChange?: (exportInstances: boolean) => void
+  exportInstancesDisabled?: boolean // unicode-range分割など、インスタンス出力と併用できない設定が有効
   className?: string
 }
 
@@ -31,12 +38,68 @@ const AXIS_PRESETS: Record<string, { name: string; value: number }[]> = {
   ],
 }
 
+interface AxisRangeSliderProps {
+  axis: VariableAxis
+  range: AxisRange
+  onChange: (min: number, max: number) => void
+}
+
+// 最小値・最大値の2つのつまみを持つ範囲スライダー
+const AxisRangeSlider: React.FC<AxisRangeSliderProps> = ({ axis, range, onChange }) => {
+  const span = axis.max - axis.min || 1
+  const left = ((range.min - axis.min) / span) * 100
+  const right = ((range.max - axis.min) / span) * 100
+  // 重ねた2つの input のうち、つまみ部分だけがポインター操作を受け取るようにする
+  const thumbClass = 'absolute inset-0 w-full h-2 appearance-none bg-transparent pointer-events-none '
+    + '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none '
+    + '[&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full '
+    + '[&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:cursor-pointer '
+    + '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 '
+    + '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-blue-500 [&::-moz-range-thumb]:border-0'
+
+  return (
+    <div className="relative flex-1 h-2">
+      <div className="absolute inset-0 bg-gray-200 rounded-lg" />
+      <div
+        className="absolute inset-y-0 bg-blue-400 rounded-lg"
+        style={{ left: `${left}%`, width: `${right - left}%` }}
+      />
+      <input
+        type="range"
+        aria-label={`${axis.tag} 最小値`}
+        min={axis.min}
+        max={axis.max}
+        step={span / 100}
+        value={range.min}
+        onChange={(e) => onChange(Math.min(Number(e.target.value), range.max), range.max)}
+        className={thumbClass}
+      />
+      <input
+        type="range"
+        aria-label={`${axis.tag} 最大値`}
+        min={axis.min}
+        max={axis.max}
+        step={span / 100}
+        value={range.max}
+        onChange={(e) => onChange(range.min, Math.max(Number(e.target.value), range.min))}
+        className={thumbClass}
+      />
+    </div>
+  )
+}
+
 export const VariableAxisControl: React.FC<VariableAxisControlProps> = ({
   axes,
   values,
   onChange,
   pinAxes,
   onPinAxesChange,
+  ranges = {},
+  onRangesChange,
+  namedInstances = [],
+  exportInstances = false,
+  onExportInstancesChange,
+  exportInstancesDisabled = false,
   className = '',
 }) => {
   const handleSliderChange = useCallback(
@@ -59,7 +122,20 @@ export const VariableAxisControl: React.FC<VariableAxisControlProps> = ({
       defaultValues[axis.tag] = axis.default
     })
     onChange(defaultValues)
-  }, [axes, onChange])
+    onRangesChange?.({})
+  }, [axes, onChange, onRangesChange])
+
+  // 範囲を狭めた軸だけを残して通知する
+  const handleRangeChange = useCallback(
+    (axis: VariableAxis, min: number, max: number) => {
+      const next = { ...ranges, [axis.tag]: clampAxisRange(axis, { min, max }) }
+      onRangesChange?.(getRestrictedAxisRanges(axes, next) ?? {})
+    },
+    [axes, ranges, onRangesChange]
+  )
+
+  // 軸値を固定しない場合は、残す範囲を指定する
+  const showRanges = !pinAxes && !!onRangesChange
 
   const getAxisLabel = (axis: VariableAxis) => {
     return AXIS_LABELS[axis.tag] || `${axis.name} (${axis.tag})`
@@ -89,12 +165,49 @@ export const VariableAxisControl: React.FC<VariableAxisControlProps> = ({
         </button>
       </div>
 
+      {showRanges && (
+        <p className="text-xs text-gray-500">
+          範囲外のデザインを削除し、範囲内はバリアブルのまま残します。
+        </p>
+      )}
+
       {/* 軸スライダー */}
       <div className="space-y-4">
         {axes.map((axis) => {
           const currentValue = values[axis.tag] ?? axis.default
           const presets = getPresets(axis)
 
+          if (showRanges) {
+            const range = ranges[axis.tag] ?? getFullAxisRange(axis)
+            return (
+              <div key={axis.tag} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm text-gray-700">
+                    {getAxisLabel(axis)}
+                  </label>
+                  <span className="text-sm font-mono text-blue-600">
+                    {Math.round(range.min)}〜{Math.round(range.max)}
+                  </span>
+                </div>
+
+                {/* 範囲スライダー */}
+                <div className="flex items-center space-x-3">
+                  <span className="text-xs text-gray-500 w-8 text-right">
+                    {axis.min}
+                  </span>
+                  <AxisRangeSlider
+                    axis={axis}
+                    range={range}
+                    onChange={(min, max) => handleRangeChange(axis, min, max)}
+                  />
+                  <span className="text-xs text-gray-500 w-8">
+                    {axis.max}
+                  </span>
+                </div>
+              </div>
+            )
+          }
+
           return (
             <div key={axis.tag} className="space-y-2">
               <div className="flex items-center justify-between">
@@ -164,10 +277,50 @@ export const VariableAxisControl: React.FC<VariableAxisControlProps> = ({
             <p className="text-xs text-gray-500 mt-0.5">
               チェックを入れると、選択した軸値で固定され、バリアブル機能は失われますが、
               ファイルサイズが大幅に削減されます。
+              外すと、軸ごとに残す範囲を指定できます。
             </p>
           </div>
         </label>
       </div>
+
+      {/* 名前付きインスタンスの一括出力 */}
+      {namedInstances.length > 0 && onExportInstancesChange && (
+        <div className="pt-3 border-t border-gray-200">
+          <label className={`flex items-start space-x-3 ${exportInstancesDisabled ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={exportInstances && !exportInstancesDisabled}
+              onChange={(e) => onExportInstancesChange(e.target.checked)}
+              disabled={exportInstancesDisabled}
+              className="mt-0.5 w-4 h-4 text-blue-500 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <div>
+              <span className="text-sm text-gray-700">
+                名前付きインスタンスを静的フォントとして出力（{namedInstances.length}件）
+              </span>
+              <p className="text-xs text-gray-500 mt-0.5">
+                インスタンスごとに軸値を固定したファイルを、インスタンス名を付けてダウンロードします。
+              </p>
+              {exportInstancesDisabled && (
+                <p className="text-xs text-amber-600 mt-0.5">
+                  unicode-rangeで分割して出力する場合は使用できません
+                </p>
+              )}
+            </div>
+          </label>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {namedInstances.map((instance) => (
+              <span
+                key={instance.index}
+                title={Object.entries(instance.coordinates).map(([tag, value]) => `${tag}: ${value}`).join(', ')}
+                className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600"
+              >
+                {instance.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react'
+import { FileEntry, useFontStore } from '../stores/fontStore'
+import { fontProcessor } from '../services/fontProcessor'
+import { OutputFormat, SizeEstimate } from '../../shared/types'
+import { getRestrictedAxisRanges } from '../../shared/axisRanges'
+
+// 入力中・スライダー操作中の推定を間引く待ち時間（ミリ秒）
+const SIZE_ESTIMATE_DELAY = 200
+
+/**
+ * 文字セットでサブセット化した場合の出力サイズの推定値を取得
+ * 推定はWorkerで行う（サンプルのサブセット化による較正と誤差幅を含む）
+ * 機能保持と軸の設定はサブセット化と同じくストアの値を使う
+ */
+export function useSizeEstimate(
+  entry: FileEntry | null,
+  text: string,
+  outputFormat: OutputFormat
+): SizeEstimate | null {
+  const [estimate, setEstimate] = useState<SizeEstimate | null>(null)
+  const variationAxesValues = useFontStore((state) => state.variationAxesValues)
+  const pinVariationAxes = useFontStore((state) => state.pinVariationAxes)
+  const variationAxisRanges = useFontStore((state) => state.variationAxisRanges)
+  const preserveFeatures = useFontStore((state) => state.preserveFeatures)
+  const featureTags = useFontStore((state) => state.featureTags)
+
+  useEffect(() => {
+    const data = entry?.data
+    if (!entry || !data || !text) {
+      setEstimate(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      fontProcessor
+        .estimateSize(data, entry.file.name, text, outputFormat, {
+          variationAxes: pinVariationAxes ? variationAxesValues : undefined,
+          pinVariationAxes,
+          variationAxisRanges: pinVariationAxes
+            ? undefined
+            : getRestrictedAxisRanges(entry.analysis?.axes, variationAxisRanges),
+          preserveFeatures,
+          featureTags,
+          faceIndex: entry.faceIndices[0]
+        })
+        .then((result) => {
+          if (!cancelled) {
+            setEstimate(result)
+          }
+        })
+        .catch((error: unknown) => {
+          console.warn('Size estimation failed:', error)
+        })
+    }, SIZE_ESTIMATE_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [entry, text, outputFormat, variationAxesValues, pinVariationAxes, variationAxisRanges, preserveFeatures, featureTags])
+
+  return estimate
+}
@@ -46,6 +46,31 @@ export function downloadFile(
   setTimeout(() => URL.revokeObjectURL(url), 1000)
 }
 
+/**
+ * 複数ファイルを順番にダウンロード
+ * ブラウザの連続ダウンロード制限を避けるため、間隔を空けて発火する
+ */
+export async function downloadFiles(
+  files: { data: Uint8Array; fileName: string }[],
+  format: OutputFormat,
+  intervalMs: number = 200
+): Promise<void> {
+  const mimeType = getMimeType(format)
+  for (const [index, file] of files.entries()) {
+    if (index > 0) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs))
+    }
+    downloadFile(file.data, file.fileName, mimeType)
+  }
+}
+
+/**
+ * スタイルシートをダウンロード
+ */
+export function downloadStylesheet(css: string, fileName: string): void {
+  downloadFile(new TextEncoder().encode(css), fileName, 'text/css')
+}
+
 /**
  * File System Access API対応チェック
  */
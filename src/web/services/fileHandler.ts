@@ -26,7 +26,7 @@ export async function readFileAsUint8Array(file: File): Promise<Uint8Array> {
  * フォントファイルのバリデーション
  */
 export function validateFontFile(file: File): { valid: boolean; error?: string } {
-  const validExtensions = ['.ttf', '.otf', '.woff', '.woff2']
+  const validExtensions = ['.ttf', '.otf', '.woff', '.woff2', '.ttc', '.otc']
   const maxSize = 100 * 1024 * 1024 // 100MB
 
   const ext = '.' + file.name.split('.').pop()?.toLowerCase()
@@ -1,12 +1,18 @@
-import { FontAnalysis, OutputFormat } from '../../shared/types'
-import { FontMinifyError, ErrorType } from '../../shared/errors'
+import { AxisRange, FontAnalysis, NamedInstance, OutputFormat, PreserveFeatures, SizeEstimate } from '../../shared/types'
+import { FontMinifyError, ErrorType, createCancelledError } from '../../shared/errors'
 import type {
   WorkerRequest,
   WorkerResponse,
   AnalyzePayload,
   SubsetPayload,
+  SlicedSubsetPayload,
+  InstanceSubsetPayload,
+  EstimatePayload,
   AnalyzeResult,
+  EstimateResult,
   SubsetResult,
+  SlicedSubsetResult,
+  InstanceSubsetResult,
   ProgressPayload,
   ErrorPayload
 } from '../workers/types'
@@ -26,35 +32,116 @@ function createErrorFromPayload(payload: ErrorPayload): FontMinifyError {
     payload.message,
     {
       recoverable: payload.recoverable ?? true,
-      suggestion: payload.suggestion
+      suggestion: payload.suggestion,
+      cause: payload.details ? new Error(payload.details) : undefined
     }
   )
 }
 
+/**
+ * Workerプールの最大数（Workerごとにフォントデータ・WASMを保持するためメモリに合わせて制限）
+ */
+const MAX_POOL_SIZE = 4
+
+/**
+ * キャンセル要求からWorkerの応答を待つ時間（WASM実行中は応答できないため、過ぎたらWorkerごと停止する）
+ */
+const CANCEL_GRACE_MS = 300
+
+/**
+ * Workerプールの大きさ（メインスレッド用にコアを1つ残す）
+ */
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1))
+}
+
+/**
+ * Workerプールの処理待ちの状況
+ */
+export interface WorkerQueueState {
+  workerCount: number
+  busyWorkers: number
+  queuedRequests: number
+}
+
+type QueuedRequest = {
+  id: string
+  type: WorkerRequest['type']
+  payload: unknown
+}
+
+type PoolWorker = {
+  worker: Worker
+  ready: boolean // WASMの事前読み込みが終わったか
+  activeRequest: QueuedRequest | null
+  cancelTimer?: ReturnType<typeof setTimeout>
+}
+
+const createFontWorker = (): Worker =>
+  new Worker(
+    new URL('../workers/font.worker.ts', import.meta.url),
+    { type: 'module' }
+  )
+
 /**
  * フォント処理Worker APIブリッジ
+ * 複数のWorkerにリクエストを1件ずつ割り当て、空きがなければキューで待たせる
+ * 異常終了したWorkerは作り直し、そのWorkerが処理していたリクエストだけを失敗させる
  */
-class FontProcessor {
-  private worker: Worker
-  private pendingRequests: Map<string, PendingRequest>
+export class FontProcessor {
+  private workers: PoolWorker[] = []
+  private queue: QueuedRequest[] = []
+  private pendingRequests: Map<string, PendingRequest> = new Map()
+  private listeners: Set<(state: WorkerQueueState) => void> = new Set()
   private requestIdCounter: number = 0
+  private poolLimit: number
 
-  constructor() {
-    this.worker = new Worker(
-      new URL('../workers/font.worker.ts', import.meta.url),
-      { type: 'module' }
-    )
-    this.pendingRequests = new Map()
-    this.worker.onmessage = this.handleMessage.bind(this)
-    this.worker.onerror = this.handleError.bind(this)
+  constructor(
+    private readonly createWorker: () => Worker = createFontWorker,
+    private readonly poolSize: number = getDefaultPoolSize()
+  ) {
+    this.poolLimit = poolSize
+    // 最初のWorkerは解析に備えてすぐに起動する
+    this.spawnWorker()
   }
 
   private generateId(): string {
     return `req-${++this.requestIdCounter}-${Date.now()}`
   }
 
-  private handleMessage(event: MessageEvent<WorkerResponse>): void {
+  private spawnWorker(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: this.createWorker(),
+      ready: false,
+      activeRequest: null
+    }
+    poolWorker.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(poolWorker, event)
+    poolWorker.worker.onerror = (event: ErrorEvent) => this.handleError(poolWorker, event)
+    this.workers.push(poolWorker)
+
+    // WASMを事前に読み込み、終わってからリクエストを割り当てる
+    poolWorker.worker.postMessage({
+      type: 'warmup',
+      id: `warmup-${this.generateId()}`,
+      payload: {}
+    } as WorkerRequest)
+    return poolWorker
+  }
+
+  private handleMessage(poolWorker: PoolWorker, event: MessageEvent<WorkerResponse>): void {
     const { type, id, payload } = event.data
+
+    if (id.startsWith('warmup-')) {
+      if (type === 'error') {
+        // 読み込みに失敗しても各リクエストで再試行されるため、Workerは使い続ける
+        console.warn('[FontProcessor] Worker warmup failed:', (payload as ErrorPayload).message)
+      }
+      poolWorker.ready = true
+      this.dispatch()
+      return
+    }
+
     const pending = this.pendingRequests.get(id)
 
     if (!pending) {
@@ -65,7 +152,7 @@ class FontProcessor {
     switch (type) {
       case 'result':
         pending.resolve(payload)
-        this.pendingRequests.delete(id)
+        this.finishRequest(poolWorker, id)
         break
 
       case 'progress':
@@ -75,44 +162,131 @@ class FontProcessor {
       case 'error': {
         const errorPayload = payload as ErrorPayload
         pending.reject(createErrorFromPayload(errorPayload))
-        this.pendingRequests.delete(id)
+        this.finishRequest(poolWorker, id)
         break
       }
 
       case 'cancelled':
-        pending.reject(new FontMinifyError(
-          ErrorType.UNKNOWN_ERROR,
-          '処理がキャンセルされました',
-          { recoverable: true }
-        ))
-        this.pendingRequests.delete(id)
+        pending.reject(createCancelledError())
+        this.finishRequest(poolWorker, id)
         break
     }
   }
 
-  private handleError(event: ErrorEvent): void {
+  private handleError(poolWorker: PoolWorker, event: ErrorEvent): void {
     console.error('[FontProcessor] Worker error:', event)
-    // すべての待機中リクエストを拒否
-    for (const [id, pending] of this.pendingRequests) {
-      pending.reject(new FontMinifyError(
-        ErrorType.UNKNOWN_ERROR,
-        'Workerエラー: ' + event.message,
-        {
-          recoverable: false,
-          suggestion: 'ページを再読み込みしてください。'
+
+    // 異常終了したWorkerを作り直し、処理中だったリクエストだけを拒否
+    this.removeWorker(poolWorker, new FontMinifyError(
+      ErrorType.UNKNOWN_ERROR,
+      'Workerエラー: ' + event.message,
+      {
+        recoverable: true,
+        suggestion: 'フォントファイルが破損していないか確認してください。'
+      }
+    ))
+
+    if (poolWorker.ready) {
+      // 動作していたWorkerはすぐに作り直してプールの大きさを保つ
+      this.spawnWorker()
+    } else {
+      // 起動に失敗した場合は作り直しを繰り返さないよう、プールを起動済みのWorkerだけに縮める
+      this.poolLimit = this.workers.length
+      if (this.workers.length === 0) {
+        for (const queued of this.queue.splice(0)) {
+          this.pendingRequests.get(queued.id)?.reject(new FontMinifyError(
+            ErrorType.UNKNOWN_ERROR,
+            'Workerを起動できませんでした: ' + event.message,
+            {
+              recoverable: false,
+              suggestion: 'ページを再読み込みしてください。'
+            }
+          ))
+          this.pendingRequests.delete(queued.id)
         }
-      ))
-      this.pendingRequests.delete(id)
+        // 次のリクエストでは改めて起動を試みる
+        this.poolLimit = this.poolSize
+      }
+    }
+    this.dispatch()
+  }
+
+  private finishRequest(poolWorker: PoolWorker, id: string): void {
+    this.pendingRequests.delete(id)
+    if (poolWorker.activeRequest?.id === id) {
+      poolWorker.activeRequest = null
+      clearTimeout(poolWorker.cancelTimer)
+      poolWorker.cancelTimer = undefined
+    }
+    this.dispatch()
+  }
+
+  /**
+   * Workerを停止し、処理中だったリクエストを error で拒否する
+   */
+  private removeWorker(poolWorker: PoolWorker, error: Error): void {
+    clearTimeout(poolWorker.cancelTimer)
+    poolWorker.worker.terminate()
+    this.workers = this.workers.filter(w => w !== poolWorker)
+
+    const request = poolWorker.activeRequest
+    if (request) {
+      poolWorker.activeRequest = null
+      this.pendingRequests.get(request.id)?.reject(error)
+      this.pendingRequests.delete(request.id)
     }
   }
 
+  /**
+   * キャンセルに応答しないWorkerを停止して作り直す（WASMのメモリもWorkerごと解放される）
+   */
+  private forceCancel(poolWorker: PoolWorker, requestId: string): void {
+    if (poolWorker.activeRequest?.id !== requestId) {
+      return
+    }
+    console.warn('[FontProcessor] Worker did not respond to cancel, restarting:', requestId)
+    this.removeWorker(poolWorker, createCancelledError())
+    this.spawnWorker()
+    this.dispatch()
+  }
+
+  /**
+   * 待機中のリクエストを空いているWorkerに割り当てる
+   */
+  private dispatch(): void {
+    for (const idle of this.workers.filter(w => w.ready && !w.activeRequest)) {
+      const request = this.queue.shift()
+      if (!request) {
+        break
+      }
+      idle.activeRequest = request
+      idle.worker.postMessage({
+        type: request.type,
+        id: request.id,
+        payload: request.payload
+      } as WorkerRequest)
+    }
+
+    // 割り当てられなかったリクエストの分だけ、上限までWorkerを追加
+    let starting = this.workers.filter(w => !w.ready).length
+    while (this.queue.length > starting && this.workers.length < this.poolLimit) {
+      this.spawnWorker()
+      starting++
+    }
+    this.notify()
+  }
+
+  private notify(): void {
+    const state = this.getQueueState()
+    this.listeners.forEach(listener => listener(state))
+  }
+
   private sendRequest<T>(
     type: WorkerRequest['type'],
     payload: unknown,
-    onProgress?: (progress: ProgressPayload) => void
+    onProgress?: (progress: ProgressPayload) => void,
+    id: string = this.generateId()
   ): Promise<T> {
-    const id = this.generateId()
-
     return new Promise((resolve, reject) => {
       this.pendingRequests.set(id, {
         resolve: resolve as (value: unknown) => void,
@@ -120,14 +294,33 @@ class FontProcessor {
         onProgress
       })
 
-      this.worker.postMessage({
-        type,
-        id,
-        payload
-      } as WorkerRequest)
+      this.queue.push({ id, type, payload })
+      this.dispatch()
     })
   }
 
+  /**
+   * Workerプールの処理待ちの状況
+   */
+  getQueueState(): WorkerQueueState {
+    return {
+      workerCount: this.workers.length,
+      busyWorkers: this.workers.filter(w => w.activeRequest).length,
+      queuedRequests: this.queue.length
+    }
+  }
+
+  /**
+   * 処理待ちの状況の変化を購読
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: (state: WorkerQueueState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
   /**
    * フォントを解析
    */
@@ -152,35 +345,150 @@ class FontProcessor {
     options?: {
       variationAxes?: Record<string, number>
       pinVariationAxes?: boolean
+      variationAxisRanges?: Record<string, AxisRange>
+      preserveFeatures?: PreserveFeatures
+      featureTags?: Record<string, boolean>
+      fontCodePoints?: number[]
+      faceIndex?: number
+      woffMetadata?: string
+      requestId?: string // キャンセルに使うリクエストID（省略時は自動で割り当てる）
     }
   ): Promise<SubsetResult> {
+    const { requestId, ...subsetOptions } = options ?? {}
     const payload: SubsetPayload = {
       fileData,
       fileName,
       text,
       outputFormat,
-      ...options
+      ...subsetOptions
+    }
+
+    return this.sendRequest<SubsetResult>('subset', payload, onProgress, requestId)
+  }
+
+  /**
+   * 名前付きインスタンスごとに軸値を固定してサブセット化（静的フォントのファミリーとして出力）
+   */
+  async subsetNamedInstances(
+    fileData: Uint8Array,
+    fileName: string,
+    text: string,
+    outputFormat: OutputFormat,
+    instances: NamedInstance[],
+    onProgress?: (progress: ProgressPayload) => void,
+    options?: {
+      preserveFeatures?: PreserveFeatures
+      featureTags?: Record<string, boolean>
+      fontCodePoints?: number[]
+      faceIndex?: number
+      woffMetadata?: string
+      requestId?: string
+    }
+  ): Promise<InstanceSubsetResult> {
+    const { requestId, ...subsetOptions } = options ?? {}
+    const payload: InstanceSubsetPayload = {
+      fileData,
+      fileName,
+      text,
+      outputFormat,
+      instances,
+      ...subsetOptions
     }
 
-    return this.sendRequest<SubsetResult>('subset', payload, onProgress)
+    return this.sendRequest<InstanceSubsetResult>('subsetInstances', payload, onProgress, requestId)
+  }
+
+  /**
+   * フォントを頻度順のチャンクに分割してサブセット化（WOFF2 + unicode-range）
+   */
+  async subsetFontSliced(
+    fileData: Uint8Array,
+    fileName: string,
+    text: string,
+    chunkCount: number,
+    onProgress?: (progress: ProgressPayload) => void,
+    options?: {
+      variationAxes?: Record<string, number>
+      pinVariationAxes?: boolean
+      variationAxisRanges?: Record<string, AxisRange>
+      preserveFeatures?: PreserveFeatures
+      featureTags?: Record<string, boolean>
+      fontCodePoints?: number[]
+      faceIndex?: number
+      requestId?: string
+    }
+  ): Promise<SlicedSubsetResult> {
+    const { requestId, ...subsetOptions } = options ?? {}
+    const payload: SlicedSubsetPayload = {
+      fileData,
+      fileName,
+      text,
+      chunkCount,
+      ...subsetOptions
+    }
+
+    return this.sendRequest<SlicedSubsetResult>('subsetSliced', payload, onProgress, requestId)
+  }
+
+  /**
+   * サブセット後のファイルサイズを推定
+   */
+  async estimateSize(
+    fileData: Uint8Array,
+    fileName: string,
+    text: string,
+    outputFormat: OutputFormat,
+    options?: {
+      variationAxes?: Record<string, number>
+      pinVariationAxes?: boolean
+      variationAxisRanges?: Record<string, AxisRange>
+      preserveFeatures?: PreserveFeatures
+      featureTags?: Record<string, boolean>
+      faceIndex?: number
+      calibrate?: boolean
+    }
+  ): Promise<SizeEstimate> {
+    const payload: EstimatePayload = { fileData, fileName, text, outputFormat, ...options }
+    const result = await this.sendRequest<EstimateResult>('estimate', payload)
+    return result.estimate
   }
 
   /**
    * 処理をキャンセル
    */
   cancelProcessing(requestId: string): void {
-    this.worker.postMessage({
+    // 割り当て前のリクエストはキューから取り除く
+    const queued = this.queue.findIndex(request => request.id === requestId)
+    if (queued >= 0) {
+      this.queue.splice(queued, 1)
+      this.pendingRequests.get(requestId)?.reject(createCancelledError())
+      this.pendingRequests.delete(requestId)
+      this.notify()
+      return
+    }
+
+    // 処理中のリクエストはまずWorkerに中断を依頼し、応答がなければWorkerごと停止する
+    const poolWorker = this.workers.find(w => w.activeRequest?.id === requestId)
+    if (!poolWorker || poolWorker.cancelTimer !== undefined) {
+      return
+    }
+    poolWorker.worker.postMessage({
       type: 'cancel',
       id: requestId,
       payload: {}
     } as WorkerRequest)
+    poolWorker.cancelTimer = setTimeout(() => this.forceCancel(poolWorker, requestId), CANCEL_GRACE_MS)
   }
 
   /**
-   * Workerを終了
+   * すべてのWorkerを終了し、処理中・割り当て待ちのリクエストをキャンセル扱いで拒否
    */
   terminate(): void {
-    this.worker.terminate()
+    this.workers.forEach(w => this.removeWorker(w, createCancelledError()))
+    this.queue = []
+    this.pendingRequests.forEach(pending => pending.reject(createCancelledError()))
+    this.pendingRequests.clear()
+    this.notify()
   }
 }
 
@@ -0,0 +1,104 @@
+import {
+  MAX_TEXT_SOURCE_SIZE,
+  TextExtractionResult,
+  TextSource,
+  extractCharactersFromSources,
+  isIgnoredTextSourceDirectory,
+  isTextSourceFile
+} from '../../shared/textExtraction'
+
+/**
+ * フォルダのドロップ・選択から文字抽出用のファイルを集める
+ */
+
+/**
+ * ディレクトリエントリの中身をすべて読み出す（readEntries は一度に最大100件しか返さない）
+ */
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) {
+      return entries
+    }
+    entries.push(...batch)
+  }
+}
+
+/**
+ * エントリを再帰的にたどり、文字抽出の対象ファイルを集める
+ * 除外するのは配下のフォルダだけで、ドロップされたフォルダ自体は名前に関わらず対象にする
+ */
+async function collectFromEntry(entry: FileSystemEntry, files: TextSourceFile[]): Promise<void> {
+  if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      if (child.isDirectory && isIgnoredTextSourceDirectory(child.name)) {
+        continue
+      }
+      await collectFromEntry(child, files)
+    }
+    return
+  }
+
+  if (entry.isFile && isTextSourceFile(entry.name)) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    files.push({ path: entry.fullPath.replace(/^\//, ''), file })
+  }
+}
+
+/**
+ * パス付きのファイル（フォルダ内の位置を報告に使う）
+ */
+export interface TextSourceFile {
+  path: string
+  file: File
+}
+
+/**
+ * ドロップされたファイル・フォルダから文字抽出の対象ファイルを集める
+ * DataTransferItemList は非同期処理の間に無効になるため、先にエントリを取り出す
+ */
+export async function collectTextSourcesFromDataTransfer(items: DataTransferItemList): Promise<TextSourceFile[]> {
+  const entries = Array.from(items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry)
+
+  const files: TextSourceFile[] = []
+  for (const entry of entries) {
+    await collectFromEntry(entry, files)
+  }
+  return files
+}
+
+/**
+ * <input webkitdirectory> で選択されたファイルから文字抽出の対象ファイルを集める
+ * パスの先頭は選択したフォルダなので、除外の判定はその配下のフォルダだけに行う
+ */
+export function collectTextSourcesFromFileList(fileList: FileList | File[]): TextSourceFile[] {
+  return Array.from(fileList)
+    .map(file => ({ path: file.webkitRelativePath || file.name, file }))
+    .filter(({ path }) => {
+      const segments = path.split('/')
+      return isTextSourceFile(path) && !segments.slice(1, -1).some(isIgnoredTextSourceDirectory)
+    })
+}
+
+/**
+ * 集めたファイルを読み込み、文字セットを作成
+ */
+export async function extractCharactersFromFiles(files: TextSourceFile[]): Promise<TextExtractionResult> {
+  const sources: TextSource[] = []
+  const oversized: string[] = []
+
+  for (const { path, file } of files) {
+    if (file.size > MAX_TEXT_SOURCE_SIZE) {
+      oversized.push(path)
+      continue
+    }
+    sources.push({ fileName: path, content: await file.text() })
+  }
+
+  const result = extractCharactersFromSources(sources)
+  return { ...result, skippedFiles: [...oversized, ...result.skippedFiles] }
+}
@@ -0,0 +1,96 @@
+import {
+  USER_PRESET_FILE_NAME,
+  UserPreset,
+  parseUserPresetFile,
+  serializeUserPresets,
+  validateUserPreset
+} from '../../shared/userPresets'
+import { downloadFile } from './downloadManager'
+
+const DB_NAME = 'fontminify'
+const DB_VERSION = 1
+const STORE_NAME = 'userPresets'
+
+/**
+ * プリセット保存用のIndexedDBを開く
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('このブラウザではIndexedDBを利用できません'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * IDBRequest を Promise に変換
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 保存済みのプリセットを作成順に読み込む（検証できないものは読み飛ばす）
+ */
+export async function loadUserPresets(): Promise<UserPreset[]> {
+  const db = await openDatabase()
+  try {
+    const records = await toPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll())
+    const presets: UserPreset[] = []
+    for (const record of records) {
+      try {
+        presets.push(validateUserPreset(record))
+      } catch (error) {
+        console.warn('Skipping invalid user preset:', error)
+      }
+    }
+    return presets.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * プリセットの一覧を保存（一覧全体で置き換える）
+ */
+export async function saveUserPresets(presets: UserPreset[]): Promise<void> {
+  const validated = presets.map(validateUserPreset)
+  const db = await openDatabase()
+  try {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    store.clear()
+    validated.forEach(preset => store.put(preset))
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * 共有用のJSONファイルからプリセットを読み込む
+ */
+export async function readUserPresetFile(file: File): Promise<UserPreset[]> {
+  return parseUserPresetFile(await file.text())
+}
+
+/**
+ * プリセットを共有用のJSONファイルとしてダウンロード
+ */
+export function downloadUserPresets(presets: UserPreset[]): void {
+  downloadFile(new TextEncoder().encode(serializeUserPresets(presets)), USER_PRESET_FILE_NAME, 'application/json')
+}
@@ -1,12 +1,53 @@
 import { create } from 'zustand'
-import { FontAnalysis, OutputFormat } from '../../../shared/types'
-import { AppError, handleError } from '../../../shared/errors'
-import { getCharacterSetFromPreset, getUniqueCharacters } from '../../../shared/presets'
-import { fontProcessor } from '../../services/fontProcessor'
+import { AxisRange, CoverageReport, FontAnalysis, FontDisplay, NamedInstance, OutputFormat, PreserveFeatures } from '../../../shared/types'
+import { AppError, createCancelledError, handleError, isCancelledError } from '../../../shared/errors'
+import {
+  CharacterSetModifiers,
+  DEFAULT_CHARACTER_SET_MODIFIERS,
+  buildCharacterSetExpression,
+  evaluateCharacterSet,
+  getUniqueCharacters,
+  toCharacterSetSelection
+} from '../../../shared/presets'
+import { UserPreset, UserPresetSettings, createUserPreset, mergeUserPresets } from '../../../shared/userPresets'
+import {
+  downloadUserPresets,
+  loadUserPresets as loadStoredUserPresets,
+  readUserPresetFile,
+  saveUserPresets as saveStoredUserPresets
+} from '../../services/userPresetStorage'
+import { fontProcessor, WorkerQueueState } from '../../services/fontProcessor'
 import { readFileAsUint8Array, validateFontFile } from '../../services/fileHandler'
-import { smartDownload, getMimeType } from '../../services/downloadManager'
+import { smartDownload, downloadFiles, downloadStylesheet, getMimeType } from '../../services/downloadManager'
+import { generateFontFaceStylesheet, getCoveredText, getStylesheetFileName } from '../../../shared/fontFace'
+import { DEFAULT_PRESERVE_FEATURES } from '../../../shared/layoutFeatures'
+import { checkCoverage } from '../../../shared/coverage'
+import { getFaceFileName, resolveFaceIndices } from '../../../shared/fontCollection'
+import { getRestrictedAxisRanges } from '../../../shared/axisRanges'
+import { SubsetPreview } from '../../../shared/preview'
+import { readPreviewCodePoints } from '../../../lib/previewCoverage'
+import { TextExtractionResult } from '../../../shared/textExtraction'
+import { TextSourceFile, extractCharactersFromFiles } from '../../services/textSourceHandler'
 import type { ProgressPayload } from '../../workers/types'
 
+/**
+ * 分割出力したチャンクの概要（データ本体はダウンロード後に破棄）
+ */
+export interface SliceSummary {
+  fileName: string
+  unicodeRange: string
+  characterCount: number
+  outputSize: number
+}
+
+/**
+ * 1ファイル分の処理結果
+ */
+interface SubsetEntryResult {
+  slices: SliceSummary[]
+  preview: SubsetPreview | null // 最初に出力した書体（インスタンス）のプレビュー
+}
+
 /**
  * ファイルエントリの型
  */
@@ -17,8 +58,14 @@ export interface FileEntry {
   analysis: FontAnalysis | null
   status: 'pending' | 'analyzing' | 'ready' | 'error'
   error?: string
+  faceIndices: number[] // TTC/OTC でサブセット化する書体
 }
 
+/**
+ * 最後の処理の結果（キャンセルはエラーと区別する）
+ */
+export type ProcessingOutcome = 'completed' | 'cancelled' | 'error'
+
 /**
  * Web版FontStoreの状態型
  */
@@ -30,6 +77,10 @@ interface FontStoreState {
   isProcessing: boolean
   currentProcessingId: string | null
   progressState: ProgressPayload | null
+  fileProgress: Record<string, ProgressPayload> // まとめて処理する際のファイルごとの進捗
+  workerQueue: WorkerQueueState // Workerプールの処理待ちの状況
+  processingRequestIds: string[] // 処理中のWorkerリクエスト（キャンセルに使う）
+  lastOutcome: ProcessingOutcome | null
 
   // エラー状態
   errors: AppError[]
@@ -37,12 +88,42 @@ interface FontStoreState {
   // UI状態
   selectedPreset: string
   customCharacters: string
+  characterSetModifiers: CharacterSetModifiers // プリセット・カスタム文字への追加と除外
   outputFormat: OutputFormat
   isDragOver: boolean
 
   // バリアブルフォント状態
   variationAxesValues: Record<string, number>
   pinVariationAxes: boolean
+  variationAxisRanges: Record<string, AxisRange> // 軸を固定しない場合に残す範囲
+  exportNamedInstances: boolean // 名前付きインスタンスを静的フォントとして個別に出力
+
+  // OpenType機能の保持設定
+  preserveFeatures: PreserveFeatures
+  featureTags: Record<string, boolean>
+
+  // unicode-range分割状態
+  sliceEnabled: boolean
+  sliceCount: number
+  lastSlices: SliceSummary[]
+
+  // 出力結果のプレビュー
+  lastPreview: SubsetPreview | null
+
+  // @font-face CSS生成状態
+  generateCss: boolean
+  fontDisplay: FontDisplay
+
+  // WOFF拡張メタデータ（XML）
+  woffMetadata: string
+
+  // ソースからの文字抽出状態
+  isExtractingText: boolean
+  textExtraction: TextExtractionResult | null
+
+  // ユーザー定義プリセット（IndexedDBに保存）
+  userPresets: UserPreset[]
+  activeUserPresetId: string | null
 }
 
 /**
@@ -53,9 +134,11 @@ interface FontStoreActions {
   addFiles: (files: File[]) => Promise<void>
   removeFile: (fileId: string) => void
   clearFiles: () => void
+  setFaceIndices: (fileId: string, faceIndices: number[]) => void
 
   // 処理
   processFont: (fileId: string) => Promise<void>
+  processAllFonts: () => Promise<void>
   cancelProcessing: () => void
 
   // エラー管理
@@ -66,21 +149,263 @@ interface FontStoreActions {
   // UI操作
   setSelectedPreset: (preset: string) => void
   setCustomCharacters: (characters: string) => void
+  setCharacterSetModifiers: (modifiers: Partial<CharacterSetModifiers>) => void
   setOutputFormat: (format: OutputFormat) => void
   setDragOverState: (isDragOver: boolean) => void
 
   // バリアブルフォント
   setVariationAxesValues: (values: Record<string, number>) => void
   setPinVariationAxes: (pin: boolean) => void
+  setVariationAxisRanges: (ranges: Record<string, AxisRange>) => void
+  setExportNamedInstances: (enabled: boolean) => void
   resetVariationAxesToDefaults: (axes: { tag: string; default: number }[]) => void
 
+  // OpenType機能
+  setPreserveFeatures: (features: PreserveFeatures) => void
+  setFeatureTags: (tags: Record<string, boolean>) => void
+
+  // unicode-range分割
+  setSliceEnabled: (enabled: boolean) => void
+  setSliceCount: (count: number) => void
+
+  // @font-face CSS生成
+  setGenerateCss: (enabled: boolean) => void
+  setFontDisplay: (fontDisplay: FontDisplay) => void
+
+  // WOFF拡張メタデータ
+  setWoffMetadata: (metadata: string) => void
+
+  // ソースからの文字抽出
+  importTextSources: (files: TextSourceFile[]) => Promise<void>
+
+  // ユーザー定義プリセット
+  loadUserPresets: () => Promise<void>
+  saveUserPreset: (name: string, description?: string) => Promise<void>
+  applyUserPreset: (presetId: string) => void
+  deleteUserPreset: (presetId: string) => Promise<void>
+  importUserPresets: (file: File) => Promise<void>
+  exportUserPresets: () => void
+
   // セレクタ
   getEffectiveCharacterSet: () => string
   getTotalCharacterCount: () => number
+  getCoverageReport: (fileId: string) => CoverageReport | null
 }
 
 export type FontStore = FontStoreState & FontStoreActions
 
+// 処理の世代（処理の開始とキャンセルで進める）
+// キャンセルした処理が遅れて完了しても、次の処理の状態を上書きしないようにする
+let processingRun = 0
+
+/**
+ * Workerへのリクエストを処理中として記録し、終わったら取り除く
+ * キャンセル済み（世代が進んでいる）なら次のリクエストを送らずに中断する
+ */
+async function trackRequest<T>(runId: number, run: (requestId: string) => Promise<T>): Promise<T> {
+  if (runId !== processingRun) {
+    throw createCancelledError()
+  }
+  const requestId = crypto.randomUUID()
+  useFontStore.setState(state => ({ processingRequestIds: [...state.processingRequestIds, requestId] }))
+  try {
+    return await run(requestId)
+  } finally {
+    useFontStore.setState(state => ({
+      processingRequestIds: state.processingRequestIds.filter(id => id !== requestId)
+    }))
+  }
+}
+
+/**
+ * 1ファイル分をサブセット化してダウンロード（TTC/OTC は選択した書体ごとに出力）
+ * @returns 分割出力した場合のチャンクの概要と、出力結果のプレビュー
+ */
+async function subsetEntry(
+  state: FontStore,
+  entry: FileEntry,
+  runId: number,
+  onProgress: (progress: ProgressPayload) => void
+): Promise<SubsetEntryResult> {
+  const characterSet = state.getEffectiveCharacterSet()
+  const {
+    outputFormat,
+    variationAxesValues,
+    pinVariationAxes,
+    variationAxisRanges,
+    exportNamedInstances,
+    preserveFeatures,
+    featureTags,
+    sliceEnabled,
+    sliceCount,
+    generateCss,
+    fontDisplay,
+    woffMetadata
+  } = state
+  const pinnedAxes = pinVariationAxes ? variationAxesValues : undefined
+  const analysis = entry.analysis as FontAnalysis
+  const axisRanges = pinVariationAxes ? undefined : getRestrictedAxisRanges(analysis.axes, variationAxisRanges)
+  // コレクション以外は書体番号を指定しない
+  const faceIndices: (number | undefined)[] = analysis.faces ? resolveFaceIndices(entry.faceIndices) : [undefined]
+  const slices: SliceSummary[] = []
+  let preview: SubsetPreview | null = null
+  // 出力側の収録状況は出力したフォントの cmap で、元のフォント側は解析した書体の cmap で判定する
+  const createPreview = async (fileName: string, sources: SubsetPreview['sources']): Promise<SubsetPreview> => ({
+    fileName,
+    original: entry.data,
+    faceIndex: analysis.faceIndex,
+    sources,
+    subsetCodePoints: await readPreviewCodePoints(sources),
+    fontCodePoints: analysis.codePoints
+  })
+
+  // 名前付きインスタンスは解析した書体のものなので、その書体だけを出力する
+  // unicode-range分割とは併用できない（画面ではインスタンス出力を選べなくしている）
+  if (exportNamedInstances && analysis.namedInstances?.length && !sliceEnabled) {
+    const faceIndex = analysis.faces ? analysis.faceIndex : undefined
+    const { outputs } = await trackRequest(runId, requestId => fontProcessor.subsetNamedInstances(
+      entry.data as Uint8Array,
+      entry.file.name,
+      characterSet,
+      outputFormat,
+      analysis.namedInstances as NamedInstance[],
+      onProgress,
+      {
+        preserveFeatures,
+        featureTags,
+        fontCodePoints: analysis.codePoints,
+        faceIndex,
+        woffMetadata: outputFormat === 'woff' && woffMetadata.trim() ? woffMetadata : undefined,
+        requestId
+      }
+    ))
+
+    console.log('[Store] Instance subset complete:', outputs.length, 'instances')
+    await downloadFiles(outputs, outputFormat)
+
+    if (generateCss && outputs.length > 0) {
+      const css = generateFontFaceStylesheet(outputs.map(output => ({
+        fontFamily: analysis.fontFamily,
+        fontSubfamily: output.instance.name,
+        variationAxes: output.instance.coordinates,
+        fontDisplay,
+        fileName: output.fileName,
+        format: outputFormat,
+        text: getCoveredText(characterSet, analysis.codePoints)
+      })))
+      downloadStylesheet(css, getStylesheetFileName(entry.file.name))
+    }
+    if (outputs.length > 0) {
+      preview = await createPreview(outputs[0].fileName, [{ data: outputs[0].data }])
+    }
+    return { slices, preview }
+  }
+
+  for (const faceIndex of faceIndices) {
+    const face = faceIndex !== undefined ? analysis.faces?.[faceIndex] : undefined
+    // 複数書体を出力する場合は書体ごとにファイル名を分ける
+    const fileName = face && faceIndices.length > 1 ? getFaceFileName(entry.file.name, face) : entry.file.name
+    // 解析済みの書体以外は cmap が異なるため収録状況を判定しない
+    const fontCodePoints = (faceIndex ?? 0) === (analysis.faceIndex ?? 0) ? analysis.codePoints : undefined
+    const subsetOptions = {
+      variationAxes: pinnedAxes,
+      pinVariationAxes,
+      variationAxisRanges: axisRanges,
+      preserveFeatures,
+      featureTags,
+      fontCodePoints,
+      faceIndex
+    }
+    const fontFaceBase = {
+      fontFamily: face?.fontFamily || analysis.fontFamily,
+      fontSubfamily: face?.fontSubfamily || analysis.fontSubfamily,
+      variationAxes: pinnedAxes,
+      variationAxisRanges: axisRanges,
+      fontDisplay
+    }
+
+    if (sliceEnabled) {
+      const sliced = await trackRequest(runId, requestId => fontProcessor.subsetFontSliced(
+        entry.data as Uint8Array,
+        fileName,
+        characterSet,
+        sliceCount,
+        onProgress,
+        { ...subsetOptions, requestId }
+      ))
+
+      console.log('[Store] Sliced subset complete:', sliced.chunks.length, 'chunks')
+      if (sliced.coverage && sliced.coverage.missingCount > 0) {
+        console.warn('[Store] Characters not in font:', sliced.coverage.missing)
+      }
+      await downloadFiles(sliced.chunks, 'woff2')
+
+      if (generateCss && sliced.chunks.length > 0) {
+        const css = generateFontFaceStylesheet(sliced.chunks.map(chunk => ({
+          ...fontFaceBase,
+          fileName: chunk.fileName,
+          format: 'woff2' as const,
+          unicodeRange: chunk.unicodeRange
+        })))
+        downloadStylesheet(css, getStylesheetFileName(sliced.chunks[0].fileName))
+      }
+
+      slices.push(...sliced.chunks.map(({ fileName, unicodeRange, characterCount, outputSize }) => ({
+        fileName,
+        unicodeRange,
+        characterCount,
+        outputSize
+      })))
+      if (!preview && sliced.chunks.length > 0) {
+        preview = await createPreview(fileName, sliced.chunks.map(({ data, unicodeRange }) => ({ data, unicodeRange })))
+      }
+      continue
+    }
+
+    const result = await trackRequest(runId, requestId => fontProcessor.subsetFont(
+      entry.data as Uint8Array,
+      fileName,
+      characterSet,
+      outputFormat,
+      onProgress,
+      {
+        ...subsetOptions,
+        woffMetadata: outputFormat === 'woff' && woffMetadata.trim() ? woffMetadata : undefined,
+        requestId
+      }
+    ))
+
+    console.log('[Store] Subset complete, result:', {
+      fileName: result.fileName,
+      dataSize: result.data?.length,
+      outputSize: result.outputSize
+    })
+    if (result.coverage && result.coverage.missingCount > 0) {
+      console.warn('[Store] Characters not in font:', result.coverage.missing)
+    }
+
+    // ダウンロード
+    console.log('[Store] Starting download...')
+    await smartDownload(result.data, result.fileName, outputFormat)
+    console.log('[Store] Download complete')
+
+    if (generateCss) {
+      const css = generateFontFaceStylesheet([{
+        ...fontFaceBase,
+        fileName: result.fileName,
+        format: outputFormat,
+        text: getCoveredText(characterSet, fontCodePoints)
+      }])
+      downloadStylesheet(css, getStylesheetFileName(result.fileName))
+    }
+    if (!preview) {
+      preview = await createPreview(result.fileName, [{ data: result.data }])
+    }
+  }
+
+  return { slices, preview }
+}
+
 /**
  * Web版FontStore
  */
@@ -90,13 +415,33 @@ export const useFontStore = create<FontStore>((set, get) => ({
   isProcessing: false,
   currentProcessingId: null,
   progressState: null,
+  fileProgress: {},
+  workerQueue: fontProcessor.getQueueState(),
+  processingRequestIds: [],
+  lastOutcome: null,
   errors: [],
   selectedPreset: 'joyo-jis1',
   customCharacters: '',
+  characterSetModifiers: DEFAULT_CHARACTER_SET_MODIFIERS,
   outputFormat: 'woff2',
   isDragOver: false,
   variationAxesValues: {},
   pinVariationAxes: true,
+  variationAxisRanges: {},
+  exportNamedInstances: false,
+  preserveFeatures: DEFAULT_PRESERVE_FEATURES,
+  featureTags: {},
+  sliceEnabled: false,
+  sliceCount: 20,
+  lastSlices: [],
+  lastPreview: null,
+  generateCss: true,
+  fontDisplay: 'swap',
+  woffMetadata: '',
+  isExtractingText: false,
+  textExtraction: null,
+  userPresets: [],
+  activeUserPresetId: null,
 
   // ファイル追加
   addFiles: async (files: File[]) => {
@@ -119,7 +464,8 @@ export const useFontStore = create<FontStore>((set, get) => ({
           file,
           data: null,
           analysis: null,
-          status: 'pending'
+          status: 'pending',
+          faceIndices: [0]
         })
         return { files: newFiles }
       })
@@ -150,7 +496,8 @@ export const useFontStore = create<FontStore>((set, get) => ({
             file,
             data,
             analysis,
-            status: 'ready'
+            status: 'ready',
+            faceIndices: [0]
           })
           return { files: newFiles }
         })
@@ -194,7 +541,20 @@ export const useFontStore = create<FontStore>((set, get) => ({
       files: new Map(),
       isProcessing: false,
       currentProcessingId: null,
-      progressState: null
+      progressState: null,
+      lastPreview: null
+    })
+  },
+
+  setFaceIndices: (fileId: string, faceIndices: number[]) => {
+    set(state => {
+      const entry = state.files.get(fileId)
+      if (!entry) {
+        return {}
+      }
+      const newFiles = new Map(state.files)
+      newFiles.set(fileId, { ...entry, faceIndices: resolveFaceIndices(faceIndices) })
+      return { files: newFiles }
     })
   },
 
@@ -206,47 +566,48 @@ export const useFontStore = create<FontStore>((set, get) => ({
       return
     }
 
+    const runId = ++processingRun
     set({
       isProcessing: true,
       currentProcessingId: fileId,
-      progressState: { stage: 'preparing', progress: 0, message: '準備中...' }
+      progressState: { stage: 'preparing', progress: 0, message: '準備中...' },
+      lastOutcome: null
     })
 
     try {
-      const characterSet = get().getEffectiveCharacterSet()
-      const { outputFormat, variationAxesValues, pinVariationAxes } = get()
-
-      const result = await fontProcessor.subsetFont(
-        entry.data,
-        entry.file.name,
-        characterSet,
-        outputFormat,
-        (progress) => set({ progressState: progress }),
-        { variationAxes: pinVariationAxes ? variationAxesValues : undefined, pinVariationAxes }
-      )
-
-      console.log('[Store] Subset complete, result:', {
-        fileName: result.fileName,
-        dataSize: result.data?.length,
-        outputSize: result.outputSize
+      const { slices, preview } = await subsetEntry(get(), entry, runId, (progress) => {
+        if (runId === processingRun) {
+          set({ progressState: progress })
+        }
       })
-
-      // ダウンロード
-      console.log('[Store] Starting download...')
-      await smartDownload(result.data, result.fileName, outputFormat)
-      console.log('[Store] Download complete')
+      if (runId !== processingRun) {
+        return
+      }
 
       set({
         isProcessing: false,
         currentProcessingId: null,
-        progressState: null
+        progressState: null,
+        lastOutcome: 'completed',
+        lastPreview: preview,
+        ...(get().sliceEnabled ? { lastSlices: slices } : {})
       })
     } catch (error) {
+      if (runId !== processingRun) {
+        return
+      }
+      // キャンセルはエラーとして通知しない
+      if (isCancelledError(error)) {
+        console.log('[Store] Processing cancelled:', entry.file.name)
+        set({ isProcessing: false, currentProcessingId: null, progressState: null, lastOutcome: 'cancelled' })
+        return
+      }
       console.error('Processing error:', error)
       set({
         isProcessing: false,
         currentProcessingId: null,
-        progressState: null
+        progressState: null,
+        lastOutcome: 'error'
       })
 
       const appError = handleError(error, entry.file.name)
@@ -254,16 +615,94 @@ export const useFontStore = create<FontStore>((set, get) => ({
     }
   },
 
-  cancelProcessing: () => {
-    const { currentProcessingId } = get()
-    if (currentProcessingId) {
-      fontProcessor.cancelProcessing(currentProcessingId)
+  processAllFonts: async () => {
+    const entries = Array.from(get().files.values()).filter(entry => entry.data && entry.analysis)
+    if (entries.length === 0) {
+      return
     }
+
+    const runId = ++processingRun
+    set({
+      isProcessing: true,
+      currentProcessingId: null,
+      fileProgress: {},
+      progressState: { stage: 'preparing', progress: 0, message: `${entries.length}ファイルを準備中...` },
+      lastOutcome: null
+    })
+
+    // 各ファイルを Worker プールに並列で投入し、全体の進捗はファイルごとの進捗の平均とする
+    const updateProgress = (fileId: string, progress: ProgressPayload) => {
+      if (runId !== processingRun) {
+        return
+      }
+      set(state => {
+        const fileProgress = { ...state.fileProgress, [fileId]: progress }
+        const total = Object.values(fileProgress).reduce((sum, item) => sum + item.progress, 0)
+        const completed = Object.values(fileProgress).filter(item => item.stage === 'complete').length
+        return {
+          fileProgress,
+          progressState: {
+            stage: 'subsetting',
+            progress: Math.round(total / entries.length),
+            message: `${completed}/${entries.length}ファイル完了`
+          }
+        }
+      })
+    }
+    const state = get()
+    const results = await Promise.allSettled(entries.map(async entry => {
+      const result = await subsetEntry(state, entry, runId, progress => updateProgress(entry.id, progress))
+      updateProgress(entry.id, { stage: 'complete', progress: 100, message: '完了' })
+      return result
+    }))
+    if (runId !== processingRun) {
+      return
+    }
+
+    const slices: SliceSummary[] = []
+    // プレビューは最初に成功したファイルのものを表示する
+    let lastPreview: SubsetPreview | null = null
+    let lastOutcome: ProcessingOutcome = 'completed'
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        slices.push(...result.value.slices)
+        lastPreview = lastPreview ?? result.value.preview
+        return
+      }
+      if (isCancelledError(result.reason)) {
+        lastOutcome = 'cancelled'
+        return
+      }
+      console.error('Processing error:', result.reason)
+      get().addError(handleError(result.reason, entries[index].file.name).toJSON())
+      if (lastOutcome === 'completed') {
+        lastOutcome = 'error'
+      }
+    })
+
+    set({
+      isProcessing: false,
+      currentProcessingId: null,
+      progressState: null,
+      fileProgress: {},
+      lastOutcome,
+      lastPreview,
+      ...(state.sliceEnabled ? { lastSlices: slices } : {})
+    })
+  },
+
+  cancelProcessing: () => {
+    // 先に処理中を解除し、書体・ファイルの残りのリクエストを送らないようにする
+    const { processingRequestIds } = get()
+    processingRun++
     set({
       isProcessing: false,
       currentProcessingId: null,
-      progressState: null
+      progressState: null,
+      fileProgress: {},
+      lastOutcome: 'cancelled'
     })
+    processingRequestIds.forEach(requestId => fontProcessor.cancelProcessing(requestId))
   },
 
   // エラー管理
@@ -285,7 +724,7 @@ export const useFontStore = create<FontStore>((set, get) => ({
 
   // UI操作
   setSelectedPreset: (preset: string) => {
-    set({ selectedPreset: preset })
+    set({ selectedPreset: preset, activeUserPresetId: null })
   },
 
   setCustomCharacters: (characters: string) => {
@@ -293,6 +732,12 @@ export const useFontStore = create<FontStore>((set, get) => ({
     set({ customCharacters: uniqueChars })
   },
 
+  setCharacterSetModifiers: (modifiers: Partial<CharacterSetModifiers>) => {
+    set(state => ({
+      characterSetModifiers: { ...state.characterSetModifiers, ...modifiers }
+    }))
+  },
+
   setOutputFormat: (format: OutputFormat) => {
     set({ outputFormat: format })
   },
@@ -310,25 +755,177 @@ export const useFontStore = create<FontStore>((set, get) => ({
     set({ pinVariationAxes: pin })
   },
 
+  setVariationAxisRanges: (ranges: Record<string, AxisRange>) => {
+    set({ variationAxisRanges: ranges })
+  },
+
+  setExportNamedInstances: (enabled: boolean) => {
+    set({ exportNamedInstances: enabled })
+  },
+
   resetVariationAxesToDefaults: (axes: { tag: string; default: number }[]) => {
     const defaultValues: Record<string, number> = {}
     axes.forEach(axis => {
       defaultValues[axis.tag] = axis.default
     })
-    set({ variationAxesValues: defaultValues })
+    set({ variationAxesValues: defaultValues, variationAxisRanges: {} })
+  },
+
+  // OpenType機能
+  setPreserveFeatures: (features: PreserveFeatures) => {
+    set({ preserveFeatures: features })
+  },
+
+  setFeatureTags: (tags: Record<string, boolean>) => {
+    set({ featureTags: tags })
+  },
+
+  // unicode-range分割
+  setSliceEnabled: (enabled: boolean) => {
+    set({ sliceEnabled: enabled })
+  },
+
+  setSliceCount: (count: number) => {
+    set({ sliceCount: Math.max(1, Math.round(count)) })
+  },
+
+  // @font-face CSS生成
+  setGenerateCss: (enabled: boolean) => {
+    set({ generateCss: enabled })
+  },
+
+  setFontDisplay: (fontDisplay: FontDisplay) => {
+    set({ fontDisplay })
+  },
+
+  // WOFF拡張メタデータ
+  setWoffMetadata: (metadata: string) => {
+    set({ woffMetadata: metadata })
+  },
+
+  // ソースからの文字抽出
+  importTextSources: async (files: TextSourceFile[]) => {
+    set({ isExtractingText: true })
+    try {
+      if (files.length === 0) {
+        throw new Error('文字抽出に対応したファイルが見つかりませんでした（HTML/JSX/Vue/Markdown/JSON/PO）')
+      }
+      const result = await extractCharactersFromFiles(files)
+      get().setCustomCharacters(result.characters)
+      set({ selectedPreset: 'custom', textExtraction: result })
+    } catch (error) {
+      const appError = handleError(error)
+      get().addError(appError.toJSON())
+      set({ textExtraction: null })
+    } finally {
+      set({ isExtractingText: false })
+    }
+  },
+
+  // ユーザー定義プリセット
+  loadUserPresets: async () => {
+    try {
+      set({ userPresets: await loadStoredUserPresets() })
+    } catch (error) {
+      console.warn('User presets could not be loaded:', error)
+    }
+  },
+
+  saveUserPreset: async (name: string, description?: string) => {
+    const state = get()
+    const settings: UserPresetSettings = {
+      characterSetExpression: buildCharacterSetExpression(
+        state.selectedPreset,
+        state.customCharacters,
+        state.characterSetModifiers
+      ),
+      outputFormat: state.outputFormat,
+      variationAxes: state.pinVariationAxes ? state.variationAxesValues : undefined,
+      pinVariationAxes: state.pinVariationAxes,
+      variationAxisRanges: state.pinVariationAxes || Object.keys(state.variationAxisRanges).length === 0
+        ? undefined
+        : state.variationAxisRanges,
+      preserveFeatures: state.preserveFeatures,
+      featureTags: state.featureTags
+    }
+    try {
+      const preset = createUserPreset(name, settings, description)
+      const userPresets = [...state.userPresets, preset]
+      await saveStoredUserPresets(userPresets)
+      set({ userPresets, activeUserPresetId: preset.id })
+    } catch (error) {
+      get().addError(handleError(error).toJSON())
+    }
+  },
+
+  applyUserPreset: (presetId: string) => {
+    const preset = get().userPresets.find(p => p.id === presetId)
+    if (!preset) {
+      return
+    }
+    const { selectedPreset, customCharacters, modifiers } = toCharacterSetSelection(preset.characterSetExpression)
+    set(state => ({
+      selectedPreset,
+      customCharacters,
+      characterSetModifiers: modifiers,
+      outputFormat: preset.outputFormat ?? state.outputFormat,
+      pinVariationAxes: preset.pinVariationAxes ?? state.pinVariationAxes,
+      variationAxesValues: preset.variationAxes ? { ...state.variationAxesValues, ...preset.variationAxes } : state.variationAxesValues,
+      variationAxisRanges: preset.variationAxisRanges
+        ? { ...state.variationAxisRanges, ...preset.variationAxisRanges }
+        : state.variationAxisRanges,
+      preserveFeatures: preset.preserveFeatures ?? state.preserveFeatures,
+      featureTags: preset.featureTags ?? state.featureTags,
+      activeUserPresetId: preset.id
+    }))
+  },
+
+  deleteUserPreset: async (presetId: string) => {
+    const userPresets = get().userPresets.filter(p => p.id !== presetId)
+    try {
+      await saveStoredUserPresets(userPresets)
+      set(state => ({
+        userPresets,
+        activeUserPresetId: state.activeUserPresetId === presetId ? null : state.activeUserPresetId
+      }))
+    } catch (error) {
+      get().addError(handleError(error).toJSON())
+    }
+  },
+
+  importUserPresets: async (file: File) => {
+    try {
+      const userPresets = mergeUserPresets(get().userPresets, await readUserPresetFile(file))
+      await saveStoredUserPresets(userPresets)
+      set({ userPresets })
+    } catch (error) {
+      get().addError(handleError(error, file.name).toJSON())
+    }
+  },
+
+  exportUserPresets: () => {
+    downloadUserPresets(get().userPresets)
   },
 
   // セレクタ
   getEffectiveCharacterSet: () => {
-    const { selectedPreset, customCharacters } = get()
-    if (selectedPreset === 'custom') {
-      return customCharacters
-    }
-    return getCharacterSetFromPreset(selectedPreset)
+    const { selectedPreset, customCharacters, characterSetModifiers } = get()
+    return evaluateCharacterSet(buildCharacterSetExpression(selectedPreset, customCharacters, characterSetModifiers))
   },
 
   getTotalCharacterCount: () => {
     const characterSet = get().getEffectiveCharacterSet()
     return new Set(characterSet).size
+  },
+
+  getCoverageReport: (fileId) => {
+    const codePoints = get().files.get(fileId)?.analysis?.codePoints
+    if (!codePoints) {
+      return null
+    }
+    return checkCoverage(get().getEffectiveCharacterSet(), codePoints)
   }
 }))
+
+// Workerプールの処理待ちの状況をストアに反映
+fontProcessor.subscribe(workerQueue => useFontStore.setState({ workerQueue }))
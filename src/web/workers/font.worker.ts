@@ -1,13 +1,20 @@
 import { analyzeFont } from '../../lib/fontAnalyzer'
-import { subsetFont } from '../../lib/fontSubsetter'
+import { initWasm, subsetFont, subsetFontSliced, subsetNamedInstances } from '../../lib/fontSubsetter'
+import { estimateSubsetSize } from '../../lib/sizeEstimator'
 import { handleError, ErrorType } from '../../shared/errors'
 import type {
   WorkerRequest,
   WorkerResponse,
   AnalyzePayload,
   SubsetPayload,
+  SlicedSubsetPayload,
+  InstanceSubsetPayload,
+  EstimatePayload,
   AnalyzeResult,
+  EstimateResult,
   SubsetResult,
+  SlicedSubsetResult,
+  InstanceSubsetResult,
   ProgressPayload,
   ErrorPayload
 } from './types'
@@ -20,14 +27,57 @@ function postResponse<T>(response: WorkerResponse<T>): void {
   self.postMessage(response)
 }
 
+// エラーをErrorPayloadに変換して送信
+function postError(id: string, error: unknown, fileName?: string): void {
+  const appError = handleError(error, fileName)
+  console.error('[Worker] Request failed:', appError.message)
+
+  postResponse<ErrorPayload>({
+    type: 'error',
+    id,
+    payload: {
+      code: appError.type,
+      message: appError.message,
+      details: appError.cause?.message,
+      suggestion: appError.suggestion,
+      recoverable: appError.recoverable
+    }
+  })
+}
+
+// キャンセルによる中断はcancelled、それ以外はエラーとして送信
+function postCancelledOrError(id: string, error: unknown, fileName: string): void {
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    postResponse({
+      type: 'cancelled',
+      id,
+      payload: {}
+    })
+    return
+  }
+  postError(id, error, fileName)
+}
+
+// WASMの事前読み込み（プールに追加されたWorkerごとに実行）
+async function handleWarmup(id: string): Promise<void> {
+  try {
+    await initWasm()
+    postResponse({
+      type: 'result',
+      id,
+      payload: {}
+    })
+  } catch (error) {
+    postError(id, error)
+  }
+}
+
 // 解析処理
 async function handleAnalyze(id: string, payload: AnalyzePayload): Promise<void> {
   const controller = new AbortController()
   activeRequests.set(id, controller)
 
   try {
-    console.log('[Worker] Starting analysis for:', payload.fileName)
-
     const analysis = await analyzeFont(payload.fileData, payload.fileName)
 
     postResponse<AnalyzeResult>({
@@ -36,20 +86,7 @@ async function handleAnalyze(id: string, payload: AnalyzePayload): Promise<void>
       payload: { analysis }
     })
   } catch (error) {
-    const appError = handleError(error, payload.fileName)
-    console.error('[Worker] Analysis error:', appError.message)
-
-    postResponse<ErrorPayload>({
-      type: 'error',
-      id,
-      payload: {
-        code: appError.type,
-        message: appError.message,
-        details: appError.cause?.message,
-        suggestion: appError.suggestion,
-        recoverable: appError.recoverable
-      }
-    })
+    postError(id, error, payload.fileName)
   } finally {
     activeRequests.delete(id)
   }
@@ -61,9 +98,6 @@ async function handleSubset(id: string, payload: SubsetPayload): Promise<void> {
   activeRequests.set(id, controller)
 
   try {
-    console.log('[Worker] Starting subset for:', payload.fileName)
-    console.log('[Worker] Text length:', payload.text.length)
-
     const result = await subsetFont(
       payload.fileData,
       {
@@ -71,7 +105,13 @@ async function handleSubset(id: string, payload: SubsetPayload): Promise<void> {
         outputFormat: payload.outputFormat,
         fileName: payload.fileName,
         variationAxes: payload.variationAxes,
-        pinVariationAxes: payload.pinVariationAxes
+        pinVariationAxes: payload.pinVariationAxes,
+        variationAxisRanges: payload.variationAxisRanges,
+        preserveFeatures: payload.preserveFeatures,
+        featureTags: payload.featureTags,
+        fontCodePoints: payload.fontCodePoints,
+        faceIndex: payload.faceIndex,
+        woffMetadata: payload.woffMetadata
       },
       // プログレスコールバック
       (progress) => {
@@ -90,38 +130,122 @@ async function handleSubset(id: string, payload: SubsetPayload): Promise<void> {
       payload: result
     })
   } catch (error) {
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      postResponse({
-        type: 'cancelled',
-        id,
-        payload: {}
-      })
-    } else {
-      const appError = handleError(error, payload.fileName)
-      console.error('[Worker] Subset error:', appError.message)
-
-      postResponse<ErrorPayload>({
-        type: 'error',
-        id,
-        payload: {
-          code: appError.type,
-          message: appError.message,
-          details: appError.cause?.message,
-          suggestion: appError.suggestion,
-          recoverable: appError.recoverable
-        }
-      })
-    }
+    postCancelledOrError(id, error, payload.fileName)
   } finally {
     activeRequests.delete(id)
   }
 }
 
+// 分割サブセット処理
+async function handleSubsetSliced(id: string, payload: SlicedSubsetPayload): Promise<void> {
+  const controller = new AbortController()
+  activeRequests.set(id, controller)
+
+  try {
+    const result = await subsetFontSliced(
+      payload.fileData,
+      {
+        text: payload.text,
+        fileName: payload.fileName,
+        chunkCount: payload.chunkCount,
+        variationAxes: payload.variationAxes,
+        pinVariationAxes: payload.pinVariationAxes,
+        variationAxisRanges: payload.variationAxisRanges,
+        preserveFeatures: payload.preserveFeatures,
+        featureTags: payload.featureTags,
+        fontCodePoints: payload.fontCodePoints,
+        faceIndex: payload.faceIndex
+      },
+      (progress) => {
+        postResponse<ProgressPayload>({
+          type: 'progress',
+          id,
+          payload: progress
+        })
+      },
+      controller.signal
+    )
+
+    postResponse<SlicedSubsetResult>({
+      type: 'result',
+      id,
+      payload: result
+    })
+  } catch (error) {
+    postCancelledOrError(id, error, payload.fileName)
+  } finally {
+    activeRequests.delete(id)
+  }
+}
+
+// 名前付きインスタンスごとのサブセット処理
+async function handleSubsetInstances(id: string, payload: InstanceSubsetPayload): Promise<void> {
+  const controller = new AbortController()
+  activeRequests.set(id, controller)
+
+  try {
+    const outputs = await subsetNamedInstances(
+      payload.fileData,
+      {
+        text: payload.text,
+        outputFormat: payload.outputFormat,
+        fileName: payload.fileName,
+        instances: payload.instances,
+        preserveFeatures: payload.preserveFeatures,
+        featureTags: payload.featureTags,
+        fontCodePoints: payload.fontCodePoints,
+        faceIndex: payload.faceIndex,
+        woffMetadata: payload.woffMetadata
+      },
+      (progress) => {
+        postResponse<ProgressPayload>({
+          type: 'progress',
+          id,
+          payload: progress
+        })
+      },
+      controller.signal
+    )
+
+    postResponse<InstanceSubsetResult>({
+      type: 'result',
+      id,
+      payload: { outputs }
+    })
+  } catch (error) {
+    postCancelledOrError(id, error, payload.fileName)
+  } finally {
+    activeRequests.delete(id)
+  }
+}
+
+// サイズ推定
+async function handleEstimate(id: string, payload: EstimatePayload): Promise<void> {
+  try {
+    const estimate = await estimateSubsetSize(payload.fileData, payload.text, payload.outputFormat, {
+      variationAxes: payload.variationAxes,
+      pinVariationAxes: payload.pinVariationAxes,
+      variationAxisRanges: payload.variationAxisRanges,
+      preserveFeatures: payload.preserveFeatures,
+      featureTags: payload.featureTags,
+      faceIndex: payload.faceIndex,
+      calibrate: payload.calibrate
+    })
+
+    postResponse<EstimateResult>({
+      type: 'result',
+      id,
+      payload: { estimate }
+    })
+  } catch (error) {
+    postError(id, error, payload.fileName)
+  }
+}
+
 // キャンセル処理
 function handleCancel(id: string): void {
   const controller = activeRequests.get(id)
   if (controller) {
-    console.log('[Worker] Cancelling request:', id)
     controller.abort()
   }
 }
@@ -130,15 +254,25 @@ function handleCancel(id: string): void {
 self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
   const { type, id, payload } = event.data
 
-  console.log('[Worker] Received message:', type, id)
-
   switch (type) {
+    case 'warmup':
+      await handleWarmup(id)
+      break
     case 'analyze':
       await handleAnalyze(id, payload as AnalyzePayload)
       break
     case 'subset':
       await handleSubset(id, payload as SubsetPayload)
       break
+    case 'subsetSliced':
+      await handleSubsetSliced(id, payload as SlicedSubsetPayload)
+      break
+    case 'subsetInstances':
+      await handleSubsetInstances(id, payload as InstanceSubsetPayload)
+      break
+    case 'estimate':
+      await handleEstimate(id, payload as EstimatePayload)
+      break
     case 'cancel':
       handleCancel(id)
       break
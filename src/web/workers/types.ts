@@ -1,7 +1,7 @@
-import { FontAnalysis, OutputFormat } from '../../shared/types'
+import { AxisRange, CoverageReport, FontAnalysis, NamedInstance, OutputFormat, PreserveFeatures, SizeEstimate } from '../../shared/types'
 
 // リクエストの種類
-export type WorkerRequestType = 'analyze' | 'subset' | 'cancel'
+export type WorkerRequestType = 'warmup' | 'analyze' | 'subset' | 'subsetSliced' | 'subsetInstances' | 'estimate' | 'cancel'
 
 // メインスレッド → Worker
 export interface WorkerRequest<T = unknown> {
@@ -22,6 +22,44 @@ export interface SubsetPayload {
   outputFormat: OutputFormat
   variationAxes?: Record<string, number>
   pinVariationAxes?: boolean
+  variationAxisRanges?: Record<string, AxisRange>
+  preserveFeatures?: PreserveFeatures
+  featureTags?: Record<string, boolean>
+  fontCodePoints?: number[]
+  faceIndex?: number
+  woffMetadata?: string
+}
+
+export interface InstanceSubsetPayload extends Omit<SubsetPayload, 'variationAxes' | 'pinVariationAxes' | 'variationAxisRanges'> {
+  instances: NamedInstance[]
+}
+
+export interface SlicedSubsetPayload {
+  fileData: Uint8Array
+  fileName: string
+  text: string
+  chunkCount: number
+  variationAxes?: Record<string, number>
+  pinVariationAxes?: boolean
+  variationAxisRanges?: Record<string, AxisRange>
+  preserveFeatures?: PreserveFeatures
+  featureTags?: Record<string, boolean>
+  fontCodePoints?: number[]
+  faceIndex?: number
+}
+
+export interface EstimatePayload {
+  fileData: Uint8Array
+  fileName: string
+  text: string
+  outputFormat: OutputFormat
+  variationAxes?: Record<string, number>
+  pinVariationAxes?: boolean
+  variationAxisRanges?: Record<string, AxisRange>
+  preserveFeatures?: PreserveFeatures
+  featureTags?: Record<string, boolean>
+  faceIndex?: number
+  calibrate?: boolean // サンプルを実際にサブセット化して較正する（既定: true）
 }
 
 // Worker → メインスレッド
@@ -42,6 +80,35 @@ export interface SubsetResult {
   originalSize: number
   outputSize: number
   fileName: string
+  coverage?: CoverageReport
+}
+
+export interface InstanceSubsetOutput extends SubsetResult {
+  instance: NamedInstance
+}
+
+export interface InstanceSubsetResult {
+  outputs: InstanceSubsetOutput[]
+}
+
+export interface SubsetChunkResult {
+  index: number
+  data: Uint8Array
+  fileName: string
+  unicodeRange: string
+  characterCount: number
+  outputSize: number
+}
+
+export interface SlicedSubsetResult {
+  chunks: SubsetChunkResult[]
+  originalSize: number
+  totalSize: number
+  coverage?: CoverageReport
+}
+
+export interface EstimateResult {
+  estimate: SizeEstimate
 }
 
 export interface ProgressPayload {
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { resolve, join } from 'path';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+
+import {
+  parseSubsetArgs,
+  parseAxisPins,
+  buildSubsetOptions,
+  formatSubsetReport,
+  CliUsageError,
+} from '../../src/cli/subsetCommand';
+
+describe('fontminify subset', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'fontminify-cli-'));
+    writeFileSync(join(tempDir, 'chars.txt'), 'こんにちは\nこんにちは世界');
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseSubsetArgs', () => {
+    it('既定値で引数を解析する', () => {
+      const args = parseSubsetArgs(['font.ttf']);
+
+      expect(args.inputPath).toBe(resolve('font.ttf'));
+      expect(args.outputFormat).toBe('woff2');
+      expect(args.preset).toBeUndefined();
+      expect(args.variationAxes).toBeUndefined();
+      expect(args.json).toBe(false);
+    });
+
+    it('プリセット・出力形式・軸固定を解析する', () => {
+      const args = parseSubsetArgs([
+        'font.ttf', '-p', 'standard', '-f', 'ttf', '-a', 'wght=700', '--axis', 'wdth=87.5',
+      ]);
+
+      expect(args.preset).toBe('standard');
+      expect(args.outputFormat).toBe('ttf');
+      expect(args.variationAxes).toEqual({ wght: 700, wdth: 87.5 });
+    });
+
+    it('TTC/OTC の書体番号を解析する', () => {
+      expect(parseSubsetArgs(['fonts.ttc', '--face', '2,0', '--face', '2']).faceIndices).toEqual([0, 2]);
+      expect(parseSubsetArgs(['fonts.ttc']).faceIndices).toBeUndefined();
+      expect(() => parseSubsetArgs(['fonts.ttc', '--face', 'W3'])).toThrow(CliUsageError);
+    });
+
+    it('不明なプリセットを拒否する', () => {
+      expect(() => parseSubsetArgs(['font.ttf', '-p', 'unknown'])).toThrow(CliUsageError);
+      expect(() => parseSubsetArgs(['font.ttf', '-p', 'custom'])).toThrow(CliUsageError);
+    });
+
+    it('無効な出力形式を拒否する', () => {
+      expect(() => parseSubsetArgs(['font.ttf', '-f', 'eot'])).toThrow(CliUsageError);
+    });
+
+    it('排他的なオプションの同時指定を拒否する', () => {
+      expect(() => parseSubsetArgs(['font.ttf', '-p', 'minimum', '-t', 'chars.txt'])).toThrow(CliUsageError);
+      expect(() => parseSubsetArgs(['font.ttf', '-o', 'a.woff2', '--out-dir', 'out'])).toThrow(CliUsageError);
+      expect(() => parseSubsetArgs(['font.ttf', '-p', 'minimum', '-e', 'site'])).toThrow(CliUsageError);
+    });
+
+    it('文字抽出元のファイル・ディレクトリを解析する', () => {
+      const args = parseSubsetArgs(['font.ttf', '-e', 'src', '--extract', 'content/index.md', '-t', 'chars.txt']);
+
+      expect(args.extractPaths).toEqual([resolve('src'), resolve('content/index.md')]);
+      expect(args.textFile).toBe(resolve('chars.txt'));
+      expect(parseSubsetArgs(['font.ttf']).extractPaths).toBeUndefined();
+    });
+
+    it('入力フォントがない場合や未知のオプションを拒否する', () => {
+      expect(() => parseSubsetArgs([])).toThrow(CliUsageError);
+      expect(() => parseSubsetArgs(['a.ttf', 'b.ttf'])).toThrow(CliUsageError);
+      expect(() => parseSubsetArgs(['font.ttf', '--unknown'])).toThrow(CliUsageError);
+    });
+  });
+
+  describe('parseAxisPins', () => {
+    it('タグと数値の組を解析する', () => {
+      expect(parseAxisPins(['wght=400', 'slnt=-10'])).toEqual({ wght: 400, slnt: -10 });
+    });
+
+    it('不正な形式を拒否する', () => {
+      expect(() => parseAxisPins(['wght'])).toThrow(CliUsageError);
+      expect(() => parseAxisPins(['weight=400'])).toThrow(CliUsageError);
+      expect(() => parseAxisPins(['wght=bold'])).toThrow(CliUsageError);
+    });
+  });
+
+  describe('buildSubsetOptions', () => {
+    it('GUIと同じ出力ファイル名を入力フォントの隣に生成する', () => {
+      const options = buildSubsetOptions(parseSubsetArgs(['/fonts/NotoSansJP.ttf', '-p', 'minimum']));
+
+      expect(options.outputPath).toBe(join('/fonts', 'NotoSansJP_subset.woff2'));
+      expect(options.preset).toBe('minimum');
+      expect(options.customCharacters).toBeUndefined();
+      expect(options.enableWoff2Compression).toBe(true);
+    });
+
+    it('--out-dir で出力ディレクトリを変更する', () => {
+      const options = buildSubsetOptions(
+        parseSubsetArgs(['/fonts/NotoSansJP.ttf', '-f', 'woff', '--out-dir', '/build'])
+      );
+
+      expect(options.outputPath).toBe(join('/build', 'NotoSansJP_subset.woff'));
+    });
+
+    it('プリセット未指定時は推奨プリセットを使用する', () => {
+      const options = buildSubsetOptions(parseSubsetArgs(['/fonts/NotoSansJP.ttf']));
+      expect(options.preset).toBe('joyo-jis1');
+    });
+
+    it('存在しないテキストファイルを拒否する', () => {
+      expect(() =>
+        buildSubsetOptions(parseSubsetArgs(['/fonts/NotoSansJP.ttf', '-t', join(tempDir, 'missing.txt')]))
+      ).toThrow(CliUsageError);
+    });
+
+    it('テキストファイルから重複のない文字セットを構築する', () => {
+      const options = buildSubsetOptions(parseSubsetArgs(['/fonts/NotoSansJP.ttf', '-t', join(tempDir, 'chars.txt')]));
+
+      expect(options.preset).toBeUndefined();
+      expect(options.customCharacters).toBe('こんにちは世界');
+    });
+
+    it('抽出した文字をテキストファイルの文字と合わせる', () => {
+      const options = buildSubsetOptions(
+        parseSubsetArgs(['/fonts/NotoSansJP.ttf', '-t', join(tempDir, 'chars.txt'), '-e', 'site']),
+        '世界地図'
+      );
+
+      expect(options.preset).toBeUndefined();
+      expect(options.customCharacters).toBe('こんにちは世界地図');
+    });
+
+    it('軸固定を指定した場合はpinVariationAxesを有効にする', () => {
+      const options = buildSubsetOptions(parseSubsetArgs(['/fonts/Variable.ttf', '-a', 'wght=300']));
+
+      expect(options.pinVariationAxes).toBe(true);
+      expect(options.variationAxes).toEqual({ wght: 300 });
+    });
+  });
+
+  describe('formatSubsetReport', () => {
+    it('サイズと削減率を含むレポートを整形する', () => {
+      const text = formatSubsetReport({
+        inputPath: '/fonts/a.ttf',
+        outputPath: '/fonts/a_subset.woff2',
+        outputFormat: 'woff2',
+        preset: 'minimum',
+        characterCount: 395,
+        originalSize: 1024 * 1024,
+        outputSize: 10 * 1024,
+        compressionRatio: 0.01,
+        sizeDifference: 1024 * 1024 - 10 * 1024,
+        percentReduction: 99.02,
+        variationAxes: { wght: 700 },
+      });
+
+      expect(text).toContain('WOFF2');
+      expect(text).toContain('395 (minimum)');
+      expect(text).toContain('1 MB → 10 KB (99.02% 削減)');
+      expect(text).toContain('wght=700');
+      expect(text).not.toContain('未収録');
+    });
+
+    it('フォントに収録されていない文字をカテゴリ別に表示する', () => {
+      const text = formatSubsetReport({
+        inputPath: '/fonts/a.ttf',
+        outputPath: '/fonts/a_subset.woff2',
+        outputFormat: 'woff2',
+        characterCount: 5,
+        originalSize: 1024,
+        outputSize: 512,
+        compressionRatio: 0.5,
+        sizeDifference: 512,
+        percentReduction: 50,
+        coverage: {
+          requestedCount: 5,
+          coveredCount: 2,
+          missingCount: 3,
+          missing: [
+            { category: 'hiragana', characters: 'ゔ' },
+            { category: 'kanji-advanced', characters: '𠮷鑫' },
+          ],
+        },
+      });
+
+      expect(text).toContain('未収録:   3字 (ひらがな: ゔ / その他の漢字: 𠮷鑫)');
+    });
+
+    it('複数書体の出力先と書体ごとの未収録文字を表示する', () => {
+      const text = formatSubsetReport({
+        inputPath: '/fonts/a.ttc',
+        outputPath: '/fonts/a_subset.woff2',
+        outputFormat: 'woff2',
+        characterCount: 2,
+        originalSize: 4096,
+        outputSize: 1024,
+        compressionRatio: 0.25,
+        sizeDifference: 3072,
+        percentReduction: 75,
+        faces: [
+          { index: 0, postscriptName: 'Sans-W3', outputPath: '/fonts/a_subset-Sans-W3.woff2', outputSize: 512 },
+          {
+            index: 1,
+            postscriptName: 'Sans-W6',
+            outputPath: '/fonts/a_subset-Sans-W6.woff2',
+            outputSize: 512,
+            coverage: { requestedCount: 2, coveredCount: 1, missingCount: 1, missing: [{ category: 'hiragana', characters: 'ゔ' }] },
+          },
+        ],
+      });
+
+      expect(text).toContain('出力:     /fonts/a_subset-Sans-W3.woff2 (書体0: Sans-W3, 512 B)');
+      expect(text).toContain('出力:     /fonts/a_subset-Sans-W6.woff2 (書体1: Sans-W6, 512 B)');
+      expect(text).not.toContain('出力:     /fonts/a_subset.woff2');
+      expect(text).toContain('未収録:   書体1: 1字 (ひらがな: ゔ)');
+    });
+  });
+});
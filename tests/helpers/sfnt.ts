@@ -0,0 +1,38 @@
+/**
+ * テスト用SFNTの作成オプション
+ */
+export interface SfntFixtureOptions {
+  version?: number; // sfntVersion（既定は TrueType の 0x00010000）
+  reverse?: boolean; // テーブルをタグ順とは逆に並べる
+  checksum?: (data: Uint8Array, index: number) => number; // 省略時はチェックサムを0にする
+}
+
+/**
+ * テスト用の最小SFNTを作成（テーブルは4バイト境界に揃えて配置）
+ */
+export function buildSfnt(tables: Record<string, Uint8Array>, options: SfntFixtureOptions = {}): Uint8Array {
+  const tags = Object.keys(tables).sort();
+  if (options.reverse) {
+    tags.reverse();
+  }
+  let offset = 12 + tags.length * 16;
+  const offsets = tags.map(tag => {
+    const tableOffset = offset;
+    offset += (tables[tag].length + 3) & ~3;
+    return tableOffset;
+  });
+
+  const sfnt = new Uint8Array(offset);
+  const view = new DataView(sfnt.buffer);
+  view.setUint32(0, options.version ?? 0x00010000);
+  view.setUint16(4, tags.length);
+  tags.forEach((tag, index) => {
+    const entry = 12 + index * 16;
+    for (let i = 0; i < 4; i++) view.setUint8(entry + i, tag.charCodeAt(i));
+    view.setUint32(entry + 4, options.checksum?.(tables[tag], index) ?? 0);
+    view.setUint32(entry + 8, offsets[index]);
+    view.setUint32(entry + 12, tables[tag].length);
+    sfnt.set(tables[tag], offsets[index]);
+  });
+  return sfnt;
+}
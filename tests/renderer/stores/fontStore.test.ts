@@ -166,6 +166,25 @@ describe('useFontStore', () => {
       expect(result.current.subsetOptions.customCharacters).toBe('あいうえお');
       expect(result.current.subsetOptions.preset).toBeUndefined();
     });
+
+    it('should sync variation axis ranges and clear them on reset', () => {
+      const { result } = renderHook(() => useFontStore());
+      const ranges = { wght: { min: 300, default: 400, max: 700 } };
+
+      act(() => {
+        result.current.setVariationAxisRanges(ranges);
+      });
+
+      expect(result.current.variationAxisRanges).toEqual(ranges);
+      expect(result.current.subsetOptions.variationAxisRanges).toEqual(ranges);
+
+      act(() => {
+        result.current.resetVariationAxesToDefaults([{ tag: 'wght', default: 400 }]);
+      });
+
+      expect(result.current.variationAxisRanges).toEqual({});
+      expect(result.current.subsetOptions.variationAxisRanges).toBeUndefined();
+    });
   });
 
   describe('error handling', () => {
@@ -182,6 +201,17 @@ describe('useFontStore', () => {
       expect(result.current.errors[0].filePath).toBe('/path/to/font.ttf');
     });
 
+    it('should not report cancellation as an error', () => {
+      const { result } = renderHook(() => useFontStore());
+
+      act(() => {
+        result.current.addError(new Error("Error invoking remote method 'subset-font': Error: 処理がキャンセルされました"));
+      });
+
+      expect(result.current.errors).toHaveLength(0);
+      expect(result.current.hasErrors).toBe(false);
+    });
+
     it('should remove errors by index', () => {
       const { result } = renderHook(() => useFontStore());
       
@@ -311,6 +341,50 @@ describe('useFontStore', () => {
 
       expect(result.current.getProcessingProgress()).toBe(50); // (25 + 75) / 2
     });
+
+    it('should apply batch job updates and finish when all jobs end', () => {
+      const { result } = renderHook(() => useFontStore());
+      const progress = {
+        phase: 'complete' as const,
+        progress: 100,
+        currentFile: '/path/to/font1.ttf',
+        totalFiles: 1,
+        processedFiles: 1,
+        estimatedTime: 0,
+        errors: [],
+      };
+
+      act(() => {
+        result.current.clearProcessingJobs();
+        result.current.setProcessing(true);
+        result.current.addProcessingJob({ id: 'job1', filePath: '/path/to/font1.ttf', status: 'processing', progress: 50 });
+        result.current.addProcessingJob({ id: 'job2', filePath: '/path/to/font2.ttf', status: 'pending', progress: 0 });
+        result.current.applyBatchJobUpdate({
+          jobId: 'job1',
+          inputPath: '/path/to/font1.ttf',
+          status: 'completed',
+          progress,
+          outputPaths: ['/out/font1_subset.woff2'],
+          originalSize: 1000,
+          outputSize: 200,
+        });
+      });
+
+      expect(result.current.processingJobs[0]).toMatchObject({
+        status: 'completed',
+        progress: 100,
+        outputPath: '/out/font1_subset.woff2',
+        compressedSize: 200,
+      });
+      expect(result.current.isProcessing).toBe(true);
+
+      act(() => {
+        result.current.applyBatchJobUpdate({ jobId: 'job2', inputPath: '/path/to/font2.ttf', status: 'cancelled', progress: { ...progress, progress: 0 } });
+      });
+
+      expect(result.current.processingJobs[1].status).toBe('cancelled');
+      expect(result.current.isProcessing).toBe(false);
+    });
   });
 
   describe('dark mode', () => {
@@ -379,5 +453,23 @@ describe('useFontStore', () => {
       const count = result.current.getTotalCharacterCount();
       expect(count).toBe(3); // 重複を除いた文字数
     });
+
+    it('should apply additions and exclusions to the selected preset', () => {
+      const { result } = renderHook(() => useFontStore());
+
+      act(() => {
+        result.current.setSelectedPreset('minimum');
+        result.current.setCharacterSetModifiers({ addText: '製品', excludeText: 'あ' });
+      });
+
+      const characterSet = result.current.getEffectiveCharacterSet();
+      expect(characterSet).toContain('製');
+      expect(characterSet).not.toContain('あ');
+      expect(result.current.subsetOptions.characterSetExpression).toMatchObject({
+        basePreset: 'minimum',
+        addText: '製品',
+        excludeText: 'あ',
+      });
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { clampAxisRange, getFullAxisRange, getRestrictedAxisRanges, isAxisRangeRestricted } from '@shared/axisRanges';
+import { VariableAxis } from '@shared/types';
+
+const wght: VariableAxis = { tag: 'wght', name: 'Weight', min: 100, max: 900, default: 400 };
+const wdth: VariableAxis = { tag: 'wdth', name: 'Width', min: 75, max: 100, default: 100 };
+
+describe('axisRanges', () => {
+  describe('clampAxisRange', () => {
+    it('軸の範囲に収めて既定値を範囲内に寄せる', () => {
+      expect(clampAxisRange(wght, { min: 50, max: 1000 })).toEqual({ min: 100, default: 400, max: 900 });
+      expect(clampAxisRange(wght, { min: 500, max: 700 })).toEqual({ min: 500, default: 500, max: 700 });
+    });
+
+    it('最小値と最大値の逆転を直す', () => {
+      expect(clampAxisRange(wght, { min: 700, max: 300 })).toEqual({ min: 300, default: 400, max: 700 });
+    });
+  });
+
+  describe('isAxisRangeRestricted', () => {
+    it('軸全体の範囲は制限とみなさない', () => {
+      expect(isAxisRangeRestricted(wght, getFullAxisRange(wght))).toBe(false);
+      expect(isAxisRangeRestricted(wght, { min: 300, default: 400, max: 900 })).toBe(true);
+    });
+  });
+
+  describe('getRestrictedAxisRanges', () => {
+    it('範囲を狭める軸だけを返す', () => {
+      expect(getRestrictedAxisRanges([wght, wdth], {
+        wght: { min: 300, max: 700 },
+        wdth: { min: 75, max: 100 },
+        opsz: { min: 10, max: 20 },
+      })).toEqual({ wght: { min: 300, default: 400, max: 700 } });
+    });
+
+    it('制限がなければ undefined', () => {
+      expect(getRestrictedAxisRanges([wght], {})).toBeUndefined();
+      expect(getRestrictedAxisRanges(undefined, { wght: { min: 300, max: 700 } })).toBeUndefined();
+    });
+  });
+});
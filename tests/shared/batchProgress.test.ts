@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getBatchOutputFileNames, isBatchJobFinished, summarizeBatchProgress } from '@shared/batchProgress';
+import { BatchJobStatus, BatchJobUpdate, ErrorType } from '@shared/types';
+
+const updateOf = (jobId: string, status: BatchJobStatus, progress: number, estimatedTime = 0): BatchJobUpdate => ({
+  jobId,
+  inputPath: `/fonts/${jobId}.ttf`,
+  status,
+  progress: {
+    phase: status === 'processing' ? 'subsetting' : status === 'pending' ? 'idle' : 'complete',
+    progress,
+    currentFile: `/fonts/${jobId}.ttf`,
+    totalFiles: 1,
+    processedFiles: status === 'completed' ? 1 : 0,
+    estimatedTime,
+    errors: [],
+  },
+});
+
+describe('batchProgress', () => {
+  describe('getBatchOutputFileNames', () => {
+    it('入力ファイル名から出力ファイル名を作る', () => {
+      expect(getBatchOutputFileNames(['/fonts/Noto Sans.otf', 'C:\\fonts\\Mono.ttf'], 'woff2')).toEqual([
+        'Noto Sans_subset.woff2',
+        'Mono_subset.woff2',
+      ]);
+    });
+
+    it('同じ名前のフォントには連番を付ける', () => {
+      expect(getBatchOutputFileNames(['/a/Font.ttf', '/b/Font.otf', '/c/font.ttf'], 'ttf')).toEqual([
+        'Font_subset.ttf',
+        'Font_subset_2.ttf',
+        'font_subset_3.ttf',
+      ]);
+    });
+  });
+
+  describe('summarizeBatchProgress', () => {
+    it('ジョブの進捗を平均し、終了したジョブは100%として数える', () => {
+      const progress = summarizeBatchProgress([
+        updateOf('a', 'completed', 100),
+        updateOf('b', 'processing', 40, 8),
+        updateOf('c', 'pending', 0),
+        updateOf('d', 'cancelled', 0),
+      ]);
+
+      expect(progress.progress).toBe(60);
+      expect(progress.totalFiles).toBe(4);
+      expect(progress.processedFiles).toBe(1);
+      expect(progress.currentFile).toBe('/fonts/b.ttf');
+      expect(progress.phase).toBe('subsetting');
+      expect(progress.estimatedTime).toBe(8);
+    });
+
+    it('すべて終了したら完了にしてエラーをまとめる', () => {
+      const failed = updateOf('b', 'error', 0);
+      failed.progress.errors = [{ type: ErrorType.SUBSET_FAILED, message: '失敗', recoverable: true }];
+      const progress = summarizeBatchProgress([updateOf('a', 'completed', 100), failed]);
+
+      expect(progress.phase).toBe('complete');
+      expect(progress.errors).toHaveLength(1);
+      expect(isBatchJobFinished('error')).toBe(true);
+      expect(isBatchJobFinished('processing')).toBe(false);
+    });
+  });
+});
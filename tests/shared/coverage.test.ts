@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { checkCoverage, getCharCategory, formatMissingCharacters } from '@shared/coverage';
+
+const codePoints = (text: string) => Array.from(text).map(char => char.codePointAt(0) as number);
+
+describe('coverage', () => {
+  describe('getCharCategory', () => {
+    it('文字の種類を判定する', () => {
+      expect(getCharCategory('A')).toBe('ascii');
+      expect(getCharCategory('あ')).toBe('hiragana');
+      expect(getCharCategory('ア')).toBe('katakana');
+      expect(getCharCategory('ｱ')).toBe('katakana');
+      expect(getCharCategory('学')).toBe('kanji-standard');
+      expect(getCharCategory('亜')).toBe('kanji-standard');
+      expect(getCharCategory('唖')).toBe('kanji-jis1');
+      expect(getCharCategory('彌')).toBe('kanji-jinmeiyo');
+      expect(getCharCategory('弌')).toBe('kanji-jis2');
+      expect(getCharCategory('鑫')).toBe('kanji-jis3');
+      expect(getCharCategory('丂')).toBe('kanji-jis4');
+      expect(getCharCategory('这')).toBe('hanzi-gb2312');
+      expect(getCharCategory('丟')).toBe('hanzi-big5');
+      expect(getCharCategory('丌')).toBe('kanji-advanced');
+      expect(getCharCategory('㐀')).toBe('cjk-extension');
+      expect(getCharCategory('𪜀')).toBe('cjk-extension');
+      expect(getCharCategory('한')).toBe('hangul');
+      expect(getCharCategory('ㄱ')).toBe('hangul');
+      expect(getCharCategory('、')).toBe('symbols');
+      expect(getCharCategory('😀')).toBe('emoji');
+      expect(getCharCategory('🇯')).toBe('emoji');
+    });
+
+    it('テキスト表示が既定の図記号は記号に分類する', () => {
+      for (const symbol of ['©', '®', '™', '↔', '★', '♪', '☺']) {
+        expect(getCharCategory(symbol)).toBe('symbols');
+      }
+    });
+  });
+
+  describe('checkCoverage', () => {
+    it('フォントにない文字をカテゴリ別にまとめる', () => {
+      const report = checkCoverage('あいうABC学丌😀', codePoints('あいAB学'));
+
+      expect(report.requestedCount).toBe(9);
+      expect(report.coveredCount).toBe(5);
+      expect(report.missingCount).toBe(4);
+      expect(report.missing).toEqual([
+        { category: 'ascii', characters: 'C' },
+        { category: 'hiragana', characters: 'う' },
+        { category: 'kanji-advanced', characters: '丌' },
+        { category: 'emoji', characters: '😀' },
+      ]);
+    });
+
+    it('重複と改行などの制御文字は数えない', () => {
+      const report = checkCoverage('ああ\nいい\r\n', codePoints('あい'));
+
+      expect(report.requestedCount).toBe(2);
+      expect(report.missingCount).toBe(0);
+      expect(report.missing).toEqual([]);
+    });
+
+    it('ZWJや異体字セレクタは収録判定の対象外とする', () => {
+      // 👩‍💻 と ❤️
+      const report = checkCoverage('\u{1F469}\u200D\u{1F4BB}\u2764\uFE0F', [0x1F469, 0x1F4BB, 0x2764]);
+
+      expect(report.requestedCount).toBe(3);
+      expect(report.missingCount).toBe(0);
+    });
+  });
+
+  describe('formatMissingCharacters', () => {
+    it('カテゴリごとの表示数を制限する', () => {
+      const report = checkCoverage('あいうえお', []);
+
+      expect(formatMissingCharacters(report, 3)).toBe('ひらがな: あいう 他2字');
+    });
+  });
+});
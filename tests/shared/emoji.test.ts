@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { splitCharacters, isEmoji, getEmojiSequences, detectColorFormats } from '@shared/emoji';
+
+describe('emoji', () => {
+  describe('splitCharacters', () => {
+    it('ZWJシーケンスを1文字として扱う', () => {
+      expect(splitCharacters('あ👨‍👩‍👧‍👦い')).toEqual(['あ', '👨‍👩‍👧‍👦', 'い']);
+    });
+
+    it('国旗・キーキャップ・スキントーン・異体字セレクタを直前の文字とまとめる', () => {
+      expect(splitCharacters('🇯🇵🇺🇸')).toEqual(['🇯🇵', '🇺🇸']);
+      expect(splitCharacters('1️⃣')).toEqual(['1️⃣']);
+      expect(splitCharacters('👍🏽')).toEqual(['👍🏽']);
+      expect(splitCharacters('葛󠄀城')).toEqual(['葛󠄀', '城']);
+    });
+
+    it('ZWJ の後のテキスト表示が既定の図記号も連結する', () => {
+      expect(splitCharacters('👩‍⚕️あ')).toEqual(['👩‍⚕️', 'あ']);
+    });
+
+    it('通常の文字はコードポイント単位で分割する', () => {
+      expect(splitCharacters('abc漢字')).toEqual(['a', 'b', 'c', '漢', '字']);
+      expect(splitCharacters('')).toEqual([]);
+    });
+  });
+
+  describe('isEmoji', () => {
+    it('絵文字とそれ以外を判定する', () => {
+      expect(isEmoji('😀')).toBe(true);
+      expect(isEmoji('🇯🇵')).toBe(true);
+      expect(isEmoji('1️⃣')).toBe(true);
+      expect(isEmoji('1')).toBe(false);
+      expect(isEmoji('あ')).toBe(false);
+    });
+
+    it('テキスト表示が既定の図記号は VS16・ZWJ が続く場合だけ絵文字とする', () => {
+      for (const symbol of ['©', '®', '™', '↔', '★', '♪', '☺']) {
+        expect(isEmoji(symbol)).toBe(false);
+      }
+      expect(isEmoji('☺︎')).toBe(false);
+      expect(isEmoji('☺️')).toBe(true);
+      expect(isEmoji('❤️')).toBe(true);
+    });
+  });
+
+  describe('getEmojiSequences', () => {
+    it('複数コードポイントの絵文字のみを重複なく返す', () => {
+      expect(getEmojiSequences('😀🇯🇵あ🇯🇵👩‍💻')).toEqual(['🇯🇵', '👩‍💻']);
+    });
+
+    it('テキスト表示の異体字シーケンスは含めない', () => {
+      expect(getEmojiSequences('☺︎©™')).toEqual([]);
+    });
+  });
+
+  describe('detectColorFormats', () => {
+    it('必要なテーブルがそろった形式のみを返す', () => {
+      expect(detectColorFormats(['glyf', 'COLR', 'CPAL'])).toEqual(['COLR/CPAL']);
+      expect(detectColorFormats(['CBDT', 'CBLC', 'sbix'])).toEqual(['CBDT/CBLC', 'sbix']);
+      expect(detectColorFormats(['COLR'])).toEqual([]);
+    });
+  });
+});
@@ -4,7 +4,9 @@ import {
   ErrorType, 
   handleError, 
   getErrorSeverity, 
-  isRecoverableError 
+  isRecoverableError,
+  createCancelledError,
+  isCancelledError
 } from '@shared/errors';
 
 describe('FontMinifyError', () => {
@@ -98,6 +100,14 @@ describe('handleError', () => {
     expect(result.filePath).toBe('/path/to/font.ttf');
   });
 
+  it('should restore subset verification errors from the message', () => {
+    const result = handleError(new Error('Error invoking remote method: サブセット結果の検証に失敗しました: /out/font.woff2'), '/out/font.woff2');
+
+    expect(result.type).toBe(ErrorType.SUBSET_VERIFICATION_FAILED);
+    expect(result.suggestion).toBeDefined();
+    expect(result.recoverable).toBe(true);
+  });
+
   it('should handle string error', () => {
     const result = handleError('文字列エラー');
 
@@ -113,6 +123,15 @@ describe('handleError', () => {
     expect(result.type).toBe(ErrorType.UNKNOWN_ERROR);
     expect(result.message).toBe('予期しないエラーが発生しました');
   });
+
+  it('should detect cancellation passed through IPC', () => {
+    const result = handleError(new Error("Error invoking remote method 'subset-font': Error: 処理がキャンセルされました"), '/fonts/a.ttf');
+
+    expect(result.type).toBe(ErrorType.CANCELLED);
+    expect(result.filePath).toBe('/fonts/a.ttf');
+    expect(isCancelledError(createCancelledError())).toBe(true);
+    expect(isCancelledError(new Error('subset failed'))).toBe(false);
+  });
 });
 
 describe('getErrorSeverity', () => {
@@ -124,6 +143,7 @@ describe('getErrorSeverity', () => {
     expect(getErrorSeverity(ErrorType.PERMISSION_DENIED)).toBe('error');
     expect(getErrorSeverity(ErrorType.SUBSET_FAILED)).toBe('error');
     expect(getErrorSeverity(ErrorType.COMPRESSION_FAILED)).toBe('warning');
+    expect(getErrorSeverity(ErrorType.SUBSET_VERIFICATION_FAILED)).toBe('error');
   });
 });
 
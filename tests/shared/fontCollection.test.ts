@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isFontCollection,
+  selectFontFace,
+  getCollectionFaces,
+  getCollectionFaceCount,
+  assertFaceIndex,
+  resolveFaceIndices,
+  getFaceFileName,
+} from '@shared/fontCollection';
+
+const collection = {
+  fonts: [
+    { postscriptName: 'HiraginoSans-W3', familyName: 'Hiragino Sans', subfamilyName: 'W3', numGlyphs: 20000 },
+    { postscriptName: 'HiraginoSans-W6', familyName: 'Hiragino Sans', subfamilyName: 'W6', numGlyphs: 20001 },
+  ],
+};
+
+/**
+ * 指定した書体数を持つTTCヘッダーを作成
+ */
+function createTtcHeader(numFonts: number): Uint8Array {
+  const data = new Uint8Array(12 + numFonts * 4);
+  data.set([0x74, 0x74, 0x63, 0x66]); // 'ttcf'
+  new DataView(data.buffer).setUint32(8, numFonts);
+  return data;
+}
+
+describe('fontCollection', () => {
+  describe('selectFontFace', () => {
+    it('コレクションから指定番号の書体を取り出す', () => {
+      expect(isFontCollection(collection)).toBe(true);
+      expect(selectFontFace(collection, 1).postscriptName).toBe('HiraginoSans-W6');
+    });
+
+    it('単体フォントはそのまま返す', () => {
+      const font = { postscriptName: 'Single' };
+      expect(isFontCollection(font)).toBe(false);
+      expect(selectFontFace(font, 3)).toBe(font);
+    });
+
+    it('範囲外の書体番号を拒否する', () => {
+      expect(() => selectFontFace(collection, 2)).toThrow('書体番号 2');
+    });
+  });
+
+  describe('getCollectionFaces', () => {
+    it('全書体の一覧を作成する', () => {
+      expect(getCollectionFaces(collection)).toEqual([
+        { index: 0, postscriptName: 'HiraginoSans-W3', fontFamily: 'Hiragino Sans', fontSubfamily: 'W3', glyphCount: 20000 },
+        { index: 1, postscriptName: 'HiraginoSans-W6', fontFamily: 'Hiragino Sans', fontSubfamily: 'W6', glyphCount: 20001 },
+      ]);
+    });
+  });
+
+  describe('getCollectionFaceCount / assertFaceIndex', () => {
+    it('TTCヘッダーから書体数を読み取る', () => {
+      expect(getCollectionFaceCount(createTtcHeader(3))).toBe(3);
+      expect(getCollectionFaceCount(new Uint8Array([0x00, 0x01, 0x00, 0x00, 0, 0, 0, 0, 0, 0, 0, 0]))).toBe(0);
+    });
+
+    it('書体番号の範囲を検証する', () => {
+      expect(() => assertFaceIndex(createTtcHeader(3), 2)).not.toThrow();
+      expect(() => assertFaceIndex(createTtcHeader(3), 3)).toThrow('3書体');
+      expect(() => assertFaceIndex(new Uint8Array(12), 0)).not.toThrow();
+      expect(() => assertFaceIndex(new Uint8Array(12), 1)).toThrow();
+    });
+  });
+
+  describe('resolveFaceIndices', () => {
+    it('重複と不正な番号を除いて昇順に並べる', () => {
+      expect(resolveFaceIndices([2, 0, 2, -1, 1.5])).toEqual([0, 2]);
+    });
+
+    it('未指定時は先頭の書体を返す', () => {
+      expect(resolveFaceIndices()).toEqual([0]);
+      expect(resolveFaceIndices([])).toEqual([0]);
+    });
+  });
+
+  describe('getFaceFileName', () => {
+    it('PostScript名を拡張子の前に付加する', () => {
+      expect(getFaceFileName('/out/Hiragino_subset.woff2', { index: 1, postscriptName: 'HiraginoSans-W6' }))
+        .toBe('/out/Hiragino_subset-HiraginoSans-W6.woff2');
+    });
+
+    it('PostScript名がない場合は書体番号を使う', () => {
+      expect(getFaceFileName('collection.ttc', { index: 2, postscriptName: '' })).toBe('collection-2.ttc');
+    });
+  });
+});
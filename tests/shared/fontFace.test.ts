@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateFontFaceRule,
+  generateFontFaceStylesheet,
+  getCoveredText,
+  getStylesheetFileName,
+  inferFontWeight,
+  inferFontStyle,
+} from '@shared/fontFace';
+
+describe('fontFace', () => {
+  describe('inferFontWeight', () => {
+    it('固定したwght軸の値を優先する', () => {
+      expect(inferFontWeight('Regular', { wght: 650 })).toBe(650);
+    });
+
+    it('サブファミリー名からウェイトを推定する', () => {
+      expect(inferFontWeight('Regular')).toBe(400);
+      expect(inferFontWeight('Bold')).toBe(700);
+      expect(inferFontWeight('SemiBold')).toBe(600);
+      expect(inferFontWeight('ExtraLight Italic')).toBe(200);
+      expect(inferFontWeight('W6')).toBe(600);
+    });
+  });
+
+  describe('inferFontStyle', () => {
+    it('サブファミリー名と軸からスタイルを推定する', () => {
+      expect(inferFontStyle('Bold Italic')).toBe('italic');
+      expect(inferFontStyle('Regular')).toBe('normal');
+      expect(inferFontStyle('Regular', { slnt: -10 })).toBe('oblique');
+      expect(inferFontStyle('Italic', { ital: 0 })).toBe('normal');
+    });
+  });
+
+  describe('generateFontFaceRule', () => {
+    it('ファミリー名・ウェイト・形式・unicode-rangeを含むルールを生成する', () => {
+      const rule = generateFontFaceRule({
+        fontFamily: 'Noto Sans JP',
+        fontSubfamily: 'Bold',
+        fileName: 'NotoSansJP_subset.woff2',
+        format: 'woff2',
+        text: 'CBAあ',
+      });
+
+      expect(rule).toContain("font-family: 'Noto Sans JP';");
+      expect(rule).toContain('font-weight: 700;');
+      expect(rule).toContain('font-style: normal;');
+      expect(rule).toContain('font-display: swap;');
+      expect(rule).toContain("src: url('./NotoSansJP_subset.woff2') format('woff2');");
+      expect(rule).toContain('unicode-range: U+41-43, U+3042;');
+    });
+
+    it('font-displayと形式ヒントを反映する', () => {
+      const rule = generateFontFaceRule({
+        fontFamily: 'Sample',
+        fileName: 'sample.ttf',
+        format: 'ttf',
+        fontDisplay: 'optional',
+      });
+
+      expect(rule).toContain('font-display: optional;');
+      expect(rule).toContain("format('truetype')");
+      expect(rule).not.toContain('unicode-range');
+    });
+
+    it('範囲を制限したwght軸は範囲指定のfont-weightにする', () => {
+      const rule = generateFontFaceRule({
+        fontFamily: 'Inter',
+        fileName: 'inter.woff2',
+        format: 'woff2',
+        variationAxisRanges: { wght: { min: 300, default: 400, max: 700 } },
+      });
+
+      expect(rule).toContain('font-weight: 300 700;');
+    });
+
+    it('ファミリー名の引用符をエスケープする', () => {
+      const rule = generateFontFaceRule({ fontFamily: "Bob's Font", fileName: 'a.woff', format: 'woff' });
+      expect(rule).toContain("font-family: 'Bob\\'s Font';");
+    });
+  });
+
+  describe('generateFontFaceStylesheet', () => {
+    it('分割出力の各ファイルにルールを生成する', () => {
+      const css = generateFontFaceStylesheet([
+        { fontFamily: 'Sample', fileName: 'sample-subset.0.woff2', format: 'woff2', unicodeRange: 'U+3042' },
+        { fontFamily: 'Sample', fileName: 'sample-subset.1.woff2', format: 'woff2', unicodeRange: 'U+4E00' },
+      ]);
+
+      expect(css.match(/@font-face/g)).toHaveLength(2);
+      expect(css).toContain('unicode-range: U+3042;');
+      expect(css).toContain('unicode-range: U+4E00;');
+    });
+  });
+
+  describe('getCoveredText', () => {
+    it('フォントに収録された文字だけを残す', () => {
+      const codePoints = Array.from('Aあ', char => char.codePointAt(0) as number);
+      expect(getCoveredText('AあB漢', codePoints)).toBe('Aあ');
+    });
+
+    it('収録文字が不明な場合は文字セットをそのまま使う', () => {
+      expect(getCoveredText('AあB')).toBe('AあB');
+    });
+  });
+
+  describe('getStylesheetFileName', () => {
+    it('フォントファイル名からCSSファイル名を生成する', () => {
+      expect(getStylesheetFileName('NotoSansJP_subset.woff2')).toBe('NotoSansJP_subset.css');
+      expect(getStylesheetFileName('NotoSansJP-subset.0.woff2')).toBe('NotoSansJP-subset.css');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCharacterRanges,
+  getFeatureList,
+  getSupportedLanguages,
+  extractFontMetadata,
+} from '@shared/fontMetadata';
+
+const range = (start: number, end: number) =>
+  Array.from({ length: end - start + 1 }, (_, i) => start + i);
+
+describe('fontMetadata', () => {
+  describe('getCharacterRanges', () => {
+    it('収録文字をUnicodeブロックごとに数える', () => {
+      const ranges = getCharacterRanges([0x41, 0x42, 0x3042, 0x4E00, 0x20000]);
+
+      expect(ranges.map(r => [r.name, r.count])).toEqual([
+        ['Basic Latin', 2],
+        ['Hiragana', 1],
+        ['CJK Unified Ideographs', 1],
+        ['CJK Unified Ideographs Extension B', 1],
+      ]);
+    });
+
+    it('どのブロックにも属さない文字は無視する', () => {
+      expect(getCharacterRanges([0x0500, 0xFFFF0])).toEqual([]);
+    });
+  });
+
+  describe('getFeatureList', () => {
+    it('重複を除いてタグ順に並べ、表示名を付ける', () => {
+      const features = getFeatureList(['vert', 'liga', 'vert', 'ss03', 'zzzz']);
+
+      expect(features).toEqual([
+        { tag: 'liga', name: '標準合字', enabled: true },
+        { tag: 'ss03', name: 'スタイルセット3', enabled: true },
+        { tag: 'vert', name: '縦書き字形', enabled: true },
+        { tag: 'zzzz', name: 'zzzz', enabled: true },
+      ]);
+    });
+  });
+
+  describe('getSupportedLanguages', () => {
+    it('スクリプトと言語システムのタグから言語を求める', () => {
+      const languages = getSupportedLanguages(
+        [
+          { scriptList: [{ tag: 'dev2', script: { langSysRecords: [{ tag: 'MAR ' }, { tag: 'NEP ' }] } }] },
+          { scriptList: [{ tag: 'DFLT', script: {} }] },
+        ],
+        []
+      );
+
+      expect(languages).toEqual(['hi', 'mr', 'ne']);
+    });
+
+    it('レイアウトテーブルがない場合はcmapの収録状況から推定する', () => {
+      const ranges = getCharacterRanges([...range(0x3041, 0x3096), ...range(0xAC00, 0xAFFF)]);
+
+      expect(getSupportedLanguages([undefined, undefined], ranges)).toEqual(['ja', 'ko']);
+    });
+  });
+
+  describe('extractFontMetadata', () => {
+    it('characterSetなどがないフォントでは空の結果を返す', () => {
+      expect(extractFontMetadata({})).toEqual({
+        codePoints: [],
+        characterRanges: [],
+        features: [],
+        languages: [],
+        colorFormats: [],
+        hasColorEmoji: false,
+      });
+    });
+  });
+});
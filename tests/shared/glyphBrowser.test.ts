@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OTHER_GLYPH_GROUP,
+  buildGlyphGridRows,
+  filterCodePoints,
+  getVisibleRowRange,
+  groupCodePointsByBlock,
+  toggleCharacters,
+} from '@shared/glyphBrowser';
+
+const codePoints = (text: string) => Array.from(text, char => char.codePointAt(0) as number);
+
+describe('glyphBrowser', () => {
+  describe('groupCodePointsByBlock', () => {
+    it('Unicode ブロックごとにコードポイント順でまとめる', () => {
+      const groups = groupCodePointsByBlock(codePoints('いBあA'));
+
+      expect(groups).toEqual([
+        { name: 'Basic Latin', codePoints: codePoints('AB') },
+        { name: 'Hiragana', codePoints: codePoints('あい') },
+      ]);
+    });
+
+    it('どのブロックにも属さない文字は末尾にまとめる', () => {
+      const groups = groupCodePointsByBlock([0x10FFFD, 0x41]);
+
+      expect(groups[groups.length - 1]).toEqual({ name: OTHER_GLYPH_GROUP, codePoints: [0x10FFFD] });
+    });
+  });
+
+  describe('filterCodePoints', () => {
+    const all = codePoints('ABCあいう');
+
+    it('U+ や 0x 付きの16進数はコードポイント（範囲）として検索する', () => {
+      expect(filterCodePoints(all, 'U+3042')).toEqual(codePoints('あ'));
+      expect(filterCodePoints(all, '0x41-0x42')).toEqual(codePoints('AB'));
+      expect(filterCodePoints(all, 'U+3044-3042')).toEqual(codePoints('あい'));
+    });
+
+    it('それ以外は文字として検索する', () => {
+      expect(filterCodePoints(all, 'う C')).toEqual(codePoints('Cう'));
+      expect(filterCodePoints(all, '  ')).toBe(all);
+    });
+  });
+
+  describe('buildGlyphGridRows', () => {
+    it('見出し行と列数ごとのグリフ行に展開する', () => {
+      const rows = buildGlyphGridRows([{ name: 'Hiragana', codePoints: codePoints('あいうえお') }], 2);
+
+      expect(rows).toEqual([
+        { kind: 'header', name: 'Hiragana', count: 5 },
+        { kind: 'glyphs', codePoints: codePoints('あい') },
+        { kind: 'glyphs', codePoints: codePoints('うえ') },
+        { kind: 'glyphs', codePoints: codePoints('お') },
+      ]);
+    });
+  });
+
+  describe('getVisibleRowRange', () => {
+    it('表示範囲の前後に余分な行を含める', () => {
+      expect(getVisibleRowRange(100, 40, 400, 200, 2)).toEqual({ start: 8, end: 17 });
+      expect(getVisibleRowRange(10, 40, 0, 200, 2)).toEqual({ start: 0, end: 7 });
+      expect(getVisibleRowRange(10, 40, 1000, 200, 2)).toEqual({ start: 10, end: 10 });
+    });
+  });
+
+  describe('toggleCharacters', () => {
+    it('重複しないように末尾へ追加する', () => {
+      expect(toggleCharacters('あい', codePoints('いう'), true)).toBe('あいう');
+    });
+
+    it('指定した文字を削除する', () => {
+      expect(toggleCharacters('あいう😀', codePoints('い😀'), false)).toBe('あう');
+    });
+  });
+});
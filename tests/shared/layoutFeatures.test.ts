@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveFeaturePlan,
+  isFeatureKept,
+  isValidFeatureTag,
+  DEFAULT_PRESERVE_FEATURES,
+} from '@shared/layoutFeatures';
+
+describe('layoutFeatures', () => {
+  describe('resolveFeaturePlan', () => {
+    it('既定ではすべての機能・テーブル・ヒンティングを保持する', () => {
+      expect(resolveFeaturePlan({})).toEqual({
+        dropFeatures: [],
+        dropTables: [],
+        retainHinting: true,
+      });
+    });
+
+    it('カーニング・合字のスイッチで該当タグを削除する', () => {
+      const plan = resolveFeaturePlan({
+        preserveFeatures: { ...DEFAULT_PRESERVE_FEATURES, kerning: false, ligatures: false },
+      });
+
+      expect(plan.dropFeatures).toEqual(expect.arrayContaining(['kern', 'liga', 'clig', 'dlig', 'hlig']));
+      expect(plan.dropFeatures).not.toContain('vert');
+      expect(plan.dropTables).toEqual(['kern']);
+    });
+
+    it('縦書きを無効にすると縦書き機能とメトリクステーブルを削除する', () => {
+      const plan = resolveFeaturePlan({
+        preserveFeatures: { ...DEFAULT_PRESERVE_FEATURES, verticalMetrics: false },
+      });
+
+      expect(plan.dropFeatures).toEqual(expect.arrayContaining(['vert', 'vrt2', 'vkrn', 'vpal']));
+      expect(plan.dropTables).toEqual(['vhea', 'vmtx', 'VORG']);
+    });
+
+    it('個別指定でvertを残した場合は縦書きメトリクスも残す', () => {
+      const plan = resolveFeaturePlan({
+        preserveFeatures: { ...DEFAULT_PRESERVE_FEATURES, verticalMetrics: false },
+        featureTags: { vert: true },
+      });
+
+      expect(plan.dropFeatures).not.toContain('vert');
+      expect(plan.dropFeatures).toContain('vrt2');
+      expect(plan.dropTables).toEqual([]);
+    });
+
+    it('一覧にないタグも個別指定で削除できる', () => {
+      const plan = resolveFeaturePlan({ featureTags: { ss01: false, 'bad!tag': false } });
+      expect(plan.dropFeatures).toEqual(['ss01']);
+    });
+
+    it('絵文字シーケンスを含む場合は合字スイッチがオフでもligaを残す', () => {
+      const options = { preserveFeatures: { ...DEFAULT_PRESERVE_FEATURES, ligatures: false } };
+
+      expect(resolveFeaturePlan(options, 'ab').dropFeatures).toContain('liga');
+      expect(resolveFeaturePlan(options, '👨‍👩‍👧').dropFeatures).not.toContain('liga');
+      expect(resolveFeaturePlan(options, '👨‍👩‍👧').dropFeatures).toContain('dlig');
+      expect(resolveFeaturePlan({ ...options, featureTags: { liga: false } }, '👨‍👩‍👧').dropFeatures).toContain('liga');
+    });
+
+    it('テキスト表示の記号だけの場合は合字スイッチに従う', () => {
+      const options = { preserveFeatures: { ...DEFAULT_PRESERVE_FEATURES, ligatures: false } };
+
+      expect(resolveFeaturePlan(options, '©®™★♪☺︎').dropFeatures).toContain('liga');
+    });
+
+    it('hintingスイッチとremoveHintingのどちらでもヒンティングを削除する', () => {
+      expect(resolveFeaturePlan({ removeHinting: true }).retainHinting).toBe(false);
+      expect(resolveFeaturePlan({
+        preserveFeatures: { ...DEFAULT_PRESERVE_FEATURES, hinting: false },
+      }).retainHinting).toBe(false);
+    });
+  });
+
+  describe('isFeatureKept', () => {
+    it('個別指定をグループのスイッチより優先する', () => {
+      const preserve = { ...DEFAULT_PRESERVE_FEATURES, ligatures: false };
+      expect(isFeatureKept('liga', preserve)).toBe(false);
+      expect(isFeatureKept('liga', preserve, { liga: true })).toBe(true);
+      expect(isFeatureKept('palt', preserve)).toBe(true);
+    });
+  });
+
+  describe('isValidFeatureTag', () => {
+    it('4文字のASCIIタグのみ受け付ける', () => {
+      expect(isValidFeatureTag('vert')).toBe(true);
+      expect(isValidFeatureTag('cv01')).toBe(true);
+      expect(isValidFeatureTag('ver')).toBe(false);
+      expect(isValidFeatureTag('縦書き')).toBe(false);
+    });
+  });
+});
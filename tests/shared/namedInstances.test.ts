@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getInstanceFileName, getNamedInstances } from '@shared/namedInstances';
+
+describe('namedInstances', () => {
+  describe('getNamedInstances', () => {
+    it('名前付きインスタンスを番号付きで返す', () => {
+      const instances = getNamedInstances({
+        namedVariations: {
+          Thin: { wght: 100, wdth: 100 },
+          Bold: { wght: 700, wdth: 100 },
+        },
+      });
+
+      expect(instances).toEqual([
+        { index: 0, name: 'Thin', coordinates: { wght: 100, wdth: 100 } },
+        { index: 1, name: 'Bold', coordinates: { wght: 700, wdth: 100 } },
+      ]);
+    });
+
+    it('名前を読めないインスタンスは除く', () => {
+      const instances = getNamedInstances({
+        namedVariations: { undefined: { wght: 300 }, Regular: { wght: 400 } },
+      });
+
+      expect(instances.map(instance => instance.name)).toEqual(['Regular']);
+    });
+
+    it('fvar の読み込みに失敗した場合は空にする', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const font = {
+        get namedVariations(): Record<string, Record<string, number>> {
+          throw new Error('broken fvar');
+        },
+      };
+
+      expect(getNamedInstances(font)).toEqual([]);
+      expect(getNamedInstances({})).toEqual([]);
+    });
+  });
+
+  describe('getInstanceFileName', () => {
+    it('インスタンス名を拡張子の前に付ける', () => {
+      expect(getInstanceFileName('/out/Inter_subset.woff2', { index: 0, name: 'Semi Bold' })).toBe(
+        '/out/Inter_subset-SemiBold.woff2'
+      );
+    });
+
+    it('ファイル名に使えない名前は番号で代替する', () => {
+      expect(getInstanceFileName('Noto-subset.ttf', { index: 2, name: '太字' })).toBe('Noto-subset-instance3.ttf');
+    });
+  });
+});
@@ -2,8 +2,32 @@ import { describe, it, expect } from 'vitest';
 import { 
   getCharacterSetFromPreset, 
   getUniqueCharacters, 
-  CHARACTER_PRESETS 
+  CHARACTER_PRESETS,
+  parseCodePointRanges,
+  evaluateCharacterSet,
+  buildCharacterSetExpression,
+  getCharacterSetExpression,
+  getCharacterSetExpressionErrors,
+  hasCharacterSetSource,
+  DEFAULT_CHARACTER_SET_MODIFIERS,
+  getPresetDefinition,
+  getFrequencyPresetId,
+  parseFrequencyPresetId,
+  MAX_FREQUENCY_KANJI_COUNT,
 } from '@shared/presets';
+import {
+  JIS1_KANJI,
+  JIS2_KANJI,
+  JIS3_KANJI,
+  JIS4_KANJI,
+  JINMEIYO_KANJI,
+  HALFWIDTH_KATAKANA,
+  GB2312_LEVEL1_HANZI,
+  BIG5_COMMON_HANZI,
+  KSX1001_HANGUL,
+  KANJI_BY_FREQUENCY,
+  JOYO_KANJI,
+} from '@shared/charsets';
 
 describe('presets', () => {
   describe('CHARACTER_PRESETS', () => {
@@ -104,6 +128,105 @@ describe('presets', () => {
     });
   });
 
+  describe('generated character sets', () => {
+    const charsOf = (id: string) => new Set(getCharacterSetFromPreset(id));
+    const isSubset = (a: Set<string>, b: Set<string>) => Array.from(a).every(char => b.has(char));
+
+    it('生成した漢字表の字数（NFCで正規化して重複を除いた後）', () => {
+      expect(Array.from(JIS1_KANJI)).toHaveLength(2965);
+      expect(Array.from(JIS2_KANJI)).toHaveLength(3390);
+      expect(Array.from(JIS3_KANJI)).toHaveLength(1258);
+      expect(Array.from(JIS4_KANJI)).toHaveLength(2432);
+      expect(Array.from(JINMEIYO_KANJI)).toHaveLength(858);
+      expect(Array.from(HALFWIDTH_KATAKANA)).toHaveLength(63);
+    });
+
+    it('JLPTのプリセットは下の級の漢字を含む', () => {
+      const levels = ['kanji-n5', 'kanji-n4', 'kanji-n3', 'kanji-n2', 'kanji-n1'].map(charsOf);
+
+      for (let i = 1; i < levels.length; i++) {
+        expect(isSubset(levels[i - 1], levels[i])).toBe(true);
+        expect(levels[i].size).toBeGreaterThan(levels[i - 1].size);
+      }
+      expect(levels[0].has('日')).toBe(true);
+      expect(levels[0].has('憂')).toBe(false);
+    });
+
+    it('JIS X 0213 のプリセットは JIS X 0208 のプリセットを含む', () => {
+      const jisX0208 = charsOf('jis-x0208');
+      const jisX0213 = charsOf('jis-x0213');
+
+      expect(isSubset(charsOf('joyo-jis1'), jisX0208)).toBe(true);
+      expect(isSubset(jisX0208, jisX0213)).toBe(true);
+      expect(jisX0208.has('弌')).toBe(true);
+      expect(jisX0213.has('𠀋')).toBe(true);
+      expect(jisX0213.has('か\u309A')).toBe(false); // 結合文字列は1文字ずつ収録する
+      expect(jisX0213.has('\u309A')).toBe(true);
+    });
+
+    it('中国語・韓国語のプリセットは各規格の文字を含む', () => {
+      expect(Array.from(GB2312_LEVEL1_HANZI)).toHaveLength(3755);
+      expect(Array.from(BIG5_COMMON_HANZI)).toHaveLength(5401);
+      expect(Array.from(KSX1001_HANGUL)).toHaveLength(2350);
+
+      expect(charsOf('zh-hans').has('这')).toBe(true);
+      expect(charsOf('zh-hans').has('這')).toBe(false);
+      expect(charsOf('zh-hant').has('這')).toBe(true);
+      expect(charsOf('ko').has('한')).toBe(true);
+      expect(charsOf('ko').has('あ')).toBe(false);
+    });
+
+    it('人名用漢字と記号の異体を選べる', () => {
+      expect(charsOf('joyo-jinmeiyo').has('彌')).toBe(true);
+      expect(evaluateCharacterSet({ addSets: ['punctuationVariants'] })).toContain('〜');
+      expect(evaluateCharacterSet({ addSets: ['punctuationVariants'] })).toContain('～');
+      expect(evaluateCharacterSet({ addSets: ['halfwidthKatakana'] })).toContain('ｱ');
+    });
+  });
+
+  describe('frequency presets', () => {
+    it('プリセットIDと字数を相互に変換できる', () => {
+      expect(getFrequencyPresetId(1500)).toBe('frequency:1500');
+      expect(parseFrequencyPresetId('frequency:1500')).toBe(1500);
+      expect(parseFrequencyPresetId(`frequency:${MAX_FREQUENCY_KANJI_COUNT}`)).toBe(MAX_FREQUENCY_KANJI_COUNT);
+      expect(parseFrequencyPresetId('frequency:0')).toBeUndefined();
+      expect(parseFrequencyPresetId(`frequency:${MAX_FREQUENCY_KANJI_COUNT + 1}`)).toBeUndefined();
+      expect(parseFrequencyPresetId('frequency:1.5')).toBeUndefined();
+      expect(parseFrequencyPresetId('frequency:')).toBeUndefined();
+      expect(parseFrequencyPresetId('standard')).toBeUndefined();
+    });
+
+    it('頻度順の漢字は常用漢字とJIS第1水準漢字をすべて含む', () => {
+      const frequency = new Set(KANJI_BY_FREQUENCY);
+
+      expect(Array.from(KANJI_BY_FREQUENCY)).toHaveLength(MAX_FREQUENCY_KANJI_COUNT);
+      expect(frequency.size).toBe(MAX_FREQUENCY_KANJI_COUNT);
+      expect(Array.from(JOYO_KANJI).every(char => frequency.has(char))).toBe(true);
+      expect(Array.from(JIS1_KANJI).every(char => frequency.has(char))).toBe(true);
+    });
+
+    it('上位N字の漢字を最小セットに加える', () => {
+      const preset = getPresetDefinition('frequency:100');
+      const minimum = getPresetDefinition('minimum');
+      const chars = new Set(getCharacterSetFromPreset('frequency:100'));
+
+      expect(preset?.name).toBe('頻出漢字 上位100字');
+      expect(preset?.characterCount).toBe((minimum?.characterCount ?? 0) + 100);
+      expect(chars.has('日')).toBe(true);
+      expect(chars.has(Array.from(KANJI_BY_FREQUENCY)[100])).toBe(false);
+      expect(getPresetDefinition('frequency:0')).toBeUndefined();
+    });
+
+    it('文字セットの式のベースとして使える', () => {
+      const result = evaluateCharacterSet({ basePreset: 'frequency:500', excludeText: '日' });
+
+      expect(result).toContain('あ');
+      expect(result).not.toContain('日');
+      expect(getCharacterSetExpressionErrors({ basePreset: 'frequency:500' })).toEqual([]);
+      expect(getCharacterSetExpressionErrors({ basePreset: 'frequency:0' })).not.toEqual([]);
+    });
+  });
+
   describe('getUniqueCharacters', () => {
     it('should remove duplicate characters', () => {
       const input = 'あああいいいううう';
@@ -144,6 +267,14 @@ describe('presets', () => {
       
       expect(result).toBe('🎵🎶');
     });
+
+    it('should keep emoji ZWJ sequences intact', () => {
+      // 👩‍💻 👩 👍🏽 👍
+      const input = '\u{1F469}\u200D\u{1F4BB}\u{1F469}\u{1F44D}\u{1F3FD}\u{1F44D}\u{1F469}\u200D\u{1F4BB}';
+      const result = getUniqueCharacters(input);
+
+      expect(result).toBe('\u{1F469}\u200D\u{1F4BB}\u{1F469}\u{1F44D}\u{1F3FD}\u{1F44D}');
+    });
   });
 
   describe('preset integration', () => {
@@ -169,4 +300,101 @@ describe('presets', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('parseCodePointRanges', () => {
+    it('should parse single code points and ranges in several notations', () => {
+      expect(parseCodePointRanges('U+FF61-FF9F, U+3000 30A0..30FF').ranges).toEqual([
+        { start: 0xFF61, end: 0xFF9F },
+        { start: 0x3000, end: 0x3000 },
+        { start: 0x30A0, end: 0x30FF },
+      ]);
+    });
+
+    it('should collect invalid tokens separately', () => {
+      const result = parseCodePointRanges('U+FF61-FF9F, U+XYZ, U+30FF-30A0');
+
+      expect(result.ranges).toEqual([{ start: 0xFF61, end: 0xFF9F }]);
+      expect(result.invalid).toEqual(['U+XYZ', 'U+30FF-30A0']);
+    });
+  });
+
+  describe('evaluateCharacterSet', () => {
+    it('should combine a base preset with added sets and text', () => {
+      const result = evaluateCharacterSet({ basePreset: 'minimum', addSets: ['joyoKanji'], addText: '葛飾区' });
+      const chars = new Set(result);
+
+      expect(chars.has('あ')).toBe(true);
+      expect(chars.has('漢')).toBe(true);
+      expect(chars.has('葛')).toBe(true);
+      expect(Array.from(result).length).toBe(new Set(result).size);
+    });
+
+    it('should remove excluded ranges and text', () => {
+      const result = evaluateCharacterSet({
+        basePreset: 'joyo-jis1',
+        addText: 'ｱｲｳ製品名',
+        excludeRanges: 'U+FF61-FF9F',
+        excludeText: '名',
+      });
+
+      expect(result).toContain('製');
+      expect(result).not.toMatch(/[\uFF61-\uFF9F]/);
+      expect(result).not.toContain('名');
+    });
+
+    it('should keep emoji sequences intact', () => {
+      expect(evaluateCharacterSet({ addText: 'あ👩‍💻い', excludeText: 'い' })).toBe('あ👩‍💻');
+    });
+
+    it('should return the same characters as the preset when there are no modifiers', () => {
+      expect(evaluateCharacterSet({ basePreset: 'standard' })).toBe(getUniqueCharacters(getCharacterSetFromPreset('standard')));
+    });
+  });
+
+  describe('buildCharacterSetExpression', () => {
+    it('should use the preset as the base and apply modifiers', () => {
+      const expression = buildCharacterSetExpression('joyo-jis1', 'ignored', {
+        ...DEFAULT_CHARACTER_SET_MODIFIERS,
+        addText: '追加',
+        excludeRanges: 'U+FF61-FF9F',
+      });
+
+      expect(expression.basePreset).toBe('joyo-jis1');
+      expect(expression.addText).toBe('追加');
+      expect(expression.excludeRanges).toBe('U+FF61-FF9F');
+    });
+
+    it('should treat custom characters as added text', () => {
+      const expression = buildCharacterSetExpression('custom', 'あいう');
+
+      expect(expression.basePreset).toBeUndefined();
+      expect(evaluateCharacterSet(expression)).toBe('あいう');
+    });
+  });
+
+  describe('getCharacterSetExpression', () => {
+    it('should prefer an explicit expression, then custom characters, then the preset', () => {
+      expect(getCharacterSetExpression({ preset: 'minimum', characterSetExpression: { addText: 'a' } })).toEqual({ addText: 'a' });
+      expect(getCharacterSetExpression({ preset: 'minimum', customCharacters: 'abc' })).toEqual({ addText: 'abc' });
+      expect(getCharacterSetExpression({ preset: 'minimum' })).toEqual({ basePreset: 'minimum' });
+    });
+  });
+
+  describe('expression validation', () => {
+    it('should report unknown presets, sets, and invalid ranges', () => {
+      const errors = getCharacterSetExpressionErrors({
+        basePreset: 'unknown',
+        addSets: ['nope'],
+        excludeRanges: 'U+ZZZZ',
+      });
+
+      expect(errors).toHaveLength(3);
+      expect(getCharacterSetExpressionErrors({ basePreset: 'minimum', addSets: ['hiragana'] })).toEqual([]);
+    });
+
+    it('should require at least one source of characters', () => {
+      expect(hasCharacterSetSource({ excludeText: 'あ' })).toBe(false);
+      expect(hasCharacterSetSource({ addSets: ['ascii'] })).toBe(true);
+    });
+  });
+});
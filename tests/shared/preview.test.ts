@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { getOutputCodePoints, splitPreviewText } from '@shared/preview';
+
+const codePoints = (text: string) => Array.from(text, char => char.codePointAt(0) as number);
+
+describe('preview', () => {
+  describe('getOutputCodePoints', () => {
+    it('全チャンクの cmap を重複なくコードポイント順にまとめる', () => {
+      expect(getOutputCodePoints([codePoints('いA'), codePoints('あい😀')])).toEqual(codePoints('Aあい😀'));
+    });
+
+    it('出力がなければ空にする', () => {
+      expect(getOutputCodePoints([])).toEqual([]);
+    });
+  });
+
+  describe('splitPreviewText', () => {
+    it('収録された文字とフォールバックする文字の並びに分ける', () => {
+      expect(splitPreviewText('ABあいC', new Set(codePoints('ABC')))).toEqual([
+        { text: 'AB', covered: true },
+        { text: 'あい', covered: false },
+        { text: 'C', covered: true },
+      ]);
+    });
+
+    it('空白と改行は収録されていなくてもフォールバックとして扱わない', () => {
+      expect(splitPreviewText('A B\n😀', new Set(codePoints('AB')))).toEqual([
+        { text: 'A B\n', covered: true },
+        { text: '😀', covered: false },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CALIBRATION_SAMPLE_SIZE,
+  calibrateSizeEstimate,
+  estimateSizeFromFont,
+  formatSizeEstimate,
+  isSfnt,
+  readTableDirectory,
+  resolveEstimationTables,
+  selectCalibrationSample,
+  SizeEstimationFontSource,
+} from '@shared/sizeEstimation';
+import { SizeEstimate } from '@shared/types';
+import { buildSfnt } from '../helpers/sfnt';
+
+function buildMaxp(numGlyphs: number): Uint8Array {
+  const maxp = new Uint8Array(6);
+  new DataView(maxp.buffer).setUint16(4, numGlyphs);
+  return maxp;
+}
+
+/**
+ * glyf/loca を作成（グリフ番号 → 単純グリフのサイズ、または複合グリフの参照先）
+ */
+function buildGlyfFont(glyphs: (number | number[])[], extraTables: Record<string, Uint8Array> = {}): Uint8Array {
+  const glyphData = glyphs.map(glyph => {
+    if (typeof glyph === 'number') {
+      const data = new Uint8Array(glyph);
+      if (glyph >= 2) new DataView(data.buffer).setInt16(0, 1);
+      return data;
+    }
+    // 複合グリフ: ヘッダー10バイト + 参照ごとに flags, glyphIndex, 1バイトの引数2つ
+    const data = new Uint8Array(10 + glyph.length * 6);
+    const view = new DataView(data.buffer);
+    view.setInt16(0, -1);
+    glyph.forEach((component, i) => {
+      view.setUint16(10 + i * 6, i < glyph.length - 1 ? 0x0020 : 0);
+      view.setUint16(12 + i * 6, component);
+    });
+    return data;
+  });
+
+  const loca = new Uint8Array((glyphs.length + 1) * 4);
+  const locaView = new DataView(loca.buffer);
+  let offset = 0;
+  glyphData.forEach((data, i) => {
+    locaView.setUint32(i * 4, offset);
+    offset += data.length;
+  });
+  locaView.setUint32(glyphs.length * 4, offset);
+  const glyf = new Uint8Array(offset);
+  let position = 0;
+  for (const data of glyphData) {
+    glyf.set(data, position);
+    position += data.length;
+  }
+
+  const head = new Uint8Array(54);
+  new DataView(head.buffer).setInt16(50, 1); // long loca
+  return buildSfnt({ head, maxp: buildMaxp(glyphs.length), loca, glyf, ...extraTables });
+}
+
+/**
+ * CharStrings だけを持つ最小の CFF を作成
+ */
+function buildCffFont(charStringSizes: number[]): Uint8Array {
+  const header = [1, 0, 4, 1];
+  const nameIndex = [0, 1, 1, 1, 2, 0x41];
+  // Top DICT: <CharStrings のオフセット（int16）> 17
+  const topDictIndex = [0, 1, 1, 1, 5, 28, 0, 0, 17];
+  const emptyIndex = [0, 0];
+  const charStringsOffset = header.length + nameIndex.length + topDictIndex.length + emptyIndex.length * 2;
+  topDictIndex[6] = charStringsOffset >> 8;
+  topDictIndex[7] = charStringsOffset & 0xff;
+
+  const offsets = [1];
+  for (const size of charStringSizes) offsets.push(offsets[offsets.length - 1] + size);
+  const charStrings = [
+    charStringSizes.length >> 8, charStringSizes.length & 0xff, 2,
+    ...offsets.flatMap(value => [value >> 8, value & 0xff]),
+    ...new Array(offsets[offsets.length - 1] - 1).fill(14),
+  ];
+  const cff = Uint8Array.from([...header, ...nameIndex, ...topDictIndex, ...emptyIndex, ...emptyIndex, ...charStrings]);
+  return buildSfnt({ 'CFF ': cff, maxp: buildMaxp(charStringSizes.length) }, { version: 0x4f54544f });
+}
+
+/**
+ * 文字 → グリフ番号の対応からフォントのモックを作成
+ */
+function createFont(cmap: Record<string, number>, numGlyphs: number): SizeEstimationFontSource {
+  return {
+    numGlyphs,
+    glyphForCodePoint: (codePoint: number) => ({ id: cmap[String.fromCodePoint(codePoint)] ?? 0 }),
+  };
+}
+
+const estimateOf = (size: number, errorBound: number): SizeEstimate => ({
+  originalSize: 10000,
+  estimatedSize: size,
+  compressionRatio: 0,
+  errorBound,
+  calibrated: false,
+});
+
+describe('sizeEstimation', () => {
+  describe('readTableDirectory', () => {
+    it('テーブルのタグと位置を読み取る', () => {
+      const sfnt = buildSfnt({ head: new Uint8Array(54), maxp: buildMaxp(1) });
+      const tables = readTableDirectory(sfnt);
+
+      expect(isSfnt(sfnt)).toBe(true);
+      expect(tables.map(table => table.tag)).toEqual(['head', 'maxp']);
+      expect(tables[1].length).toBe(6);
+    });
+
+    it('SFNT以外はエラーにする', () => {
+      const woff = new TextEncoder().encode('wOFF0000000000000000');
+
+      expect(isSfnt(woff)).toBe(false);
+      expect(() => readTableDirectory(woff)).toThrow('SFNT形式のフォントではありません');
+    });
+  });
+
+  describe('estimateSizeFromFont', () => {
+    const glyfFont = buildGlyfFont([20, 100, 1000, [1, 2]]);
+    const font = createFont({ a: 1, b: 2, c: 3 }, 4);
+
+    it('残すグリフのアウトラインの実際のサイズを反映する', () => {
+      const small = estimateSizeFromFont(glyfFont, font, 'a', { outputFormat: 'ttf' });
+      const large = estimateSizeFromFont(glyfFont, font, 'b', { outputFormat: 'ttf' });
+
+      expect(large.estimatedSize - small.estimatedSize).toBeGreaterThanOrEqual(900);
+      expect(small.calibrated).toBe(false);
+      expect(small.errorBound).toBeGreaterThan(0);
+    });
+
+    it('複合グリフが参照するグリフを含める', () => {
+      const composite = estimateSizeFromFont(glyfFont, font, 'c', { outputFormat: 'ttf' });
+      const withComponents = estimateSizeFromFont(glyfFont, font, 'abc', { outputFormat: 'ttf' });
+
+      expect(composite.estimatedSize).toBe(withComponents.estimatedSize);
+    });
+
+    it('削除されるテーブルを除く', () => {
+      const withTables = buildGlyfFont([20, 100, 1000, [1, 2]], { DSIG: new Uint8Array(5000), kern: new Uint8Array(4000) });
+      const base = estimateSizeFromFont(glyfFont, font, 'a', { outputFormat: 'ttf' });
+      const kept = estimateSizeFromFont(withTables, font, 'a', { outputFormat: 'ttf' });
+      const dropped = estimateSizeFromFont(withTables, font, 'a', { outputFormat: 'ttf', dropTables: ['kern'] });
+
+      expect(kept.estimatedSize).toBeGreaterThan(base.estimatedSize);
+      expect(kept.estimatedSize - base.estimatedSize).toBeLessThan(5000);
+      expect(dropped.estimatedSize).toBe(base.estimatedSize);
+    });
+
+    it('WOFF2はアウトラインを圧縮した分だけ小さく見積もる', () => {
+      const ttf = estimateSizeFromFont(glyfFont, font, 'abc', { outputFormat: 'ttf' });
+      const woff2 = estimateSizeFromFont(glyfFont, font, 'abc', { outputFormat: 'woff2' });
+
+      expect(woff2.estimatedSize).toBeLessThan(ttf.estimatedSize);
+      expect(woff2.compressionRatio).toBeGreaterThan(ttf.compressionRatio);
+    });
+
+    it('CFF の CharStrings のサイズを読み取る', () => {
+      const cffFont = buildCffFont([5, 30, 600]);
+      const cmap = createFont({ a: 1, b: 2 }, 3);
+      const small = estimateSizeFromFont(cffFont, cmap, 'a', { outputFormat: 'otf' });
+      const large = estimateSizeFromFont(cffFont, cmap, 'b', { outputFormat: 'otf' });
+
+      expect(large.estimatedSize - small.estimatedSize).toBeGreaterThanOrEqual(500);
+    });
+
+    it('SFNT以外はグリフ数の比率で推定する', () => {
+      const woff = new Uint8Array(10000);
+      const estimate = estimateSizeFromFont(woff, createFont({ a: 1 }, 100), 'a', { outputFormat: 'ttf' });
+
+      expect(estimate.estimatedSize).toBe(200);
+      expect(estimate.originalSize).toBe(10000);
+    });
+  });
+
+  describe('resolveEstimationTables', () => {
+    const font = createFont({ a: 1 }, 4);
+    const hintedFont = buildGlyfFont([20, 100, 1000, [1, 2]], {
+      fpgm: new Uint8Array(3000),
+      kern: new Uint8Array(2000),
+      fvar: new Uint8Array(1000),
+    });
+    const estimateWith = (options: Parameters<typeof resolveEstimationTables>[0]) =>
+      estimateSizeFromFont(hintedFont, font, 'a', { outputFormat: 'ttf', ...resolveEstimationTables(options, 'a') })
+        .estimatedSize;
+
+    it('ヒンティングを削除する設定では推定サイズが小さくなる', () => {
+      expect(estimateWith({ removeHinting: true })).toBeLessThan(estimateWith({}));
+      expect(estimateWith({ preserveFeatures: { ligatures: true, kerning: true, verticalMetrics: true, hinting: false } }))
+        .toBe(estimateWith({ removeHinting: true }));
+    });
+
+    it('カーニングを残さない設定では kern テーブルを除く', () => {
+      const withoutKerning = estimateWith({ preserveFeatures: { ligatures: true, kerning: false, verticalMetrics: true, hinting: true } });
+
+      expect(estimateWith({}) - withoutKerning).toBeGreaterThan(0);
+      expect(estimateWith({}) - withoutKerning).toBeLessThanOrEqual(2016);
+    });
+
+    it('軸値を固定する場合だけ可変フォントのテーブルを除く', () => {
+      expect(resolveEstimationTables({ pinVariationAxes: true, variationAxes: { wght: 700 } }, 'a').pinVariationAxes).toBe(true);
+      expect(resolveEstimationTables({ pinVariationAxes: true }, 'a').pinVariationAxes).toBe(false);
+      expect(estimateWith({ pinVariationAxes: true, variationAxes: { wght: 700 } })).toBeLessThan(estimateWith({}));
+    });
+  });
+
+  describe('selectCalibrationSample', () => {
+    it('フォントに収録された文字だけを選ぶ', () => {
+      const sample = selectCalibrationSample(createFont({ a: 1, b: 2 }, 3), 'abcz');
+
+      expect(sample).toEqual({ text: 'ab', coveredCount: 2 });
+    });
+
+    it('多い場合は上限の字数を等間隔に選ぶ', () => {
+      const chars = Array.from({ length: 1000 }, (_, i) => String.fromCodePoint(0x4e00 + i));
+      const font = createFont(Object.fromEntries(chars.map((char, i) => [char, i + 1])), 1001);
+      const sample = selectCalibrationSample(font, chars.join(''));
+
+      expect(Array.from(sample.text)).toHaveLength(CALIBRATION_SAMPLE_SIZE);
+      expect(sample.coveredCount).toBe(1000);
+      expect(sample.text.startsWith(chars[0])).toBe(true);
+    });
+  });
+
+  describe('calibrateSizeEstimate', () => {
+    it('サンプルが文字セット全体なら実測値を誤差なしで返す', () => {
+      const result = calibrateSizeEstimate(estimateOf(3000, 900), estimateOf(3000, 900), { text: 'ab', coveredCount: 2 }, 2500);
+
+      expect(result.estimatedSize).toBe(2500);
+      expect(result.errorBound).toBe(0);
+      expect(result.calibrated).toBe(true);
+    });
+
+    it('サンプルの推定値と実測値の比で全体を補正する', () => {
+      const result = calibrateSizeEstimate(estimateOf(10000, 3000), estimateOf(1000, 300), { text: 'ab', coveredCount: 4 }, 1500);
+
+      expect(result.estimatedSize).toBe(15000);
+      expect(result.errorBound).toBe(3000); // 半分を外挿するため ±20%
+      expect(result.calibrated).toBe(true);
+    });
+  });
+
+  describe('formatSizeEstimate', () => {
+    it('誤差幅を併記する', () => {
+      expect(formatSizeEstimate(estimateOf(2048, 512))).toBe('2 KB（±512 B）');
+      expect(formatSizeEstimate(estimateOf(2048, 0))).toBe('2 KB');
+    });
+  });
+});
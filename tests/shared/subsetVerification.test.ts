@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTableChecksum,
+  findChecksumMismatches,
+  findEmptyGlyphs,
+  getExpectedCodePoints,
+  verifySubsetFont,
+  VerificationFontSource,
+} from '@shared/subsetVerification';
+import { buildSfnt as buildSfntFixture } from '../helpers/sfnt';
+
+// チェックサムは実データから計算する
+const buildSfnt = (tables: Record<string, Uint8Array>) => buildSfntFixture(tables, { checksum: calculateTableChecksum });
+
+/**
+ * コードポイントとグリフ（空かどうか）の対応からフォントのモックを作成
+ */
+function createFont(glyphs: Record<number, boolean>, tables: string[] = ['glyf']): VerificationFontSource {
+  return {
+    glyphForCodePoint: (codePoint: number) => codePoint in glyphs
+      ? { id: codePoint, path: { commands: glyphs[codePoint] ? [] : ['moveTo'] } }
+      : { id: 0, path: { commands: ['moveTo'] } },
+    directory: { tables: Object.fromEntries(tables.map(tag => [tag, {}])) },
+  };
+}
+
+// 要求文字すべてにアウトラインがある元フォント
+const source: VerificationFontSource = {
+  glyphForCodePoint: (codePoint: number) => ({ id: codePoint, path: { commands: ['moveTo'] } }),
+};
+
+describe('subsetVerification', () => {
+  describe('calculateTableChecksum', () => {
+    it('4バイト単位で加算し、端数は0で埋める', () => {
+      expect(calculateTableChecksum(new Uint8Array([0, 0, 0, 1, 0, 0, 0, 2]))).toBe(3);
+      expect(calculateTableChecksum(new Uint8Array([1]))).toBe(0x01000000);
+      expect(calculateTableChecksum(new Uint8Array([0xFF, 0xFF, 0xFF, 0xFF, 0, 0, 0, 2]))).toBe(1);
+    });
+  });
+
+  describe('findChecksumMismatches', () => {
+    it('データが書き換えられたテーブルを検出する', () => {
+      const sfnt = buildSfnt({ glyf: new Uint8Array([1, 2, 3, 4, 5]), loca: new Uint8Array([0, 4]) });
+      expect(findChecksumMismatches(sfnt)).toEqual([]);
+
+      sfnt[sfnt.length - 4] ^= 0xFF; // loca の先頭バイト
+      expect(findChecksumMismatches(sfnt)).toEqual(['loca']);
+    });
+
+    it('head は checkSumAdjustment を除外して計算する', () => {
+      const head = new Uint8Array(54);
+      head[0] = 1;
+      const sfnt = buildSfnt({ head });
+      sfnt[12 + 16 + 8] = 0xAB; // checkSumAdjustment
+      expect(findChecksumMismatches(sfnt)).toEqual([]);
+    });
+
+    it('不完全なデータはエラーにする', () => {
+      expect(() => findChecksumMismatches(new Uint8Array(4))).toThrow('SFNT形式のフォントではありません');
+
+      const sfnt = buildSfnt({ glyf: new Uint8Array([1, 2, 3, 4]) });
+      expect(() => findChecksumMismatches(sfnt.subarray(0, sfnt.length - 4))).toThrow('テーブル glyf がファイルの範囲外です');
+    });
+  });
+
+  describe('findEmptyGlyphs', () => {
+    it('.notdef と空のグリフに割り当てられた文字を返す', () => {
+      const font = createFont({ 0x41: false, 0x42: true });
+      expect(findEmptyGlyphs(font, [0x41, 0x42, 0x43], source)).toEqual([0x42, 0x43]);
+    });
+
+    it('空白や異体字セレクタはアウトラインが空でもよい', () => {
+      const font = createFont({ 0x20: true, 0x3000: true, 0xFE0F: true });
+      expect(findEmptyGlyphs(font, [0x20, 0x3000, 0xFE0F], source)).toEqual([]);
+    });
+
+    it('カラーフォントは割り当てのみ確認する', () => {
+      const font = createFont({ 0x1F600: true }, ['CBDT', 'CBLC']);
+      expect(findEmptyGlyphs(font, [0x1F600, 0x1F601], source)).toEqual([0x1F601]);
+    });
+
+    it('元フォントでもアウトラインが空のグリフは割り当てのみ確認する', () => {
+      const font = createFont({ 0x41: true, 0x42: true });
+      const sourceFont = createFont({ 0x41: true, 0x42: false });
+      expect(findEmptyGlyphs(font, [0x41, 0x42], sourceFont)).toEqual([0x42]);
+    });
+  });
+
+  describe('getExpectedCodePoints', () => {
+    it('元フォントに収録されていた要求文字のみを重複なく返す', () => {
+      expect(getExpectedCodePoints('ABA漢', [0x41, 0x42])).toEqual([0x41, 0x42]);
+    });
+  });
+
+  describe('verifySubsetFont', () => {
+    it('問題を日本語の説明にまとめる', () => {
+      const sfnt = buildSfnt({ glyf: new Uint8Array([1, 2, 3, 4]) });
+      sfnt[sfnt.length - 1] = 9;
+      const result = verifySubsetFont(sfnt, createFont({ 0x41: false }), [0x41, 0x6F22], source);
+
+      expect(result.valid).toBe(false);
+      expect(result.checksumMismatches).toEqual(['glyf']);
+      expect(result.emptyGlyphs).toEqual([0x6F22]);
+      expect(result.issues).toEqual([
+        'テーブルのチェックサムが一致しません: glyf',
+        'グリフが欠落している文字があります: U+6F22 (漢)',
+      ]);
+    });
+
+    it('問題がなければ valid を返す', () => {
+      const sfnt = buildSfnt({ glyf: new Uint8Array([1, 2, 3, 4]) });
+      expect(verifySubsetFont(sfnt, createFont({ 0x41: false }), [0x41], source).valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  decodeHtmlEntities,
+  extractCharactersFromSources,
+  extractFromHtml,
+  extractFromJson,
+  extractFromJsx,
+  extractFromMarkdown,
+  extractFromPo,
+  extractFromVue,
+  isIgnoredTextSourceDirectory,
+  isTextSourceFile,
+  toCharacterSet,
+} from '@shared/textExtraction';
+
+// 抽出結果を空白区切りの1つの文字列にまとめる
+const joinTexts = (texts: string[]) => texts.join(' ').replace(/\s+/g, ' ').trim();
+
+describe('textExtraction', () => {
+  describe('isTextSourceFile / isIgnoredTextSourceDirectory', () => {
+    it('対応する拡張子のみを対象とし、設定ファイルは除外する', () => {
+      expect(isTextSourceFile('index.html')).toBe(true);
+      expect(isTextSourceFile('src/App.TSX')).toBe(true);
+      expect(isTextSourceFile('locales/ja.json')).toBe(true);
+      expect(isTextSourceFile('messages.po')).toBe(true);
+      expect(isTextSourceFile('style.css')).toBe(false);
+      expect(isTextSourceFile('main.ts')).toBe(false);
+      expect(isTextSourceFile('package.json')).toBe(false);
+      expect(isTextSourceFile('app/tsconfig.json')).toBe(false);
+    });
+
+    it('node_modules や隠しディレクトリを読み飛ばす', () => {
+      expect(isIgnoredTextSourceDirectory('node_modules')).toBe(true);
+      expect(isIgnoredTextSourceDirectory('.git')).toBe(true);
+      expect(isIgnoredTextSourceDirectory('content')).toBe(false);
+    });
+  });
+
+  describe('decodeHtmlEntities', () => {
+    it('名前付き・数値文字参照を展開する', () => {
+      expect(decodeHtmlEntities('&lt;東京&gt; &amp; &#x5927;&#38442;')).toBe('<東京> & 大阪');
+      expect(decodeHtmlEntities('&unknown;')).toBe('&unknown;');
+    });
+  });
+
+  describe('extractFromHtml', () => {
+    it('テキストと表示される属性値を抽出し、script・style・コメントを除外する', () => {
+      const html = `
+        <html><head><title>会社概要</title><style>.a { content: "装飾"; }</style></head>
+        <body>
+          <!-- 非表示のコメント -->
+          <img src="logo.png" alt="ロゴ画像" class="見えない">
+          <p>ようこそ&nbsp;皆様</p>
+          <script>const secret = '秘密';</script>
+        </body></html>`;
+      const text = joinTexts(extractFromHtml(html));
+
+      expect(text).toContain('会社概要');
+      expect(text).toContain('ロゴ画像');
+      expect(text).toContain('ようこそ');
+      expect(text).toContain('皆様');
+      expect(text).not.toContain('装飾');
+      expect(text).not.toContain('コメント');
+      expect(text).not.toContain('秘密');
+      expect(text).not.toContain('見えない');
+    });
+  });
+
+  describe('extractFromJsx', () => {
+    it('JSXテキストと文字列リテラルを抽出し、import・className・コメントを除外する', () => {
+      const code = `
+        import styles from './見出し.module.css';
+        // 開発者向けのメモ
+        export function Greeting({ name }: { name: string }) {
+          const label = count > 0 ? '件あります' : "ありません";
+          return (
+            <section className="挨拶">
+              <h1 title="見出しの説明">こんにちは、{name}さん</h1>
+              <img alt="写真" src={photo} />
+            </section>
+          );
+        }`;
+      const text = joinTexts(extractFromJsx(code));
+
+      expect(text).toContain('こんにちは、');
+      expect(text).toContain('さん');
+      expect(text).toContain('件あります');
+      expect(text).toContain('ありません');
+      expect(text).toContain('見出しの説明');
+      expect(text).toContain('写真');
+      expect(text).not.toContain('module');
+      expect(text).not.toContain('開発者');
+      expect(text).not.toContain('挨拶');
+    });
+  });
+
+  describe('extractFromJson', () => {
+    it('ネストした値のみを抽出する', () => {
+      const json = JSON.stringify({ nav: { home: 'ホーム', items: ['製品', { label: '採用' }] }, count: 3 });
+      expect(extractFromJson(json)).toEqual(['ホーム', '製品', '採用']);
+    });
+
+    it('不正なJSONでは例外を投げる', () => {
+      expect(() => extractFromJson('{ "a": ')).toThrow();
+    });
+  });
+
+  describe('extractFromVue', () => {
+    it('template・script・i18n ブロックから抽出し、{{ }} 内の式を除外する', () => {
+      const source = `
+        <template><p>{{ formatDate(日付) }} 更新のお知らせ</p></template>
+        <script setup>const title = 'お問い合わせ'</script>
+        <i18n>{"ja": {"submit": "送信"}}</i18n>
+        <style>.a { color: red }</style>`;
+      const text = joinTexts(extractFromVue(source));
+
+      expect(text).toContain('更新のお知らせ');
+      expect(text).toContain('お問い合わせ');
+      expect(text).toContain('送信');
+      expect(text).not.toContain('日付');
+    });
+  });
+
+  describe('extractFromMarkdown', () => {
+    it('本文とリンクテキストを抽出し、コード・URL・記法の記号を除外する', () => {
+      const markdown = [
+        '---',
+        'title: 利用規約',
+        '---',
+        '# 第一条',
+        '',
+        '本規約は[当社](https://example.com)のサービスに適用されます。',
+        '',
+        '```js',
+        "const 変数 = '無視';",
+        '```',
+        '',
+        '- **重要** な項目',
+      ].join('\n');
+      const text = joinTexts(extractFromMarkdown(markdown));
+
+      expect(text).toContain('利用規約');
+      expect(text).toContain('第一条');
+      expect(text).toContain('当社');
+      expect(text).toContain('重要');
+      expect(text).not.toContain('title');
+      expect(text).not.toContain('example');
+      expect(text).not.toContain('無視');
+      expect(text).not.toMatch(/[#*]/);
+    });
+  });
+
+  describe('extractFromPo', () => {
+    it('msgid・msgstr を抽出し、ヘッダーと msgctxt を除外する', () => {
+      const po = [
+        'msgid ""',
+        'msgstr ""',
+        '"Content-Type: text/plain; charset=UTF-8\\n"',
+        '',
+        '# 翻訳者コメント',
+        'msgctxt "menu"',
+        'msgid "Save"',
+        'msgstr "保存"',
+        '',
+        'msgid "Line"',
+        'msgstr ""',
+        '"複数行の"',
+        '"訳文"',
+      ].join('\n');
+      const texts = extractFromPo(po).filter(text => text !== '');
+
+      expect(texts).toEqual(['Save', '保存', 'Line', '複数行の', '訳文']);
+    });
+  });
+
+  describe('toCharacterSet', () => {
+    it('重複と制御文字を除いた文字セットを返す', () => {
+      expect(toCharacterSet(['あいう\n', '\tいうえ'])).toBe('あいうえ');
+    });
+  });
+
+  describe('extractCharactersFromSources', () => {
+    it('複数ファイルの文字をまとめ、解析できないファイルを記録する', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const result = extractCharactersFromSources([
+        { fileName: 'index.html', content: '<p>日本語</p>' },
+        { fileName: 'locales/ja.json', content: '{"a": "本語版"}' },
+        { fileName: 'broken.json', content: '{' },
+      ]);
+      warn.mockRestore();
+
+      // タグの境界は空白になる（空白もフォントに必要な文字として残す）
+      expect(result.characters).toBe(' 日本語版');
+      expect(result.fileCount).toBe(2);
+      expect(result.skippedFiles).toEqual(['broken.json']);
+    });
+  });
+});
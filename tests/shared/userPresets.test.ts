@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  USER_PRESET_FILE_FORMAT,
+  createUserPreset,
+  getUserPresetCharacterCount,
+  isUserPresetId,
+  mergeUserPresets,
+  parseUserPresetFile,
+  serializeUserPresets,
+  validateUserPreset,
+} from '@shared/userPresets';
+import { buildCharacterSetExpression, toCharacterSetSelection } from '@shared/presets';
+
+describe('userPresets', () => {
+  const createPreset = (name = 'サイト用') =>
+    createUserPreset(name, {
+      characterSetExpression: { basePreset: 'minimum', addText: '製品' },
+      outputFormat: 'woff2',
+      variationAxes: { wght: 700 },
+      pinVariationAxes: true,
+    });
+
+  describe('createUserPreset', () => {
+    it('組み込みプリセットと衝突しないIDを付ける', () => {
+      const preset = createPreset('  サイト用  ');
+
+      expect(isUserPresetId(preset.id)).toBe(true);
+      expect(isUserPresetId('hiragana')).toBe(false);
+      expect(preset.name).toBe('サイト用');
+      expect(preset.createdAt).toBe(preset.updatedAt);
+      expect(createPreset().id).not.toBe(preset.id);
+    });
+
+    it('追加・除外を適用した文字数を数える', () => {
+      const preset = createUserPreset('数字', {
+        characterSetExpression: { addText: '0123456789', excludeText: '0' },
+      });
+
+      expect(getUserPresetCharacterCount(preset)).toBe(9);
+    });
+  });
+
+  describe('serializeUserPresets / parseUserPresetFile', () => {
+    it('書き出したファイルを読み込むと同じプリセットに戻る', () => {
+      const presets = [createPreset('A'), createPreset('B')];
+      const json = serializeUserPresets(presets);
+
+      expect(JSON.parse(json).format).toBe(USER_PRESET_FILE_FORMAT);
+      expect(parseUserPresetFile(json)).toEqual(presets);
+    });
+
+    it('JSONでないファイルや形式・バージョンの異なるファイルを拒否する', () => {
+      expect(() => parseUserPresetFile('{')).toThrow('JSONとして読み込めません');
+      expect(() => parseUserPresetFile(JSON.stringify({ presets: [] }))).toThrow('プリセットファイルではありません');
+      expect(() => parseUserPresetFile(JSON.stringify({ format: USER_PRESET_FILE_FORMAT, version: 99, presets: [] })))
+        .toThrow('対応していないプリセットファイルのバージョンです');
+    });
+  });
+
+  describe('validateUserPreset', () => {
+    it('不正なプリセットを拒否する', () => {
+      const preset = createPreset();
+
+      expect(() => validateUserPreset({ ...preset, id: 'hiragana' })).toThrow('IDが不正です');
+      expect(() => validateUserPreset({ ...preset, name: ' ' })).toThrow('プリセット名がありません');
+      expect(() => validateUserPreset({ ...preset, characterSetExpression: {} })).toThrow('文字セットが空です');
+      expect(() => validateUserPreset({ ...preset, characterSetExpression: { basePreset: 'unknown' } })).toThrow();
+      expect(() => validateUserPreset({ ...preset, outputFormat: 'eot' })).toThrow('無効な出力形式です');
+      expect(() => validateUserPreset({ ...preset, variationAxes: { wght: 'bold' } })).toThrow('軸の固定値が不正です');
+      expect(() => validateUserPreset({ ...preset, variationAxisRanges: { wght: { min: 100, max: 900 } } })).toThrow('軸の範囲が不正です');
+      expect(() => validateUserPreset({ ...preset, variationAxisRanges: { wght: { min: 700, default: 400, max: 900 } } }))
+        .toThrow('軸の範囲が不正です');
+    });
+
+    it('軸の範囲を保持する', () => {
+      const preset = createUserPreset('範囲', {
+        characterSetExpression: { basePreset: 'minimum' },
+        pinVariationAxes: false,
+        variationAxisRanges: { wght: { min: 300, default: 400, max: 700 } },
+      });
+
+      expect(validateUserPreset(JSON.parse(JSON.stringify(preset)))).toEqual(preset);
+    });
+  });
+
+  describe('mergeUserPresets', () => {
+    it('同じIDは上書きし、新しいプリセットを末尾に追加する', () => {
+      const a = createPreset('A');
+      const b = createPreset('B');
+      const c = createPreset('C');
+      const updatedA = { ...a, name: 'A2' };
+
+      expect(mergeUserPresets([a, b], [updatedA, c])).toEqual([updatedA, b, c]);
+    });
+  });
+
+  describe('toCharacterSetSelection', () => {
+    it('保存した文字セットの指定を選択状態に戻せる', () => {
+      const modifiers = { addSets: ['ascii'], addText: '製品', excludeRanges: 'U+FF61-FF9F', excludeText: '' };
+
+      const preset = buildCharacterSetExpression('joyo-jis1', '', modifiers);
+      expect(toCharacterSetSelection(preset)).toEqual({ selectedPreset: 'joyo-jis1', customCharacters: '', modifiers });
+
+      const custom = buildCharacterSetExpression('custom', 'あいう', { ...modifiers, addText: '' });
+      expect(toCharacterSetSelection(custom)).toEqual({
+        selectedPreset: 'custom',
+        customCharacters: 'あいう',
+        modifiers: { ...modifiers, addText: '' },
+      });
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BatchQueue, BatchJobOptions, BatchJobResult, BatchWorker } from '../../src/main/services/batchQueue';
+import { CancellationManager } from '../../src/main/services/cancellationManager';
+import type { BatchJobUpdate, BatchSubmission, ProgressState } from '../../src/shared/types';
+
+/**
+ * 呼び出し側で完了させるまで待機するワーカーのモック
+ */
+class FakeWorker implements BatchWorker {
+  runs: { options: BatchJobOptions; resolve: (result: BatchJobResult) => void; reject: (error: Error) => void; onProgress: (progress: ProgressState) => void }[] = [];
+  terminated = false;
+
+  run(options: BatchJobOptions, onProgress: (progress: ProgressState) => void): Promise<BatchJobResult> {
+    return new Promise((resolve, reject) => {
+      this.runs.push({ options, resolve, reject, onProgress });
+    });
+  }
+
+  async terminate(): Promise<void> {
+    this.terminated = true;
+  }
+}
+
+function createQueue() {
+  const workers: FakeWorker[] = [];
+  const cancellation = new CancellationManager();
+  const queue = new BatchQueue(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker;
+  }, cancellation);
+  const updates: BatchJobUpdate[] = [];
+  return { queue, workers, cancellation, updates, onUpdate: (update: BatchJobUpdate) => updates.push(update) };
+}
+
+const submission = (count: number, concurrency = 2): BatchSubmission => ({
+  files: Array.from({ length: count }, (_, i) => ({ inputPath: `/fonts/font${i + 1}.ttf` })),
+  outputDirectory: '/out',
+  options: { preset: 'hiragana', outputFormat: 'woff2' },
+  concurrency,
+});
+
+const result = (outputPath: string): BatchJobResult => ({ outputPaths: [outputPath], originalSize: 1000, outputSize: 200 });
+
+const statusOf = (updates: BatchJobUpdate[], jobId: string) =>
+  updates.filter(update => update.jobId === jobId).pop()?.status;
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('BatchQueue', () => {
+  it('同時処理数までのワーカーでジョブを処理する', async () => {
+    const { queue, workers, updates, onUpdate } = createQueue();
+    const jobs = queue.submit(submission(3), onUpdate);
+
+    expect(jobs.map(job => job.outputPath)).toEqual([
+      '/out/font1_subset.woff2',
+      '/out/font2_subset.woff2',
+      '/out/font3_subset.woff2',
+    ]);
+    expect(workers).toHaveLength(2);
+    expect(statusOf(updates, jobs[2].id)).toBe('pending');
+
+    workers[0].runs[0].resolve(result(jobs[0].outputPath));
+    await flush();
+
+    // 空いたワーカーを再利用して次のジョブを処理する
+    expect(workers).toHaveLength(2);
+    expect(workers[0].runs[1].options.inputPath).toBe('/fonts/font3.ttf');
+    expect(statusOf(updates, jobs[0].id)).toBe('completed');
+    expect(statusOf(updates, jobs[2].id)).toBe('processing');
+  });
+
+  it('ジョブごとの進捗を通知する', () => {
+    const { queue, workers, updates, onUpdate } = createQueue();
+    const [job] = queue.submit(submission(1), onUpdate);
+
+    workers[0].runs[0].onProgress({
+      phase: 'subsetting',
+      progress: 30,
+      currentFile: job.inputPath,
+      totalFiles: 1,
+      processedFiles: 0,
+      estimatedTime: 10,
+      errors: [],
+    });
+
+    expect(updates[updates.length - 1]).toMatchObject({ jobId: job.id, status: 'processing', progress: { phase: 'subsetting', progress: 30 } });
+  });
+
+  it('待機中のジョブのキャンセルはキューから取り除く', () => {
+    const { queue, workers, updates, onUpdate } = createQueue();
+    const jobs = queue.submit(submission(3, 1), onUpdate);
+
+    queue.cancel(jobs[2].id);
+
+    expect(statusOf(updates, jobs[2].id)).toBe('cancelled');
+    expect(workers[0].terminated).toBe(false);
+  });
+
+  it('実行中のジョブのキャンセルはワーカーを停止して次のジョブに進む', async () => {
+    const { queue, workers, updates, cancellation, onUpdate } = createQueue();
+    const jobs = queue.submit(submission(2, 1), onUpdate);
+
+    queue.cancel(jobs[0].id);
+
+    expect(statusOf(updates, jobs[0].id)).toBe('cancelled');
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].runs[0].options.inputPath).toBe('/fonts/font2.ttf');
+    expect(cancellation.isCancelled(jobs[0].id)).toBe(false);
+
+    // 停止したワーカーの結果は無視する
+    workers[0].runs[0].reject(new Error('terminated'));
+    await flush();
+    expect(statusOf(updates, jobs[0].id)).toBe('cancelled');
+  });
+
+  it('キャンセルしたジョブの一時フォルダを書きかけの出力ごと削除する', async () => {
+    const outputDirectory = mkdtempSync(join(tmpdir(), 'batch-queue-'));
+    try {
+      const { queue, workers, onUpdate } = createQueue();
+      const [job] = queue.submit({ ...submission(1), outputDirectory }, onUpdate);
+      const { temporaryDirectory } = workers[0].runs[0].options;
+      expect(temporaryDirectory).toBe(join(outputDirectory, `.fontminify-${job.id}`));
+      mkdirSync(temporaryDirectory);
+      writeFileSync(join(temporaryDirectory, 'font1_subset.woff2'), 'partial');
+
+      queue.cancel(job.id);
+
+      await vi.waitFor(() => expect(existsSync(temporaryDirectory)).toBe(false));
+    } finally {
+      rmSync(outputDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('全体のキャンセルは次に投入したバッチに持ち越さない', () => {
+    const { queue, updates, cancellation, onUpdate } = createQueue();
+    const cancelled = queue.submit(submission(1), onUpdate);
+    cancellation.cancel();
+    expect(statusOf(updates, cancelled[0].id)).toBe('cancelled');
+
+    const jobs = queue.submit(submission(1), onUpdate);
+
+    expect(cancellation.isCancelled()).toBe(false);
+    expect(statusOf(updates, jobs[0].id)).toBe('processing');
+  });
+
+  it('ウィンドウ単位のキャンセルでそのウィンドウのジョブをすべて止める', () => {
+    const { queue, updates, cancellation, onUpdate } = createQueue();
+    const own = queue.submit(submission(2), onUpdate, 1);
+    const other = queue.submit(submission(1), onUpdate, 2);
+
+    cancellation.cancel(1);
+
+    expect(own.map(job => statusOf(updates, job.id))).toEqual(['cancelled', 'cancelled']);
+    expect(statusOf(updates, other[0].id)).toBe('processing');
+  });
+
+  it('失敗したジョブはエラーにしてワーカーを作り直す', async () => {
+    const { queue, workers, updates, onUpdate } = createQueue();
+    const jobs = queue.submit(submission(2, 1), onUpdate);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    workers[0].runs[0].reject(new Error('フォントが壊れています'));
+    await flush();
+
+    const failed = updates.filter(update => update.jobId === jobs[0].id).pop();
+    expect(failed?.status).toBe('error');
+    expect(failed?.error).toBe('フォントが壊れています');
+    expect(failed?.progress.errors).toHaveLength(1);
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].runs[0].options.inputPath).toBe('/fonts/font2.ttf');
+  });
+
+  it('フォントが指定されていない場合はエラーにする', () => {
+    const { queue, onUpdate } = createQueue();
+
+    expect(() => queue.submit(submission(0), onUpdate)).toThrow('処理するフォントが指定されていません');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { subsetFont } from '../../src/main/services/fontSubsetter';
+import { ErrorType, FontMinifyError } from '../../src/shared/errors';
+import type { ProgressState } from '../../src/shared/types';
+
+describe('サブセット化のキャンセル', () => {
+  it('キャンセル済みならフォントを読み込まずに中断する', async () => {
+    const progress: ProgressState[] = [];
+    const isCancelled = vi.fn(() => true);
+
+    const error = await subsetFont(
+      { inputPath: '/fonts/missing.ttf', preset: 'hiragana', outputFormat: 'woff2' },
+      state => progress.push(state),
+      isCancelled
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(FontMinifyError);
+    expect(error.type).toBe(ErrorType.CANCELLED);
+    expect(isCancelled).toHaveBeenCalled();
+    // キャンセルはエラーとして進捗に載せない
+    expect(progress.every(state => state.errors.length === 0)).toBe(true);
+  });
+
+  it('キャンセルされていなければ通常どおり処理する', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const error = await subsetFont(
+      { inputPath: '/fonts/missing.ttf', preset: 'hiragana', outputFormat: 'woff2' },
+      () => {},
+      () => false
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toContain('フォントサブセット化に失敗しました');
+  });
+});
@@ -213,6 +213,36 @@ describe('fontAnalyzer (Web版)', () => {
 
       expect(result.format).toBe('ttc')
       expect(result.fontFamily).toBe('Font A')
+      expect(result.faceIndex).toBe(0)
+      expect(result.faces).toEqual([
+        { index: 0, postscriptName: '', fontFamily: 'Font A', fontSubfamily: 'Regular', glyphCount: 100 },
+        { index: 1, postscriptName: '', fontFamily: 'Font B', fontSubfamily: 'Bold', glyphCount: 100 }
+      ])
+    })
+
+    it('指定した書体を解析する', async () => {
+      mockFontkit.create.mockReturnValue({
+        fonts: [
+          { familyName: 'Font A', subfamilyName: 'Regular', numGlyphs: 100 },
+          { familyName: 'Font B', subfamilyName: 'Bold', numGlyphs: 200 }
+        ]
+      } as any)
+
+      const result = await analyzeFont(new Uint8Array(100), 'collection.otc', 1)
+
+      expect(result.format).toBe('ttc')
+      expect(result.faceIndex).toBe(1)
+      expect(result.fontFamily).toBe('Font B')
+      expect(result.glyphCount).toBe(200)
+    })
+
+    it('単体フォントには書体一覧を含めない', async () => {
+      mockFontkit.create.mockReturnValue({ familyName: 'Single', numGlyphs: 10 } as any)
+
+      const result = await analyzeFont(new Uint8Array(100), 'single.ttf')
+
+      expect(result.faces).toBeUndefined()
+      expect(result.faceIndex).toBeUndefined()
     })
   })
 
@@ -284,12 +314,17 @@ describe('fontAnalyzer (Web版)', () => {
   })
 
   describe('文字範囲情報', () => {
-    it('デフォルトの文字範囲情報を含む', async () => {
+    it('cmapの収録文字からUnicodeブロックを集計する', async () => {
       const mockFont = {
         familyName: 'Test Font',
         subfamilyName: 'Regular',
         version: '1.0',
-        numGlyphs: 500
+        numGlyphs: 500,
+        // A-Z と「あいう」
+        characterSet: [
+          ...Array.from({ length: 26 }, (_, i) => 0x41 + i),
+          0x3042, 0x3044, 0x3046,
+        ],
       }
 
       mockFontkit.create.mockReturnValue(mockFont as any)
@@ -297,9 +332,6 @@ describe('fontAnalyzer (Web版)', () => {
       const data = new Uint8Array(100)
       const result = await analyzeFont(data, 'test.ttf')
 
-      expect(result.characterRanges).toBeDefined()
-      expect(result.characterRanges.length).toBeGreaterThan(0)
-
       // Basic Latinを含むか確認
       const basicLatin = result.characterRanges.find(
         r => r.name === 'Basic Latin'
@@ -307,10 +339,49 @@ describe('fontAnalyzer (Web版)', () => {
       expect(basicLatin).toBeDefined()
       expect(basicLatin!.start).toBe(0x0000)
       expect(basicLatin!.end).toBe(0x007f)
+      expect(basicLatin!.count).toBe(26)
 
       // Hiraganaを含むか確認
       const hiragana = result.characterRanges.find(r => r.name === 'Hiragana')
-      expect(hiragana).toBeDefined()
+      expect(hiragana?.count).toBe(3)
+
+      // 収録のないブロックは含まない
+      expect(result.characterRanges.find(r => r.name === 'Katakana')).toBeUndefined()
+    })
+
+    it('GSUB/GPOSから機能と対応言語を取得する', async () => {
+      const mockFont = {
+        familyName: 'Test Font',
+        numGlyphs: 500,
+        characterSet: [0x41],
+        availableFeatures: ['vert', 'kern', 'palt'],
+        GSUB: {
+          scriptList: [
+            { tag: 'kana', script: { langSysRecords: [{ tag: 'JAN ' }] } },
+            { tag: 'hani', script: { langSysRecords: [{ tag: 'KOR ' }, { tag: 'ZHS ' }] } },
+          ],
+        },
+      }
+
+      mockFontkit.create.mockReturnValue(mockFont as any)
+
+      const result = await analyzeFont(new Uint8Array(100), 'test.ttf')
+
+      expect(result.features.map(f => f.tag)).toEqual(['kern', 'palt', 'vert'])
+      expect(result.features[0].name).toBe('カーニング')
+      expect(result.languages).toEqual(expect.arrayContaining(['ja', 'ko', 'zh', 'zh-Hans']))
+    })
+
+    it('解析に失敗した場合は文字範囲・言語を空にする', async () => {
+      mockFontkit.create.mockImplementation(() => {
+        throw new Error('Invalid font')
+      })
+
+      const result = await analyzeFont(new Uint8Array(100), 'test.ttf')
+
+      expect(result.characterRanges).toEqual([])
+      expect(result.features).toEqual([])
+      expect(result.languages).toEqual([])
     })
   })
 })
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { FontMinifyError, ErrorType } from '../../src/shared/errors'
+import { FontMinifyError, ErrorType, isCancelledError } from '../../src/shared/errors'
 import type {
   WorkerResponse,
   AnalyzeResult,
@@ -246,4 +246,180 @@ describe('FontProcessor', () => {
       expect(terminateSpy).toHaveBeenCalled()
     })
   })
+
+  describe('Workerプール', () => {
+    // 応答を呼び出し側で返すWorkerのモック
+    class PoolWorker {
+      onmessage: ((event: MessageEvent) => void) | null = null
+      onerror: ((event: ErrorEvent) => void) | null = null
+      posted: any[] = []
+      terminated = false
+
+      postMessage(data: any): void {
+        this.posted.push(data)
+      }
+
+      respond(type: WorkerResponse['type'], id: string, payload: unknown = {}): void {
+        this.onmessage?.(new MessageEvent('message', { data: { type, id, payload } }))
+      }
+
+      warmup(): void {
+        this.respond('result', this.posted[0].id)
+      }
+
+      lastRequest(): any {
+        return this.posted[this.posted.length - 1]
+      }
+
+      terminate(): void {
+        this.terminated = true
+      }
+    }
+
+    const createPool = async (poolSize: number) => {
+      const { FontProcessor } = await import('../../src/web/services/fontProcessor')
+      const workers: PoolWorker[] = []
+      const processor = new FontProcessor(() => {
+        const worker = new PoolWorker()
+        workers.push(worker)
+        return worker as unknown as Worker
+      }, poolSize)
+      return { processor, workers }
+    }
+
+    const estimate = (processor: { estimateSize: (...args: any[]) => Promise<unknown> }) =>
+      processor.estimateSize(new Uint8Array(10), 'test.ttf', 'あ', 'woff2')
+
+    it('WASMの読み込みが終わるまでリクエストを割り当てない', async () => {
+      const { processor, workers } = await createPool(2)
+      const request = estimate(processor)
+
+      expect(workers).toHaveLength(1)
+      expect(workers[0].posted.map(message => message.type)).toEqual(['warmup'])
+
+      workers[0].warmup()
+      expect(workers[0].lastRequest().type).toBe('estimate')
+
+      workers[0].respond('result', workers[0].lastRequest().id, { estimate: { estimatedSize: 100 } })
+      await expect(request).resolves.toEqual({ estimatedSize: 100 })
+    })
+
+    it('リクエストを複数のWorkerに振り分ける', async () => {
+      const { processor, workers } = await createPool(2)
+      estimate(processor)
+      estimate(processor)
+
+      expect(workers).toHaveLength(2)
+      workers.forEach(worker => worker.warmup())
+
+      expect(workers[0].lastRequest().type).toBe('estimate')
+      expect(workers[1].lastRequest().type).toBe('estimate')
+      expect(processor.getQueueState()).toEqual({ workerCount: 2, busyWorkers: 2, queuedRequests: 0 })
+    })
+
+    it('空いているWorkerがなければキューで待たせる', async () => {
+      const { processor, workers } = await createPool(1)
+      const states: number[] = []
+      processor.subscribe(state => states.push(state.queuedRequests))
+      workers[0].warmup()
+
+      const first = estimate(processor)
+      estimate(processor)
+      expect(processor.getQueueState().queuedRequests).toBe(1)
+
+      const firstId = workers[0].lastRequest().id
+      workers[0].respond('result', firstId, { estimate: { estimatedSize: 1 } })
+      await first
+
+      expect(workers[0].lastRequest().id).not.toBe(firstId)
+      expect(processor.getQueueState().queuedRequests).toBe(0)
+      expect(states).toContain(1)
+    })
+
+    it('異常終了したWorkerを作り直し、そのWorkerのリクエストだけを失敗させる', async () => {
+      const { processor, workers } = await createPool(2)
+      const crashed = estimate(processor)
+      const survived = estimate(processor)
+      workers.forEach(worker => worker.warmup())
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      workers[0].onerror?.(new ErrorEvent('error', { message: 'out of memory' }))
+
+      await expect(crashed).rejects.toThrow('Workerエラー: out of memory')
+      expect(workers[0].terminated).toBe(true)
+      expect(workers).toHaveLength(3)
+      expect(workers[2].posted[0].type).toBe('warmup')
+
+      workers[1].respond('result', workers[1].lastRequest().id, { estimate: { estimatedSize: 2 } })
+      await expect(survived).resolves.toEqual({ estimatedSize: 2 })
+    })
+
+    it('割り当て前のリクエストのキャンセルはキューから取り除く', async () => {
+      const { processor, workers } = await createPool(1)
+      workers[0].warmup()
+      estimate(processor)
+      const queued = estimate(processor)
+
+      // 割り当て待ちのリクエストIDはキューから取得する
+      processor.cancelProcessing((processor as any).queue[0].id)
+
+      await expect(queued).rejects.toThrow('処理がキャンセルされました')
+      expect(processor.getQueueState().queuedRequests).toBe(0)
+      expect(workers[0].posted.some(message => message.type === 'cancel')).toBe(false)
+    })
+
+    it('Workerがキャンセルに応答すればそのWorkerを使い続ける', async () => {
+      const { processor, workers } = await createPool(1)
+      workers[0].warmup()
+      const request = processor.subsetFont(new Uint8Array(10), 'test.ttf', 'あ', 'woff2', undefined, { requestId: 'job-1' })
+
+      processor.cancelProcessing('job-1')
+      expect(workers[0].lastRequest()).toEqual({ type: 'cancel', id: 'job-1', payload: {} })
+      workers[0].respond('cancelled', 'job-1')
+
+      const error = await request.catch(e => e)
+      expect(error.type).toBe(ErrorType.CANCELLED)
+      expect(workers[0].terminated).toBe(false)
+    })
+
+    it('terminate()で処理中・割り当て待ちのリクエストをキャンセル扱いで拒否する', async () => {
+      const { processor, workers } = await createPool(1)
+      workers[0].warmup()
+      const active = estimate(processor)
+      const queued = estimate(processor)
+
+      processor.terminate()
+
+      expect(isCancelledError(await active.catch(e => e))).toBe(true)
+      expect(isCancelledError(await queued.catch(e => e))).toBe(true)
+      expect(workers[0].terminated).toBe(true)
+      expect(processor.getQueueState()).toEqual({ workerCount: 0, busyWorkers: 0, queuedRequests: 0 })
+    })
+
+    it('WASM実行中で応答しないWorkerはキャンセル時に停止して作り直す', async () => {
+      vi.useFakeTimers()
+      try {
+        const { processor, workers } = await createPool(1)
+        workers[0].warmup()
+        const request = processor.subsetFont(new Uint8Array(10), 'test.ttf', 'あ', 'woff2', undefined, { requestId: 'job-1' })
+        const next = estimate(processor)
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        processor.cancelProcessing('job-1')
+        vi.advanceTimersByTime(1000)
+
+        expect(isCancelledError(await request.catch(e => e))).toBe(true)
+        expect(workers[0].terminated).toBe(true)
+        expect(workers).toHaveLength(2)
+
+        // 作り直したWorkerで待機中のリクエストを処理する
+        workers[1].warmup()
+        expect(workers[1].lastRequest().type).toBe('estimate')
+        workers[1].respond('result', workers[1].lastRequest().id, { estimate: { estimatedSize: 3 } })
+        await expect(next).resolves.toEqual({ estimatedSize: 3 })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
 })
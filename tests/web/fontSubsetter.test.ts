@@ -18,6 +18,12 @@ vi.mock('../../src/lib/woff2Encoder', () => ({
   })
 }))
 
+// subsetVerifierをモック（WASMモックの出力はフォントとして解析できないため）
+vi.mock('../../src/lib/subsetVerifier', () => ({
+  getSourceCodePoints: vi.fn().mockImplementation(async (_data: Uint8Array, _faceIndex?: number, fontCodePoints?: number[]) => fontCodePoints ?? []),
+  verifySubsetOutput: vi.fn().mockResolvedValue({ valid: true, checksumMismatches: [], emptyGlyphs: [], issues: [] })
+}))
+
 describe('fontSubsetter (Web版)', () => {
   let mockExports: any
 
@@ -43,6 +49,12 @@ describe('fontSubsetter (Web版)', () => {
       hb_subset_input_destroy: vi.fn(),
       hb_subset_input_unicode_set: vi.fn().mockReturnValue(5),
       hb_set_add: vi.fn(),
+      hb_set_del: vi.fn(),
+      hb_set_clear: vi.fn(),
+      hb_set_invert: vi.fn(),
+      hb_subset_input_set: vi.fn().mockImplementation((_input: number, setType: number) => 100 + setType),
+      hb_subset_input_get_flags: vi.fn().mockReturnValue(0),
+      hb_subset_input_set_flags: vi.fn(),
       hb_subset_or_fail: vi.fn().mockReturnValue(6),
       hb_subset_input_pin_axis_location: vi.fn().mockReturnValue(1)
     }
@@ -241,6 +253,64 @@ describe('fontSubsetter (Web版)', () => {
         // WASMモックの制限でエラーが出る可能性がある
       }
     })
+
+    it('機能保持設定をレイアウト機能セット・削除テーブル・フラグに反映する', async () => {
+      vi.resetModules()
+
+      // afterEachで元に戻されるため再設定
+      ;(WebAssembly as any).instantiate = mockWasmInstantiate
+      mockWasmInstantiate.mockResolvedValue({
+        instance: { exports: mockExports }
+      })
+
+      const { subsetFont } = await import('../../src/lib/fontSubsetter')
+      const tag = (str: string) => str.split('').reduce((a, ch) => (a << 8) + ch.charCodeAt(0), 0)
+
+      await subsetFont(new Uint8Array(1000), {
+        text: 'あ',
+        outputFormat: 'ttf',
+        fileName: 'test.ttf',
+        preserveFeatures: { kerning: false, ligatures: true, hinting: false, verticalMetrics: true },
+        featureTags: { palt: false }
+      })
+
+      // レイアウト機能セット(6)を全機能にしてから除外タグを削除
+      expect(mockExports.hb_set_invert).toHaveBeenCalledWith(106)
+      const dropped = mockExports.hb_set_del.mock.calls.map((call: any[]) => call[1])
+      expect(dropped).toContain(tag('kern'))
+      expect(dropped).toContain(tag('palt'))
+      expect(dropped).not.toContain(tag('vert'))
+      expect(dropped).not.toContain(tag('liga'))
+
+      // 削除テーブルセット(3)にkernテーブルを追加
+      expect(mockExports.hb_set_add).toHaveBeenCalledWith(103, tag('kern'))
+
+      // HB_SUBSET_FLAGS_NO_HINTING
+      expect(mockExports.hb_subset_input_set_flags).toHaveBeenCalledWith(4, 0x1)
+    })
+
+    it('元フォントのcmapを指定すると結果に未収録文字を含める', async () => {
+      ;(WebAssembly as any).instantiate = mockWasmInstantiate
+      mockWasmInstantiate.mockResolvedValue({
+        instance: { exports: mockExports }
+      })
+
+      const { subsetFont } = await import('../../src/lib/fontSubsetter')
+
+      const result = await subsetFont(new Uint8Array(1000), {
+        text: 'あいA',
+        outputFormat: 'ttf',
+        fileName: 'test.ttf',
+        fontCodePoints: [0x3042, 0x41]
+      })
+
+      expect(result.coverage).toEqual({
+        requestedCount: 3,
+        coveredCount: 2,
+        missingCount: 1,
+        missing: [{ category: 'hiragana', characters: 'い' }]
+      })
+    })
   })
 })
 
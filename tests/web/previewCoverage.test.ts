@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { readPreviewCodePoints } from '../../src/lib/previewCoverage'
+
+// fontkitをモック
+vi.mock('fontkit', () => ({
+  default: {
+    create: vi.fn()
+  }
+}))
+
+import fontkit from 'fontkit'
+const mockFontkit = vi.mocked(fontkit)
+
+describe('previewCoverage (Web版)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('出力したフォントの cmap から収録文字を読み取る', async () => {
+    const data = new Uint8Array([0x77, 0x4F, 0x46, 0x32])
+    mockFontkit.create.mockReturnValue({ characterSet: [0x42, 0x41] } as any)
+
+    expect(await readPreviewCodePoints([{ data }])).toEqual([0x41, 0x42])
+    expect(mockFontkit.create).toHaveBeenCalledWith(data)
+  })
+
+  it('分割出力は全チャンクの cmap をまとめる', async () => {
+    mockFontkit.create
+      .mockReturnValueOnce({ characterSet: [0x3042, 0x41] } as any)
+      .mockReturnValueOnce({ characterSet: [0x6F22, 0x41] } as any)
+
+    const sources = [
+      { data: new Uint8Array(4), unicodeRange: 'U+41,U+3042' },
+      { data: new Uint8Array(4), unicodeRange: 'U+6F22' }
+    ]
+    expect(await readPreviewCodePoints(sources)).toEqual([0x41, 0x3042, 0x6F22])
+  })
+})
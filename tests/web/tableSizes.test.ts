@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { encodeToWoff } from '../../src/lib/woffEncoder'
+import { getTableSizes, sortTableSizes } from '../../src/lib/tableSizes'
+import { buildSfnt } from '../helpers/sfnt'
+
+/**
+ * WOFF2 のヘッダーとテーブルディレクトリだけを作成（テーブルデータは含めない）
+ */
+function buildWoff2Directory(entries: number[][], compressedSize: number): Uint8Array {
+  const directory = entries.flat()
+  const woff2 = new Uint8Array(48 + directory.length)
+  const view = new DataView(woff2.buffer)
+  view.setUint32(0, 0x774F4632)
+  view.setUint32(4, 0x00010000)
+  view.setUint32(8, woff2.length)
+  view.setUint16(12, entries.length)
+  view.setUint32(20, compressedSize)
+  woff2.set(directory, 48)
+  return woff2
+}
+
+describe('tableSizes', () => {
+  const glyf = new Uint8Array(400).fill(7)
+  const head = new Uint8Array([1, 2, 3, 4, 5, 6, 7])
+
+  it('SFNT のテーブルごとのサイズを読み取る', () => {
+    const sfnt = buildSfnt({ glyf, head })
+
+    expect(getTableSizes(sfnt)).toEqual({
+      format: 'sfnt',
+      fileSize: sfnt.length,
+      tables: [
+        { tag: 'glyf', length: 400, storedLength: 400 },
+        { tag: 'head', length: 7, storedLength: 7 }
+      ]
+    })
+  })
+
+  it('WOFF は圧縮後のサイズと展開後のサイズを読み取る', async () => {
+    const woff = await encodeToWoff(buildSfnt({ glyf, head }))
+    const breakdown = getTableSizes(woff)
+
+    expect(breakdown.format).toBe('woff')
+    expect(breakdown.tables.map(table => table.tag)).toEqual(['glyf', 'head'])
+    expect(breakdown.tables[0].length).toBe(400)
+    expect(breakdown.tables[0].storedLength).toBeLessThan(400)
+    // 圧縮で大きくなるテーブルはそのまま格納される
+    expect(breakdown.tables[1]).toEqual({ tag: 'head', length: 7, storedLength: 7 })
+  })
+
+  it('WOFF2 は変換後のサイズと Brotli 圧縮後の全体のサイズを読み取る', () => {
+    const woff2 = buildWoff2Directory([
+      [10, 0x83, 0x10, 0x81, 0x48], // glyf（変換あり）: 400 → 200
+      [11, 0x81, 0x12, 0x00], // loca（変換あり）: 146 → 0
+      [1, 54], // head（変換なし）
+      [0xc0 | 11, 0x81, 0x12], // loca（変換バージョン3は変換なし）
+      [0x3f, 0x5a, 0x61, 0x70, 0x66, 0x05] // 番号のないタグ
+    ], 123)
+
+    expect(getTableSizes(woff2)).toEqual({
+      format: 'woff2',
+      fileSize: woff2.length,
+      compressedSize: 123,
+      tables: [
+        { tag: 'glyf', length: 400, storedLength: 200, transformed: true },
+        { tag: 'loca', length: 146, storedLength: 0, transformed: true },
+        { tag: 'head', length: 54, storedLength: 54 },
+        { tag: 'loca', length: 146, storedLength: 146 },
+        { tag: 'Zapf', length: 5, storedLength: 5 }
+      ]
+    })
+  })
+
+  it('フォント以外のデータはエラーにする', () => {
+    expect(() => getTableSizes(new Uint8Array(64))).toThrow('フォントファイルとして認識できません')
+  })
+
+  it('ファイル内のサイズの大きい順、またはタグ順に並べる', () => {
+    const tables = [
+      { tag: 'head', length: 54, storedLength: 54 },
+      { tag: 'GSUB', length: 900, storedLength: 900 },
+      { tag: 'glyf', length: 2000, storedLength: 900 }
+    ]
+
+    expect(sortTableSizes(tables, 'size').map(table => table.tag)).toEqual(['GSUB', 'glyf', 'head'])
+    expect(sortTableSizes(tables, 'tag').map(table => table.tag)).toEqual(['GSUB', 'glyf', 'head'])
+    expect(tables[0].tag).toBe('head')
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  collectTextSourcesFromDataTransfer,
+  collectTextSourcesFromFileList
+} from '../../src/web/services/textSourceHandler'
+
+// webkitRelativePath 付きのファイル（<input webkitdirectory> の選択結果）
+const createRelativeFile = (path: string) => {
+  const file = new File(['テキスト'], path.split('/').pop()!)
+  Object.defineProperty(file, 'webkitRelativePath', { value: path })
+  return file
+}
+
+// FileSystemEntry の最小限のモック
+const createFileEntry = (fullPath: string): FileSystemEntry => ({
+  isFile: true,
+  isDirectory: false,
+  name: fullPath.split('/').pop()!,
+  fullPath,
+  file: (resolve: (file: File) => void) => resolve(new File(['テキスト'], fullPath.split('/').pop()!))
+}) as unknown as FileSystemEntry
+
+const createDirectoryEntry = (fullPath: string, children: FileSystemEntry[]): FileSystemEntry => ({
+  isFile: false,
+  isDirectory: true,
+  name: fullPath.split('/').pop()!,
+  fullPath,
+  createReader: () => {
+    let read = false
+    return {
+      readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+        resolve(read ? [] : children)
+        read = true
+      }
+    }
+  }
+}) as unknown as FileSystemEntry
+
+const createDataTransferItems = (entries: FileSystemEntry[]) =>
+  entries.map(entry => ({ webkitGetAsEntry: () => entry })) as unknown as DataTransferItemList
+
+describe('textSourceHandler', () => {
+  describe('collectTextSourcesFromFileList', () => {
+    it('配下の除外フォルダは除き、選択したフォルダ自体は名前に関わらず対象にする', () => {
+      const files = collectTextSourcesFromFileList([
+        createRelativeFile('dist/index.html'),
+        createRelativeFile('dist/node_modules/lib/readme.md'),
+        createRelativeFile('dist/docs/guide.md'),
+        createRelativeFile('dist/docs/build/out.html')
+      ])
+
+      expect(files.map(({ path }) => path)).toEqual(['dist/index.html', 'dist/docs/guide.md'])
+    })
+  })
+
+  describe('collectTextSourcesFromDataTransfer', () => {
+    it('ドロップされたフォルダ自体は除外せず、配下の除外フォルダだけを除く', async () => {
+      const root = createDirectoryEntry('/build', [
+        createFileEntry('/build/index.html'),
+        createDirectoryEntry('/build/node_modules', [createFileEntry('/build/node_modules/readme.md')]),
+        createDirectoryEntry('/build/docs', [createFileEntry('/build/docs/guide.md')])
+      ])
+
+      const files = await collectTextSourcesFromDataTransfer(createDataTransferItems([root]))
+
+      expect(files.map(({ path }) => path)).toEqual(['build/index.html', 'build/docs/guide.md'])
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toCodePoints,
+  toUnicodeRange,
+  orderByFrequency,
+  splitIntoChunks
+} from '../../src/lib/unicodeRange'
+
+describe('unicodeRange', () => {
+  describe('toUnicodeRange', () => {
+    it('連続するコードポイントを範囲にまとめる', () => {
+      expect(toUnicodeRange([0x41, 0x42, 0x43, 0x3042])).toBe('U+41-43, U+3042')
+    })
+
+    it('順不同・重複ありの入力を正規化する', () => {
+      expect(toUnicodeRange([0x3044, 0x3042, 0x3043, 0x3042, 0x20])).toBe('U+20, U+3042-3044')
+    })
+
+    it('補助面の文字を扱える', () => {
+      expect(toUnicodeRange(toCodePoints('𠀋😀'))).toBe('U+1F600, U+2000B')
+    })
+
+    it('空の入力では空文字を返す', () => {
+      expect(toUnicodeRange([])).toBe('')
+    })
+  })
+
+  describe('orderByFrequency', () => {
+    it('かな・英数字を常用漢字より、常用漢字をその他の漢字より前に並べる', () => {
+      // 鰯: JIS第1水準（常用外）, 愛: 常用漢字
+      expect(orderByFrequency('鰯愛あA')).toEqual(['あ', 'A', '愛', '鰯'])
+    })
+
+    it('漢字を出現頻度の高い順に並べる', () => {
+      // 日・国は最頻出、議・愛の順に頻度が下がる
+      expect(orderByFrequency('愛議国日')).toEqual(['日', '国', '議', '愛'])
+    })
+
+    it('重複を除去する', () => {
+      expect(orderByFrequency('ああいい')).toEqual(['あ', 'い'])
+    })
+  })
+
+  describe('splitIntoChunks', () => {
+    it('文字セットを指定数のチャンクに分割する', () => {
+      const chunks = splitIntoChunks('あいうえおかきくけこ', 3)
+
+      expect(chunks).toHaveLength(3)
+      expect(chunks.map(c => c.index)).toEqual([0, 1, 2])
+      expect(chunks.map(c => c.characters).join('')).toBe('あいうえおかきくけこ')
+      expect(chunks[0].unicodeRange).toBe('U+3042, U+3044, U+3046, U+3048')
+    })
+
+    it('文字数より多い分割数は文字数に丸める', () => {
+      expect(splitIntoChunks('あい', 10)).toHaveLength(2)
+    })
+
+    it('頻出文字を先頭チャンクに配置する', () => {
+      const chunks = splitIntoChunks('鰯愛あA', 2)
+      expect(chunks[0].characters).toBe('あA')
+      expect(chunks[1].characters).toBe('愛鰯')
+    })
+
+    it('空の文字セットでは空配列を返す', () => {
+      expect(splitIntoChunks('', 5)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { inflateSync } from 'node:zlib'
+import { decodeWoff, encodeToWoff } from '../../src/lib/woffEncoder'
+import { buildSfnt as buildSfntFixture } from '../helpers/sfnt'
+
+// テーブルはタグ順とは逆に並べ、チェックサムは並び順から決める
+const buildSfnt = (tables: Record<string, Uint8Array>) =>
+  buildSfntFixture(tables, { reverse: true, checksum: (_data, index) => 0x1000 + index })
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i)))
+}
+
+describe('woffEncoder', () => {
+  const glyf = new Uint8Array(400).fill(7) // 圧縮が効くテーブル
+  const head = new Uint8Array([1, 2, 3, 4, 5, 6, 7]) // 圧縮で大きくなるテーブル
+
+  it('WOFFヘッダーとタグ順のテーブルディレクトリを出力する', async () => {
+    const sfnt = buildSfnt({ glyf, head })
+    const woff = await encodeToWoff(sfnt)
+    const view = new DataView(woff.buffer)
+
+    expect(readTag(view, 0)).toBe('wOFF')
+    expect(view.getUint32(4)).toBe(0x00010000)
+    expect(view.getUint32(8)).toBe(woff.length)
+    expect(view.getUint16(12)).toBe(2)
+    expect(view.getUint32(16)).toBe(sfnt.length)
+    expect(view.getUint16(20)).toBe(1)
+    expect(view.getUint32(24)).toBe(0) // メタデータなし
+
+    expect(readTag(view, 44)).toBe('glyf')
+    expect(readTag(view, 64)).toBe('head')
+  })
+
+  it('圧縮が効くテーブルはzlibで、効かないテーブルはそのまま格納する', async () => {
+    const woff = await encodeToWoff(buildSfnt({ glyf, head }))
+    const view = new DataView(woff.buffer)
+
+    const glyfOffset = view.getUint32(48)
+    const glyfCompLength = view.getUint32(52)
+    expect(glyfCompLength).toBeLessThan(glyf.length)
+    expect(view.getUint32(56)).toBe(glyf.length)
+    expect(inflateSync(woff.subarray(glyfOffset, glyfOffset + glyfCompLength))).toEqual(Buffer.from(glyf))
+
+    const headOffset = view.getUint32(68)
+    expect(headOffset % 4).toBe(0)
+    expect(view.getUint32(72)).toBe(head.length)
+    expect(view.getUint32(76)).toBe(head.length)
+    expect(woff.subarray(headOffset, headOffset + head.length)).toEqual(head)
+    // 元のチェックサムを引き継ぐ
+    expect(view.getUint32(80)).toBe(0x1000)
+  })
+
+  it('拡張メタデータをzlib圧縮して末尾に格納する', async () => {
+    const metadata = '<?xml version="1.0" encoding="UTF-8"?>\n<metadata version="1.0"><vendor name="テスト" /></metadata>'
+    const woff = await encodeToWoff(buildSfnt({ glyf, head }), { metadata })
+    const view = new DataView(woff.buffer)
+
+    const metaOffset = view.getUint32(24)
+    const metaLength = view.getUint32(28)
+    expect(metaOffset % 4).toBe(0)
+    expect(metaOffset + metaLength).toBe(woff.length)
+    expect(view.getUint32(32)).toBe(new TextEncoder().encode(metadata).length)
+    expect(inflateSync(woff.subarray(metaOffset, metaOffset + metaLength)).toString('utf8')).toBe(metadata)
+  })
+
+  it('metadata要素のないXMLや壊れたSFNTはエラーにする', async () => {
+    const sfnt = buildSfnt({ head })
+    await expect(encodeToWoff(sfnt, { metadata: '<info />' })).rejects.toThrow('WOFFエンコードに失敗しました')
+    await expect(encodeToWoff(new Uint8Array(4))).rejects.toThrow('WOFFエンコードに失敗しました')
+  })
+
+  it('展開するとタグ順に並べたテーブルとチェックサムを復元する', async () => {
+    const sfnt = await decodeWoff(await encodeToWoff(buildSfnt({ glyf, head })))
+    const view = new DataView(sfnt.buffer)
+
+    expect(view.getUint32(0)).toBe(0x00010000)
+    expect(view.getUint16(4)).toBe(2)
+    expect(readTag(view, 12)).toBe('glyf')
+    expect(view.getUint32(16)).toBe(0x1001)
+    expect(sfnt.subarray(view.getUint32(20), view.getUint32(20) + view.getUint32(24))).toEqual(glyf)
+    expect(readTag(view, 28)).toBe('head')
+    expect(view.getUint32(32)).toBe(0x1000)
+    expect(sfnt.subarray(view.getUint32(36), view.getUint32(36) + view.getUint32(40))).toEqual(head)
+  })
+
+  it('WOFF以外のデータは展開しない', async () => {
+    await expect(decodeWoff(buildSfnt({ glyf, head }))).rejects.toThrow('WOFF形式のデータではありません')
+  })
+})
@@ -0,0 +1,11 @@
+declare module 'fontverter' {
+  type FontFormat = 'sfnt' | 'truetype' | 'woff' | 'woff2';
+
+  export function detectFormat(buffer: Buffer): 'sfnt' | 'woff' | 'woff2';
+
+  export function convert(
+    buffer: Buffer,
+    toFormat: FontFormat,
+    fromFormat?: FontFormat
+  ): Promise<Buffer>;
+}
@@ -6,16 +6,30 @@ declare global {
       analyzeFont: (filePath: string) => Promise<any>;
       subsetFont: (options: any) => Promise<any>;
       compressWoff2: (fontBuffer: Buffer, options?: any) => Promise<any>;
-      estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean) => Promise<any>;
+      estimateSize: (filePath: string, characterSet: string, enableWoff2Compression?: boolean, options?: any) => Promise<any>;
+      checkCoverage: (options: any) => Promise<any>;
+      getGlyphOutlines: (filePath: string, codePoints: number[], faceIndex?: number) => Promise<any>;
+      readFontFile: (filePath: string) => Promise<Uint8Array>;
+      selectTextSources: (directory: boolean) => Promise<string[]>;
+      extractText: (paths: string[]) => Promise<any>;
+      loadUserPresets: () => Promise<any[]>;
+      saveUserPresets: (presets: any[]) => Promise<any[]>;
+      importUserPresets: () => Promise<any[]>;
+      exportUserPresets: (presets: any[]) => Promise<string | null>;
       saveFileDialog: (defaultPath: string, outputFormat: string) => Promise<string | null>;
       validateSavePath: (filePath: string) => Promise<any>;
       saveFile: (data: Buffer, defaultPath: string) => Promise<string | null>;
+      selectOutputDirectory: () => Promise<string | null>;
+      submitBatch: (submission: any) => Promise<any[]>;
+      cancelBatchJob: (jobId: string) => Promise<void>;
       cancelProcessing: () => Promise<void>;
       onProgressUpdate: (callback: (progress: any) => void) => void;
+      onBatchJobUpdate: (callback: (update: any) => void) => void;
       onError: (callback: (error: any) => void) => void;
       onProcessingCancelled: (callback: () => void) => void;
       removeProgressListener: () => void;
       removeProcessingCancelledListener: () => void;
+      removeBatchJobListener: () => void;
     };
     securityAPI: {
       sanitizeFileName: (filename: string) => string;